@@ -9,10 +9,18 @@ import { FlightStatusBoard } from './components/FlightStatusBoard';
 import { HistoricalWeatherView } from './components/HistoricalWeatherView';
 import { CronStatusMonitor } from './components/CronStatusMonitor';
 import { NotificationTray } from './components/NotificationTray';
+import { OrganizationSelector } from './components/OrganizationSelector';
+import { getSelectedOrganizationId, setSelectedOrganizationId } from './hooks/useRpc';
 
 export function App() {
   const [activeView, setActiveView] = useState<'flights' | 'history' | 'cron'>('flights');
   const [showDeveloperPanel, setShowDeveloperPanel] = useState(false);
+  const [organizationId, setOrganizationId] = useState(getSelectedOrganizationId);
+
+  const handleOrganizationChange = (id: number) => {
+    setSelectedOrganizationId(id);
+    setOrganizationId(id);
+  };
 
   const renderActiveView = () => {
     switch (activeView) {
@@ -57,6 +65,8 @@ export function App() {
           </h1>
 
           <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <OrganizationSelector organizationId={organizationId} onChange={handleOrganizationChange} />
+
             <nav style={{ display: 'flex', gap: '0.5rem' }}>
               <button
                 onClick={() => setActiveView('flights')}
@@ -126,7 +136,8 @@ export function App() {
               {showDeveloperPanel ? 'Hide Dev Controls' : 'Show Dev Controls'}
             </button>
 
-            <NotificationTray />
+            {/* Keyed by organization so switching reloads each panel's data */}
+            <NotificationTray key={organizationId} />
           </div>
         </div>
       </header>
@@ -154,11 +165,12 @@ export function App() {
                 boxShadow: '0 20px 45px -20px rgba(15, 23, 42, 0.8)',
               }}
             >
-              <TestingControls layout="overlay" onClose={() => setShowDeveloperPanel(false)} />
+              <TestingControls key={organizationId} layout="overlay" onClose={() => setShowDeveloperPanel(false)} />
             </div>
           )}
 
           <section
+            key={organizationId}
             style={{
               borderRadius: activeView === 'history' ? '0.75rem' : '0',
               backgroundColor: activeView === 'history' ? '#f9fafb' : 'transparent',
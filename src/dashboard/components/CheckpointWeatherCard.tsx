@@ -92,6 +92,24 @@ export function CheckpointWeatherCard({
           >
             {snapshot.location}
           </span>
+          {(snapshot.provider === 'synthetic' || snapshot.provider === 'fixture') && (
+            <span
+              className="provider-badge"
+              title="Demo data - not a real forecast"
+              style={{
+                padding: '0.125rem 0.375rem',
+                borderRadius: '0.375rem',
+                fontSize: '0.6875rem',
+                fontWeight: 600,
+                backgroundColor: '#f3e8ff',
+                color: '#7c3aed',
+                border: '1px solid #ddd6fe',
+                textTransform: 'uppercase',
+              }}
+            >
+              {snapshot.provider}
+            </span>
+          )}
         </div>
 
         {staleness.warning && (
@@ -146,6 +164,7 @@ export function CheckpointWeatherCard({
             }}
           >
             {snapshot.wind_speed} kt
+            {snapshot.gust_speed !== null && ` G${snapshot.gust_speed}`}
             {thresholds && windSeverity.level !== 'safe' && (
               <span style={{ fontSize: '0.875rem' }}>
                 {windSeverity.level === 'breach' ? '!' : '⚠'}
@@ -240,6 +259,72 @@ export function CheckpointWeatherCard({
         </div>
       </div>
 
+      {/* Corridor Waypoints */}
+      {snapshot.waypoints && snapshot.waypoints.length > 0 && (
+        <div
+          className="corridor-waypoints"
+          style={{
+            marginTop: '0.75rem',
+            marginBottom: showTimeline ? '0.75rem' : '0',
+            paddingTop: '0.75rem',
+            borderTop: '1px solid #e5e7eb',
+          }}
+        >
+          <div
+            style={{
+              fontSize: '0.75rem',
+              fontWeight: 500,
+              color: '#6b7280',
+              marginBottom: '0.5rem',
+            }}
+          >
+            Route Waypoints
+          </div>
+          {snapshot.waypoints.map((waypoint) => {
+            const breached =
+              thresholds &&
+              (getWindSpeedSeverity(waypoint.wind_speed, thresholds.maxWind).level === 'breach' ||
+                getVisibilitySeverity(waypoint.visibility, thresholds.minVisibility).level === 'breach' ||
+                getCeilingSeverity(waypoint.ceiling, thresholds.minCeiling).level === 'breach');
+
+            return (
+              <div
+                key={waypoint.id}
+                className="corridor-waypoint"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.75rem',
+                  padding: '0.375rem 0.5rem',
+                  borderRadius: '0.375rem',
+                  fontSize: '0.75rem',
+                  color: '#374151',
+                  backgroundColor: waypoint.is_worst ? '#fef2f2' : 'transparent',
+                  border: waypoint.is_worst ? '1px solid #fecaca' : '1px solid transparent',
+                }}
+              >
+                <span style={{ fontWeight: 600, minWidth: '2.5rem' }}>WP{waypoint.sequence}</span>
+                <span style={{ minWidth: '4.5rem' }}>{Math.round(waypoint.distance_nm)} nm</span>
+                <span style={{ minWidth: '4.5rem' }}>{formatDateTime(waypoint.eta, false)}</span>
+                <span style={{ flex: 1 }}>
+                  {waypoint.wind_speed} kt · {waypoint.visibility} mi ·{' '}
+                  {waypoint.ceiling !== null ? `${waypoint.ceiling} ft` : 'Unlimited'}
+                  {waypoint.nearest_airport && (
+                    <span style={{ marginLeft: '0.5rem', color: '#9ca3af' }}>
+                      near {waypoint.nearest_airport}
+                    </span>
+                  )}
+                </span>
+                {breached && <span style={{ color: '#ef4444', fontWeight: 600 }}>Breach</span>}
+                {waypoint.is_worst === 1 && (
+                  <span style={{ color: '#dc2626', fontWeight: 600 }}>Worst</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Timeline Metadata */}
       {showTimeline && (
         <div
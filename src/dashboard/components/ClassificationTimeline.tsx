@@ -0,0 +1,167 @@
+/**
+ * ClassificationTimeline Component
+ * Displays recorded classifications for a flight, newest first, highlighting status changes
+ */
+
+import { useState, useEffect } from 'react';
+import { useRpc } from '../hooks/useRpc';
+import { ClassificationRecord } from '../../rpc/schema';
+
+const STATUS_DISPLAY: Record<ClassificationRecord['weatherStatus'], { color: string; label: string }> = {
+  clear: { color: '#10b981', label: 'Clear' },
+  marginal: { color: '#38bdf8', label: 'Marginal' },
+  advisory: { color: '#f59e0b', label: 'Advisory' },
+  'auto-reschedule': { color: '#ef4444', label: 'Auto-Reschedule' },
+  unknown: { color: '#64748b', label: 'Unknown' },
+};
+
+interface ClassificationTimelineProps {
+  flightId: number;
+}
+
+export function ClassificationTimeline({ flightId }: ClassificationTimelineProps) {
+  const { call } = useRpc();
+  const [classifications, setClassifications] = useState<ClassificationRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { result } = await call('getClassificationHistory', { flightId, limit: 20 });
+      setClassifications(result.classifications || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load classification history';
+      setError(errorMessage);
+      console.error('Failed to load classification history:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flightId]);
+
+  const formatDateTime = (isoString: string) =>
+    new Date(isoString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  if (loading) {
+    return (
+      <div style={{ padding: '1rem', textAlign: 'center', color: '#6b7280', fontSize: '0.875rem' }}>
+        Loading classification history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        style={{
+          padding: '1rem',
+          borderRadius: '0.5rem',
+          backgroundColor: '#fef2f2',
+          color: '#dc2626',
+          fontSize: '0.875rem',
+          border: '1px solid #fecaca',
+        }}
+      >
+        Error: {error}
+      </div>
+    );
+  }
+
+  if (classifications.length === 0) {
+    return (
+      <div
+        style={{
+          padding: '1rem',
+          textAlign: 'center',
+          color: '#6b7280',
+          fontSize: '0.875rem',
+          backgroundColor: '#f9fafb',
+          borderRadius: '0.5rem',
+          border: '1px solid #e5e7eb',
+        }}
+      >
+        No classifications recorded for this flight yet.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        backgroundColor: '#f9fafb',
+        borderRadius: '0.5rem',
+        border: '1px solid #e5e7eb',
+      }}
+    >
+      <div style={{ marginBottom: '0.75rem', paddingBottom: '0.75rem', borderBottom: '2px solid #e5e7eb' }}>
+        <h3 style={{ fontSize: '1rem', fontWeight: 600, color: '#1f2937', marginBottom: '0.25rem' }}>
+          Classification History
+        </h3>
+        <p style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+          Showing {classifications.length} classification{classifications.length !== 1 ? 's' : ''}, newest first
+        </p>
+      </div>
+
+      <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {classifications.map((entry, idx) => {
+          // Entries are newest first, so the previous status is the next entry
+          const previous = classifications[idx + 1];
+          const statusChanged = previous !== undefined && previous.weatherStatus !== entry.weatherStatus;
+          const display = STATUS_DISPLAY[entry.weatherStatus];
+
+          return (
+            <li
+              key={entry.id}
+              style={{
+                padding: '0.6rem 0.75rem',
+                borderRadius: '0.5rem',
+                backgroundColor: '#ffffff',
+                border: statusChanged ? `1px solid ${display.color}` : '1px solid #e5e7eb',
+                borderLeft: `4px solid ${display.color}`,
+                fontSize: '0.8rem',
+                color: '#374151',
+              }}
+            >
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+                <span style={{ fontWeight: 600 }}>{formatDateTime(entry.createdAt)}</span>
+                <span style={{ color: display.color, fontWeight: 600 }}>
+                  {statusChanged && `${STATUS_DISPLAY[previous.weatherStatus].label} → `}
+                  {display.label}
+                </span>
+                {entry.evaluatedStatus !== entry.weatherStatus && (
+                  <span style={{ color: '#6b7280' }}>
+                    (evaluated {STATUS_DISPLAY[entry.evaluatedStatus].label})
+                  </span>
+                )}
+                <span style={{ marginLeft: 'auto', color: '#6b7280' }}>
+                  Risk {entry.riskScore} · {Math.max(0, Math.round(entry.hoursUntilDeparture))}h out
+                </span>
+              </div>
+              <p style={{ margin: '0.35rem 0 0 0' }}>{entry.reason}</p>
+              <p style={{ margin: '0.25rem 0 0 0', fontSize: '0.7rem', color: '#6b7280' }}>
+                Snapshots {entry.snapshotIds.length > 0 ? entry.snapshotIds.join(', ') : 'none'}
+                {entry.thresholdVersionId !== null && ` · Threshold version ${entry.thresholdVersionId}`}
+                {entry.thresholds &&
+                  ` · Max wind ${entry.thresholds.maxWind} kt, min visibility ${entry.thresholds.minVisibility} mi, min ceiling ${entry.thresholds.minCeiling} ft`}
+                {' · '}
+                <span title={entry.correlationId}>{entry.correlationId}</span>
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
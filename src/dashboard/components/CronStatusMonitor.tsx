@@ -20,6 +20,8 @@ interface CronRun {
   durationMs: number;
   errorCount: number;
   weatherSnapshotsCreated: number;
+  forecastCacheHits: number;
+  forecastCacheMisses: number;
   flightsAnalyzed: number;
   weatherConflictsFound: number;
   flightsRescheduled: number;
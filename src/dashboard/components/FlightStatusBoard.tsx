@@ -6,10 +6,24 @@
 import { CSSProperties, Fragment, useEffect, useMemo, useState } from 'react';
 import { useRpc } from '../hooks/useRpc';
 import { WeatherTimeline } from './WeatherTimeline';
+import { ClassificationTimeline } from './ClassificationTimeline';
 
-type WeatherStatus = 'clear' | 'advisory' | 'auto-reschedule' | 'unknown';
+type WeatherStatus = 'clear' | 'marginal' | 'advisory' | 'auto-reschedule' | 'unknown';
 
-const STATUS_ORDER: WeatherStatus[] = ['auto-reschedule', 'advisory', 'unknown', 'clear'];
+type LimitSource = 'training-level' | 'lesson-type' | 'personal' | 'override';
+
+const STATUS_ORDER: WeatherStatus[] = ['auto-reschedule', 'advisory', 'marginal', 'unknown', 'clear'];
+
+const LIMIT_SOURCE_LABELS: Record<LimitSource, string> = {
+  'training-level': '',
+  'lesson-type': ' (lesson)',
+  personal: ' (personal)',
+  override: ' (override)',
+};
+
+// Marginal breaches fall within the margin band past the limit
+const breachColor = (breached: boolean | undefined, marginal: boolean | undefined) =>
+  breached ? (marginal ? '#fbbf24' : '#f87171') : '#34d399';
 
 interface Flight {
   id: number;
@@ -22,6 +36,7 @@ interface Flight {
   arrivalAirport: string;
   status: string;
   weatherStatus: WeatherStatus;
+  lessonType: string | null;
 }
 
 interface CheckpointBreach {
@@ -31,17 +46,76 @@ interface CheckpointBreach {
     wind?: boolean;
     visibility?: boolean;
     ceiling?: boolean;
+    crosswind?: boolean;
+    gust?: boolean;
+    trend?: boolean;
+    convective?: boolean;
+    icing?: boolean;
+    precipitation?: boolean;
+    daylight?: boolean;
+    densityAltitude?: boolean;
+    requiredCeiling?: boolean;
+    requiredVisibility?: boolean;
+  };
+  marginalBreaches: {
+    wind?: boolean;
+    visibility?: boolean;
+    ceiling?: boolean;
+    crosswind?: boolean;
+    gust?: boolean;
   };
+  forecastConfidence: number;
+  riskScore: number;
   conditions: {
     windSpeed: number;
     visibility: number;
     ceiling: number | null;
+    gustSpeed: number | null;
+    crosswind: number | null;
+    runway: string | null;
+    trend: 'improving' | 'stable' | 'deteriorating';
+    hazards: string[];
+    temperature: number | null;
+    freezingLevel: number | null;
+    inDaylight: boolean | null;
+    civilDusk: string | null;
+    densityAltitude: number | null;
   };
   thresholds: {
     maxWind: number;
     minVisibility: number;
     minCeiling: number;
+    maxCrosswind: number;
+    maxGustFactor: number;
+    prohibitedHazards: string[];
+    daylightRule: 'day-only' | 'night-allowed' | 'night-required';
+    maxDensityAltitude: number | null;
+    maxCeiling: number | null;
+    maxVisibility: number | null;
+    marginBands: {
+      wind: number;
+      visibility: number;
+      ceiling: number;
+      crosswind: number;
+      gust: number;
+    };
   };
+  limitSources: Partial<Record<string, LimitSource>>;
+  aircraftBreaches: {
+    crosswind?: boolean;
+    wind?: boolean;
+    ifr?: boolean;
+    night?: boolean;
+    serviceCeiling?: boolean;
+  };
+  aircraftLimits: {
+    registration: string;
+    maxCrosswind: number | null;
+    maxWindSpeed: number | null;
+    ifrCapable: boolean;
+    nightCapable: boolean;
+    serviceCeiling: number | null;
+  } | null;
 }
 
 interface ClassificationResult {
@@ -50,6 +124,7 @@ interface ClassificationResult {
   reason: string;
   breachedCheckpoints: CheckpointBreach[];
   hoursUntilDeparture: number;
+  riskScore: number;
 }
 
 export function FlightStatusBoard() {
@@ -77,7 +152,8 @@ export function FlightStatusBoard() {
       // Load classification details for flights with weather status
       if (flightList.length > 0) {
         const flightIds = flightList.map((f: Flight) => f.id);
-        const { result: classResult } = await call('classifyFlights', { flightIds });
+        // Read-only: the cron run owns writing weather_status back to flights
+        const { result: classResult } = await call('classifyFlights', { flightIds, persist: false });
         const classMap = new Map<number, ClassificationResult>();
         classResult.results.forEach((r: ClassificationResult) => {
           classMap.set(r.flightId, r);
@@ -115,6 +191,12 @@ export function FlightStatusBoard() {
         text: 'Clear',
         border: '1px solid rgba(16, 185, 129, 0.45)',
       },
+      marginal: {
+        bg: 'rgba(56, 189, 248, 0.14)',
+        badge: '#38bdf8',
+        text: 'Marginal',
+        border: '1px solid rgba(56, 189, 248, 0.45)',
+      },
       advisory: {
         bg: 'rgba(245, 158, 11, 0.14)',
         badge: '#f59e0b',
@@ -479,6 +561,7 @@ export function FlightStatusBoard() {
                               </div>
                               <p style={{ margin: '0.4rem 0 0 0', color: '#cbd5f5', fontSize: '0.85rem' }}>
                                 {flight.studentName} with {flight.instructorName} • {flight.aircraftRegistration}
+                                {flight.lessonType && ` • ${flight.lessonType}`}
                               </p>
                             </div>
                             {classification && (
@@ -544,6 +627,19 @@ export function FlightStatusBoard() {
                                   : '≥72h window'}
                               </div>
                             </div>
+                            {classification && (
+                              <div>
+                                <span style={{ color: '#64748b', textTransform: 'uppercase', letterSpacing: '0.08em' }}>
+                                  Risk
+                                </span>
+                                <div style={{ fontSize: '0.9rem', fontWeight: 600, marginTop: '0.25rem' }}>
+                                  {classification.riskScore}
+                                </div>
+                                <div style={{ color: '#94a3b8', marginTop: '0.15rem' }}>
+                                  of 100
+                                </div>
+                              </div>
+                            )}
                           </div>
 
                           {classification && (
@@ -609,7 +705,8 @@ export function FlightStatusBoard() {
                                         textTransform: 'uppercase',
                                       }}
                                     >
-                                      Thresholds
+                                      Risk {checkpoint.riskScore} •{' '}
+                                      {Math.round(checkpoint.forecastConfidence * 100)}% confidence
                                     </span>
                                   </div>
 
@@ -626,13 +723,14 @@ export function FlightStatusBoard() {
                                       <p
                                         style={{
                                           margin: '0.25rem 0 0 0',
-                                          color: checkpoint.breaches.wind ? '#f87171' : '#34d399',
+                                          color: breachColor(checkpoint.breaches.wind, checkpoint.marginalBreaches.wind),
                                         }}
                                       >
                                         {checkpoint.conditions.windSpeed} kt
                                       </p>
                                       <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
                                         Max {checkpoint.thresholds.maxWind} kt
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.wind ?? 'training-level']}
                                       </p>
                                     </div>
                                     <div>
@@ -640,13 +738,19 @@ export function FlightStatusBoard() {
                                       <p
                                         style={{
                                           margin: '0.25rem 0 0 0',
-                                          color: checkpoint.breaches.visibility ? '#f87171' : '#34d399',
+                                          color: breachColor(
+                                            checkpoint.breaches.visibility || checkpoint.breaches.requiredVisibility,
+                                            checkpoint.marginalBreaches.visibility
+                                          ),
                                         }}
                                       >
                                         {checkpoint.conditions.visibility} mi
                                       </p>
                                       <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
                                         Min {checkpoint.thresholds.minVisibility} mi
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.visibility ?? 'training-level']}
+                                        {checkpoint.thresholds.maxVisibility !== null &&
+                                          `, below ${checkpoint.thresholds.maxVisibility} mi (lesson)`}
                                       </p>
                                     </div>
                                     <div>
@@ -654,7 +758,10 @@ export function FlightStatusBoard() {
                                       <p
                                         style={{
                                           margin: '0.25rem 0 0 0',
-                                          color: checkpoint.breaches.ceiling ? '#f87171' : '#34d399',
+                                          color: breachColor(
+                                            checkpoint.breaches.ceiling || checkpoint.breaches.requiredCeiling,
+                                            checkpoint.marginalBreaches.ceiling
+                                          ),
                                         }}
                                       >
                                         {checkpoint.conditions.ceiling === null
@@ -663,8 +770,160 @@ export function FlightStatusBoard() {
                                       </p>
                                       <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
                                         Min {checkpoint.thresholds.minCeiling} ft
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.ceiling ?? 'training-level']}
+                                        {checkpoint.thresholds.maxCeiling !== null &&
+                                          `, below ${checkpoint.thresholds.maxCeiling} ft (lesson)`}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>
+                                        Crosswind
+                                        {checkpoint.conditions.runway && ` (RWY ${checkpoint.conditions.runway})`}
+                                      </p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color: breachColor(
+                                            checkpoint.breaches.crosswind,
+                                            checkpoint.marginalBreaches.crosswind
+                                          ),
+                                        }}
+                                      >
+                                        {checkpoint.conditions.crosswind === null
+                                          ? 'N/A'
+                                          : `${checkpoint.conditions.crosswind} kt`}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        Max {checkpoint.thresholds.maxCrosswind} kt
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.crosswind ?? 'training-level']}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>Gust</p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color: breachColor(checkpoint.breaches.gust, checkpoint.marginalBreaches.gust),
+                                        }}
+                                      >
+                                        {checkpoint.conditions.gustSpeed === null
+                                          ? 'None'
+                                          : `${checkpoint.conditions.gustSpeed} kt`}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        Max +{checkpoint.thresholds.maxGustFactor} kt
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.gust ?? 'training-level']}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>Trend</p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color: checkpoint.breaches.trend ? '#f87171' : '#34d399',
+                                          textTransform: 'capitalize',
+                                        }}
+                                      >
+                                        {checkpoint.conditions.trend}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        Marginal + worsening
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>Hazards</p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color:
+                                            checkpoint.breaches.convective ||
+                                            checkpoint.breaches.icing ||
+                                            checkpoint.breaches.precipitation
+                                              ? '#f87171'
+                                              : '#34d399',
+                                          textTransform: 'capitalize',
+                                        }}
+                                      >
+                                        {checkpoint.conditions.hazards.length > 0
+                                          ? checkpoint.conditions.hazards.join(', ').replace(/-/g, ' ')
+                                          : 'None'}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        {checkpoint.conditions.freezingLevel === null
+                                          ? 'Freezing level N/A'
+                                          : `Freezing level ${checkpoint.conditions.freezingLevel} ft`}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>Daylight</p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color: checkpoint.breaches.daylight ? '#f87171' : '#34d399',
+                                        }}
+                                      >
+                                        {checkpoint.conditions.inDaylight === null
+                                          ? 'N/A'
+                                          : checkpoint.conditions.inDaylight
+                                            ? 'Day'
+                                            : 'Night'}
+                                        {checkpoint.conditions.civilDusk &&
+                                          ` (dusk ${new Date(checkpoint.conditions.civilDusk).toLocaleTimeString([], {
+                                            hour: '2-digit',
+                                            minute: '2-digit',
+                                          })})`}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        Rule: {checkpoint.thresholds.daylightRule}
+                                        {LIMIT_SOURCE_LABELS[checkpoint.limitSources.daylight ?? 'training-level']}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p style={{ margin: 0, color: '#94a3b8' }}>Density Alt</p>
+                                      <p
+                                        style={{
+                                          margin: '0.25rem 0 0 0',
+                                          color: checkpoint.breaches.densityAltitude ? '#f87171' : '#34d399',
+                                        }}
+                                      >
+                                        {checkpoint.conditions.densityAltitude === null
+                                          ? 'N/A'
+                                          : `${checkpoint.conditions.densityAltitude.toLocaleString()} ft`}
+                                      </p>
+                                      <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                        {checkpoint.thresholds.maxDensityAltitude === null
+                                          ? 'No limit'
+                                          : `Max ${checkpoint.thresholds.maxDensityAltitude.toLocaleString()} ft`}
                                       </p>
                                     </div>
+                                    {checkpoint.aircraftLimits && (
+                                      <div>
+                                        <p style={{ margin: 0, color: '#94a3b8' }}>
+                                          Aircraft {checkpoint.aircraftLimits.registration}
+                                        </p>
+                                        <p
+                                          style={{
+                                            margin: '0.25rem 0 0 0',
+                                            color: Object.values(checkpoint.aircraftBreaches).some(Boolean)
+                                              ? '#f87171'
+                                              : '#34d399',
+                                          }}
+                                        >
+                                          {Object.values(checkpoint.aircraftBreaches).some(Boolean)
+                                            ? Object.entries(checkpoint.aircraftBreaches)
+                                                .filter(([, breached]) => breached)
+                                                .map(([limit]) => (limit === 'serviceCeiling' ? 'service ceiling' : limit))
+                                                .join(', ')
+                                            : 'Within limits'}
+                                        </p>
+                                        <p style={{ margin: 0, color: '#475569', fontSize: '0.7rem' }}>
+                                          {checkpoint.aircraftLimits.maxCrosswind !== null &&
+                                            `XW ${checkpoint.aircraftLimits.maxCrosswind} kt · `}
+                                          {checkpoint.aircraftLimits.ifrCapable ? 'IFR' : 'VFR only'}
+                                          {!checkpoint.aircraftLimits.nightCapable && ' · day only'}
+                                        </p>
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
                               ))}
@@ -674,6 +933,7 @@ export function FlightStatusBoard() {
                           {isExpanded && classification && (
                             <Fragment>
                               <div style={{ borderTop: '1px solid rgba(148, 163, 184, 0.25)' }} />
+                              <ClassificationTimeline flightId={flight.id} />
                               <WeatherTimeline
                                 flightId={flight.id}
                                 departureTime={flight.departureTime}
@@ -14,6 +14,8 @@ interface CronRun {
   durationMs: number;
   errorCount: number;
   weatherSnapshotsCreated: number;
+  forecastCacheHits: number;
+  forecastCacheMisses: number;
   flightsAnalyzed: number;
   weatherConflictsFound: number;
   flightsRescheduled: number;
@@ -0,0 +1,59 @@
+/**
+ * OrganizationSelector Component
+ * Lets the dashboard switch between flight school organizations
+ */
+
+import { useState, useEffect } from 'react';
+import { useRpc } from '../hooks/useRpc';
+import { OrganizationDetail } from '../../rpc/schema';
+
+interface OrganizationSelectorProps {
+  organizationId: number;
+  onChange: (organizationId: number) => void;
+}
+
+export function OrganizationSelector({ organizationId, onChange }: OrganizationSelectorProps) {
+  const { call } = useRpc();
+  const [organizations, setOrganizations] = useState<OrganizationDetail[]>([]);
+
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        const { result } = await call('listOrganizations', {});
+        setOrganizations(result.organizations);
+      } catch (err) {
+        console.error('Failed to load organizations:', err);
+      }
+    };
+    loadOrganizations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Nothing to choose between until a second organization exists
+  if (organizations.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      value={organizationId}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label="Organization"
+      style={{
+        padding: '0.5rem 0.75rem',
+        borderRadius: '0.375rem',
+        backgroundColor: '#374151',
+        color: '#ffffff',
+        border: '1px solid rgba(148, 163, 184, 0.4)',
+        fontSize: '0.875rem',
+        cursor: 'pointer',
+      }}
+    >
+      {organizations.map((organization) => (
+        <option key={organization.id} value={organization.id}>
+          {organization.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -15,6 +15,8 @@ interface CronRun {
   durationMs: number;
   errorCount: number;
   weatherSnapshotsCreated: number;
+  forecastCacheHits: number;
+  forecastCacheMisses: number;
   flightsAnalyzed: number;
   weatherConflictsFound: number;
   flightsRescheduled: number;
@@ -111,6 +113,12 @@ export function RecentRunsTimeline({
                     <span className={styles.detailLabel}>Weather Snapshots: </span>
                     <span className={styles.detailValue}>{run.weatherSnapshotsCreated}</span>
                   </div>
+                  <div>
+                    <span className={styles.detailLabel}>Forecast Cache: </span>
+                    <span className={styles.detailValue}>
+                      {run.forecastCacheHits} hits / {run.forecastCacheMisses} fetches
+                    </span>
+                  </div>
                   <div>
                     <span className={styles.detailLabel}>Conflicts Found: </span>
                     <span className={styles.detailValue}>{run.weatherConflictsFound}</span>
@@ -5,6 +5,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { getSelectedOrganizationId } from '../hooks/useRpc';
 
 interface RescheduleAuditEntry {
   actionId: number;
@@ -57,6 +58,7 @@ export function RescheduleAuditTrail({ flightId, onClose }: RescheduleAuditTrail
         body: JSON.stringify({
           method: 'getFlightRescheduleHistory',
           params: { flightId },
+          organizationId: getSelectedOrganizationId(),
         }),
       });
 
@@ -20,10 +20,27 @@ interface CandidateSlot {
     certificationValid: boolean;
     withinTimeWindow: boolean;
     minimumSpacingMet: boolean;
+    daylightRuleMet: boolean;
+    studentAvailable: boolean;
+    forecastMinimumsMet: boolean;
   };
+  forecastRisk: {
+    weatherStatus: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule' | 'unknown';
+    riskScore: number;
+    reason: string;
+  };
+  aircraftMatch: 'same-aircraft' | 'same-type' | 'same-category' | 'different-category' | 'unknown';
   notes?: string;
 }
 
+const AIRCRAFT_MATCH_LABELS: Record<CandidateSlot['aircraftMatch'], string> = {
+  'same-aircraft': 'Same aircraft',
+  'same-type': 'Same aircraft type',
+  'same-category': 'Different type, same category',
+  'different-category': 'Different aircraft category',
+  unknown: 'Booked aircraft unknown',
+};
+
 interface RescheduleRecommendation {
   candidateIndex: number;
   aiRank: number;
@@ -89,7 +106,10 @@ export function RescheduleRecommendationCard({
     constraints.aircraftAvailable &&
     constraints.certificationValid &&
     constraints.withinTimeWindow &&
-    constraints.minimumSpacingMet;
+    constraints.minimumSpacingMet &&
+    constraints.daylightRuleMet &&
+    constraints.studentAvailable &&
+    constraints.forecastMinimumsMet;
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-4 border border-gray-200">
@@ -135,6 +155,15 @@ export function RescheduleRecommendationCard({
             <div className="font-semibold text-gray-800">
               {originalCandidate.aircraftRegistration}
             </div>
+            <div
+              className={`text-xs mt-1 ${
+                ['same-aircraft', 'same-type', 'unknown'].includes(originalCandidate.aircraftMatch)
+                  ? 'text-gray-500'
+                  : 'text-orange-600'
+              }`}
+            >
+              {AIRCRAFT_MATCH_LABELS[originalCandidate.aircraftMatch]}
+            </div>
             {originalCandidate.notes && (
               <div className="text-xs text-orange-600 mt-1">{originalCandidate.notes}</div>
             )}
@@ -187,6 +216,26 @@ export function RescheduleRecommendationCard({
               </span>
               <span className="ml-2">Minimum Spacing Met</span>
             </div>
+            <div className="flex items-center text-sm">
+              <span className={constraints.daylightRuleMet ? 'text-green-600' : 'text-red-600'}>
+                {constraints.daylightRuleMet ? '✓' : '✗'}
+              </span>
+              <span className="ml-2">Daylight Rule Met</span>
+            </div>
+            <div className="flex items-center text-sm">
+              <span className={constraints.studentAvailable ? 'text-green-600' : 'text-red-600'}>
+                {constraints.studentAvailable ? '✓' : '✗'}
+              </span>
+              <span className="ml-2">Student Available</span>
+            </div>
+            <div className="flex items-center text-sm" title={originalCandidate.forecastRisk.reason}>
+              <span className={constraints.forecastMinimumsMet ? 'text-green-600' : 'text-red-600'}>
+                {constraints.forecastMinimumsMet ? '✓' : '✗'}
+              </span>
+              <span className="ml-2">
+                Forecast {originalCandidate.forecastRisk.weatherStatus} (risk {originalCandidate.forecastRisk.riskScore})
+              </span>
+            </div>
           </div>
 
           {!allConstraintsMet && (
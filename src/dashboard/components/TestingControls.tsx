@@ -135,7 +135,7 @@ export function TestingControls({ layout = 'standalone', onClose }: TestingContr
         {}
       );
 
-      const message = `Classification complete: ${result.results.length} flights classified (Clear: ${summary.clear || 0}, Advisory: ${summary.advisory || 0}, Auto-reschedule: ${summary['auto-reschedule'] || 0}, Unknown: ${summary.unknown || 0})`;
+      const message = `Classification complete: ${result.results.length} flights classified (Clear: ${summary.clear || 0}, Marginal: ${summary.marginal || 0}, Advisory: ${summary.advisory || 0}, Auto-reschedule: ${summary['auto-reschedule'] || 0}, Unknown: ${summary.unknown || 0})`;
       showToast('success', message, correlationId);
       setLastResult(JSON.stringify(result, null, 2));
     } catch (err) {
@@ -5,9 +5,28 @@
 
 import { useState, useEffect } from 'react';
 import { useRpc } from '../hooks/useRpc';
-import { WeatherSnapshot } from '../../rpc/schema';
+import { CheckpointTrend, TrendDirection, WeatherSnapshot } from '../../rpc/schema';
 import { CheckpointWeatherCard } from './CheckpointWeatherCard';
 
+const TREND_DISPLAY: Record<TrendDirection, { arrow: string; color: string; label: string }> = {
+  improving: { arrow: '↗', color: '#10b981', label: 'Improving' },
+  stable: { arrow: '→', color: '#6b7280', label: 'Stable' },
+  deteriorating: { arrow: '↘', color: '#ef4444', label: 'Deteriorating' },
+};
+
+/**
+ * Formats per-metric rates for the trend tooltip
+ */
+function describeTrendRates(trend: CheckpointTrend): string {
+  const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  return [
+    `Wind ${signed(trend.windSpeed.ratePerHour)} kt/h`,
+    `Visibility ${signed(trend.visibility.ratePerHour)} mi/h`,
+    `Ceiling ${signed(trend.ceiling.ratePerHour)} ft/h`,
+    `${trend.sampleCount} snapshot${trend.sampleCount !== 1 ? 's' : ''}`,
+  ].join(' · ');
+}
+
 interface WeatherTimelineProps {
   flightId: number;
   departureTime: string;
@@ -25,6 +44,7 @@ export function WeatherTimeline({
 }: WeatherTimelineProps) {
   const { call } = useRpc();
   const [snapshots, setSnapshots] = useState<WeatherSnapshot[]>([]);
+  const [trends, setTrends] = useState<CheckpointTrend[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,6 +54,7 @@ export function WeatherTimeline({
     try {
       const { result } = await call('getWeatherSnapshots', { flightId, limit: 15 });
       setSnapshots(result.snapshots || []);
+      setTrends(result.trends || []);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load weather snapshots';
       setError(errorMessage);
@@ -156,6 +177,8 @@ export function WeatherTimeline({
 
         const checkpointLabel =
           checkpointType.charAt(0).toUpperCase() + checkpointType.slice(1);
+        const trend = trends.find((t) => t.checkpointType === checkpointType);
+        const trendDisplay = trend && trend.sampleCount > 1 ? TREND_DISPLAY[trend.direction] : null;
 
         return (
           <div key={checkpointType} className="checkpoint-section" style={{ marginBottom: '1.5rem' }}>
@@ -179,6 +202,19 @@ export function WeatherTimeline({
                 }}
               />
               {checkpointLabel} ({checkpointSnapshots.length})
+              {trend && trendDisplay && (
+                <span
+                  className="trend-indicator"
+                  title={describeTrendRates(trend)}
+                  style={{
+                    fontSize: '0.75rem',
+                    fontWeight: 500,
+                    color: trendDisplay.color,
+                  }}
+                >
+                  {trendDisplay.arrow} {trendDisplay.label}
+                </span>
+              )}
             </h4>
             <div className="timeline-cards">
               {checkpointSnapshots.slice(0, 5).map((snapshot) => (
@@ -7,6 +7,26 @@ import { useState } from 'react';
 import { RpcMethod, RpcMethodMap } from '../../rpc/schema';
 import { z } from 'zod';
 
+// Organization every call runs in; persisted so a reload keeps the selection
+const ORGANIZATION_STORAGE_KEY = 'airescheduler.organizationId';
+const DEFAULT_ORGANIZATION_ID = 1;
+
+/**
+ * Returns the organization selected in the dashboard
+ * Falls back to the default organization if none is stored
+ */
+export function getSelectedOrganizationId(): number {
+  const stored = Number(window.localStorage.getItem(ORGANIZATION_STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_ORGANIZATION_ID;
+}
+
+/**
+ * Stores the organization later RPC calls run in
+ */
+export function setSelectedOrganizationId(organizationId: number): void {
+  window.localStorage.setItem(ORGANIZATION_STORAGE_KEY, String(organizationId));
+}
+
 interface UseRpcState {
   loading: boolean;
   error: string | null;
@@ -30,6 +50,7 @@ interface UseRpcReturn {
 /**
  * Hook for making RPC calls to Worker backend
  * Provides loading state, error handling, and type-safe method calls
+ * Every call runs in the organization selected in the dashboard
  *
  * @example
  * const { call, loading, error } = useRpc();
@@ -55,7 +76,7 @@ export function useRpc(): UseRpcReturn {
       const response = await fetch('/rpc', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ method, params }),
+        body: JSON.stringify({ method, params, organizationId: getSelectedOrganizationId() }),
       });
 
       const data = (await response.json()) as { result?: any; error?: string; correlationId?: string };
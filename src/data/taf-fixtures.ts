@@ -0,0 +1,135 @@
+/**
+ * TAF/METAR Fixtures
+ * Raw reports used by the TAF weather provider when TAF_SOURCE=fixtures
+ *
+ * All fixtures share the same reference frame: TAFs are issued 010000Z and
+ * valid 0100/0206, METARs are observed 010000Z. The provider re-anchors them
+ * so the validity period covers the requested forecast day.
+ */
+
+export interface TafFixture {
+  taf: string;
+  metar?: string;
+}
+
+/** Issue time shared by every fixture (day 01, 00:00Z) */
+export const FIXTURE_REFERENCE_DAY = 1;
+
+export const TAF_FIXTURES: Record<string, TafFixture> = {
+  KPAO: {
+    taf: `TAF KPAO 010000Z 0100/0206 31008KT P6SM FEW045
+      FM011800 32012KT P6SM SCT060
+      FM020300 VRB03KT P6SM SKC`,
+    metar: 'METAR KPAO 010000Z 31008KT 10SM FEW045 17/08 A3004',
+  },
+  KSQL: {
+    taf: `TAF KSQL 010000Z 0100/0206 30007KT P6SM SCT050
+      FM011900 31010KT P6SM SCT055
+      FM020400 00000KT P6SM SKC`,
+  },
+  KHAF: {
+    taf: `TAF KHAF 010000Z 0100/0206 28014G22KT 5SM BR BKN012
+      TEMPO 0112/0116 3SM BR OVC008
+      FM011800 29018G26KT P6SM BKN018
+      FM020400 27010KT 4SM BR OVC010`,
+    metar: 'METAR KHAF 010000Z 28014G22KT 5SM BR BKN012 13/11 A2999',
+  },
+  KMSY: {
+    taf: `TAF KMSY 010000Z 0100/0206 16008KT 2 1/2SM BR BKN015
+      BECMG 0114/0116 18012KT 5SM SCT025
+      PROB30 0120/0124 2SM TSRA BKN020CB
+      FM020200 15006KT 3SM BR BKN012`,
+    metar: 'METAR KMSY 010000Z 16008KT 2 1/2SM BR BKN015 24/22 A3001',
+  },
+  KHOU: {
+    taf: `TAF KHOU 010000Z 0100/0206 14010KT 3SM BR SCT008 BKN020
+      BECMG 0115/0117 16012KT P6SM BKN030
+      PROB40 TEMPO 0121/0201 3SM -TSRA BKN025CB
+      FM020300 13008KT 4SM BR BKN015`,
+  },
+  KDEN: {
+    taf: `TAF KDEN 010000Z 0100/0206 27025G38KT 3SM -SN BLSN BKN022
+      TEMPO 0106/0110 1SM SN BLSN OVC010
+      FM011800 28020G32KT P6SM SCT040 BKN070
+      FM020300 29012KT P6SM FEW080`,
+    metar: 'METAR KDEN 010000Z 27025G38KT 3SM -SN BLSN BKN022 M02/M07 A2968',
+  },
+  KASE: {
+    taf: `TAF KASE 010000Z 0100/0206 25018G30KT 2SM -SHSN BR BKN018 OVC030
+      TEMPO 0108/0112 1/2SM SHSN VV005
+      FM011900 26014G24KT 5SM -SHSN BKN035
+      FM020400 VRB05KT P6SM SCT060`,
+  },
+  KSEA: {
+    taf: `TAF KSEA 010000Z 0100/0206 18010KT 4SM -DZ BR OVC012
+      TEMPO 0110/0116 2SM DZ BR OVC007
+      FM011900 20012KT P6SM -RA BKN020
+      FM020500 19008KT 5SM BR OVC015`,
+    metar: 'METAR KSEA 010000Z 18010KT 4SM -DZ BR OVC012 09/08 A2987',
+  },
+  KPDX: {
+    taf: `TAF KPDX 010000Z 0100/0206 17012KT 3SM -RA BR OVC010
+      BECMG 0118/0120 19010KT 5SM -RA BKN018
+      FM020400 16006KT 2SM BR OVC008`,
+  },
+  KORD: {
+    taf: `TAF KORD 010000Z 0100/0206 30022G34KT P6SM BKN028
+      FM011500 31024G36KT 5SM -SHSN BKN025
+      FM020200 30014G22KT P6SM SCT035`,
+    metar: 'METAR KORD 010000Z 30022G34KT 10SM BKN028 M01/M08 A2978',
+  },
+  KGRB: {
+    taf: `TAF KGRB 010000Z 0100/0206 31020G30KT 4SM -SHSN BKN026
+      TEMPO 0112/0118 1 1/2SM SHSN OVC015
+      FM020300 30012KT P6SM BKN035`,
+  },
+  KBOS: {
+    taf: `TAF KBOS 010000Z 0100/0206 04016G24KT 2 3/4SM -SN BR OVC015
+      TEMPO 0106/0112 1SM SN OVC008
+      FM011800 03014KT 4SM -SN OVC020
+      FM020300 36010KT P6SM BKN030`,
+    metar: 'METAR KBOS 010000Z 04016G24KT 2 3/4SM -SN BR OVC015 M01/M03 A2991',
+  },
+  KBTV: {
+    taf: `TAF KBTV 010000Z 0100/0206 02012KT 2 1/2SM -FZRA BR OVC014
+      TEMPO 0108/0114 1SM FZRA PL OVC008
+      FM011900 36010KT 4SM -SN OVC018
+      FM020400 34008KT P6SM BKN030`,
+  },
+  KPHX: {
+    taf: `TAF KPHX 010000Z 0100/0206 25016KT P6SM SKC
+      FM011700 26020G28KT P6SM FEW120
+      FM020300 VRB04KT P6SM SKC`,
+    metar: 'METAR KPHX 010000Z 25016KT 10SM CLR 34/02 A2985',
+  },
+  KABQ: {
+    taf: `TAF KABQ 010000Z 0100/0206 24015G25KT P6SM FEW100
+      FM011800 25018G30KT P6SM SCT120
+      FM020300 23008KT P6SM SKC`,
+  },
+  PANC: {
+    taf: `TAF PANC 010000Z 0100/0206 03012G22KT 2SM -SN FZFG BKN018 OVC035
+      TEMPO 0104/0110 3/4SM SN FZFG VV008
+      FM011800 02010KT 4SM -SN BKN025
+      FM020400 36008KT 6SM OVC030`,
+    metar: 'METAR PANC 010000Z 03012G22KT 2SM -SN FZFG BKN018 OVC035 M06/M08 A2976',
+  },
+  PAJN: {
+    taf: `TAF PAJN 010000Z 0100/0206 12018G28KT 2SM -RASN BR OVC017
+      BECMG 0112/0114 11014KT 3SM -SN BKN022
+      FM020200 10010KT 5SM -SN OVC030`,
+  },
+  KDTW: {
+    taf: `TAF KDTW 010000Z 0100/0206 28014G22KT 2 1/4SM -SN BKN019
+      TEMPO 0110/0116 3/4SM +SHSN OVC010
+      FM011900 29012KT 5SM -SN BKN025
+      FM020400 27008KT P6SM BKN035`,
+    metar: 'METAR KDTW 010000Z 28014G22KT 2 1/4SM -SN BKN019 M03/M06 A2983',
+  },
+  KCLE: {
+    taf: `TAF KCLE 010000Z 0100/0206 27014G24KT 2 1/2SM -SHSN BKN017
+      PROB30 0112/0118 1/2SM +SHSN VV006
+      FM011800 28012KT 4SM -SN BKN022
+      FM020300 26008KT P6SM BKN030`,
+  },
+};
@@ -8,8 +8,16 @@
 // TypeScript Interfaces for Database Tables
 // ========================================
 
+export interface Organization {
+  id: number;
+  code: string;
+  name: string;
+  created_at: string; // ISO 8601 datetime
+}
+
 export interface Student {
   id: number;
+  organization_id: number;
   name: string;
   training_level: 'student' | 'private' | 'instrument';
   email: string;
@@ -18,22 +26,35 @@ export interface Student {
 
 export interface Instructor {
   id: number;
+  organization_id: number;
   name: string;
   certifications: string; // JSON array of cert types
   email: string;
+  max_flights_per_day: number | null; // null = no daily limit
   created_at: string; // ISO 8601 datetime
 }
 
 export interface Aircraft {
   id: number;
+  organization_id: number;
   registration: string;
   category: 'single-engine' | 'multi-engine' | 'complex';
+  model: string | null; // type designator, e.g. C172 (NULL = unknown)
+  complex: number; // Boolean: retractable gear, flaps and controllable-pitch propeller
+  multi_engine: number; // Boolean: 0 = false, 1 = true
   status: 'available' | 'maintenance' | 'reserved';
+  max_crosswind: number | null; // knots, maximum demonstrated crosswind
+  max_wind_speed: number | null; // knots, including gusts
+  ifr_capable: number; // Boolean: 0 = false, 1 = true
+  night_capable: number; // Boolean: 0 = false, 1 = true
+  service_ceiling: number | null; // feet density altitude
   created_at: string; // ISO 8601 datetime
+  updated_at: string | null; // ISO 8601 datetime
 }
 
 export interface Flight {
   id: number;
+  organization_id: number;
   student_id: number;
   instructor_id: number;
   aircraft_id: number;
@@ -42,7 +63,9 @@ export interface Flight {
   departure_airport: string;
   arrival_airport: string;
   status: 'scheduled' | 'rescheduled' | 'completed' | 'cancelled';
-  weather_status: 'unknown' | 'clear' | 'advisory' | 'auto-reschedule';
+  weather_status: 'unknown' | 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
+  lesson_type_id: number | null; // NULL = training-level rules only
+  threshold_version_id: number | null; // threshold version of the last classification
   created_at: string; // ISO 8601 datetime
   updated_at: string; // ISO 8601 datetime
 }
@@ -54,15 +77,55 @@ export interface WeatherSnapshot {
   location: string; // airport code or coordinates
   forecast_time: string; // ISO 8601 datetime
   wind_speed: number; // knots
+  wind_direction: number | null; // degrees true (NULL if variable/unknown)
+  gust_speed: number | null; // knots (NULL if no gusts reported)
   visibility: number; // statute miles
   ceiling: number | null; // feet AGL (NULL if unlimited)
   conditions: string; // weather description
   confidence_horizon: number; // hours
+  runway: string | null; // best runway designator (NULL for corridor/unknown)
+  crosswind_component: number | null; // knots on best runway
+  headwind_component: number | null; // knots on best runway (negative = tailwind)
+  temperature: number | null; // degrees Celsius (NULL if not reported)
+  freezing_level: number | null; // feet AGL (NULL if unknown)
+  hazards: string | null; // JSON array of hazard types (NULL for legacy rows)
+  altimeter: number | null; // inches of mercury (NULL if not reported)
+  density_altitude: number | null; // feet (NULL for corridor or without temperature)
   correlation_id: string;
   etag: string | null; // ETag for HTTP caching
+  provider: 'weatherapi' | 'taf' | 'fixture' | 'synthetic' | null; // forecast provenance (NULL for legacy rows)
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface CorridorWaypoint {
+  id: number;
+  snapshot_id: number;
+  sequence: number; // 1-based, ordered from departure
+  latitude: number;
+  longitude: number;
+  distance_nm: number; // distance from departure airport
+  nearest_airport: string | null;
+  eta: string; // ISO 8601 estimated time over the waypoint
+  wind_speed: number; // knots
+  visibility: number; // statute miles
+  ceiling: number | null; // feet AGL (NULL if unlimited)
+  conditions: string;
+  is_worst: number; // 1 if this waypoint is the corridor checkpoint
   created_at: string; // ISO 8601 datetime
 }
 
+export interface Airport {
+  icao: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation_ft: number; // feet MSL
+  timezone: string; // IANA time zone
+  runways: string; // JSON array of {designator, heading, lengthFt}
+  created_at: string; // ISO 8601 datetime
+  updated_at: string; // ISO 8601 datetime
+}
+
 export interface RescheduleAction {
   id: number;
   original_flight_id: number;
@@ -84,16 +147,192 @@ export interface RescheduleAction {
 
 export interface TrainingThreshold {
   id: number;
+  organization_id: number;
+  training_level: 'student' | 'private' | 'instrument';
+  max_wind_speed: number; // knots
+  min_visibility: number; // statute miles
+  min_ceiling: number; // feet AGL
+  max_crosswind: number; // knots
+  max_gust_factor: number; // knots of gust above steady wind
+  prohibited_hazards: string; // JSON array of hazard types this level may not fly in
+  daylight_rule: 'day-only' | 'night-allowed' | 'night-required';
+  description: string | null;
+  version: number; // current version in threshold_versions
+  created_at: string; // ISO 8601 datetime
+  updated_at: string | null; // ISO 8601 datetime
+}
+
+export interface ThresholdVersion {
+  id: number;
+  organization_id: number;
   training_level: 'student' | 'private' | 'instrument';
+  version: number;
   max_wind_speed: number; // knots
   min_visibility: number; // statute miles
   min_ceiling: number; // feet AGL
+  max_crosswind: number; // knots
+  max_gust_factor: number; // knots of gust above steady wind
+  prohibited_hazards: string; // JSON array of hazard types
+  daylight_rule: 'day-only' | 'night-allowed' | 'night-required';
+  description: string | null;
+  changed_by: string;
+  change_reason: string;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface FlightClassification {
+  id: number;
+  flight_id: number;
+  weather_status: 'unknown' | 'clear' | 'marginal' | 'advisory' | 'auto-reschedule'; // after hysteresis
+  evaluated_status: 'unknown' | 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
+  reason: string;
+  risk_score: number; // 0-100
+  hours_until_departure: number;
+  snapshot_ids: string; // JSON array of weather_snapshots IDs
+  thresholds: string | null; // JSON effective thresholds
+  breached_checkpoints: string; // JSON array of checkpoint breach details
+  threshold_version_id: number | null;
+  correlation_id: string;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface Setting {
+  organization_id: number;
+  key: string;
+  value: number;
+  updated_by: string;
+  updated_at: string; // ISO 8601 datetime
+}
+
+export interface SettingChange {
+  id: number;
+  organization_id: number;
+  key: string;
+  old_value: number; // effective value before the change
+  new_value: number;
+  changed_by: string;
+  change_reason: string;
+  correlation_id: string;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface MarginBand {
+  organization_id: number;
+  metric: 'wind' | 'visibility' | 'ceiling' | 'crosswind' | 'gust';
+  band: number; // metric units past the limit (0 = every breach is hard)
+  updated_at: string; // ISO 8601 datetime
+}
+
+export interface OperatingHours {
+  organization_id: number;
+  airport: string; // ICAO code
+  open_time: string; // HH:MM local to the airport
+  close_time: string; // HH:MM local, after open_time
+  updated_at: string; // ISO 8601 datetime
+}
+
+export interface FlightClassificationState {
+  flight_id: number;
+  pending_status: 'marginal' | 'advisory' | 'auto-reschedule' | null; // NULL = no escalation pending
+  pending_count: number; // consecutive evaluations above the current status
+  last_evaluated_status: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
+  last_evaluated_at: string; // ISO 8601 datetime
+  last_snapshot_id: number; // newest weather snapshot evaluated
+}
+
+export interface WeatherStatusTransition {
+  id: number;
+  flight_id: number;
+  from_status: 'unknown' | 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
+  to_status: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
+  reason: string;
+  risk_score: number; // 0-100
+  correlation_id: string;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface StudentMinimums {
+  student_id: number;
+  max_wind_speed: number | null; // knots (NULL = training-level value)
+  min_visibility: number | null; // statute miles
+  min_ceiling: number | null; // feet AGL
+  max_crosswind: number | null; // knots
+  max_gust_factor: number | null; // knots of gust above steady wind
+  prohibited_hazards: string | null; // JSON array of hazard types
+  daylight_rule: 'day-only' | 'night-allowed' | 'night-required' | null;
+  notes: string | null;
+  created_at: string; // ISO 8601 datetime
+  updated_at: string; // ISO 8601 datetime
+}
+
+export interface StudentAvailabilityWindow {
+  id: number;
+  student_id: number;
+  day_of_week: number; // 0 = Sunday
+  start_time: string; // HH:MM local to the departure airport
+  end_time: string; // HH:MM local, after start_time
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface StudentBlackoutDate {
+  id: number;
+  student_id: number;
+  start_date: string; // YYYY-MM-DD local, inclusive
+  end_date: string; // YYYY-MM-DD local, inclusive
+  reason: string | null;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface InstructorWorkingHours {
+  id: number;
+  instructor_id: number;
+  day_of_week: number; // 0 = Sunday
+  start_time: string; // HH:MM local to the departure airport
+  end_time: string; // HH:MM local, after start_time
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface InstructorTimeOff {
+  id: number;
+  instructor_id: number;
+  start_time: string; // ISO 8601 datetime
+  end_time: string; // ISO 8601 datetime, after start_time
+  reason: string | null;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface LessonType {
+  id: number;
+  code: string;
+  name: string;
+  duration_minutes: number; // expected block time
+  is_solo: number; // Boolean: 1 = solo, 0 = dual
+  max_wind_speed: number | null; // knots (NULL = training-level value)
+  min_visibility: number | null; // statute miles
+  min_ceiling: number | null; // feet AGL
+  max_crosswind: number | null; // knots
+  max_gust_factor: number | null; // knots of gust above steady wind
+  max_ceiling: number | null; // feet AGL, lesson requires a ceiling below this
+  max_visibility: number | null; // statute miles, lesson requires visibility below this
+  daylight_rule: 'day-only' | 'night-allowed' | 'night-required' | null;
+  required_category: 'single-engine' | 'multi-engine' | 'complex' | null; // NULL = booked aircraft's category, or any with a required capability
+  requires_ifr: number; // Boolean: 1 = needs an IFR-equipped aircraft
+  requires_complex: number; // Boolean: 1 = needs a complex aircraft, in any category
+  requires_multi_engine: number; // Boolean: 1 = needs a multi-engine aircraft, in any category
+  description: string | null;
+  created_at: string; // ISO 8601 datetime
+}
+
+export interface AircraftCategoryLimit {
+  category: 'single-engine' | 'multi-engine' | 'complex';
+  max_density_altitude: number; // feet
   description: string | null;
   created_at: string; // ISO 8601 datetime
 }
 
 export interface Notification {
   id: number;
+  organization_id: number;
   flight_id: number | null;
   type: 'auto-rescheduled' | 'advisory' | 'action-required' | 'error';
   message: string;
@@ -221,72 +460,81 @@ export async function transaction(
 // ========================================
 
 /**
- * Retrieves all training thresholds
+ * Retrieves all training thresholds of an organization
  * @param client - DbClient instance
+ * @param organizationId - Organization ID
  * @returns Promise resolving to array of TrainingThreshold records
  */
 export async function getAllTrainingThresholds(
-  client: DbClient
+  client: DbClient,
+  organizationId: number
 ): Promise<TrainingThreshold[]> {
   return prepareQuery<TrainingThreshold>(
     client,
-    'SELECT * FROM training_thresholds ORDER BY max_wind_speed',
-    []
+    'SELECT * FROM training_thresholds WHERE organization_id = ? ORDER BY max_wind_speed',
+    [organizationId]
   );
 }
 
 /**
- * Retrieves threshold for a specific training level
+ * Retrieves an organization's threshold for a specific training level
  * @param client - DbClient instance
+ * @param organizationId - Organization ID
  * @param level - Training level (student, private, instrument)
  * @returns Promise resolving to TrainingThreshold or null
  */
 export async function getThresholdByLevel(
   client: DbClient,
+  organizationId: number,
   level: 'student' | 'private' | 'instrument'
 ): Promise<TrainingThreshold | null> {
   return prepareQueryOne<TrainingThreshold>(
     client,
-    'SELECT * FROM training_thresholds WHERE training_level = ?',
-    [level]
+    'SELECT * FROM training_thresholds WHERE organization_id = ? AND training_level = ?',
+    [organizationId, level]
   );
 }
 
 /**
- * Retrieves all scheduled flights within a time range
+ * Retrieves an organization's scheduled flights within a time range
  * @param client - DbClient instance
+ * @param organizationId - Organization ID
  * @param startTime - ISO 8601 datetime string
  * @param endTime - ISO 8601 datetime string
  * @returns Promise resolving to array of Flight records
  */
 export async function getFlightsByTimeRange(
   client: DbClient,
+  organizationId: number,
   startTime: string,
   endTime: string
 ): Promise<Flight[]> {
   return prepareQuery<Flight>(
     client,
     `SELECT * FROM flights
-     WHERE departure_time >= ? AND departure_time <= ?
+     WHERE organization_id = ?
+     AND departure_time >= ? AND departure_time <= ?
      AND status = 'scheduled'
      ORDER BY departure_time`,
-    [startTime, endTime]
+    [organizationId, startTime, endTime]
   );
 }
 
 /**
- * Retrieves student by ID with type safety
+ * Retrieves an organization's student by ID with type safety
  * @param client - DbClient instance
+ * @param organizationId - Organization ID
  * @param studentId - Student ID
- * @returns Promise resolving to Student or null
+ * @returns Promise resolving to Student or null (also for another organization's student)
  */
 export async function getStudentById(
   client: DbClient,
+  organizationId: number,
   studentId: number
 ): Promise<Student | null> {
   return prepareQueryOne<Student>(
     client,
-    'SELECT * FROM students WHERE id = ?',
-    [studentId]
+    'SELECT * FROM students WHERE id = ? AND organization_id = ?',
+    [studentId, organizationId]
   );
 }
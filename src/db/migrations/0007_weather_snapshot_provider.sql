@@ -0,0 +1,5 @@
+-- Migration 0007: Record forecast provenance on weather_snapshots
+-- Adds provider column so synthetic/fixture data can be told apart from real forecasts
+-- Values: 'weatherapi' | 'taf' | 'fixture' | 'synthetic' (NULL for snapshots created before this migration)
+
+ALTER TABLE weather_snapshots ADD COLUMN provider TEXT;
@@ -0,0 +1,24 @@
+-- Migration 0008: Corridor Waypoints
+-- Stores per-waypoint forecasts sampled along the great-circle route between
+-- departure and arrival. The corridor weather_snapshots row holds the worst waypoint;
+-- all sampled waypoints are linked to it so the dashboard can show where a breach occurs.
+
+CREATE TABLE corridor_waypoints (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  snapshot_id INTEGER NOT NULL,
+  sequence INTEGER NOT NULL, -- 1-based, ordered from departure
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  distance_nm REAL NOT NULL, -- distance from departure airport
+  nearest_airport TEXT,
+  eta TEXT NOT NULL, -- ISO 8601 estimated time over the waypoint
+  wind_speed REAL NOT NULL,
+  visibility REAL NOT NULL,
+  ceiling INTEGER, -- NULL if unlimited
+  conditions TEXT NOT NULL,
+  is_worst INTEGER NOT NULL DEFAULT 0, -- 1 for the waypoint used as the corridor checkpoint
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (snapshot_id) REFERENCES weather_snapshots(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_corridor_waypoints_snapshot_id ON corridor_waypoints(snapshot_id);
@@ -0,0 +1,18 @@
+-- Migration 0009: Crosswind and Gust Evaluation
+-- Stores wind direction, gusts and best-runway wind components on weather_snapshots,
+-- and adds crosswind and gust-factor limits to training_thresholds
+
+-- Weather snapshot wind detail
+ALTER TABLE weather_snapshots ADD COLUMN wind_direction INTEGER; -- degrees true, NULL if variable/unknown
+ALTER TABLE weather_snapshots ADD COLUMN gust_speed REAL; -- knots, NULL if no gusts reported
+ALTER TABLE weather_snapshots ADD COLUMN runway TEXT; -- best runway designator, NULL for corridor/unknown
+ALTER TABLE weather_snapshots ADD COLUMN crosswind_component REAL; -- knots on best runway, using gust speed when reported
+ALTER TABLE weather_snapshots ADD COLUMN headwind_component REAL; -- knots on best runway, negative for tailwind
+
+-- Training threshold limits
+ALTER TABLE training_thresholds ADD COLUMN max_crosswind REAL NOT NULL DEFAULT 10; -- knots
+ALTER TABLE training_thresholds ADD COLUMN max_gust_factor REAL NOT NULL DEFAULT 10; -- knots of gust above steady wind
+
+UPDATE training_thresholds SET max_crosswind = 8, max_gust_factor = 5 WHERE training_level = 'student';
+UPDATE training_thresholds SET max_crosswind = 12, max_gust_factor = 10 WHERE training_level = 'private';
+UPDATE training_thresholds SET max_crosswind = 15, max_gust_factor = 12 WHERE training_level = 'instrument';
@@ -0,0 +1,16 @@
+-- Migration 0010: Airports
+-- Reference data for airports used by flights: coordinates, field elevation,
+-- IANA time zone and runways. Rows are loaded from src/data/airports.csv by the
+-- loadAirports RPC (also run by seedDemoData), so this migration creates the table only.
+
+CREATE TABLE airports (
+  icao TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  elevation_ft INTEGER NOT NULL, -- field elevation, feet MSL
+  timezone TEXT NOT NULL, -- IANA time zone, e.g. America/Los_Angeles
+  runways TEXT NOT NULL, -- JSON array of {designator, heading, lengthFt}
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
@@ -0,0 +1,6 @@
+-- Migration 0011: Forecast Cache Metrics on Cron Runs
+-- Records how many checkpoint forecasts were served from the per-run forecast cache
+-- (hits) versus fetched from the weather provider (misses)
+
+ALTER TABLE cron_runs ADD COLUMN forecast_cache_hits INTEGER DEFAULT 0;
+ALTER TABLE cron_runs ADD COLUMN forecast_cache_misses INTEGER DEFAULT 0;
@@ -0,0 +1,22 @@
+-- Migration 0012: Weather Hazards
+-- Stores temperature, freezing level and extracted hazards on weather_snapshots,
+-- and the hazards each training level may not fly in on training_thresholds
+
+-- Weather snapshot hazard detail
+ALTER TABLE weather_snapshots ADD COLUMN temperature REAL; -- degrees Celsius, NULL if not reported
+ALTER TABLE weather_snapshots ADD COLUMN freezing_level INTEGER; -- feet AGL, NULL if unknown
+ALTER TABLE weather_snapshots ADD COLUMN hazards TEXT; -- JSON array of hazard types, NULL for legacy rows
+
+-- Training threshold hazard rules
+-- Hazard types: thunderstorm, freezing-precipitation, snow, icing, heavy-precipitation
+ALTER TABLE training_thresholds ADD COLUMN prohibited_hazards TEXT NOT NULL DEFAULT '[]'; -- JSON array of hazard types
+
+UPDATE training_thresholds
+SET prohibited_hazards = '["thunderstorm","freezing-precipitation","snow","icing","heavy-precipitation"]'
+WHERE training_level = 'student';
+UPDATE training_thresholds
+SET prohibited_hazards = '["thunderstorm","freezing-precipitation","icing","heavy-precipitation"]'
+WHERE training_level = 'private';
+UPDATE training_thresholds
+SET prohibited_hazards = '["thunderstorm","freezing-precipitation","icing"]'
+WHERE training_level = 'instrument';
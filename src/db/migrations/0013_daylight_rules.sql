@@ -0,0 +1,9 @@
+-- Migration 0013: Daylight Rules
+-- Adds a per-training-level daylight rule evaluated against civil twilight at the
+-- departure and arrival airports
+
+ALTER TABLE training_thresholds ADD COLUMN daylight_rule TEXT NOT NULL DEFAULT 'night-allowed'
+  CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required'));
+
+-- Pre-solo students fly between morning and evening civil twilight only
+UPDATE training_thresholds SET daylight_rule = 'day-only' WHERE training_level = 'student';
@@ -0,0 +1,20 @@
+-- Migration 0014: Density Altitude
+-- Stores the altimeter setting and computed density altitude on weather_snapshots,
+-- and adds density altitude ceilings per aircraft category
+
+ALTER TABLE weather_snapshots ADD COLUMN altimeter REAL; -- inches of mercury, NULL if not reported
+ALTER TABLE weather_snapshots ADD COLUMN density_altitude INTEGER; -- feet, NULL for corridor or without temperature
+
+-- Aircraft category limits table
+-- Highest density altitude at which each category may be scheduled
+CREATE TABLE aircraft_category_limits (
+  category TEXT PRIMARY KEY CHECK(category IN ('single-engine', 'multi-engine', 'complex')),
+  max_density_altitude INTEGER NOT NULL, -- feet
+  description TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+INSERT INTO aircraft_category_limits (category, max_density_altitude, description) VALUES
+  ('single-engine', 8000, 'Normally aspirated trainers lose climb performance quickly above 8000 ft DA'),
+  ('complex', 10000, 'Constant-speed propeller and retractable gear give more margin'),
+  ('multi-engine', 9000, 'Single-engine climb performance limits twins before the all-engine ceiling');
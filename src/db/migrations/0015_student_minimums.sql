@@ -0,0 +1,19 @@
+-- Migration 0015: Student Personal Minimums
+-- Optional per-student overrides layered over training_thresholds. Each column is
+-- NULL when the student uses the training-level value; when set, the stricter of the
+-- personal and training-level values applies.
+
+CREATE TABLE student_minimums (
+  student_id INTEGER PRIMARY KEY,
+  max_wind_speed REAL, -- knots
+  min_visibility REAL, -- statute miles
+  min_ceiling INTEGER, -- feet AGL
+  max_crosswind REAL, -- knots
+  max_gust_factor REAL, -- knots of gust above steady wind
+  prohibited_hazards TEXT, -- JSON array of hazard types, added to the training-level list
+  daylight_rule TEXT CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required')),
+  notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (student_id) REFERENCES students(id) ON DELETE CASCADE
+);
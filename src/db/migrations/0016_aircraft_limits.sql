@@ -0,0 +1,10 @@
+-- Migration 0016: Aircraft Operating Limits
+-- Per-aircraft limits checked by classification in addition to training thresholds.
+-- NULL numeric limits mean the aircraft has no limit of that kind on record.
+
+ALTER TABLE aircraft ADD COLUMN max_crosswind REAL; -- knots, maximum demonstrated crosswind
+ALTER TABLE aircraft ADD COLUMN max_wind_speed REAL; -- knots, including gusts
+ALTER TABLE aircraft ADD COLUMN ifr_capable INTEGER NOT NULL DEFAULT 0; -- Boolean: equipped and certified for IFR
+ALTER TABLE aircraft ADD COLUMN night_capable INTEGER NOT NULL DEFAULT 1; -- Boolean: equipped for night flight
+ALTER TABLE aircraft ADD COLUMN service_ceiling INTEGER; -- feet density altitude
+ALTER TABLE aircraft ADD COLUMN updated_at TEXT;
@@ -0,0 +1,47 @@
+-- Migration 0017: Lesson Types
+-- Lesson-specific weather rules linked from flights. Each threshold column is NULL
+-- when the lesson uses the training-level value; when set it replaces that value,
+-- so a lesson can tighten or relax a limit. max_ceiling and max_visibility invert
+-- the usual rule for lessons that need instrument conditions (e.g. actual IMC).
+-- Personal minimums still apply on top of the lesson values.
+
+CREATE TABLE lesson_types (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL, -- expected block time
+  is_solo INTEGER NOT NULL DEFAULT 0, -- Boolean: 1 = student flies solo, 0 = dual with instructor
+  max_wind_speed REAL, -- knots
+  min_visibility REAL, -- statute miles
+  min_ceiling INTEGER, -- feet AGL
+  max_crosswind REAL, -- knots
+  max_gust_factor REAL, -- knots of gust above steady wind
+  max_ceiling INTEGER, -- feet AGL, lesson requires a ceiling below this
+  max_visibility REAL, -- statute miles, lesson requires visibility below this
+  daylight_rule TEXT CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required')),
+  description TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+ALTER TABLE flights ADD COLUMN lesson_type_id INTEGER REFERENCES lesson_types(id); -- NULL = training-level rules only
+
+CREATE INDEX idx_flights_lesson_type ON flights(lesson_type_id);
+
+-- Pattern work stays within gliding distance of the field, so a lower ceiling is fine
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, min_ceiling, description)
+VALUES ('pattern-work', 'Pattern work', 60, 0, 1500, 'Dual takeoffs and landings in the traffic pattern');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, max_wind_speed, max_crosswind, max_gust_factor, daylight_rule, description)
+VALUES ('solo-pattern', 'Solo pattern work', 60, 1, 8, 5, 3, 'day-only', 'Supervised solo takeoffs and landings');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, description)
+VALUES ('dual-cross-country', 'Dual cross-country', 120, 0, 'Cross-country navigation with an instructor');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, min_visibility, min_ceiling, daylight_rule, description)
+VALUES ('solo-cross-country', 'Solo cross-country', 150, 1, 6.0, 4000, 'day-only', 'Solo cross-country navigation');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, daylight_rule, description)
+VALUES ('night-cross-country', 'Night cross-country', 120, 0, 'night-required', 'Dual cross-country flown after civil twilight');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, max_ceiling, description)
+VALUES ('actual-imc', 'IFR in actual IMC', 120, 0, 1500, 'Instrument training that needs a ceiling below 1500 ft');
@@ -0,0 +1,39 @@
+-- Migration 0018: Threshold Versions
+-- Versioned history of training-level thresholds. training_thresholds holds the current
+-- set; every change writes a full copy of the new set to threshold_versions along with
+-- who made it and why. Flights record the version they were last classified against.
+
+ALTER TABLE training_thresholds ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE training_thresholds ADD COLUMN updated_at TEXT; -- ISO 8601, NULL until first changed through the API
+
+CREATE TABLE threshold_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  training_level TEXT NOT NULL CHECK(training_level IN ('student', 'private', 'instrument')),
+  version INTEGER NOT NULL,
+  max_wind_speed REAL NOT NULL, -- knots
+  min_visibility REAL NOT NULL, -- statute miles
+  min_ceiling INTEGER NOT NULL, -- feet AGL
+  max_crosswind REAL NOT NULL, -- knots
+  max_gust_factor REAL NOT NULL, -- knots of gust above steady wind
+  prohibited_hazards TEXT NOT NULL, -- JSON array of hazard types
+  daylight_rule TEXT NOT NULL CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required')),
+  description TEXT,
+  changed_by TEXT NOT NULL,
+  change_reason TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE(training_level, version)
+);
+
+CREATE INDEX idx_threshold_versions_level ON threshold_versions(training_level, version DESC);
+
+-- Version 1 is the set built up by migrations 0002-0013
+INSERT INTO threshold_versions (
+  training_level, version, max_wind_speed, min_visibility, min_ceiling, max_crosswind,
+  max_gust_factor, prohibited_hazards, daylight_rule, description, changed_by, change_reason, created_at
+)
+SELECT
+  training_level, version, max_wind_speed, min_visibility, min_ceiling, max_crosswind,
+  max_gust_factor, prohibited_hazards, daylight_rule, description, 'migration', 'Initial thresholds', created_at
+FROM training_thresholds;
+
+ALTER TABLE flights ADD COLUMN threshold_version_id INTEGER REFERENCES threshold_versions(id); -- NULL until classified
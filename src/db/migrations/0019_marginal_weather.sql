@@ -0,0 +1,156 @@
+-- Migration 0019: Marginal Weather
+-- Margin bands per metric split threshold breaches into marginal (within the band past
+-- the limit) and hard breaches, and flights gain a 'marginal' weather status for
+-- low-risk breaches that do not warrant an advisory.
+
+CREATE TABLE margin_bands (
+  metric TEXT PRIMARY KEY CHECK(metric IN ('wind', 'visibility', 'ceiling', 'crosswind', 'gust')),
+  band REAL NOT NULL CHECK(band >= 0), -- metric units past the limit (knots, statute miles, feet); 0 = every breach is hard
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+INSERT INTO margin_bands (metric, band) VALUES
+  ('wind', 2),
+  ('visibility', 0.5),
+  ('ceiling', 200),
+  ('crosswind', 2),
+  ('gust', 2);
+
+-- SQLite cannot alter a CHECK constraint, so the flights table is rebuilt. D1 enforces
+-- foreign keys throughout a migration, and dropping a table that rows still reference
+-- fails, so the tables referencing flights (and corridor waypoints, which reference
+-- weather snapshots) are rebuilt against the new table first. Renaming the new tables
+-- afterwards carries the references over to the final names.
+
+CREATE TABLE flights_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  student_id INTEGER NOT NULL,
+  instructor_id INTEGER NOT NULL,
+  aircraft_id INTEGER NOT NULL,
+  departure_time TEXT NOT NULL,
+  arrival_time TEXT NOT NULL,
+  departure_airport TEXT NOT NULL,
+  arrival_airport TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK(status IN ('scheduled', 'rescheduled', 'completed', 'cancelled')),
+  weather_status TEXT DEFAULT 'unknown' CHECK(weather_status IN ('unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule')),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  lesson_type_id INTEGER REFERENCES lesson_types(id), -- NULL = training-level rules only
+  threshold_version_id INTEGER REFERENCES threshold_versions(id), -- NULL until classified
+  FOREIGN KEY (student_id) REFERENCES students(id),
+  FOREIGN KEY (instructor_id) REFERENCES instructors(id),
+  FOREIGN KEY (aircraft_id) REFERENCES aircraft(id)
+);
+
+INSERT INTO flights_new (id, student_id, instructor_id, aircraft_id, departure_time, arrival_time, departure_airport, arrival_airport, status, weather_status, created_at, updated_at, lesson_type_id, threshold_version_id)
+SELECT id, student_id, instructor_id, aircraft_id, departure_time, arrival_time, departure_airport, arrival_airport, status, weather_status, created_at, updated_at, lesson_type_id, threshold_version_id FROM flights;
+
+CREATE TABLE weather_snapshots_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  flight_id INTEGER NOT NULL,
+  checkpoint_type TEXT NOT NULL CHECK(checkpoint_type IN ('departure', 'arrival', 'corridor')),
+  location TEXT NOT NULL,
+  forecast_time TEXT NOT NULL,
+  wind_speed INTEGER NOT NULL,
+  visibility REAL NOT NULL,
+  ceiling INTEGER,
+  conditions TEXT NOT NULL,
+  confidence_horizon INTEGER NOT NULL,
+  correlation_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  etag TEXT,
+  provider TEXT,
+  wind_direction INTEGER,
+  gust_speed REAL,
+  runway TEXT,
+  crosswind_component REAL,
+  headwind_component REAL,
+  temperature REAL,
+  freezing_level INTEGER,
+  hazards TEXT,
+  altimeter REAL,
+  density_altitude INTEGER,
+  FOREIGN KEY (flight_id) REFERENCES flights_new(id)
+);
+
+INSERT INTO weather_snapshots_new (id, flight_id, checkpoint_type, location, forecast_time, wind_speed, visibility, ceiling, conditions, confidence_horizon, correlation_id, created_at, etag, provider, wind_direction, gust_speed, runway, crosswind_component, headwind_component, temperature, freezing_level, hazards, altimeter, density_altitude)
+SELECT id, flight_id, checkpoint_type, location, forecast_time, wind_speed, visibility, ceiling, conditions, confidence_horizon, correlation_id, created_at, etag, provider, wind_direction, gust_speed, runway, crosswind_component, headwind_component, temperature, freezing_level, hazards, altimeter, density_altitude FROM weather_snapshots;
+
+CREATE TABLE corridor_waypoints_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  snapshot_id INTEGER NOT NULL,
+  sequence INTEGER NOT NULL, -- 1-based, ordered from departure
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  distance_nm REAL NOT NULL, -- distance from departure airport
+  nearest_airport TEXT,
+  eta TEXT NOT NULL, -- ISO 8601 estimated time over the waypoint
+  wind_speed REAL NOT NULL,
+  visibility REAL NOT NULL,
+  ceiling INTEGER, -- NULL if unlimited
+  conditions TEXT NOT NULL,
+  is_worst INTEGER NOT NULL DEFAULT 0, -- 1 for the waypoint used as the corridor checkpoint
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (snapshot_id) REFERENCES weather_snapshots_new(id) ON DELETE CASCADE
+);
+
+INSERT INTO corridor_waypoints_new (id, snapshot_id, sequence, latitude, longitude, distance_nm, nearest_airport, eta, wind_speed, visibility, ceiling, conditions, is_worst, created_at)
+SELECT id, snapshot_id, sequence, latitude, longitude, distance_nm, nearest_airport, eta, wind_speed, visibility, ceiling, conditions, is_worst, created_at FROM corridor_waypoints;
+
+CREATE TABLE reschedule_actions_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  original_flight_id INTEGER NOT NULL,
+  new_flight_id INTEGER,
+  reason TEXT NOT NULL,
+  ai_rationale TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'accepted', 'rejected', 'manual-review')),
+  created_by TEXT DEFAULT 'system',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  action_type TEXT CHECK(action_type IN ('auto-accept', 'manual-accept', 'manual-reject')),
+  decision_source TEXT CHECK(decision_source IN ('system', 'manager')),
+  recommended_by_ai INTEGER DEFAULT 0,
+  weather_snapshot_id INTEGER,
+  decided_at TEXT,
+  decided_by TEXT,
+  notes TEXT,
+  FOREIGN KEY (original_flight_id) REFERENCES flights_new(id),
+  FOREIGN KEY (new_flight_id) REFERENCES flights_new(id)
+);
+
+INSERT INTO reschedule_actions_new (id, original_flight_id, new_flight_id, reason, ai_rationale, status, created_by, created_at, action_type, decision_source, recommended_by_ai, weather_snapshot_id, decided_at, decided_by, notes)
+SELECT id, original_flight_id, new_flight_id, reason, ai_rationale, status, created_by, created_at, action_type, decision_source, recommended_by_ai, weather_snapshot_id, decided_at, decided_by, notes FROM reschedule_actions;
+
+CREATE TABLE notifications_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  flight_id INTEGER,
+  type TEXT NOT NULL CHECK(type IN ('auto-rescheduled', 'advisory', 'action-required', 'error')),
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unread' CHECK(status IN ('unread', 'read', 'archived')),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  read_at TEXT,
+  FOREIGN KEY (flight_id) REFERENCES flights_new(id)
+);
+
+INSERT INTO notifications_new (id, flight_id, type, message, status, created_at, read_at)
+SELECT id, flight_id, type, message, status, created_at, read_at FROM notifications;
+
+-- Children first, so nothing references a table when it is dropped
+DROP TABLE corridor_waypoints;
+DROP TABLE weather_snapshots;
+DROP TABLE reschedule_actions;
+DROP TABLE notifications;
+DROP TABLE flights;
+
+ALTER TABLE flights_new RENAME TO flights;
+ALTER TABLE weather_snapshots_new RENAME TO weather_snapshots;
+ALTER TABLE corridor_waypoints_new RENAME TO corridor_waypoints;
+ALTER TABLE reschedule_actions_new RENAME TO reschedule_actions;
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX idx_flights_lesson_type ON flights(lesson_type_id);
+CREATE INDEX idx_weather_snapshots_cache_key ON weather_snapshots(location, forecast_time);
+CREATE INDEX idx_corridor_waypoints_snapshot_id ON corridor_waypoints(snapshot_id);
+CREATE INDEX idx_reschedule_actions_original_flight_id ON reschedule_actions(original_flight_id);
+CREATE INDEX idx_reschedule_actions_decided_at ON reschedule_actions(decided_at);
+CREATE INDEX idx_reschedule_actions_status ON reschedule_actions(status);
+CREATE INDEX idx_reschedule_actions_decision_source ON reschedule_actions(decision_source);
@@ -0,0 +1,28 @@
+-- Migration 0020: Classification Hysteresis
+-- Per-flight state for escalation hysteresis and a log of every weather status change.
+-- A flight escalates only after consecutive evaluations of new forecasts at a more severe
+-- status, so one borderline forecast cannot flip it back and forth between runs.
+
+CREATE TABLE flight_classification_states (
+  flight_id INTEGER PRIMARY KEY,
+  pending_status TEXT CHECK(pending_status IN ('marginal', 'advisory', 'auto-reschedule')), -- NULL = no escalation pending
+  pending_count INTEGER NOT NULL DEFAULT 0, -- consecutive evaluations above the current status
+  last_evaluated_status TEXT NOT NULL CHECK(last_evaluated_status IN ('clear', 'marginal', 'advisory', 'auto-reschedule')),
+  last_evaluated_at TEXT NOT NULL, -- ISO 8601
+  last_snapshot_id INTEGER NOT NULL, -- newest weather snapshot evaluated; re-evaluating it does not count again
+  FOREIGN KEY (flight_id) REFERENCES flights(id)
+);
+
+CREATE TABLE weather_status_transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  flight_id INTEGER NOT NULL,
+  from_status TEXT NOT NULL CHECK(from_status IN ('unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule')),
+  to_status TEXT NOT NULL CHECK(to_status IN ('clear', 'marginal', 'advisory', 'auto-reschedule')),
+  reason TEXT NOT NULL,
+  risk_score INTEGER NOT NULL, -- 0-100 at the evaluation that caused the change
+  correlation_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (flight_id) REFERENCES flights(id)
+);
+
+CREATE INDEX idx_weather_status_transitions_flight ON weather_status_transitions(flight_id, created_at);
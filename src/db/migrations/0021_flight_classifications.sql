@@ -0,0 +1,23 @@
+-- Migration 0021: Flight Classifications
+-- History of every persisted classification: the snapshots and effective thresholds it
+-- evaluated, the breaches it found and the status it produced, so dispatchers can trace
+-- when and why a flight's weather status changed.
+
+CREATE TABLE flight_classifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  flight_id INTEGER NOT NULL,
+  weather_status TEXT NOT NULL CHECK(weather_status IN ('unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule')), -- after hysteresis
+  evaluated_status TEXT NOT NULL CHECK(evaluated_status IN ('unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule')),
+  reason TEXT NOT NULL,
+  risk_score INTEGER NOT NULL, -- 0-100
+  hours_until_departure REAL NOT NULL,
+  snapshot_ids TEXT NOT NULL, -- JSON array of weather_snapshots IDs evaluated
+  thresholds TEXT, -- JSON effective thresholds, NULL if the training level had none
+  breached_checkpoints TEXT NOT NULL, -- JSON array of checkpoint breach details
+  threshold_version_id INTEGER REFERENCES threshold_versions(id),
+  correlation_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (flight_id) REFERENCES flights(id)
+);
+
+CREATE INDEX idx_flight_classifications_flight ON flight_classifications(flight_id, created_at);
@@ -0,0 +1,24 @@
+-- Migration 0022: Settings
+-- Policy values (reschedule horizon, AI confidence threshold, risk scores, ...) that
+-- override the defaults defined in settings-service. A key without a row uses its
+-- default. Every change is recorded in setting_changes with who made it and why.
+
+CREATE TABLE settings (
+  key TEXT PRIMARY KEY,
+  value REAL NOT NULL,
+  updated_by TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE setting_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key TEXT NOT NULL,
+  old_value REAL NOT NULL, -- effective value before the change (default if never set)
+  new_value REAL NOT NULL,
+  changed_by TEXT NOT NULL,
+  change_reason TEXT NOT NULL,
+  correlation_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX idx_setting_changes_key ON setting_changes(key, created_at);
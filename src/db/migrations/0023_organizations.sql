@@ -0,0 +1,171 @@
+-- Migration 0023: Organizations
+-- Each flight school base is an organization. Students, instructors, aircraft, flights,
+-- thresholds, margin bands, settings, notifications and cron runs belong to one;
+-- weather snapshots, reschedule actions, classifications and student minimums are
+-- scoped through their flight or student. Airports, lesson types and aircraft category
+-- limits stay shared. Existing data moves to the default organization (id 1).
+
+CREATE TABLE organizations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT NOT NULL UNIQUE, -- short identifier, e.g. 'north'
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+INSERT INTO organizations (id, code, name) VALUES (1, 'default', 'Default Organization');
+
+-- SQLite cannot add a foreign key column with a non-NULL default, so these reference
+-- organizations(id) without a constraint
+ALTER TABLE students ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE instructors ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE aircraft ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE flights ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE notifications ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE cron_runs ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE setting_changes ADD COLUMN organization_id INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX idx_students_organization ON students(organization_id);
+CREATE INDEX idx_instructors_organization ON instructors(organization_id);
+CREATE INDEX idx_aircraft_organization ON aircraft(organization_id);
+CREATE INDEX idx_flights_organization ON flights(organization_id, departure_time);
+CREATE INDEX idx_notifications_organization ON notifications(organization_id, created_at);
+CREATE INDEX idx_cron_runs_organization ON cron_runs(organization_id, created_at);
+
+DROP INDEX idx_setting_changes_key;
+CREATE INDEX idx_setting_changes_key ON setting_changes(organization_id, key, created_at);
+
+-- Thresholds, threshold versions, margin bands and settings become unique per
+-- organization rather than globally. SQLite cannot drop a UNIQUE or PRIMARY KEY
+-- constraint, so their tables are rebuilt. D1 enforces foreign keys throughout a
+-- migration and a table cannot be dropped while rows reference it: nothing references
+-- thresholds, margin bands or settings, and the flights and classifications that
+-- reference a threshold version are cleared first and restored afterwards.
+
+CREATE TABLE training_thresholds_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization_id INTEGER NOT NULL,
+  training_level TEXT NOT NULL CHECK(training_level IN ('student', 'private', 'instrument')),
+  max_wind_speed INTEGER NOT NULL, -- knots
+  min_visibility REAL NOT NULL, -- statute miles
+  min_ceiling INTEGER NOT NULL, -- feet AGL
+  description TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  max_crosswind REAL NOT NULL DEFAULT 10, -- knots
+  max_gust_factor REAL NOT NULL DEFAULT 10, -- knots of gust above steady wind
+  prohibited_hazards TEXT NOT NULL DEFAULT '[]', -- JSON array of hazard types
+  daylight_rule TEXT NOT NULL DEFAULT 'night-allowed'
+    CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required')),
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_at TEXT, -- ISO 8601, NULL until first changed through the API
+  UNIQUE(organization_id, training_level),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO training_thresholds_new (
+  id, organization_id, training_level, max_wind_speed, min_visibility, min_ceiling, description, created_at,
+  max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, version, updated_at
+)
+SELECT
+  id, 1, training_level, max_wind_speed, min_visibility, min_ceiling, description, created_at,
+  max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, version, updated_at
+FROM training_thresholds;
+
+DROP TABLE training_thresholds;
+ALTER TABLE training_thresholds_new RENAME TO training_thresholds;
+
+CREATE TABLE threshold_version_refs (
+  table_name TEXT NOT NULL CHECK(table_name IN ('flights', 'flight_classifications')),
+  row_id INTEGER NOT NULL,
+  threshold_version_id INTEGER NOT NULL,
+  PRIMARY KEY (table_name, row_id)
+);
+
+INSERT INTO threshold_version_refs (table_name, row_id, threshold_version_id)
+SELECT 'flights', id, threshold_version_id FROM flights WHERE threshold_version_id IS NOT NULL;
+
+INSERT INTO threshold_version_refs (table_name, row_id, threshold_version_id)
+SELECT 'flight_classifications', id, threshold_version_id FROM flight_classifications WHERE threshold_version_id IS NOT NULL;
+
+UPDATE flights SET threshold_version_id = NULL WHERE threshold_version_id IS NOT NULL;
+UPDATE flight_classifications SET threshold_version_id = NULL WHERE threshold_version_id IS NOT NULL;
+
+CREATE TABLE threshold_versions_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization_id INTEGER NOT NULL,
+  training_level TEXT NOT NULL CHECK(training_level IN ('student', 'private', 'instrument')),
+  version INTEGER NOT NULL,
+  max_wind_speed REAL NOT NULL, -- knots
+  min_visibility REAL NOT NULL, -- statute miles
+  min_ceiling INTEGER NOT NULL, -- feet AGL
+  max_crosswind REAL NOT NULL, -- knots
+  max_gust_factor REAL NOT NULL, -- knots of gust above steady wind
+  prohibited_hazards TEXT NOT NULL, -- JSON array of hazard types
+  daylight_rule TEXT NOT NULL CHECK(daylight_rule IN ('day-only', 'night-allowed', 'night-required')),
+  description TEXT,
+  changed_by TEXT NOT NULL,
+  change_reason TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE(organization_id, training_level, version),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO threshold_versions_new (
+  id, organization_id, training_level, version, max_wind_speed, min_visibility, min_ceiling, max_crosswind,
+  max_gust_factor, prohibited_hazards, daylight_rule, description, changed_by, change_reason, created_at
+)
+SELECT
+  id, 1, training_level, version, max_wind_speed, min_visibility, min_ceiling, max_crosswind,
+  max_gust_factor, prohibited_hazards, daylight_rule, description, changed_by, change_reason, created_at
+FROM threshold_versions;
+
+DROP TABLE threshold_versions;
+ALTER TABLE threshold_versions_new RENAME TO threshold_versions;
+
+CREATE INDEX idx_threshold_versions_level ON threshold_versions(organization_id, training_level, version DESC);
+
+-- Version IDs were kept, so the cleared references point at the same rows again
+UPDATE flights
+SET threshold_version_id = (
+  SELECT threshold_version_id FROM threshold_version_refs WHERE table_name = 'flights' AND row_id = flights.id
+)
+WHERE id IN (SELECT row_id FROM threshold_version_refs WHERE table_name = 'flights');
+
+UPDATE flight_classifications
+SET threshold_version_id = (
+  SELECT threshold_version_id FROM threshold_version_refs
+  WHERE table_name = 'flight_classifications' AND row_id = flight_classifications.id
+)
+WHERE id IN (SELECT row_id FROM threshold_version_refs WHERE table_name = 'flight_classifications');
+
+DROP TABLE threshold_version_refs;
+
+CREATE TABLE margin_bands_new (
+  organization_id INTEGER NOT NULL,
+  metric TEXT NOT NULL CHECK(metric IN ('wind', 'visibility', 'ceiling', 'crosswind', 'gust')),
+  band REAL NOT NULL CHECK(band >= 0), -- metric units past the limit (knots, statute miles, feet); 0 = every breach is hard
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (organization_id, metric),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO margin_bands_new (organization_id, metric, band, updated_at)
+SELECT 1, metric, band, updated_at FROM margin_bands;
+
+DROP TABLE margin_bands;
+ALTER TABLE margin_bands_new RENAME TO margin_bands;
+
+CREATE TABLE settings_new (
+  organization_id INTEGER NOT NULL,
+  key TEXT NOT NULL,
+  value REAL NOT NULL,
+  updated_by TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (organization_id, key),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO settings_new (organization_id, key, value, updated_by, updated_at)
+SELECT 1, key, value, updated_by, updated_at FROM settings;
+
+DROP TABLE settings;
+ALTER TABLE settings_new RENAME TO settings;
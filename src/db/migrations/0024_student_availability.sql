@@ -0,0 +1,30 @@
+-- Migration 0024: Student Availability
+-- Recurring weekly windows when a student can fly and date ranges when they cannot.
+-- Times and dates are local to the flight's departure airport. A student with no
+-- windows can fly at any time outside their blackout dates.
+
+CREATE TABLE student_availability (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  student_id INTEGER NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK(day_of_week BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time TEXT NOT NULL, -- HH:MM local
+  end_time TEXT NOT NULL, -- HH:MM local, after start_time (24:00 for end of day)
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK(end_time > start_time),
+  FOREIGN KEY (student_id) REFERENCES students(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_student_availability_student ON student_availability(student_id, day_of_week);
+
+CREATE TABLE student_blackout_dates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  student_id INTEGER NOT NULL,
+  start_date TEXT NOT NULL, -- YYYY-MM-DD local, inclusive
+  end_date TEXT NOT NULL, -- YYYY-MM-DD local, inclusive
+  reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK(end_date >= start_date),
+  FOREIGN KEY (student_id) REFERENCES students(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_student_blackout_dates_student ON student_blackout_dates(student_id, start_date);
@@ -0,0 +1,33 @@
+-- Migration 0025: Instructor Schedules
+-- Recurring weekly working hours, time off and a daily flight limit per instructor.
+-- Working hours are local to the flight's departure airport; time off is a span of
+-- instants so it can cover part of a day. An instructor with no working hours can be
+-- booked at any time within operating hours, and a NULL limit means no daily limit.
+
+ALTER TABLE instructors ADD COLUMN max_flights_per_day INTEGER CHECK(max_flights_per_day > 0);
+
+CREATE TABLE instructor_working_hours (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  instructor_id INTEGER NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK(day_of_week BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time TEXT NOT NULL, -- HH:MM local
+  end_time TEXT NOT NULL, -- HH:MM local, after start_time (24:00 for end of day)
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK(end_time > start_time),
+  FOREIGN KEY (instructor_id) REFERENCES instructors(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_instructor_working_hours_instructor ON instructor_working_hours(instructor_id, day_of_week);
+
+CREATE TABLE instructor_time_off (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  instructor_id INTEGER NOT NULL,
+  start_time TEXT NOT NULL, -- ISO 8601 datetime
+  end_time TEXT NOT NULL, -- ISO 8601 datetime, after start_time
+  reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK(end_time > start_time),
+  FOREIGN KEY (instructor_id) REFERENCES instructors(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_instructor_time_off_instructor ON instructor_time_off(instructor_id, start_time);
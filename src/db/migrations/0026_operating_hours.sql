@@ -0,0 +1,16 @@
+-- Migration 0026: Operating Hours
+-- Daily hours each organization flies from an airport, in the airport's local time so
+-- they follow daylight saving. An airport without a row uses the default of
+-- 06:00-18:00 local.
+
+CREATE TABLE operating_hours (
+  organization_id INTEGER NOT NULL,
+  airport TEXT NOT NULL, -- ICAO code
+  open_time TEXT NOT NULL, -- HH:MM local
+  close_time TEXT NOT NULL, -- HH:MM local, after open_time (24:00 for end of day)
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (organization_id, airport),
+  CHECK(close_time > open_time),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id),
+  FOREIGN KEY (airport) REFERENCES airports(icao)
+);
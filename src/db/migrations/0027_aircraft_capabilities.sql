@@ -0,0 +1,18 @@
+-- Migration 0027: Aircraft Capabilities
+-- Aircraft type and the aircraft each lesson needs, so rescheduling only offers
+-- aircraft the lesson can be flown in. A lesson without a required category needs
+-- the category of the aircraft it was booked in.
+
+ALTER TABLE aircraft ADD COLUMN model TEXT; -- type designator, e.g. C172 (NULL = unknown)
+
+ALTER TABLE lesson_types ADD COLUMN required_category TEXT
+  CHECK(required_category IN ('single-engine', 'multi-engine', 'complex')); -- NULL = booked aircraft's category
+ALTER TABLE lesson_types ADD COLUMN requires_ifr INTEGER NOT NULL DEFAULT 0; -- Boolean: needs an IFR-equipped aircraft
+
+UPDATE lesson_types SET requires_ifr = 1 WHERE code = 'actual-imc';
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, required_category, description)
+VALUES ('complex-endorsement', 'Complex endorsement', 90, 0, 'complex', 'Retractable gear, flaps and constant-speed propeller');
+
+INSERT INTO lesson_types (code, name, duration_minutes, is_solo, required_category, description)
+VALUES ('multi-engine', 'Multi-engine training', 120, 0, 'multi-engine', 'Engine-out procedures for the multi-engine rating');
@@ -0,0 +1,18 @@
+-- Migration 0028: Endorsement Capabilities
+-- Complex and multi-engine are capabilities of an aircraft rather than exclusive
+-- categories: a light twin such as the PA-44 is both. Lessons toward the complex
+-- endorsement or multi-engine rating need an aircraft with that capability, in any
+-- category, instead of the category of the aircraft they were booked in.
+
+ALTER TABLE aircraft ADD COLUMN complex INTEGER NOT NULL DEFAULT 0; -- Boolean: retractable gear, flaps and controllable-pitch propeller
+ALTER TABLE aircraft ADD COLUMN multi_engine INTEGER NOT NULL DEFAULT 0; -- Boolean: more than one engine
+
+-- Twins that are also complex have to be flagged by the operator
+UPDATE aircraft SET complex = 1 WHERE category = 'complex';
+UPDATE aircraft SET multi_engine = 1 WHERE category = 'multi-engine';
+
+ALTER TABLE lesson_types ADD COLUMN requires_complex INTEGER NOT NULL DEFAULT 0; -- Boolean: needs a complex aircraft
+ALTER TABLE lesson_types ADD COLUMN requires_multi_engine INTEGER NOT NULL DEFAULT 0; -- Boolean: needs a multi-engine aircraft
+
+UPDATE lesson_types SET requires_complex = 1, required_category = NULL WHERE code = 'complex-endorsement';
+UPDATE lesson_types SET requires_multi_engine = 1, required_category = NULL WHERE code = 'multi-engine';
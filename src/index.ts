@@ -6,20 +6,33 @@
 import { createClient, getAllTrainingThresholds } from './db/client';
 import { handleRpc } from './rpc/handlers';
 import { generateCorrelationId, createContext } from './lib/logger';
+import { OrganizationDetail } from './rpc/schema';
 import { getAssetFromKV } from '@cloudflare/kv-asset-handler';
 import manifestJSON from '__STATIC_CONTENT_MANIFEST';
 import * as cronMonitoringService from './services/cron-monitoring-service';
 import * as cronOrchestration from './services/cron-orchestration';
+import * as organizationService from './services/organization-service';
+import * as settingsService from './services/settings-service';
 
 export interface Env {
   AIRESCHEDULER_DB: D1Database;
   AI_MODEL: Ai;
   WEATHER_API_KEY?: string;
+  WEATHER_PROVIDER?: string; // 'weatherapi' | 'taf' | 'fixture' | 'synthetic'
+  TAF_SOURCE?: string; // 'aviationweather' (default) or 'fixtures'
   __STATIC_CONTENT: KVNamespace;
 }
 
 const assetManifest = JSON.parse(manifestJSON || '{}');
 
+// Cron timeout and threshold constants
+const WARN_THRESHOLD = 110000; // Warn at 110s to complete before limit (120s hard limit)
+const PERFORMANCE_WARN_MS = 60000; // Warn if execution exceeds 60 seconds
+
+// Organization whose thresholds the health endpoint reports, and whose context lists
+// organizations for the cron
+const DEFAULT_ORGANIZATION_ID = 1;
+
 export default {
   /**
    * Fetch handler - serves dashboard and handles RPC calls
@@ -31,7 +44,7 @@ export default {
     if (url.pathname === '/api/health') {
       try {
         const dbClient = createClient(env.AIRESCHEDULER_DB);
-        const thresholds = await getAllTrainingThresholds(dbClient);
+        const thresholds = await getAllTrainingThresholds(dbClient, DEFAULT_ORGANIZATION_ID);
 
         return new Response(
           JSON.stringify({
@@ -90,167 +103,212 @@ export default {
   },
 
   /**
-   * Scheduled handler - runs hourly cron tasks
+   * Scheduled handler - runs hourly cron tasks for every organization in turn
    */
   async scheduled(event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
-    const correlationId = generateCorrelationId('cron');
-    const execCtx = createContext(correlationId, env);
-    const startTime = Date.now();
+    const cronStartTime = Date.now();
+    const cronCtx = createContext(generateCorrelationId('cron'), env, DEFAULT_ORGANIZATION_ID);
 
-    // Timeout and threshold constants
-    const WARN_THRESHOLD = 110000; // Warn at 110s to complete before limit (120s hard limit)
-    const AI_CONFIDENCE_THRESHOLD = 80; // Minimum AI confidence for auto-rescheduling
-    const PERFORMANCE_WARN_MS = 60000; // Warn if execution exceeds 60 seconds
+    let organizations: OrganizationDetail[];
+    try {
+      organizations = await organizationService.listOrganizations(cronCtx);
+    } catch (error) {
+      cronCtx.logger.error('Cron failed to load organizations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      return;
+    }
 
-    // Initialize metrics object
-    interface CronMetrics {
-      duration_ms: number;
-      status: 'success' | 'partial' | 'error';
-      weather_snapshots_created: number;
-      flights_analyzed: number;
-      weather_conflicts_found: number;
-      flights_rescheduled: number;
-      flights_pending_review: number;
-      flights_skipped: number;
-      errors: number;
-      pipeline_status: string;
+    for (const organization of organizations) {
+      if (Date.now() - cronStartTime > WARN_THRESHOLD) {
+        cronCtx.logger.warn('[cron-pipeline] Approaching timeout, skipping remaining organizations', {
+          skipped: organizations.slice(organizations.indexOf(organization)).map((o) => o.id),
+        });
+        break;
+      }
+      await runScheduledPipeline(event, env, organization.id, cronStartTime);
     }
+  },
+};
 
-    const metrics: CronMetrics = {
-      duration_ms: 0,
-      status: 'success',
-      weather_snapshots_created: 0,
-      flights_analyzed: 0,
-      weather_conflicts_found: 0,
-      flights_rescheduled: 0,
-      flights_pending_review: 0,
-      flights_skipped: 0,
-      errors: 0,
-      pipeline_status: 'success',
-    };
+/**
+ * Runs the cron pipeline (weather polling, classification, auto-rescheduling) for one organization
+ * Each run has its own correlation ID and is recorded as its own cron run
+ * @param event - Scheduled event
+ * @param env - Worker environment bindings
+ * @param organizationId - Organization to run for
+ * @param cronStartTime - Start of the scheduled invocation; the timeout applies across organizations
+ */
+async function runScheduledPipeline(
+  event: ScheduledEvent,
+  env: Env,
+  organizationId: number,
+  cronStartTime: number
+): Promise<void> {
+  const correlationId = generateCorrelationId('cron');
+  const execCtx = createContext(correlationId, env, organizationId);
+  const startTime = Date.now(); // for this organization's duration_ms only
 
-    // Track service-specific errors for notification details (AC3/AC9)
-    const errorDetails: string[] = [];
+  // Initialize metrics object
+  interface CronMetrics {
+    duration_ms: number;
+    status: 'success' | 'partial' | 'error';
+    weather_snapshots_created: number;
+    forecast_cache_hits: number;
+    forecast_cache_misses: number;
+    flights_analyzed: number;
+    weather_conflicts_found: number;
+    flights_rescheduled: number;
+    flights_pending_review: number;
+    flights_skipped: number;
+    errors: number;
+    pipeline_status: string;
+  }
 
-    try {
-      execCtx.logger.info('Cron scheduled execution started', {
-        scheduledTime: new Date(event.scheduledTime).toISOString(),
-        cron: event.cron,
-      });
+  const metrics: CronMetrics = {
+    duration_ms: 0,
+    status: 'success',
+    weather_snapshots_created: 0,
+    forecast_cache_hits: 0,
+    forecast_cache_misses: 0,
+    flights_analyzed: 0,
+    weather_conflicts_found: 0,
+    flights_rescheduled: 0,
+    flights_pending_review: 0,
+    flights_skipped: 0,
+    errors: 0,
+    pipeline_status: 'success',
+  };
 
-      // Step 1: Weather Polling
-      const weatherResult = await cronOrchestration.runWeatherPolling(execCtx, startTime);
-      metrics.weather_snapshots_created = weatherResult.snapshotsCreated;
-      if (weatherResult.error) {
-        metrics.errors++;
-        errorDetails.push(weatherResult.error);
-      }
+  // Track service-specific errors for notification details (AC3/AC9)
+  const errorDetails: string[] = [];
 
-      // Check timeout before classification
-      const elapsedBeforeClassification = Date.now() - startTime;
-      if (elapsedBeforeClassification > WARN_THRESHOLD) {
-        execCtx.logger.warn('[cron-pipeline] Approaching timeout, completing pipeline');
-        throw new Error('Timeout threshold exceeded');
-      }
+  try {
+    execCtx.logger.info('Cron scheduled execution started', {
+      scheduledTime: new Date(event.scheduledTime).toISOString(),
+      cron: event.cron,
+    });
 
-      // Step 2: Flight Classification
-      const classificationResult = await cronOrchestration.runFlightClassification(execCtx, startTime);
-      metrics.flights_analyzed = classificationResult.flightsAnalyzed;
-      metrics.weather_conflicts_found = classificationResult.weatherConflictsFound;
-      if (classificationResult.error) {
-        metrics.errors++;
-        errorDetails.push(classificationResult.error);
-      }
+    // Step 1: Weather Polling
+    const weatherResult = await cronOrchestration.runWeatherPolling(execCtx, cronStartTime);
+    metrics.weather_snapshots_created = weatherResult.snapshotsCreated;
+    metrics.forecast_cache_hits = weatherResult.forecastCacheHits;
+    metrics.forecast_cache_misses = weatherResult.forecastCacheMisses;
+    if (weatherResult.error) {
+      metrics.errors++;
+      errorDetails.push(weatherResult.error);
+    }
 
-      // Check timeout before rescheduling
-      const elapsedBeforeRescheduling = Date.now() - startTime;
-      if (elapsedBeforeRescheduling > WARN_THRESHOLD) {
-        execCtx.logger.warn('[cron-pipeline] Approaching timeout, completing pipeline');
-        throw new Error('Timeout threshold exceeded');
-      }
+    // Check timeout before classification
+    const elapsedBeforeClassification = Date.now() - cronStartTime;
+    if (elapsedBeforeClassification > WARN_THRESHOLD) {
+      execCtx.logger.warn('[cron-pipeline] Approaching timeout, completing pipeline');
+      throw new Error('Timeout threshold exceeded');
+    }
 
-      // Step 3: Auto-Rescheduling
-      const reschedulingResult = await cronOrchestration.runAutoRescheduling(
-        env,
-        execCtx,
-        classificationResult.results,
-        AI_CONFIDENCE_THRESHOLD,
-        startTime
-      );
-      metrics.flights_rescheduled = reschedulingResult.flightsRescheduled;
-      metrics.flights_pending_review = reschedulingResult.flightsPendingReview;
-      metrics.flights_skipped = reschedulingResult.flightsSkipped;
-      if (reschedulingResult.error) {
-        metrics.errors++;
-        errorDetails.push(reschedulingResult.error);
-      }
-    } catch (error) {
-      // Critical failure or timeout
-      execCtx.logger.error('Cron scheduled execution error', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        duration_ms: Date.now() - startTime,
-      });
+    // Step 2: Flight Classification
+    const classificationResult = await cronOrchestration.runFlightClassification(execCtx, cronStartTime);
+    metrics.flights_analyzed = classificationResult.flightsAnalyzed;
+    metrics.weather_conflicts_found = classificationResult.weatherConflictsFound;
+    if (classificationResult.error) {
       metrics.errors++;
-    } finally {
-      // Calculate final metrics
-      metrics.duration_ms = Date.now() - startTime;
-      metrics.status = metrics.errors === 0 ? 'success' : metrics.errors >= 2 ? 'error' : 'partial';
-      metrics.pipeline_status = metrics.status;
+      errorDetails.push(classificationResult.error);
+    }
 
-      // Log pipeline summary
-      execCtx.logger.info('[cron-pipeline] Pipeline summary', {
-        ...metrics,
-      });
+    // Check timeout before rescheduling
+    const elapsedBeforeRescheduling = Date.now() - cronStartTime;
+    if (elapsedBeforeRescheduling > WARN_THRESHOLD) {
+      execCtx.logger.warn('[cron-pipeline] Approaching timeout, completing pipeline');
+      throw new Error('Timeout threshold exceeded');
+    }
 
-      // Log completion
-      execCtx.logger.info('Cron scheduled execution completed', {
-        duration_ms: metrics.duration_ms,
-        status: metrics.status,
-        weather_snapshots_created: metrics.weather_snapshots_created,
-        flights_analyzed: metrics.flights_analyzed,
-        weather_conflicts_found: metrics.weather_conflicts_found,
-        flights_rescheduled: metrics.flights_rescheduled,
-        flights_pending_review: metrics.flights_pending_review,
-        flights_skipped: metrics.flights_skipped,
-        errors: metrics.errors,
-        pipeline_status: metrics.pipeline_status,
-      });
+    // Step 3: Auto-Rescheduling (minimum AI confidence is the aiConfidenceThreshold setting)
+    const settings = await settingsService.getSettings(execCtx);
+    const reschedulingResult = await cronOrchestration.runAutoRescheduling(
+      env,
+      execCtx,
+      classificationResult.results,
+      settings.aiConfidenceThreshold,
+      cronStartTime
+    );
+    metrics.flights_rescheduled = reschedulingResult.flightsRescheduled;
+    metrics.flights_pending_review = reschedulingResult.flightsPendingReview;
+    metrics.flights_skipped = reschedulingResult.flightsSkipped;
+    if (reschedulingResult.error) {
+      metrics.errors++;
+      errorDetails.push(reschedulingResult.error);
+    }
+  } catch (error) {
+    // Critical failure or timeout
+    execCtx.logger.error('Cron scheduled execution error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      duration_ms: Date.now() - startTime,
+    });
+    metrics.errors++;
+  } finally {
+    // Calculate final metrics
+    metrics.duration_ms = Date.now() - startTime;
+    metrics.status = metrics.errors === 0 ? 'success' : metrics.errors >= 2 ? 'error' : 'partial';
+    metrics.pipeline_status = metrics.status;
 
-      // Record cron run in database (non-blocking)
-      // Story 5.3: AC7 - Call cronMonitoringService from Scheduled Handler
-      try {
-        await cronMonitoringService.recordCronRun(execCtx, {
-          correlationId: execCtx.correlationId,
-          status: metrics.status,
-          startedAt: new Date(startTime).toISOString(),
-          completedAt: new Date().toISOString(),
-          metrics: {
-            duration_ms: metrics.duration_ms,
-            status: metrics.status,
-            weather_snapshots_created: metrics.weather_snapshots_created,
-            flights_analyzed: metrics.flights_analyzed,
-            weather_conflicts_found: metrics.weather_conflicts_found,
-            flights_rescheduled: metrics.flights_rescheduled,
-            flights_pending_review: metrics.flights_pending_review,
-            flights_skipped: metrics.flights_skipped,
-            errors: metrics.errors,
-          },
-          errorDetails: errorDetails.length > 0 ? errorDetails : undefined,
-        });
-      } catch (error) {
-        execCtx.logger.warn('[cron-monitoring] Failed to record cron run', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        // Don't block handler completion
-      }
+    // Log pipeline summary
+    execCtx.logger.info('[cron-pipeline] Pipeline summary', {
+      ...metrics,
+    });
+
+    // Log completion
+    execCtx.logger.info('Cron scheduled execution completed', {
+      duration_ms: metrics.duration_ms,
+      status: metrics.status,
+      weather_snapshots_created: metrics.weather_snapshots_created,
+      forecast_cache_hits: metrics.forecast_cache_hits,
+      forecast_cache_misses: metrics.forecast_cache_misses,
+      flights_analyzed: metrics.flights_analyzed,
+      weather_conflicts_found: metrics.weather_conflicts_found,
+      flights_rescheduled: metrics.flights_rescheduled,
+      flights_pending_review: metrics.flights_pending_review,
+      flights_skipped: metrics.flights_skipped,
+      errors: metrics.errors,
+      pipeline_status: metrics.pipeline_status,
+    });
 
-      // Warn if duration exceeded threshold
-      if (metrics.duration_ms > PERFORMANCE_WARN_MS) {
-        execCtx.logger.warn('[cron-pipeline] Execution duration exceeded 60 seconds', {
+    // Record cron run in database (non-blocking)
+    // Story 5.3: AC7 - Call cronMonitoringService from Scheduled Handler
+    try {
+      await cronMonitoringService.recordCronRun(execCtx, {
+        correlationId: execCtx.correlationId,
+        status: metrics.status,
+        startedAt: new Date(startTime).toISOString(),
+        completedAt: new Date().toISOString(),
+        metrics: {
           duration_ms: metrics.duration_ms,
-        });
-      }
+          status: metrics.status,
+          weather_snapshots_created: metrics.weather_snapshots_created,
+          forecast_cache_hits: metrics.forecast_cache_hits,
+          forecast_cache_misses: metrics.forecast_cache_misses,
+          flights_analyzed: metrics.flights_analyzed,
+          weather_conflicts_found: metrics.weather_conflicts_found,
+          flights_rescheduled: metrics.flights_rescheduled,
+          flights_pending_review: metrics.flights_pending_review,
+          flights_skipped: metrics.flights_skipped,
+          errors: metrics.errors,
+        },
+        errorDetails: errorDetails.length > 0 ? errorDetails : undefined,
+      });
+    } catch (error) {
+      execCtx.logger.warn('[cron-monitoring] Failed to record cron run', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      // Don't block handler completion
     }
-  },
-};
+
+    // Warn if duration exceeded threshold
+    if (metrics.duration_ms > PERFORMANCE_WARN_MS) {
+      execCtx.logger.warn('[cron-pipeline] Execution duration exceeded 60 seconds', {
+        duration_ms: metrics.duration_ms,
+      });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Crosswind Utilities
+ * Resolves wind into runway-relative components and selects the best runway
+ */
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * A usable runway direction (one end of a physical runway)
+ */
+export interface RunwayEnd {
+  designator: string; // e.g. "31"
+  heading: number; // degrees true
+}
+
+/**
+ * Wind components relative to a runway heading
+ */
+export interface WindComponents {
+  crosswind: number; // knots, always positive
+  headwind: number; // knots, negative for a tailwind
+}
+
+/**
+ * Best runway selection result
+ */
+export interface RunwayWindAssessment extends WindComponents {
+  runway: string | null; // null when no runway data or wind direction is variable/unknown
+}
+
+// ========================================
+// Component Calculations
+// ========================================
+
+/**
+ * Calculates crosswind and headwind components for a runway heading
+ * @param windDirection - Direction the wind is blowing from (degrees true)
+ * @param windSpeed - Wind speed in knots
+ * @param runwayHeading - Runway heading (degrees true)
+ * @returns Wind components rounded to one decimal place
+ */
+export function calculateWindComponents(
+  windDirection: number,
+  windSpeed: number,
+  runwayHeading: number
+): WindComponents {
+  const angle = ((windDirection - runwayHeading) * Math.PI) / 180;
+  return {
+    crosswind: Math.round(Math.abs(windSpeed * Math.sin(angle)) * 10) / 10,
+    headwind: Math.round(windSpeed * Math.cos(angle) * 10) / 10,
+  };
+}
+
+/**
+ * Selects the runway with the smallest crosswind component, preferring headwind on ties
+ * Variable or unknown wind direction (or an airport without runway data) is treated as
+ * a direct crosswind so limits are never under-enforced.
+ * @param runways - Available runway ends
+ * @param windDirection - Wind direction (degrees true), null if variable/unknown
+ * @param windSpeed - Wind speed in knots (use the gust value for a conservative check)
+ * @returns Best runway and its wind components
+ */
+export function selectBestRunway(
+  runways: RunwayEnd[],
+  windDirection: number | null,
+  windSpeed: number
+): RunwayWindAssessment {
+  if (windSpeed === 0) {
+    return { runway: runways[0]?.designator ?? null, crosswind: 0, headwind: 0 };
+  }
+
+  if (windDirection === null || runways.length === 0) {
+    return { runway: null, crosswind: windSpeed, headwind: 0 };
+  }
+
+  let best: RunwayWindAssessment | null = null;
+  for (const runway of runways) {
+    const components = calculateWindComponents(windDirection, windSpeed, runway.heading);
+    if (
+      !best ||
+      components.crosswind < best.crosswind ||
+      (components.crosswind === best.crosswind && components.headwind > best.headwind)
+    ) {
+      best = { runway: runway.designator, ...components };
+    }
+  }
+
+  return best ?? { runway: null, crosswind: windSpeed, headwind: 0 };
+}
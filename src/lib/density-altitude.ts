@@ -0,0 +1,58 @@
+/**
+ * Density Altitude Utilities
+ * Pressure and density altitude from field elevation, altimeter setting and temperature
+ *
+ * Uses the standard pilot approximations: 1000 ft per inch of mercury below
+ * 29.92 inHg, a 2°C per 1000 ft ISA lapse rate and 120 ft of density altitude per
+ * degree Celsius above ISA temperature.
+ */
+
+// ========================================
+// Constants
+// ========================================
+
+export const STANDARD_ALTIMETER_INHG = 29.92;
+const ISA_SEA_LEVEL_TEMP_C = 15;
+const ISA_LAPSE_RATE_C_PER_1000FT = 2;
+const FEET_PER_INHG = 1000;
+const DENSITY_ALTITUDE_FT_PER_C = 120;
+
+// ========================================
+// Altitude Calculations
+// ========================================
+
+/**
+ * Calculates pressure altitude
+ * @param elevationFt - Field elevation in feet MSL
+ * @param altimeter - Altimeter setting in inches of mercury (standard if not reported)
+ * @returns Pressure altitude in feet
+ */
+export function calculatePressureAltitude(
+  elevationFt: number,
+  altimeter: number | null | undefined
+): number {
+  return elevationFt + (STANDARD_ALTIMETER_INHG - (altimeter ?? STANDARD_ALTIMETER_INHG)) * FEET_PER_INHG;
+}
+
+/**
+ * Calculates density altitude
+ * @param elevationFt - Field elevation in feet MSL
+ * @param temperature - Outside air temperature in degrees Celsius
+ * @param altimeter - Altimeter setting in inches of mercury (standard if not reported)
+ * @returns Density altitude in feet, rounded to 10 ft, or null without a temperature
+ */
+export function calculateDensityAltitude(
+  elevationFt: number,
+  temperature: number | null | undefined,
+  altimeter: number | null | undefined
+): number | null {
+  if (temperature === null || temperature === undefined) {
+    return null;
+  }
+
+  const pressureAltitude = calculatePressureAltitude(elevationFt, altimeter);
+  const isaTemperature = ISA_SEA_LEVEL_TEMP_C - (pressureAltitude / 1000) * ISA_LAPSE_RATE_C_PER_1000FT;
+  const densityAltitude = pressureAltitude + DENSITY_ALTITUDE_FT_PER_C * (temperature - isaTemperature);
+
+  return Math.round(densityAltitude / 10) * 10;
+}
@@ -0,0 +1,128 @@
+/**
+ * Geodesy Utilities
+ * Great-circle distance and interpolation for route corridor sampling
+ */
+
+// ========================================
+// Type Definitions
+// ========================================
+
+export interface Coordinates {
+  lat: number; // decimal degrees, north positive
+  lon: number; // decimal degrees, east positive
+}
+
+/**
+ * Point along a route
+ */
+export interface RoutePoint extends Coordinates {
+  fraction: number; // 0 = departure, 1 = arrival
+  distanceNm: number; // distance from departure in nautical miles
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const EARTH_RADIUS_NM = 3440.065;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// ========================================
+// Great-Circle Calculations
+// ========================================
+
+/**
+ * Calculates the central angle between two points (haversine formula)
+ * @param from - Start point
+ * @param to - End point
+ * @returns Angular distance in radians
+ */
+function centralAngle(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Calculates great-circle distance between two points
+ * @param from - Start point
+ * @param to - End point
+ * @returns Distance in nautical miles
+ */
+export function greatCircleDistanceNm(from: Coordinates, to: Coordinates): number {
+  return centralAngle(from, to) * EARTH_RADIUS_NM;
+}
+
+/**
+ * Interpolates a point along the great-circle path between two points
+ * @param from - Start point
+ * @param to - End point
+ * @param fraction - Fraction of the path (0 = from, 1 = to)
+ * @returns Intermediate point
+ */
+export function interpolateGreatCircle(
+  from: Coordinates,
+  to: Coordinates,
+  fraction: number
+): Coordinates {
+  const delta = centralAngle(from, to);
+  if (delta === 0) {
+    return { lat: from.lat, lon: from.lon };
+  }
+
+  const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const b = Math.sin(fraction * delta) / Math.sin(delta);
+
+  const lat1 = toRadians(from.lat);
+  const lon1 = toRadians(from.lon);
+  const lat2 = toRadians(to.lat);
+  const lon2 = toRadians(to.lon);
+
+  const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+  const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+  return {
+    lat: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    lon: toDegrees(Math.atan2(y, x)),
+  };
+}
+
+/**
+ * Samples evenly spaced interior waypoints along a great-circle route
+ * Endpoints are excluded; with count = 3 the waypoints sit at 25%, 50% and 75%
+ * @param from - Departure coordinates
+ * @param to - Arrival coordinates
+ * @param count - Number of interior waypoints
+ * @returns Waypoints ordered from departure to arrival
+ */
+export function sampleRouteWaypoints(
+  from: Coordinates,
+  to: Coordinates,
+  count: number
+): RoutePoint[] {
+  const totalNm = greatCircleDistanceNm(from, to);
+  const waypoints: RoutePoint[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const fraction = i / (count + 1);
+    const point = interpolateGreatCircle(from, to, fraction);
+    waypoints.push({ ...point, fraction, distanceNm: totalNm * fraction });
+  }
+
+  return waypoints;
+}
+
+/**
+ * Formats coordinates as a "lat,lon" string (accepted by WeatherAPI.com as a query)
+ * @param point - Coordinates
+ * @returns Formatted coordinates with 3 decimal places
+ */
+export function formatCoordinates(point: Coordinates): string {
+  return `${point.lat.toFixed(3)},${point.lon.toFixed(3)}`;
+}
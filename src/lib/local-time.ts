@@ -0,0 +1,173 @@
+/**
+ * Local Time Utilities
+ * Converts instants to the wall-clock time of an IANA time zone
+ *
+ * Uses Intl.DateTimeFormat, so daylight saving transitions follow the runtime's
+ * time zone database. Times of day are compared as minutes after local midnight.
+ */
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * Recurring weekly window in local time
+ */
+export interface WeeklyWindow {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, after startTime (24:00 for end of day)
+}
+
+/**
+ * Wall-clock time at an instant in a time zone
+ */
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number; // minutes after local midnight
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formatters are costly to create, so one is kept per time zone
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// ========================================
+// Conversion
+// ========================================
+
+/**
+ * Returns the formatter for a time zone
+ * @param timeZone - IANA time zone, e.g. America/Los_Angeles
+ * @throws RangeError if the time zone is unknown
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Converts an instant to local wall-clock time
+ * @param time - Instant to convert
+ * @param timeZone - IANA time zone
+ * @returns Local date, day of week and minutes after midnight
+ * @throws RangeError if the time zone is unknown
+ */
+export function toLocalTime(time: Date, timeZone: string): LocalTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(time)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday ?? ''),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Converts a local wall-clock time to an instant
+ * A time skipped by a daylight saving change resolves an hour away from it, and a
+ * repeated time to one of its two instants
+ * @param date - Local date (YYYY-MM-DD)
+ * @param minutes - Minutes after local midnight (1440 for the end of the day)
+ * @param timeZone - IANA time zone
+ * @returns Instant
+ * @throws RangeError if the time zone is unknown
+ */
+export function fromLocalTime(date: string, minutes: number, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+
+  // The offset at the first guess can be wrong across a transition, so settle it twice
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass++) {
+    const local = toLocalTime(new Date(instant), timeZone);
+    const localWallClock = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60000;
+    instant = wallClock - (localWallClock - Math.floor(instant / 60000) * 60000);
+  }
+  return new Date(instant);
+}
+
+/**
+ * Adds days to a local date
+ * @param date - Local date (YYYY-MM-DD)
+ * @param days - Days to add (negative to subtract)
+ * @returns Local date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Counts calendar days between two local dates
+ * @param from - Local date (YYYY-MM-DD)
+ * @param to - Local date (YYYY-MM-DD)
+ * @returns Days from one date to the other (negative if to is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Parses an HH:MM time of day
+ * @param time - Time of day, 00:00 to 24:00
+ * @returns Minutes after midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':');
+  return Number(hours) * 60 + Number(minutes);
+}
+
+/**
+ * Checks whether a period falls entirely inside one weekly window
+ * @param windows - Weekly windows in local time
+ * @param startTime - Period start (ISO 8601)
+ * @param endTime - Period end (ISO 8601)
+ * @param timeZone - IANA time zone the windows are in
+ * @returns True if one window on the period's local day covers it
+ */
+export function isWithinWeeklyWindows(
+  windows: WeeklyWindow[],
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): boolean {
+  const start = toLocalTime(new Date(startTime), timeZone);
+  const end = toLocalTime(new Date(endTime), timeZone);
+
+  // A period ending exactly at local midnight ends at 24:00 of its start day
+  const endMinutes = end.date === start.date ? end.minutes : end.minutes === 0 ? 24 * 60 : -1;
+  if (endMinutes < 0) {
+    return false; // spans local midnight, which no window can cover
+  }
+
+  return windows.some(
+    (window) =>
+      window.dayOfWeek === start.dayOfWeek &&
+      parseTimeOfDay(window.startTime) <= start.minutes &&
+      parseTimeOfDay(window.endTime) >= endMinutes
+  );
+}
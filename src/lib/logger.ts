@@ -28,12 +28,14 @@ export interface LogEntry {
 
 /**
  * Execution context passed to all service functions
- * Contains correlation ID, environment bindings, and logger instance
+ * Contains correlation ID, environment bindings, logger instance and the organization
+ * every query is scoped to
  */
 export interface ExecutionContext {
   correlationId: string;
   env: Env;
   logger: ReturnType<typeof createLogger>;
+  organizationId: number;
 }
 
 /**
@@ -92,12 +94,14 @@ export function createLogger(correlationId: string) {
  * Creates an execution context for a request or cron job
  * @param correlationId - Correlation ID for this execution
  * @param env - Worker environment bindings
- * @returns Execution context with correlation ID, env, and logger
+ * @param organizationId - Organization the request or cron job runs for
+ * @returns Execution context with correlation ID, env, logger, and organization ID
  */
-export function createContext(correlationId: string, env: Env): ExecutionContext {
+export function createContext(correlationId: string, env: Env, organizationId: number): ExecutionContext {
   return {
     correlationId,
     env,
     logger: createLogger(correlationId),
+    organizationId,
   };
 }
@@ -0,0 +1,222 @@
+/**
+ * Solar Utilities
+ * Sun position, sunrise/sunset and civil twilight for daylight rules
+ *
+ * Uses the NOAA solar position approximation (accurate to about a minute between
+ * latitudes ±72°). Daylight means the sun is above the civil twilight angle
+ * (6° below the horizon), which matches the regulatory definition of night as the
+ * time between the end of evening and the beginning of morning civil twilight.
+ */
+
+import { Coordinates } from './geo';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * Daylight rule for a training level
+ * - day-only: the whole flight must fall within civil twilight
+ * - night-allowed: no daylight restriction
+ * - night-required: part of the flight must be flown at night
+ */
+export type DaylightRule = 'day-only' | 'night-allowed' | 'night-required';
+
+/**
+ * Sun event times for one local solar day
+ * Events are null when the sun never crosses the angle that day (polar day or night)
+ */
+export interface SolarTimes {
+  civilDawn: string | null; // ISO 8601, morning civil twilight begins
+  sunrise: string | null; // ISO 8601
+  sunset: string | null; // ISO 8601
+  civilDusk: string | null; // ISO 8601, evening civil twilight ends
+}
+
+/**
+ * Daylight rule evaluation for a flight
+ */
+export interface DaylightAssessment {
+  departureInDaylight: boolean;
+  arrivalInDaylight: boolean;
+  satisfied: boolean;
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const SUNRISE_ZENITH = 90.833; // degrees, includes refraction and solar radius
+const CIVIL_TWILIGHT_ZENITH = 96; // degrees
+const MINUTES_PER_DAY = 1440;
+const MS_PER_MINUTE = 60 * 1000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// ========================================
+// Solar Position
+// ========================================
+
+/**
+ * Calculates solar declination and the equation of time
+ * @param time - Instant in time
+ * @returns Declination (degrees) and equation of time (minutes)
+ */
+function getSolarParameters(time: Date): { declination: number; equationOfTime: number } {
+  const julianDay = time.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525;
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const m = toRadians(meanAnomaly);
+
+  const center =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = toDegrees(Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)));
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  return { declination, equationOfTime };
+}
+
+/**
+ * Calculates the sun's elevation above the horizon
+ * @param point - Observer coordinates
+ * @param time - Instant in time
+ * @returns Elevation in degrees (negative below the horizon, no refraction)
+ */
+export function getSolarElevation(point: Coordinates, time: Date): number {
+  const { declination, equationOfTime } = getSolarParameters(time);
+  const utcMinutes =
+    time.getUTCHours() * 60 + time.getUTCMinutes() + time.getUTCSeconds() / 60;
+  const trueSolarTime =
+    (((utcMinutes + equationOfTime + 4 * point.lon) % MINUTES_PER_DAY) + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY;
+  const hourAngle = toRadians(trueSolarTime / 4 - 180);
+
+  const lat = toRadians(point.lat);
+  const decl = toRadians(declination);
+  const cosZenith =
+    Math.sin(lat) * Math.sin(decl) + Math.cos(lat) * Math.cos(decl) * Math.cos(hourAngle);
+
+  return 90 - toDegrees(Math.acos(Math.min(1, Math.max(-1, cosZenith))));
+}
+
+/**
+ * Checks whether a point is in daylight (sun above the civil twilight angle)
+ * @param point - Observer coordinates
+ * @param time - Instant in time
+ * @returns True between morning and evening civil twilight
+ */
+export function isDaylight(point: Coordinates, time: Date): boolean {
+  return getSolarElevation(point, time) > 90 - CIVIL_TWILIGHT_ZENITH;
+}
+
+// ========================================
+// Sun Events
+// ========================================
+
+/**
+ * Calculates when the sun crosses a zenith angle on a local solar day
+ * Refines once using the solar parameters at the first estimate
+ * @param point - Observer coordinates
+ * @param dayStartMs - UTC midnight of the local solar date (ms)
+ * @param zenith - Zenith angle in degrees
+ * @param rising - True for the morning crossing
+ * @returns ISO 8601 time, or null if the sun does not cross the angle
+ */
+function getSunEvent(
+  point: Coordinates,
+  dayStartMs: number,
+  zenith: number,
+  rising: boolean
+): string | null {
+  let estimate = dayStartMs + (720 - 4 * point.lon) * MS_PER_MINUTE;
+
+  for (let i = 0; i < 2; i++) {
+    const { declination, equationOfTime } = getSolarParameters(new Date(estimate));
+    const lat = toRadians(point.lat);
+    const decl = toRadians(declination);
+    const cosHourAngle =
+      Math.cos(toRadians(zenith)) / (Math.cos(lat) * Math.cos(decl)) - Math.tan(lat) * Math.tan(decl);
+    if (cosHourAngle < -1 || cosHourAngle > 1) {
+      return null;
+    }
+
+    const hourAngle = toDegrees(Math.acos(cosHourAngle));
+    const solarNoon = 720 - 4 * point.lon - equationOfTime;
+    const minutes = rising ? solarNoon - 4 * hourAngle : solarNoon + 4 * hourAngle;
+    estimate = dayStartMs + minutes * MS_PER_MINUTE;
+  }
+
+  return new Date(Math.round(estimate / MS_PER_MINUTE) * MS_PER_MINUTE).toISOString();
+}
+
+/**
+ * Calculates sunrise, sunset and civil twilight for the local solar day containing a time
+ * @param point - Observer coordinates
+ * @param time - Any instant on the day of interest
+ * @returns Sun event times
+ */
+export function calculateSolarTimes(point: Coordinates, time: Date): SolarTimes {
+  // Local solar date: shift by longitude (15° per hour) before truncating to the day
+  const local = new Date(time.getTime() + (point.lon / 15) * 60 * MS_PER_MINUTE);
+  const dayStartMs = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+  return {
+    civilDawn: getSunEvent(point, dayStartMs, CIVIL_TWILIGHT_ZENITH, true),
+    sunrise: getSunEvent(point, dayStartMs, SUNRISE_ZENITH, true),
+    sunset: getSunEvent(point, dayStartMs, SUNRISE_ZENITH, false),
+    civilDusk: getSunEvent(point, dayStartMs, CIVIL_TWILIGHT_ZENITH, false),
+  };
+}
+
+// ========================================
+// Daylight Rules
+// ========================================
+
+/**
+ * Evaluates a daylight rule for a flight
+ * Only the endpoints are checked; lessons are short enough not to span a whole night
+ * @param rule - Daylight rule for the training level
+ * @param departure - Departure airport coordinates and time
+ * @param arrival - Arrival airport coordinates and time
+ * @returns Daylight at each endpoint and whether the rule is satisfied
+ */
+export function evaluateDaylightRule(
+  rule: DaylightRule,
+  departure: { point: Coordinates; time: Date },
+  arrival: { point: Coordinates; time: Date }
+): DaylightAssessment {
+  const departureInDaylight = isDaylight(departure.point, departure.time);
+  const arrivalInDaylight = isDaylight(arrival.point, arrival.time);
+
+  let satisfied = true;
+  if (rule === 'day-only') {
+    satisfied = departureInDaylight && arrivalInDaylight;
+  } else if (rule === 'night-required') {
+    satisfied = !departureInDaylight || !arrivalInDaylight;
+  }
+
+  return { departureInDaylight, arrivalInDaylight, satisfied };
+}
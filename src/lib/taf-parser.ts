@@ -0,0 +1,861 @@
+/**
+ * METAR/TAF Decoder
+ * Decodes raw METAR observations and TAF forecasts into structured conditions
+ *
+ * Supported elements:
+ * - Wind (direction, speed, gusts; KT and MPS units, VRB and calm)
+ * - Prevailing visibility (whole, fractional and mixed SM, P6SM, metric, CAVOK)
+ * - Cloud layers (FEW/SCT/BKN/OVC with CB/TCU, VV vertical visibility, SKC/CLR/NSC)
+ * - Present/forecast weather (intensity, descriptor, phenomena, NSW)
+ * - TAF change groups (FM, BECMG, TEMPO, PROB30/PROB40, PROB with TEMPO)
+ */
+
+// ========================================
+// Type Definitions
+// ========================================
+
+export type CloudCoverage = 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+
+/**
+ * Decoded wind group
+ */
+export interface DecodedWind {
+  direction: number | null; // degrees true, null when variable (VRB)
+  speed: number; // knots
+  gust: number | null; // knots
+}
+
+/**
+ * Decoded cloud layer
+ */
+export interface CloudLayer {
+  coverage: CloudCoverage;
+  base: number; // feet AGL
+  convective?: 'CB' | 'TCU';
+}
+
+/**
+ * Weather elements decoded from a METAR body or a TAF group
+ * Elements not present in the source text are left undefined so that
+ * partial change groups (BECMG/TEMPO) only override what they mention
+ */
+export interface DecodedConditions {
+  wind?: DecodedWind;
+  visibility?: number; // statute miles
+  clouds?: CloudLayer[];
+  weather?: string[]; // raw weather groups, e.g. ['-RA', 'BR']
+}
+
+export type TafGroupType = 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+
+/**
+ * A single TAF forecast group with its validity window
+ */
+export interface TafGroup {
+  type: TafGroupType;
+  probability?: number; // 30 or 40 for PROB groups
+  start: Date;
+  end: Date;
+  conditions: DecodedConditions;
+}
+
+/**
+ * Decoded TAF forecast
+ */
+export interface DecodedTaf {
+  station: string;
+  issueTime: Date;
+  validFrom: Date;
+  validTo: Date;
+  groups: TafGroup[];
+  raw: string;
+}
+
+/**
+ * Decoded METAR observation
+ */
+export interface DecodedMetar {
+  station: string;
+  observationTime: Date;
+  conditions: DecodedConditions;
+  temperature: number | null; // degrees Celsius
+  dewpoint: number | null; // degrees Celsius
+  altimeter: number | null; // inches of mercury
+  raw: string;
+}
+
+/**
+ * Conditions resolved for a single point in time
+ * `prevailing` follows BASE/FM/BECMG groups; `worstCase` also folds in any
+ * TEMPO and PROB groups active at that time
+ */
+export interface ResolvedConditions {
+  prevailing: DecodedConditions;
+  worstCase: DecodedConditions;
+  temporaryGroups: TafGroup[];
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const MPS_TO_KNOTS = 1.94384;
+const METERS_PER_STATUTE_MILE = 1609.344;
+
+/** Visibility reported as "P6SM", CAVOK or 9999 */
+export const UNRESTRICTED_VISIBILITY_SM = 6;
+
+const WIND_PATTERN = /^(VRB|\d{3})(\d{2,3})(?:G(\d{2,3}))?(KT|MPS)$/;
+const VISIBILITY_SM_PATTERN = /^(P|M)?(\d+)?(?:\/(\d+))?SM$/;
+const VISIBILITY_METRIC_PATTERN = /^\d{4}$/;
+const CLOUD_PATTERN = /^(FEW|SCT|BKN|OVC)(\d{3})(CB|TCU)?$/;
+const VERTICAL_VISIBILITY_PATTERN = /^VV(\d{3}|\/\/\/)$/;
+const SKY_CLEAR_TOKENS = new Set(['SKC', 'CLR', 'NSC', 'NCD']);
+const WEATHER_PATTERN =
+  /^(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const TAF_PERIOD_PATTERN = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/;
+const FM_PATTERN = /^FM(\d{2})(\d{2})(\d{2})$/;
+const PROB_PATTERN = /^PROB(\d{2})$/;
+const ISSUE_TIME_PATTERN = /^(\d{2})(\d{2})(\d{2})Z$/;
+const TEMPERATURE_PATTERN = /^(M?\d{2})\/(M?\d{2})?$/;
+const ALTIMETER_PATTERN = /^(A|Q)(\d{4})$/;
+
+const WEATHER_DESCRIPTIONS: Record<string, string> = {
+  MI: 'shallow',
+  PR: 'partial',
+  BC: 'patches of',
+  DR: 'low drifting',
+  BL: 'blowing',
+  SH: 'showers of',
+  TS: 'thunderstorm',
+  FZ: 'freezing',
+  DZ: 'drizzle',
+  RA: 'rain',
+  SN: 'snow',
+  SG: 'snow grains',
+  IC: 'ice crystals',
+  PL: 'ice pellets',
+  GR: 'hail',
+  GS: 'small hail',
+  UP: 'unknown precipitation',
+  BR: 'mist',
+  FG: 'fog',
+  FU: 'smoke',
+  VA: 'volcanic ash',
+  DU: 'dust',
+  SA: 'sand',
+  HZ: 'haze',
+  PY: 'spray',
+  PO: 'dust whirls',
+  SQ: 'squalls',
+  FC: 'funnel cloud',
+  SS: 'sandstorm',
+  DS: 'duststorm',
+};
+
+// ========================================
+// Element Decoders
+// ========================================
+
+/**
+ * Decodes a wind group such as 27015G25KT, VRB03KT or 00000KT
+ * @param token - Wind token
+ * @returns Decoded wind or null if the token is not a wind group
+ */
+export function decodeWind(token: string): DecodedWind | null {
+  const match = WIND_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const factor = match[4] === 'MPS' ? MPS_TO_KNOTS : 1;
+  const direction = match[1] === 'VRB' ? null : parseInt(match[1] ?? '0', 10);
+  const speed = Math.round(parseInt(match[2] ?? '0', 10) * factor);
+  const gust = match[3] ? Math.round(parseInt(match[3], 10) * factor) : null;
+
+  return { direction, speed, gust };
+}
+
+/**
+ * Decodes a statute-mile visibility token, optionally combined with a
+ * preceding whole-number token (e.g. "1" followed by "1/2SM")
+ * @param token - Visibility token ending in SM
+ * @param wholePart - Preceding whole-number token, if any
+ * @returns Visibility in statute miles or null if not a visibility group
+ */
+export function decodeVisibilitySM(token: string, wholePart?: number): number | null {
+  const match = VISIBILITY_SM_PATTERN.exec(token);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  const modifier = match[1];
+  let value: number;
+
+  if (match[3]) {
+    // Fractional: "1/2SM" → numerator in group 2, denominator in group 3
+    const numerator = parseInt(match[2] ?? '0', 10);
+    const denominator = parseInt(match[3], 10);
+    if (denominator === 0) {
+      return null;
+    }
+    value = numerator / denominator + (wholePart ?? 0);
+  } else {
+    value = parseInt(match[2] ?? '0', 10);
+  }
+
+  if (modifier === 'P') {
+    return Math.max(value, UNRESTRICTED_VISIBILITY_SM);
+  }
+  if (modifier === 'M') {
+    // "Less than" - report the lower bound conservatively
+    return 0;
+  }
+  return value;
+}
+
+/**
+ * Decodes a metric visibility token (metres, 9999 = 10 km or more)
+ * @param token - Four-digit visibility token
+ * @returns Visibility in statute miles or null if not a metric visibility group
+ */
+export function decodeVisibilityMetric(token: string): number | null {
+  if (!VISIBILITY_METRIC_PATTERN.test(token)) {
+    return null;
+  }
+  const metres = parseInt(token, 10);
+  if (metres >= 9999) {
+    return UNRESTRICTED_VISIBILITY_SM;
+  }
+  return Math.round((metres / METERS_PER_STATUTE_MILE) * 100) / 100;
+}
+
+/**
+ * Decodes a cloud layer or vertical visibility token
+ * @param token - Cloud token, e.g. BKN015, OVC008CB, VV002
+ * @returns Cloud layer or null if not a cloud group
+ */
+export function decodeCloudLayer(token: string): CloudLayer | null {
+  const vv = VERTICAL_VISIBILITY_PATTERN.exec(token);
+  if (vv) {
+    // VV/// means sky obscured with unknown vertical visibility - treat as surface
+    const base = vv[1] === '///' ? 0 : parseInt(vv[1] ?? '0', 10) * 100;
+    return { coverage: 'VV', base };
+  }
+
+  const match = CLOUD_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    coverage: match[1] as CloudCoverage,
+    base: parseInt(match[2] ?? '0', 10) * 100,
+    convective: match[3] as CloudLayer['convective'],
+  };
+}
+
+/**
+ * Determines the ceiling from cloud layers
+ * The ceiling is the lowest broken, overcast or vertical visibility layer
+ * @param clouds - Decoded cloud layers
+ * @returns Ceiling in feet AGL, or null if unlimited
+ */
+export function getCeiling(clouds: CloudLayer[] | undefined): number | null {
+  if (!clouds || clouds.length === 0) {
+    return null;
+  }
+
+  const ceilingLayers = clouds.filter(
+    (layer) => layer.coverage === 'BKN' || layer.coverage === 'OVC' || layer.coverage === 'VV'
+  );
+
+  if (ceilingLayers.length === 0) {
+    return null;
+  }
+
+  return Math.min(...ceilingLayers.map((layer) => layer.base));
+}
+
+/**
+ * Checks whether a token is a present/forecast weather group
+ * @param token - Candidate token
+ * @returns True if the token is a weather group
+ */
+function isWeatherToken(token: string): boolean {
+  if (token === 'NSW') {
+    return true;
+  }
+  const match = WEATHER_PATTERN.exec(token);
+  // Require at least a descriptor or phenomenon (an intensity alone is not weather)
+  return !!match && (!!match[2] || !!match[3]);
+}
+
+/**
+ * Describes a weather group in plain language, e.g. "-SHRA" → "light showers of rain"
+ * @param token - Weather group
+ * @returns Human-readable description
+ */
+export function describeWeather(token: string): string {
+  if (token === 'NSW') {
+    return 'no significant weather';
+  }
+
+  const match = WEATHER_PATTERN.exec(token);
+  if (!match) {
+    return token;
+  }
+
+  const parts: string[] = [];
+  if (match[1] === '-') parts.push('light');
+  if (match[1] === '+') parts.push('heavy');
+  if (match[1] === 'VC') parts.push('nearby');
+  if (match[2]) parts.push(WEATHER_DESCRIPTIONS[match[2]] ?? match[2]);
+
+  const phenomena = match[3] ?? '';
+  for (let i = 0; i < phenomena.length; i += 2) {
+    const code = phenomena.slice(i, i + 2);
+    parts.push(WEATHER_DESCRIPTIONS[code] ?? code);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Decodes the weather elements of a token list (a METAR body or TAF group)
+ * Unrecognised tokens (temperature groups, wind shear, remarks) are ignored
+ * @param tokens - Whitespace-separated tokens
+ * @returns Decoded conditions with only the elements present in the tokens
+ */
+export function decodeConditions(tokens: string[]): DecodedConditions {
+  const conditions: DecodedConditions = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? '';
+
+    const wind = decodeWind(token);
+    if (wind) {
+      conditions.wind = wind;
+      continue;
+    }
+
+    if (token === 'CAVOK') {
+      conditions.visibility = UNRESTRICTED_VISIBILITY_SM;
+      conditions.clouds = [];
+      conditions.weather = conditions.weather ?? [];
+      continue;
+    }
+
+    // Mixed fraction: "1 1/2SM" arrives as two tokens
+    if (/^\d$/.test(token)) {
+      const next = tokens[i + 1];
+      if (next && /^\d\/\dSM$/.test(next)) {
+        const visibility = decodeVisibilitySM(next, parseInt(token, 10));
+        if (visibility !== null) {
+          conditions.visibility = visibility;
+          i++;
+          continue;
+        }
+      }
+    }
+
+    const visibilitySM = decodeVisibilitySM(token);
+    if (visibilitySM !== null) {
+      conditions.visibility = visibilitySM;
+      continue;
+    }
+
+    const visibilityMetric = decodeVisibilityMetric(token);
+    if (visibilityMetric !== null) {
+      conditions.visibility = visibilityMetric;
+      continue;
+    }
+
+    if (SKY_CLEAR_TOKENS.has(token)) {
+      conditions.clouds = [];
+      continue;
+    }
+
+    const layer = decodeCloudLayer(token);
+    if (layer) {
+      conditions.clouds = [...(conditions.clouds ?? []), layer];
+      continue;
+    }
+
+    if (isWeatherToken(token)) {
+      // NSW explicitly ends any previously forecast weather
+      conditions.weather = token === 'NSW' ? [] : [...(conditions.weather ?? []), token];
+    }
+  }
+
+  return conditions;
+}
+
+// ========================================
+// Time Resolution
+// ========================================
+
+/**
+ * Resolves a day-of-month/hour/minute triple to a UTC date near a reference time
+ * TAF and METAR times omit month and year, so the month (previous, current or next)
+ * that places the result closest to the reference is chosen. Hour 24 rolls to the next day.
+ * @param day - Day of month
+ * @param hour - Hour (0-24)
+ * @param minute - Minute
+ * @param reference - Reference date used to infer month and year
+ * @returns Resolved UTC date
+ */
+export function resolveDayTime(day: number, hour: number, minute: number, reference: Date): Date {
+  let best: Date | null = null;
+
+  for (const monthOffset of [-1, 0, 1]) {
+    const candidate = new Date(
+      Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + monthOffset, day, hour, minute)
+    );
+    // Skip dates that overflowed into another month (e.g. 31st in a 30-day month)
+    const expectedMonth = (reference.getUTCMonth() + monthOffset + 12) % 12;
+    if (hour < 24 && candidate.getUTCMonth() !== expectedMonth) {
+      continue;
+    }
+    if (
+      !best ||
+      Math.abs(candidate.getTime() - reference.getTime()) <
+        Math.abs(best.getTime() - reference.getTime())
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best ?? new Date(reference);
+}
+
+/**
+ * Resolves a DDHH/DDHH validity period
+ * @param token - Period token
+ * @param reference - Reference date
+ * @returns Start and end dates, or null if the token is not a period
+ */
+function resolvePeriod(token: string, reference: Date): { start: Date; end: Date } | null {
+  const match = TAF_PERIOD_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const start = resolveDayTime(parseInt(match[1] ?? '0', 10), parseInt(match[2] ?? '0', 10), 0, reference);
+  let end = resolveDayTime(parseInt(match[3] ?? '0', 10), parseInt(match[4] ?? '0', 10), 0, reference);
+  if (end <= start) {
+    // Period crosses a month boundary relative to the reference
+    end = resolveDayTime(parseInt(match[3] ?? '0', 10), parseInt(match[4] ?? '0', 10), 0, new Date(start.getTime() + 24 * 60 * 60 * 1000));
+  }
+
+  return { start, end };
+}
+
+// ========================================
+// Raw Report Normalisation
+// ========================================
+
+/**
+ * Splits a raw report into tokens, dropping remarks and the trailing '='
+ * @param raw - Raw METAR or TAF text
+ * @returns Tokens
+ */
+function tokenize(raw: string): string[] {
+  const body = raw.replace(/=\s*$/, '').split(/\sRMK\s/)[0] ?? '';
+  return body.trim().split(/\s+/).filter((token) => token.length > 0);
+}
+
+// ========================================
+// METAR Decoding
+// ========================================
+
+/**
+ * Decodes a raw METAR or SPECI observation
+ * @param raw - Raw METAR text, e.g. "METAR KPAO 181756Z 31012G18KT 10SM BKN050 18/09 A3001"
+ * @param reference - Reference date used to resolve the observation day (defaults to now)
+ * @returns Decoded METAR
+ * @throws Error if the station or observation time cannot be found
+ */
+export function parseMetar(raw: string, reference: Date = new Date()): DecodedMetar {
+  const tokens = tokenize(raw);
+
+  if (tokens[0] === 'METAR' || tokens[0] === 'SPECI') {
+    tokens.shift();
+  }
+
+  const station = tokens.shift();
+  if (!station || !/^[A-Z0-9]{4}$/.test(station)) {
+    throw new Error(`Invalid METAR: missing station identifier in "${raw}"`);
+  }
+
+  const timeToken = tokens.shift() ?? '';
+  const timeMatch = ISSUE_TIME_PATTERN.exec(timeToken);
+  if (!timeMatch) {
+    throw new Error(`Invalid METAR: missing observation time for ${station}`);
+  }
+
+  const observationTime = resolveDayTime(
+    parseInt(timeMatch[1] ?? '0', 10),
+    parseInt(timeMatch[2] ?? '0', 10),
+    parseInt(timeMatch[3] ?? '0', 10),
+    reference
+  );
+
+  let temperature: number | null = null;
+  let dewpoint: number | null = null;
+  let altimeter: number | null = null;
+
+  for (const token of tokens) {
+    const temp = TEMPERATURE_PATTERN.exec(token);
+    if (temp) {
+      temperature = parseSignedTemperature(temp[1]);
+      dewpoint = parseSignedTemperature(temp[2]);
+      continue;
+    }
+
+    const alt = ALTIMETER_PATTERN.exec(token);
+    if (alt) {
+      const value = parseInt(alt[2] ?? '0', 10);
+      // Q groups are hectopascals; convert to inches of mercury
+      altimeter = alt[1] === 'A' ? value / 100 : Math.round((value / 33.8639) * 100) / 100;
+    }
+  }
+
+  return {
+    station,
+    observationTime,
+    conditions: decodeConditions(tokens.filter((t) => t !== 'AUTO' && t !== 'COR')),
+    temperature,
+    dewpoint,
+    altimeter,
+    raw,
+  };
+}
+
+/**
+ * Parses a METAR temperature value where M denotes minus
+ */
+function parseSignedTemperature(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  return value.startsWith('M') ? -parseInt(value.slice(1), 10) : parseInt(value, 10);
+}
+
+// ========================================
+// TAF Decoding
+// ========================================
+
+/**
+ * Decodes a raw TAF into its base forecast and change groups
+ * @param raw - Raw TAF text (may span multiple lines)
+ * @param reference - Reference date used to resolve day-of-month times (defaults to now)
+ * @returns Decoded TAF
+ * @throws Error if the header (station, issue time, validity) is malformed
+ */
+export function parseTaf(raw: string, reference: Date = new Date()): DecodedTaf {
+  const tokens = tokenize(raw.replace(/\s+/g, ' '));
+
+  while (tokens[0] === 'TAF' || tokens[0] === 'AMD' || tokens[0] === 'COR') {
+    tokens.shift();
+  }
+
+  const station = tokens.shift();
+  if (!station || !/^[A-Z0-9]{4}$/.test(station)) {
+    throw new Error(`Invalid TAF: missing station identifier in "${raw.slice(0, 40)}"`);
+  }
+
+  const issueMatch = ISSUE_TIME_PATTERN.exec(tokens.shift() ?? '');
+  if (!issueMatch) {
+    throw new Error(`Invalid TAF: missing issue time for ${station}`);
+  }
+  const issueTime = resolveDayTime(
+    parseInt(issueMatch[1] ?? '0', 10),
+    parseInt(issueMatch[2] ?? '0', 10),
+    parseInt(issueMatch[3] ?? '0', 10),
+    reference
+  );
+
+  const validity = resolvePeriod(tokens.shift() ?? '', issueTime);
+  if (!validity) {
+    throw new Error(`Invalid TAF: missing validity period for ${station}`);
+  }
+
+  // Split remaining tokens into groups at change indicators
+  interface RawGroup {
+    type: TafGroupType;
+    probability?: number;
+    start: Date;
+    end: Date | null; // FM groups end at the next FM group or validity end
+    tokens: string[];
+  }
+
+  const rawGroups: RawGroup[] = [
+    { type: 'BASE', start: validity.start, end: null, tokens: [] },
+  ];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? '';
+
+    const fm = FM_PATTERN.exec(token);
+    if (fm) {
+      rawGroups.push({
+        type: 'FM',
+        start: resolveDayTime(
+          parseInt(fm[1] ?? '0', 10),
+          parseInt(fm[2] ?? '0', 10),
+          parseInt(fm[3] ?? '0', 10),
+          issueTime
+        ),
+        end: null,
+        tokens: [],
+      });
+      continue;
+    }
+
+    const prob = PROB_PATTERN.exec(token);
+    if (token === 'BECMG' || token === 'TEMPO' || prob) {
+      let probability: number | undefined;
+      if (prob) {
+        probability = parseInt(prob[1] ?? '0', 10);
+        // "PROB30 TEMPO" - the TEMPO qualifier does not change how we treat the group
+        if (tokens[i + 1] === 'TEMPO') {
+          i++;
+        }
+      }
+
+      const period = resolvePeriod(tokens[i + 1] ?? '', issueTime);
+      if (period) {
+        i++;
+      }
+
+      rawGroups.push({
+        type: prob ? 'PROB' : (token as 'BECMG' | 'TEMPO'),
+        probability,
+        start: period?.start ?? validity.start,
+        end: period?.end ?? validity.end,
+        tokens: [],
+      });
+      continue;
+    }
+
+    rawGroups[rawGroups.length - 1]?.tokens.push(token);
+  }
+
+  // Close prevailing (BASE/FM) groups at the start of the next FM group
+  const prevailingStarts = rawGroups
+    .filter((g) => g.type === 'FM')
+    .map((g) => g.start.getTime());
+
+  const groups: TafGroup[] = rawGroups.map((group) => {
+    let end = group.end;
+    if (!end) {
+      const nextStart = prevailingStarts.find((start) => start > group.start.getTime());
+      end = new Date(nextStart ?? validity.end.getTime());
+    }
+    return {
+      type: group.type,
+      probability: group.probability,
+      start: group.start,
+      end,
+      conditions: decodeConditions(group.tokens),
+    };
+  });
+
+  return {
+    station,
+    issueTime,
+    validFrom: validity.start,
+    validTo: validity.end,
+    groups,
+    raw,
+  };
+}
+
+/**
+ * Shifts every time in a decoded TAF by a fixed offset
+ * Used to re-anchor fixture TAFs so their validity period covers the present
+ * @param taf - Decoded TAF
+ * @param offsetMs - Offset in milliseconds
+ * @returns New decoded TAF with shifted times
+ */
+export function shiftTaf(taf: DecodedTaf, offsetMs: number): DecodedTaf {
+  const shift = (date: Date) => new Date(date.getTime() + offsetMs);
+  return {
+    ...taf,
+    issueTime: shift(taf.issueTime),
+    validFrom: shift(taf.validFrom),
+    validTo: shift(taf.validTo),
+    groups: taf.groups.map((group) => ({
+      ...group,
+      start: shift(group.start),
+      end: shift(group.end),
+    })),
+  };
+}
+
+// ========================================
+// Condition Resolution
+// ========================================
+
+/**
+ * Overlays the elements of a change group onto existing conditions
+ */
+function overlayConditions(base: DecodedConditions, change: DecodedConditions): DecodedConditions {
+  return {
+    wind: change.wind ?? base.wind,
+    visibility: change.visibility ?? base.visibility,
+    clouds: change.clouds ?? base.clouds,
+    weather: change.weather ?? base.weather,
+  };
+}
+
+/**
+ * Combines two sets of conditions, keeping the more restrictive value of each element
+ */
+function worstOfConditions(a: DecodedConditions, b: DecodedConditions): DecodedConditions {
+  let wind = a.wind;
+  if (b.wind) {
+    const aPeak = a.wind ? Math.max(a.wind.speed, a.wind.gust ?? 0) : -1;
+    const bPeak = Math.max(b.wind.speed, b.wind.gust ?? 0);
+    if (bPeak > aPeak) {
+      wind = b.wind;
+    }
+  }
+
+  let visibility = a.visibility;
+  if (b.visibility !== undefined) {
+    visibility = visibility === undefined ? b.visibility : Math.min(visibility, b.visibility);
+  }
+
+  let clouds = a.clouds;
+  if (b.clouds !== undefined) {
+    const aCeiling = getCeiling(a.clouds);
+    const bCeiling = getCeiling(b.clouds);
+    if (bCeiling !== null && (aCeiling === null || bCeiling < aCeiling)) {
+      clouds = b.clouds;
+    } else if (clouds === undefined) {
+      clouds = b.clouds;
+    }
+  }
+
+  const weather = Array.from(new Set([...(a.weather ?? []), ...(b.weather ?? [])]));
+
+  return { wind, visibility, clouds, weather };
+}
+
+/**
+ * Checks whether a time lies within a TAF's validity period
+ * @param taf - Decoded TAF
+ * @param time - Time to check
+ * @returns True if the TAF forecasts the time
+ */
+export function isWithinTafValidity(taf: DecodedTaf, time: Date): boolean {
+  const t = time.getTime();
+  return t >= taf.validFrom.getTime() && t < taf.validTo.getTime();
+}
+
+/**
+ * Resolves the forecast conditions valid at a specific time
+ * - BASE and FM groups replace the prevailing conditions from their start time
+ * - BECMG groups change the elements they mention from the start of their period
+ * - TEMPO and PROB groups are folded into the worst case while active
+ * @param taf - Decoded TAF
+ * @param time - Time to resolve
+ * @returns Prevailing and worst-case conditions
+ * @throws Error if the time lies outside the TAF validity period
+ */
+export function resolveTafConditions(taf: DecodedTaf, time: Date): ResolvedConditions {
+  const t = time.getTime();
+  if (!isWithinTafValidity(taf, time)) {
+    throw new Error(
+      `Time ${time.toISOString()} is outside TAF validity for ${taf.station} (${taf.validFrom.toISOString()} - ${taf.validTo.toISOString()})`
+    );
+  }
+
+  let prevailing: DecodedConditions = {};
+
+  for (const group of taf.groups) {
+    if (group.start.getTime() > t) {
+      continue;
+    }
+
+    if (group.type === 'BASE' || group.type === 'FM') {
+      if (group.end.getTime() > t) {
+        prevailing = { ...group.conditions };
+      }
+    } else if (group.type === 'BECMG') {
+      prevailing = overlayConditions(prevailing, group.conditions);
+    }
+  }
+
+  const temporaryGroups = taf.groups.filter(
+    (group) =>
+      (group.type === 'TEMPO' || group.type === 'PROB') &&
+      group.start.getTime() <= t &&
+      group.end.getTime() > t
+  );
+
+  let worstCase = prevailing;
+  for (const group of temporaryGroups) {
+    worstCase = worstOfConditions(worstCase, overlayConditions(prevailing, group.conditions));
+  }
+
+  return { prevailing, worstCase, temporaryGroups };
+}
+
+/**
+ * Determines the FAA flight category for decoded conditions
+ * @param visibility - Visibility in statute miles
+ * @param ceiling - Ceiling in feet AGL (null if unlimited)
+ * @returns VFR, MVFR, IFR or LIFR
+ */
+export function getFlightCategory(
+  visibility: number | undefined,
+  ceiling: number | null
+): 'VFR' | 'MVFR' | 'IFR' | 'LIFR' {
+  const vis = visibility ?? UNRESTRICTED_VISIBILITY_SM;
+  const ceil = ceiling ?? Number.POSITIVE_INFINITY;
+
+  if (vis < 1 || ceil < 500) return 'LIFR';
+  if (vis < 3 || ceil < 1000) return 'IFR';
+  if (vis <= 5 || ceil <= 3000) return 'MVFR';
+  return 'VFR';
+}
+
+/**
+ * Builds a short plain-language summary of decoded conditions
+ * @param conditions - Decoded conditions
+ * @returns Summary such as "IFR - Overcast 800 ft, light rain, mist"
+ */
+export function describeConditions(conditions: DecodedConditions): string {
+  const ceiling = getCeiling(conditions.clouds);
+  const category = getFlightCategory(conditions.visibility, ceiling);
+  const parts: string[] = [];
+
+  const coverageLabels: Record<CloudCoverage, string> = {
+    FEW: 'Few clouds',
+    SCT: 'Scattered clouds',
+    BKN: 'Broken',
+    OVC: 'Overcast',
+    VV: 'Sky obscured, vertical visibility',
+  };
+
+  if (conditions.clouds && conditions.clouds.length > 0) {
+    // Describe the ceiling layer when there is one, otherwise the lowest layer
+    const sorted = [...conditions.clouds].sort((a, b) => a.base - b.base);
+    const layer = sorted.find((l) => l.base === ceiling && l.coverage !== 'FEW' && l.coverage !== 'SCT') ?? sorted[0];
+    if (layer) {
+      const convective = layer.convective ? ` ${layer.convective}` : '';
+      parts.push(`${coverageLabels[layer.coverage]} ${layer.base} ft${convective}`);
+    }
+  } else if (conditions.clouds) {
+    parts.push('Sky clear');
+  }
+
+  for (const token of conditions.weather ?? []) {
+    parts.push(describeWeather(token));
+  }
+
+  return parts.length > 0 ? `${category} - ${parts.join(', ')}` : category;
+}
@@ -0,0 +1,186 @@
+/**
+ * Weather Hazard Utilities
+ * Extracts convective, icing and precipitation hazards from forecast data
+ *
+ * Hazards come from three sources, any of which may be missing for a provider:
+ * - Present weather groups from METAR/TAF reports (e.g. "+TSRA", "FZDZ")
+ * - WeatherAPI.com condition codes
+ * - Free-text condition descriptions (synthetic, fixture and decoded report text)
+ * Icing is additionally inferred from temperature: visible moisture with the
+ * freezing level at or below typical training altitudes.
+ */
+
+// ========================================
+// Type Definitions
+// ========================================
+
+export type HazardType =
+  | 'thunderstorm'
+  | 'freezing-precipitation'
+  | 'snow'
+  | 'icing'
+  | 'heavy-precipitation';
+
+/**
+ * Forecast elements used for hazard extraction
+ */
+export interface HazardInputs {
+  conditions: string; // free-text description
+  weatherGroups?: string[]; // METAR/TAF present weather groups
+  conditionCode?: number; // WeatherAPI.com condition code
+  freezingLevel?: number | null; // feet AGL
+  ceiling: number | null; // feet AGL (null if unlimited)
+}
+
+// ========================================
+// Constants
+// ========================================
+
+/**
+ * Standard temperature lapse rate used to estimate the freezing level
+ */
+const LAPSE_RATE_C_PER_1000FT = 2;
+
+/**
+ * Freezing levels at or below this height (feet AGL) put training altitudes in icing
+ */
+const ICING_FREEZING_LEVEL_FT = 3000;
+
+/**
+ * Cloud bases at or below this height (feet AGL) count as visible moisture for icing
+ */
+const ICING_CLOUD_BASE_FT = 5000;
+
+/**
+ * WeatherAPI.com condition codes by hazard
+ * See https://www.weatherapi.com/docs/weather_conditions.json
+ */
+const WEATHERAPI_HAZARD_CODES: Record<HazardType, number[]> = {
+  thunderstorm: [1087, 1273, 1276, 1279, 1282],
+  'freezing-precipitation': [
+    1069, 1072, 1168, 1171, 1198, 1201, 1204, 1207, 1237, 1249, 1252, 1261, 1264,
+  ],
+  snow: [1066, 1114, 1117, 1210, 1213, 1216, 1219, 1222, 1225, 1255, 1258, 1279, 1282],
+  icing: [1147], // freezing fog
+  'heavy-precipitation': [
+    1117, 1171, 1192, 1195, 1201, 1207, 1222, 1225, 1243, 1246, 1252, 1258, 1264, 1276, 1282,
+  ],
+};
+
+/**
+ * Free-text patterns by hazard
+ */
+const TEXT_HAZARD_PATTERNS: Record<HazardType, RegExp> = {
+  thunderstorm: /\b(thunder\w*|tstms?|lightning|cumulonimbus|convective)\b/i,
+  'freezing-precipitation': /\b(freezing (rain|drizzle)|sleet|ice pellets|wintry mix)\b/i,
+  snow: /\b(snow\w*|blizzard)\b/i,
+  icing: /\b(icing|freezing fog)\b/i,
+  'heavy-precipitation': /\b(heavy|torrential)\b.*\b(rain|snow|drizzle|showers?|precipitation|hail)\b/i,
+};
+
+/**
+ * Precipitation phenomena in METAR/TAF weather groups
+ */
+const PRECIPITATION_CODES = ['DZ', 'RA', 'SN', 'SG', 'PL', 'GR', 'GS', 'UP'];
+
+// ========================================
+// Hazard Extraction
+// ========================================
+
+/**
+ * Estimates the freezing level from surface temperature
+ * @param temperature - Surface temperature in degrees Celsius
+ * @returns Freezing level in feet AGL (0 at or below freezing), or null if unknown
+ */
+export function estimateFreezingLevel(temperature: number | null | undefined): number | null {
+  if (temperature === null || temperature === undefined) {
+    return null;
+  }
+  if (temperature <= 0) {
+    return 0;
+  }
+  return Math.round((temperature / LAPSE_RATE_C_PER_1000FT) * 10) * 100;
+}
+
+/**
+ * Extracts hazards from METAR/TAF present weather groups
+ * @param groups - Weather groups, e.g. ['-FZRA', 'BR']
+ * @returns Hazards found
+ */
+function getWeatherGroupHazards(groups: string[]): HazardType[] {
+  const hazards: HazardType[] = [];
+
+  for (const group of groups) {
+    const phenomena = group.replace(/^[+-]|^VC/, '');
+    const hasPrecipitation = PRECIPITATION_CODES.some((code) => phenomena.includes(code));
+
+    if (phenomena.includes('TS')) {
+      hazards.push('thunderstorm');
+    }
+    if ((phenomena.startsWith('FZ') && hasPrecipitation) || phenomena.includes('PL')) {
+      hazards.push('freezing-precipitation');
+    }
+    if (phenomena === 'FZFG') {
+      hazards.push('icing');
+    }
+    if (phenomena.includes('SN') || phenomena.includes('SG')) {
+      hazards.push('snow');
+    }
+    if (group.startsWith('+') && hasPrecipitation) {
+      hazards.push('heavy-precipitation');
+    }
+  }
+
+  return hazards;
+}
+
+/**
+ * Extracts weather hazards from forecast elements
+ * @param inputs - Conditions text, provider codes, freezing level and ceiling
+ * @returns Distinct hazards in a stable order
+ */
+export function extractHazards(inputs: HazardInputs): HazardType[] {
+  const found = new Set<HazardType>();
+
+  for (const hazard of Object.keys(TEXT_HAZARD_PATTERNS) as HazardType[]) {
+    if (TEXT_HAZARD_PATTERNS[hazard].test(inputs.conditions)) {
+      found.add(hazard);
+    }
+    if (
+      inputs.conditionCode !== undefined &&
+      WEATHERAPI_HAZARD_CODES[hazard].includes(inputs.conditionCode)
+    ) {
+      found.add(hazard);
+    }
+  }
+
+  for (const hazard of getWeatherGroupHazards(inputs.weatherGroups ?? [])) {
+    found.add(hazard);
+  }
+
+  // Visible moisture (low cloud or any precipitation) above a low freezing level
+  const hasVisibleMoisture =
+    (inputs.ceiling !== null && inputs.ceiling <= ICING_CLOUD_BASE_FT) ||
+    found.has('snow') ||
+    found.has('freezing-precipitation') ||
+    found.has('heavy-precipitation');
+  if (
+    hasVisibleMoisture &&
+    inputs.freezingLevel !== null &&
+    inputs.freezingLevel !== undefined &&
+    inputs.freezingLevel <= ICING_FREEZING_LEVEL_FT
+  ) {
+    found.add('icing');
+  }
+
+  return (Object.keys(TEXT_HAZARD_PATTERNS) as HazardType[]).filter((hazard) => found.has(hazard));
+}
+
+/**
+ * Parses a stored hazards column
+ * @param json - JSON array of hazard types, or null for snapshots that predate hazards
+ * @returns Hazards (empty when not stored)
+ */
+export function parseHazards(json: string | null): HazardType[] {
+  return json ? (JSON.parse(json) as HazardType[]) : [];
+}
@@ -137,6 +137,37 @@ export function getWeatherSeverityColor(
 // Confidence Horizon Calculations
 // ========================================
 
+/**
+ * Calculates confidence horizon based on forecast time
+ * @param forecastTime - ISO 8601 forecast datetime
+ * @returns Confidence horizon in hours
+ */
+export function calculateConfidenceHorizon(forecastTime: string): number {
+  const forecastDate = new Date(forecastTime);
+  const now = new Date();
+  const hoursUntilForecast = (forecastDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  // Forecast confidence degrades over time
+  // <24h: high confidence (24 hours)
+  // 24-72h: medium confidence (48 hours)
+  // >72h: low confidence (72 hours)
+  if (hoursUntilForecast < 24) return 24;
+  if (hoursUntilForecast < 72) return 48;
+  return 72;
+}
+
+/**
+ * Converts a confidence horizon into a weight for forecast-based decisions
+ * Follows the horizon buckets from calculateConfidenceHorizon
+ * @param confidenceHorizon - Confidence horizon in hours
+ * @returns Forecast confidence from 0.5 (low) to 1 (high)
+ */
+export function getForecastConfidence(confidenceHorizon: number): number {
+  if (confidenceHorizon <= 24) return 1;
+  if (confidenceHorizon <= 48) return 0.8;
+  return 0.5;
+}
+
 /**
  * Calculates confidence status for a forecast
  * @param forecastTime - ISO 8601 forecast time
@@ -220,3 +251,26 @@ export function formatRelativeTime(isoString: string): string {
 
   return formatDateTime(isoString);
 }
+
+// ========================================
+// Forecast Window Helpers
+// ========================================
+
+/**
+ * Expands a forecast window into hourly forecast times
+ * The first entry is always windowStart; subsequent entries step forward one hour
+ * @param windowStart - ISO 8601 window start
+ * @param windowEnd - ISO 8601 window end (inclusive)
+ * @returns ISO 8601 forecast times
+ */
+export function getForecastWindowHours(windowStart: string, windowEnd: string): string[] {
+  const start = new Date(windowStart).getTime();
+  const end = Math.max(new Date(windowEnd).getTime(), start);
+  const hours: string[] = [];
+
+  for (let time = start; time <= end; time += 60 * 60 * 1000) {
+    hours.push(new Date(time).toISOString());
+  }
+
+  return hours;
+}
@@ -14,6 +14,7 @@ import {
   SeedDemoDataRequest,
   ListFlightsRequest,
   FlightClassificationRequest,
+  GetClassificationHistoryRequest,
   GetWeatherSnapshotsRequest,
   GenerateCandidateSlotsRequest,
   GenerateRescheduleRecommendationsRequest,
@@ -22,18 +23,48 @@ import {
   GetCronRunsRequest,
   GetRecentNotificationsRequest,
   UpdateNotificationStatusRequest,
+  GetAirportRequest,
+  CreateFlightRequest,
+  GetAircraftRequest,
+  CreateAircraftRequest,
+  UpdateAircraftLimitsRequest,
+  UpdateThresholdsRequest,
+  GetThresholdHistoryRequest,
+  UpdateMarginBandsRequest,
+  UpdateSettingsRequest,
+  GetSettingHistoryRequest,
+  CreateOrganizationRequest,
+  GetStudentAvailabilityRequest,
+  SetStudentAvailabilityRequest,
+  GetInstructorScheduleRequest,
+  SetInstructorScheduleRequest,
+  GetOperatingHoursRequest,
+  SetOperatingHoursRequest,
+  SimulateClassificationRequest,
 } from './schema';
 import * as weatherService from '../services/weather-service';
 import * as reschedulerService from '../services/rescheduler';
 import * as seedDataService from '../services/seed-data';
 import * as flightListService from '../services/flight-list';
 import * as classificationService from '../services/classification-service';
+import * as classificationHistoryService from '../services/classification-history-service';
 import * as candidateSlotService from '../services/candidate-slot-service';
 import * as aiRescheduleService from '../services/ai-reschedule-service';
 import * as rescheduleActionService from '../services/reschedule-action-service';
 import * as cronMonitoringService from '../services/cron-monitoring-service';
 import * as notificationService from '../services/notification-service';
-import { generateCorrelationId, createContext } from '../lib/logger';
+import * as airportService from '../services/airport-service';
+import * as flightService from '../services/flight-service';
+import * as aircraftService from '../services/aircraft-service';
+import * as lessonTypeService from '../services/lesson-type-service';
+import * as thresholdService from '../services/thresholds';
+import * as marginBandService from '../services/margin-band-service';
+import * as settingsService from '../services/settings-service';
+import * as organizationService from '../services/organization-service';
+import * as studentAvailabilityService from '../services/student-availability-service';
+import * as instructorScheduleService from '../services/instructor-schedule-service';
+import * as operatingHoursService from '../services/operating-hours-service';
+import { generateCorrelationId, createContext, createLogger } from '../lib/logger';
 
 /**
  * Creates a JSON success response
@@ -59,12 +90,13 @@ function jsonError(error: string, status: number, correlationId?: string): Respo
 /**
  * Main RPC request handler
  * Routes incoming RPC calls to appropriate service functions with validation
+ * Every call names the organization it is scoped to in the envelope's organizationId
  */
 export async function handleRpc(request: Request, env: Env): Promise<Response> {
   const correlationId = generateCorrelationId('rpc');
-  const ctx = createContext(correlationId, env);
+  const logger = createLogger(correlationId);
 
-  ctx.logger.info('RPC request received');
+  logger.info('RPC request received');
 
   try {
     // Parse request body
@@ -72,7 +104,7 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
     try {
       body = await request.json();
     } catch (error) {
-      ctx.logger.error('Failed to parse JSON', {
+      logger.error('Failed to parse JSON', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       return jsonError('Invalid JSON in request body', 400, correlationId);
@@ -80,19 +112,32 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
 
     const method = (body as any).method;
     const params = (body as any).params;
+    const organizationId = (body as any).organizationId;
 
     // Validate method is provided
     if (!method || typeof method !== 'string') {
-      ctx.logger.error('Missing or invalid method');
+      logger.error('Missing or invalid method');
       return jsonError('Method is required and must be a string', 400, correlationId);
     }
 
     // Validate method exists in RPC method map
     if (!(method in RpcMethodMap)) {
-      ctx.logger.error('Unknown method', { method });
+      logger.error('Unknown method', { method });
       return jsonError(`Unknown method: ${method}`, 400, correlationId);
     }
 
+    // Validate organization is provided and exists
+    if (!Number.isInteger(organizationId) || organizationId <= 0) {
+      logger.error('Missing or invalid organizationId', { method });
+      return jsonError('organizationId is required and must be a positive integer', 400, correlationId);
+    }
+
+    const ctx = createContext(correlationId, env, organizationId);
+    if (!(await organizationService.getOrganization(ctx, organizationId))) {
+      logger.error('Unknown organization', { method, organizationId });
+      return jsonError(`Unknown organization: ${organizationId}`, 400, correlationId);
+    }
+
     const rpcMethod = method as RpcMethod;
     const methodSchema = RpcMethodMap[rpcMethod];
 
@@ -110,7 +155,7 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
       );
     }
 
-    ctx.logger.info('RPC method invoked', { method, params: validation.data });
+    ctx.logger.info('RPC method invoked', { method, organizationId, params: validation.data });
 
     // Route to appropriate service function
     let result;
@@ -146,6 +191,13 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
           break;
         }
 
+        case 'getClassificationHistory': {
+          const params = validation.data as GetClassificationHistoryRequest;
+          const classifications = await classificationHistoryService.getClassificationHistory(ctx, params);
+          result = { classifications };
+          break;
+        }
+
         case 'getWeatherSnapshots': {
           const params = validation.data as GetWeatherSnapshotsRequest;
           result = await weatherService.getWeatherSnapshotsForFlight(ctx, params);
@@ -223,6 +275,182 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
           break;
         }
 
+        case 'getAirport': {
+          const { icao } = validation.data as GetAirportRequest;
+          const airport = await airportService.getAirport(ctx, icao);
+          result = { airport };
+          break;
+        }
+
+        case 'listAirports': {
+          const airports = await airportService.listAirports(ctx);
+          result = { airports };
+          break;
+        }
+
+        case 'loadAirports': {
+          result = await airportService.loadAirports(ctx);
+          break;
+        }
+
+        case 'createFlight': {
+          const params = validation.data as CreateFlightRequest;
+          result = await flightService.createFlight(ctx, params);
+          break;
+        }
+
+        case 'getAircraft': {
+          const { aircraftId } = validation.data as GetAircraftRequest;
+          const aircraft = await aircraftService.getAircraft(ctx, aircraftId);
+          result = { aircraft };
+          break;
+        }
+
+        case 'listAircraft': {
+          const aircraft = await aircraftService.listAircraft(ctx);
+          result = { aircraft };
+          break;
+        }
+
+        case 'createAircraft': {
+          const params = validation.data as CreateAircraftRequest;
+          const aircraft = await aircraftService.createAircraft(ctx, params);
+          result = { aircraft };
+          break;
+        }
+
+        case 'updateAircraftLimits': {
+          const params = validation.data as UpdateAircraftLimitsRequest;
+          const aircraft = await aircraftService.updateAircraftLimits(ctx, params);
+          result = { aircraft };
+          break;
+        }
+
+        case 'listLessonTypes': {
+          const lessonTypes = await lessonTypeService.listLessonTypes(ctx);
+          result = { lessonTypes };
+          break;
+        }
+
+        case 'listThresholds': {
+          const thresholds = await thresholdService.listThresholdSets(ctx);
+          result = { thresholds };
+          break;
+        }
+
+        case 'updateThresholds': {
+          const params = validation.data as UpdateThresholdsRequest;
+          result = await thresholdService.updateThresholds(ctx, params);
+          break;
+        }
+
+        case 'getThresholdHistory': {
+          const params = validation.data as GetThresholdHistoryRequest;
+          const versions = await thresholdService.getThresholdHistory(ctx, params);
+          result = { versions };
+          break;
+        }
+
+        case 'getMarginBands': {
+          const marginBands = await marginBandService.getMarginBands(ctx);
+          result = { marginBands };
+          break;
+        }
+
+        case 'updateMarginBands': {
+          const params = validation.data as UpdateMarginBandsRequest;
+          const marginBands = await marginBandService.updateMarginBands(ctx, params);
+          result = { marginBands };
+          break;
+        }
+
+        case 'listOrganizations': {
+          const organizations = await organizationService.listOrganizations(ctx);
+          result = { organizations };
+          break;
+        }
+
+        case 'createOrganization': {
+          const params = validation.data as CreateOrganizationRequest;
+          const organization = await organizationService.createOrganization(ctx, params);
+          result = { organization };
+          break;
+        }
+
+        case 'getSettings': {
+          const settings = await settingsService.getSettingDetails(ctx);
+          result = { settings };
+          break;
+        }
+
+        case 'updateSettings': {
+          const params = validation.data as UpdateSettingsRequest;
+          const settings = await settingsService.updateSettings(ctx, params);
+          result = { settings };
+          break;
+        }
+
+        case 'getSettingHistory': {
+          const params = validation.data as GetSettingHistoryRequest;
+          const changes = await settingsService.getSettingHistory(ctx, params);
+          result = { changes };
+          break;
+        }
+
+        case 'getStudentAvailability': {
+          const params = validation.data as GetStudentAvailabilityRequest;
+          const availability = await studentAvailabilityService.getStudentAvailability(ctx, params.studentId);
+          result = { availability };
+          break;
+        }
+
+        case 'setStudentAvailability': {
+          const params = validation.data as SetStudentAvailabilityRequest;
+          const availability = await studentAvailabilityService.setStudentAvailability(ctx, params);
+          result = { availability };
+          break;
+        }
+
+        case 'getInstructorSchedule': {
+          const params = validation.data as GetInstructorScheduleRequest;
+          const schedule = await instructorScheduleService.getInstructorSchedule(ctx, params.instructorId);
+          result = { schedule };
+          break;
+        }
+
+        case 'setInstructorSchedule': {
+          const params = validation.data as SetInstructorScheduleRequest;
+          const schedule = await instructorScheduleService.setInstructorSchedule(ctx, params);
+          result = { schedule };
+          break;
+        }
+
+        case 'getOperatingHours': {
+          const params = validation.data as GetOperatingHoursRequest;
+          const operatingHours = await operatingHoursService.getOperatingHours(ctx, params.airport);
+          result = { operatingHours };
+          break;
+        }
+
+        case 'listOperatingHours': {
+          const operatingHours = await operatingHoursService.listOperatingHours(ctx);
+          result = { operatingHours };
+          break;
+        }
+
+        case 'setOperatingHours': {
+          const params = validation.data as SetOperatingHoursRequest;
+          const operatingHours = await operatingHoursService.setOperatingHours(ctx, params);
+          result = { operatingHours };
+          break;
+        }
+
+        case 'simulateClassification': {
+          const params = validation.data as SimulateClassificationRequest;
+          result = await classificationService.simulateClassification(ctx, params);
+          break;
+        }
+
         default:
           // TypeScript should prevent this, but handle defensively
           const exhaustiveCheck: never = rpcMethod;
@@ -257,7 +485,7 @@ export async function handleRpc(request: Request, env: Env): Promise<Response> {
   } catch (error) {
     // Top-level error handler for unexpected errors
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-    ctx.logger.error('Unexpected RPC error', {
+    logger.error('Unexpected RPC error', {
       error: errorMessage,
       stack: error instanceof Error ? error.stack : undefined,
     });
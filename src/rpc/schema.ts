@@ -18,8 +18,12 @@ export const WeatherPollResponseSchema = z.object({
   flightsEvaluated: z.number(),
   classifications: z.array(z.object({
     flightId: z.number(),
-    weatherStatus: z.enum(['clear', 'advisory', 'auto-reschedule', 'unknown']),
+    weatherStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']),
   })).optional(),
+  forecastCache: z.object({
+    hits: z.number(),
+    misses: z.number(), // provider calls made
+  }).optional(),
 });
 
 export type WeatherPollRequest = z.infer<typeof WeatherPollRequestSchema>;
@@ -69,7 +73,7 @@ export const ListFlightsRequestSchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   status: z.enum(['scheduled', 'rescheduled', 'completed', 'cancelled']).optional(),
-  weatherStatus: z.enum(['unknown', 'clear', 'advisory', 'auto-reschedule']).optional(),
+  weatherStatus: z.enum(['unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule']).optional(),
 });
 
 export const FlightDetailSchema = z.object({
@@ -82,7 +86,8 @@ export const FlightDetailSchema = z.object({
   departureAirport: z.string(),
   arrivalAirport: z.string(),
   status: z.enum(['scheduled', 'rescheduled', 'completed', 'cancelled']),
-  weatherStatus: z.enum(['unknown', 'clear', 'advisory', 'auto-reschedule']),
+  weatherStatus: z.enum(['unknown', 'clear', 'marginal', 'advisory', 'auto-reschedule']),
+  lessonType: z.string().nullable(), // lesson type name, null if none assigned
 });
 
 export const ListFlightsResponseSchema = z.object({
@@ -94,45 +99,235 @@ export type ListFlightsRequest = z.infer<typeof ListFlightsRequestSchema>;
 export type FlightDetail = z.infer<typeof FlightDetailSchema>;
 export type ListFlightsResponse = z.infer<typeof ListFlightsResponseSchema>;
 
+// ========================================
+// Weather Trend Types
+// ========================================
+
+export const TrendDirectionSchema = z.enum(['improving', 'stable', 'deteriorating']);
+
+export const MetricTrendSchema = z.object({
+  ratePerHour: z.number(), // change per hour between successive forecasts
+  direction: TrendDirectionSchema,
+});
+
+export const CheckpointTrendSchema = z.object({
+  checkpointType: z.enum(['departure', 'arrival', 'corridor']),
+  direction: TrendDirectionSchema, // deteriorating if any metric deteriorates
+  sampleCount: z.number(),
+  windSpeed: MetricTrendSchema, // knots per hour
+  visibility: MetricTrendSchema, // statute miles per hour
+  ceiling: MetricTrendSchema, // feet per hour
+});
+
+export type TrendDirection = z.infer<typeof TrendDirectionSchema>;
+export type MetricTrend = z.infer<typeof MetricTrendSchema>;
+export type CheckpointTrend = z.infer<typeof CheckpointTrendSchema>;
+
+// ========================================
+// Weather Hazard Types
+// ========================================
+
+export const HazardTypeSchema = z.enum([
+  'thunderstorm',
+  'freezing-precipitation',
+  'snow',
+  'icing',
+  'heavy-precipitation',
+]);
+
+export type HazardType = z.infer<typeof HazardTypeSchema>;
+
+// ========================================
+// Daylight Rule Types
+// ========================================
+
+export const DaylightRuleSchema = z.enum(['day-only', 'night-allowed', 'night-required']);
+
+export type DaylightRule = z.infer<typeof DaylightRuleSchema>;
+
+// ========================================
+// Threshold Source Types
+// ========================================
+
+export const ThresholdSourceSchema = z.enum(['training-level', 'lesson-type', 'personal', 'override']); // which minimums set a limit
+
+export type ThresholdSource = z.infer<typeof ThresholdSourceSchema>;
+
+// ========================================
+// Margin Band Types
+// ========================================
+
+// Distance past each limit that still counts as a marginal rather than hard breach
+export const MarginBandsSchema = z.object({
+  wind: z.number().nonnegative(), // knots above max wind
+  visibility: z.number().nonnegative(), // statute miles below min visibility
+  ceiling: z.number().nonnegative(), // feet below min ceiling
+  crosswind: z.number().nonnegative(), // knots above max crosswind
+  gust: z.number().nonnegative(), // knots above max gust factor
+});
+
+export type MarginBands = z.infer<typeof MarginBandsSchema>;
+
 // ========================================
 // ClassifyFlights Method
 // ========================================
 
 export const FlightClassificationRequestSchema = z.object({
   flightIds: z.array(z.number()).optional(),
+  persist: z.boolean().optional(), // Default: true; false evaluates without updating flights
 });
 
-export const FlightClassificationResponseSchema = z.object({
-  results: z.array(z.object({
-    flightId: z.number(),
-    weatherStatus: z.enum(['clear', 'advisory', 'auto-reschedule', 'unknown']),
-    reason: z.string(),
-    breachedCheckpoints: z.array(z.object({
-      checkpointType: z.enum(['departure', 'arrival', 'corridor']),
-      location: z.string(),
-      breaches: z.object({
-        wind: z.boolean().optional(),
-        visibility: z.boolean().optional(),
-        ceiling: z.boolean().optional(),
-      }),
-      conditions: z.object({
-        windSpeed: z.number(),
-        visibility: z.number(),
-        ceiling: z.number().nullable(),
-      }),
-      thresholds: z.object({
-        maxWind: z.number(),
-        minVisibility: z.number(),
-        minCeiling: z.number(),
-      }),
-    })),
-    hoursUntilDeparture: z.number(),
+export const ClassificationResultSchema = z.object({
+  flightId: z.number(),
+  weatherStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']), // after hysteresis
+  evaluatedStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']), // latest evaluation alone
+  reason: z.string(),
+  breachedCheckpoints: z.array(z.object({
+    checkpointType: z.enum(['departure', 'arrival', 'corridor']),
+    location: z.string(),
+    breaches: z.object({
+      wind: z.boolean().optional(),
+      visibility: z.boolean().optional(),
+      ceiling: z.boolean().optional(),
+      crosswind: z.boolean().optional(),
+      gust: z.boolean().optional(),
+      trend: z.boolean().optional(),
+      convective: z.boolean().optional(), // thunderstorm
+      icing: z.boolean().optional(), // icing or freezing precipitation
+      precipitation: z.boolean().optional(), // snow or heavy precipitation
+      daylight: z.boolean().optional(), // daylight rule violated at this airport
+      densityAltitude: z.boolean().optional(), // above the aircraft category ceiling
+      requiredCeiling: z.boolean().optional(), // ceiling too high for a lesson that needs IMC
+      requiredVisibility: z.boolean().optional(), // visibility too good for a lesson that needs IMC
+    }),
+    marginalBreaches: z.object({ // breaches within the margin band past the limit
+      wind: z.boolean().optional(),
+      visibility: z.boolean().optional(),
+      ceiling: z.boolean().optional(),
+      crosswind: z.boolean().optional(),
+      gust: z.boolean().optional(),
+    }),
+    forecastConfidence: z.number(), // 0-1, from the snapshot's confidence horizon
+    riskScore: z.number(), // 0-100, breach severity weighted by forecast confidence
+    conditions: z.object({
+      windSpeed: z.number(),
+      visibility: z.number(),
+      ceiling: z.number().nullable(),
+      gustSpeed: z.number().nullable(),
+      crosswind: z.number().nullable(),
+      runway: z.string().nullable(),
+      trend: TrendDirectionSchema,
+      hazards: z.array(HazardTypeSchema),
+      temperature: z.number().nullable(),
+      freezingLevel: z.number().nullable(),
+      inDaylight: z.boolean().nullable(), // null for corridor
+      civilDusk: z.string().nullable(), // ISO 8601, null for corridor or polar day/night
+      densityAltitude: z.number().nullable(), // feet, null for corridor or without temperature
+    }),
+    thresholds: z.object({
+      maxWind: z.number(),
+      minVisibility: z.number(),
+      minCeiling: z.number(),
+      maxCrosswind: z.number(),
+      maxGustFactor: z.number(),
+      prohibitedHazards: z.array(HazardTypeSchema),
+      daylightRule: DaylightRuleSchema,
+      maxDensityAltitude: z.number().nullable(), // feet, null if the category has no limit
+      maxCeiling: z.number().nullable(), // feet, lesson requires a ceiling below this
+      maxVisibility: z.number().nullable(), // statute miles, lesson requires visibility below this
+      marginBands: MarginBandsSchema,
+    }),
+    limitSources: z.object({ // breached limits only
+      wind: ThresholdSourceSchema.optional(),
+      visibility: ThresholdSourceSchema.optional(),
+      ceiling: ThresholdSourceSchema.optional(),
+      crosswind: ThresholdSourceSchema.optional(),
+      gust: ThresholdSourceSchema.optional(),
+      convective: ThresholdSourceSchema.optional(),
+      icing: ThresholdSourceSchema.optional(),
+      precipitation: ThresholdSourceSchema.optional(),
+      daylight: ThresholdSourceSchema.optional(),
+      requiredCeiling: ThresholdSourceSchema.optional(),
+      requiredVisibility: ThresholdSourceSchema.optional(),
+    }),
+    aircraftBreaches: z.object({
+      crosswind: z.boolean().optional(), // above the demonstrated crosswind
+      wind: z.boolean().optional(), // steady wind or gusts above the aircraft maximum
+      ifr: z.boolean().optional(), // IFR/LIFR conditions, aircraft not IFR capable
+      night: z.boolean().optional(), // dark at checkpoint, aircraft not night capable
+      serviceCeiling: z.boolean().optional(), // density altitude above service ceiling
+    }),
+    aircraftLimits: z.object({
+      registration: z.string(),
+      maxCrosswind: z.number().nullable(),
+      maxWindSpeed: z.number().nullable(),
+      ifrCapable: z.boolean(),
+      nightCapable: z.boolean(),
+      serviceCeiling: z.number().nullable(),
+    }).nullable(), // null if the aircraft record is missing
   })),
+  hoursUntilDeparture: z.number(),
+  riskScore: z.number(), // 0-100, highest checkpoint risk (0 if clear or unknown)
+  thresholdVersionId: z.number().nullable(), // threshold_versions row evaluated against
+});
+
+export const FlightClassificationResponseSchema = z.object({
+  results: z.array(ClassificationResultSchema),
 });
 
 export type FlightClassificationRequest = z.infer<typeof FlightClassificationRequestSchema>;
+export type ClassificationResult = z.infer<typeof ClassificationResultSchema>;
 export type FlightClassificationResponse = z.infer<typeof FlightClassificationResponseSchema>;
 
+// ========================================
+// GetClassificationHistory Method
+// ========================================
+
+// Effective limits a classification evaluated against
+export const ClassificationThresholdsSchema = z.object({
+  maxWind: z.number(),
+  minVisibility: z.number(),
+  minCeiling: z.number(),
+  maxCrosswind: z.number(),
+  maxGustFactor: z.number(),
+  prohibitedHazards: z.array(HazardTypeSchema),
+  daylightRule: DaylightRuleSchema,
+  maxCeiling: z.number().nullable(),
+  maxVisibility: z.number().nullable(),
+  sources: z.record(z.string(), ThresholdSourceSchema), // keyed by threshold field
+  marginBands: MarginBandsSchema,
+});
+
+export const ClassificationRecordSchema = z.object({
+  id: z.number(),
+  flightId: z.number(),
+  weatherStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']), // after hysteresis
+  evaluatedStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']),
+  reason: z.string(),
+  riskScore: z.number(),
+  hoursUntilDeparture: z.number(),
+  snapshotIds: z.array(z.number()), // weather snapshots evaluated
+  thresholds: ClassificationThresholdsSchema.nullable(), // null if the training level had none
+  breachedCheckpoints: ClassificationResultSchema.shape.breachedCheckpoints,
+  thresholdVersionId: z.number().nullable(),
+  correlationId: z.string(),
+  createdAt: z.string(), // ISO 8601
+});
+
+export const GetClassificationHistoryRequestSchema = z.object({
+  flightId: z.number(),
+  limit: z.number().int().positive().max(200).optional(), // Default: 50
+});
+
+export const GetClassificationHistoryResponseSchema = z.object({
+  classifications: z.array(ClassificationRecordSchema), // newest first
+});
+
+export type ClassificationThresholds = z.infer<typeof ClassificationThresholdsSchema>;
+export type ClassificationRecord = z.infer<typeof ClassificationRecordSchema>;
+export type GetClassificationHistoryRequest = z.infer<typeof GetClassificationHistoryRequestSchema>;
+export type GetClassificationHistoryResponse = z.infer<typeof GetClassificationHistoryResponseSchema>;
+
 // ========================================
 // GetWeatherSnapshots Method
 // ========================================
@@ -152,6 +347,23 @@ export const StalenessMetadataSchema = z.object({
   message: z.string(),
 });
 
+export const CorridorWaypointSchema = z.object({
+  id: z.number(),
+  snapshot_id: z.number(),
+  sequence: z.number(), // 1-based, ordered from departure
+  latitude: z.number(),
+  longitude: z.number(),
+  distance_nm: z.number(),
+  nearest_airport: z.string().nullable(),
+  eta: z.string(), // ISO 8601
+  wind_speed: z.number(), // knots
+  visibility: z.number(), // statute miles
+  ceiling: z.number().nullable(), // feet AGL or NULL
+  conditions: z.string(),
+  is_worst: z.number(), // 1 if used as the corridor checkpoint
+  created_at: z.string(), // ISO 8601
+});
+
 export const WeatherSnapshotSchema = z.object({
   id: z.number(),
   flight_id: z.number(),
@@ -159,20 +371,33 @@ export const WeatherSnapshotSchema = z.object({
   location: z.string(),
   forecast_time: z.string(), // ISO 8601
   wind_speed: z.number(), // knots
+  wind_direction: z.number().nullable(), // degrees true
+  gust_speed: z.number().nullable(), // knots
   visibility: z.number(), // statute miles
   ceiling: z.number().nullable(), // feet AGL or NULL
   conditions: z.string(),
   confidence_horizon: z.number(), // hours
+  runway: z.string().nullable(),
+  crosswind_component: z.number().nullable(), // knots
+  headwind_component: z.number().nullable(), // knots
+  temperature: z.number().nullable(), // degrees Celsius
+  freezing_level: z.number().nullable(), // feet AGL
+  hazards: z.string().nullable(), // JSON array of hazard types
+  altimeter: z.number().nullable(), // inches of mercury
+  density_altitude: z.number().nullable(), // feet
   correlation_id: z.string(),
   created_at: z.string(), // ISO 8601
   etag: z.string().nullable(),
+  provider: z.enum(['weatherapi', 'taf', 'fixture', 'synthetic']).nullable(),
   // Computed fields
   staleness: StalenessMetadataSchema.optional(),
+  waypoints: z.array(CorridorWaypointSchema).optional(), // corridor snapshots only
 });
 
 export const GetWeatherSnapshotsResponseSchema = z.object({
   snapshots: z.array(WeatherSnapshotSchema),
   totalCount: z.number(),
+  trends: z.array(CheckpointTrendSchema).optional(),
   flightContext: z
     .object({
       flightId: z.number(),
@@ -187,6 +412,7 @@ export const GetWeatherSnapshotsResponseSchema = z.object({
 export type GetWeatherSnapshotsRequest = z.infer<typeof GetWeatherSnapshotsRequestSchema>;
 export type StalenessMetadata = z.infer<typeof StalenessMetadataSchema>;
 export type WeatherSnapshot = z.infer<typeof WeatherSnapshotSchema>;
+export type CorridorWaypoint = z.infer<typeof CorridorWaypointSchema>;
 export type GetWeatherSnapshotsResponse = z.infer<typeof GetWeatherSnapshotsResponseSchema>;
 
 // ========================================
@@ -205,6 +431,7 @@ export const GenerateCandidateSlotsResponseSchema = z.object({
   searchWindowDays: z.number(),
   generatedAt: z.string(),
   correlationId: z.string(),
+  rejectedSlots: z.record(z.string(), z.number()).optional(), // rejected free slots per failed constraint
   error: z.string().optional(),
 });
 
@@ -216,11 +443,24 @@ export type GenerateCandidateSlotsResponse = z.infer<typeof GenerateCandidateSlo
 // ========================================
 
 const CandidateSlotConstraintsSchema = z.object({
-  instructorAvailable: z.boolean(),
+  instructorAvailable: z.boolean(), // free, working, not on time off and within duty limits
   aircraftAvailable: z.boolean(),
   certificationValid: z.boolean(),
   withinTimeWindow: z.boolean(),
   minimumSpacingMet: z.boolean(),
+  daylightRuleMet: z.boolean(),
+  studentAvailable: z.boolean(), // no overlapping lesson, inside the student's windows and outside blackouts
+  forecastMinimumsMet: z.boolean(), // forecast classified clear or marginal at the slot's times
+});
+
+// How a candidate's aircraft compares with the one the flight was booked in
+const AircraftMatchSchema = z.enum(['same-aircraft', 'same-type', 'same-category', 'different-category', 'unknown']);
+
+// Forecast classification of a candidate slot at its own times
+const CandidateForecastRiskSchema = z.object({
+  weatherStatus: z.enum(['clear', 'marginal', 'advisory', 'auto-reschedule', 'unknown']),
+  riskScore: z.number().min(0).max(100),
+  reason: z.string(),
 });
 
 const CandidateSlotSchema = z.object({
@@ -234,6 +474,8 @@ const CandidateSlotSchema = z.object({
   durationMinutes: z.number(),
   confidence: z.number().min(0).max(100),
   constraints: CandidateSlotConstraintsSchema,
+  forecastRisk: CandidateForecastRiskSchema,
+  aircraftMatch: AircraftMatchSchema,
   notes: z.string().optional(),
 });
 
@@ -245,6 +487,7 @@ const CandidateSlotsResultSchema = z.object({
   searchWindowDays: z.number(),
   generatedAt: z.string(),
   correlationId: z.string(),
+  rejectedSlots: z.record(z.string(), z.number()).optional(),
   error: z.string().optional(),
 });
 
@@ -318,6 +561,8 @@ export const CronRunSchema = z.object({
   flightsRescheduled: z.number(),
   flightsPendingReview: z.number(),
   flightsSkipped: z.number(),
+  forecastCacheHits: z.number(),
+  forecastCacheMisses: z.number(),
   errorDetails: z.array(z.string()),
 });
 
@@ -411,6 +656,627 @@ export type GetFlightRescheduleHistoryRequest = z.infer<typeof GetFlightReschedu
 export type RescheduleAuditEntry = z.infer<typeof RescheduleAuditEntrySchema>;
 export type GetFlightRescheduleHistoryResponse = z.infer<typeof GetFlightRescheduleHistoryResponseSchema>;
 
+// ========================================
+// Airport Methods
+// ========================================
+
+export const RunwayDetailSchema = z.object({
+  designator: z.string(),
+  heading: z.number(), // degrees true
+  lengthFt: z.number(),
+});
+
+export const AirportDetailSchema = z.object({
+  icao: z.string(),
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  elevationFt: z.number(), // feet MSL
+  timezone: z.string(), // IANA time zone
+  runways: z.array(RunwayDetailSchema),
+});
+
+export const GetAirportRequestSchema = z.object({
+  icao: z.string().min(3).max(4),
+});
+
+export const GetAirportResponseSchema = z.object({
+  airport: AirportDetailSchema.nullable(),
+});
+
+export const ListAirportsRequestSchema = z.object({});
+
+export const ListAirportsResponseSchema = z.object({
+  airports: z.array(AirportDetailSchema),
+});
+
+export const LoadAirportsRequestSchema = z.object({});
+
+export const LoadAirportsResponseSchema = z.object({
+  loaded: z.number(),
+});
+
+export type RunwayDetail = z.infer<typeof RunwayDetailSchema>;
+export type AirportDetail = z.infer<typeof AirportDetailSchema>;
+export type GetAirportRequest = z.infer<typeof GetAirportRequestSchema>;
+export type GetAirportResponse = z.infer<typeof GetAirportResponseSchema>;
+export type ListAirportsRequest = z.infer<typeof ListAirportsRequestSchema>;
+export type ListAirportsResponse = z.infer<typeof ListAirportsResponseSchema>;
+export type LoadAirportsRequest = z.infer<typeof LoadAirportsRequestSchema>;
+export type LoadAirportsResponse = z.infer<typeof LoadAirportsResponseSchema>;
+
+// ========================================
+// CreateFlight Method
+// ========================================
+
+export const CreateFlightRequestSchema = z.object({
+  studentId: z.number().int().positive(),
+  instructorId: z.number().int().positive(),
+  aircraftId: z.number().int().positive(),
+  departureTime: z.string(), // ISO 8601
+  arrivalTime: z.string(), // ISO 8601
+  departureAirport: z.string().min(3).max(4),
+  arrivalAirport: z.string().min(3).max(4),
+  lessonTypeId: z.number().int().positive().optional(),
+});
+
+export const CreateFlightResponseSchema = z.object({
+  flightId: z.number(),
+});
+
+export type CreateFlightRequest = z.infer<typeof CreateFlightRequestSchema>;
+export type CreateFlightResponse = z.infer<typeof CreateFlightResponseSchema>;
+
+// ========================================
+// Aircraft Methods
+// ========================================
+
+// Stored upper-case so aircraft of the same type compare equal
+const AircraftModelSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9-]{2,10}$/, 'Model must be a type designator of 2-10 letters, digits or hyphens, e.g. C172');
+
+export const AircraftDetailSchema = z.object({
+  id: z.number(),
+  registration: z.string(),
+  category: z.enum(['single-engine', 'multi-engine', 'complex']),
+  model: z.string().nullable(), // type designator, e.g. C172
+  complex: z.boolean(), // retractable gear, flaps and controllable-pitch propeller
+  multiEngine: z.boolean(),
+  status: z.enum(['available', 'maintenance', 'reserved']),
+  maxCrosswind: z.number().nullable(), // knots, maximum demonstrated crosswind
+  maxWindSpeed: z.number().nullable(), // knots, including gusts
+  ifrCapable: z.boolean(),
+  nightCapable: z.boolean(),
+  serviceCeiling: z.number().nullable(), // feet density altitude
+});
+
+export const GetAircraftRequestSchema = z.object({
+  aircraftId: z.number().int().positive(),
+});
+
+export const GetAircraftResponseSchema = z.object({
+  aircraft: AircraftDetailSchema.nullable(),
+});
+
+export const ListAircraftRequestSchema = z.object({});
+
+export const ListAircraftResponseSchema = z.object({
+  aircraft: z.array(AircraftDetailSchema),
+});
+
+export const CreateAircraftRequestSchema = z.object({
+  registration: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9-]{2,10}$/, 'Registration must be 2-10 letters, digits or hyphens'),
+  category: z.enum(['single-engine', 'multi-engine', 'complex']),
+  model: AircraftModelSchema.nullable().optional(),
+  complex: z.boolean().optional(), // defaults to a complex category
+  multiEngine: z.boolean().optional(), // defaults to a multi-engine category
+  status: z.enum(['available', 'maintenance', 'reserved']).optional(), // default available
+  maxCrosswind: z.number().nonnegative().nullable().optional(),
+  maxWindSpeed: z.number().nonnegative().nullable().optional(),
+  ifrCapable: z.boolean().optional(),
+  nightCapable: z.boolean().optional(),
+  serviceCeiling: z.number().int().positive().nullable().optional(),
+});
+
+export const CreateAircraftResponseSchema = z.object({
+  aircraft: AircraftDetailSchema,
+});
+
+// Omitted fields are left unchanged; null clears the model or a numeric limit
+export const UpdateAircraftLimitsRequestSchema = z.object({
+  aircraftId: z.number().int().positive(),
+  model: AircraftModelSchema.nullable().optional(),
+  complex: z.boolean().optional(),
+  multiEngine: z.boolean().optional(),
+  maxCrosswind: z.number().nonnegative().nullable().optional(),
+  maxWindSpeed: z.number().nonnegative().nullable().optional(),
+  ifrCapable: z.boolean().optional(),
+  nightCapable: z.boolean().optional(),
+  serviceCeiling: z.number().int().positive().nullable().optional(),
+});
+
+export const UpdateAircraftLimitsResponseSchema = z.object({
+  aircraft: AircraftDetailSchema,
+});
+
+export type AircraftDetail = z.infer<typeof AircraftDetailSchema>;
+export type GetAircraftRequest = z.infer<typeof GetAircraftRequestSchema>;
+export type GetAircraftResponse = z.infer<typeof GetAircraftResponseSchema>;
+export type ListAircraftRequest = z.infer<typeof ListAircraftRequestSchema>;
+export type ListAircraftResponse = z.infer<typeof ListAircraftResponseSchema>;
+export type CreateAircraftRequest = z.infer<typeof CreateAircraftRequestSchema>;
+export type CreateAircraftResponse = z.infer<typeof CreateAircraftResponseSchema>;
+export type UpdateAircraftLimitsRequest = z.infer<typeof UpdateAircraftLimitsRequestSchema>;
+export type UpdateAircraftLimitsResponse = z.infer<typeof UpdateAircraftLimitsResponseSchema>;
+
+// ========================================
+// Lesson Type Methods
+// ========================================
+
+export const LessonTypeDetailSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  durationMinutes: z.number(), // expected block time
+  solo: z.boolean(), // false = dual with instructor
+  maxWindSpeed: z.number().nullable(), // knots, null = training-level value
+  minVisibility: z.number().nullable(), // statute miles
+  minCeiling: z.number().nullable(), // feet AGL
+  maxCrosswind: z.number().nullable(), // knots
+  maxGustFactor: z.number().nullable(), // knots
+  maxCeiling: z.number().nullable(), // feet AGL, lesson requires a ceiling below this
+  maxVisibility: z.number().nullable(), // statute miles, lesson requires visibility below this
+  daylightRule: DaylightRuleSchema.nullable(),
+  requiredCategory: z.enum(['single-engine', 'multi-engine', 'complex']).nullable(), // null = booked aircraft's category, or any with a required capability
+  requiresIfr: z.boolean(), // needs an IFR-equipped aircraft
+  requiresComplex: z.boolean(), // needs a complex aircraft, in any category
+  requiresMultiEngine: z.boolean(), // needs a multi-engine aircraft, in any category
+  description: z.string().nullable(),
+});
+
+export const ListLessonTypesRequestSchema = z.object({});
+
+export const ListLessonTypesResponseSchema = z.object({
+  lessonTypes: z.array(LessonTypeDetailSchema),
+});
+
+export type LessonTypeDetail = z.infer<typeof LessonTypeDetailSchema>;
+export type ListLessonTypesRequest = z.infer<typeof ListLessonTypesRequestSchema>;
+export type ListLessonTypesResponse = z.infer<typeof ListLessonTypesResponseSchema>;
+
+// ========================================
+// Threshold Methods
+// ========================================
+
+export const TrainingLevelSchema = z.enum(['student', 'private', 'instrument']);
+
+export const ThresholdSetDetailSchema = z.object({
+  trainingLevel: TrainingLevelSchema,
+  version: z.number(),
+  maxWindSpeed: z.number(), // knots
+  minVisibility: z.number(), // statute miles
+  minCeiling: z.number(), // feet AGL
+  maxCrosswind: z.number(), // knots
+  maxGustFactor: z.number(), // knots of gust above steady wind
+  prohibitedHazards: z.array(HazardTypeSchema),
+  daylightRule: DaylightRuleSchema,
+  description: z.string().nullable(),
+  updatedAt: z.string().nullable(), // ISO 8601, null until first changed through the API
+});
+
+export const ThresholdVersionDetailSchema = ThresholdSetDetailSchema.omit({ updatedAt: true }).extend({
+  id: z.number(),
+  changedBy: z.string(),
+  changeReason: z.string(),
+  createdAt: z.string(), // ISO 8601
+});
+
+export const ListThresholdsRequestSchema = z.object({});
+
+export const ListThresholdsResponseSchema = z.object({
+  thresholds: z.array(ThresholdSetDetailSchema),
+});
+
+// Omitted fields keep their current value
+export const UpdateThresholdsRequestSchema = z.object({
+  trainingLevel: TrainingLevelSchema,
+  maxWindSpeed: z.number().positive().optional(),
+  minVisibility: z.number().nonnegative().optional(),
+  minCeiling: z.number().int().nonnegative().optional(),
+  maxCrosswind: z.number().nonnegative().optional(),
+  maxGustFactor: z.number().nonnegative().optional(),
+  prohibitedHazards: z.array(HazardTypeSchema).optional(),
+  daylightRule: DaylightRuleSchema.optional(),
+  description: z.string().nullable().optional(),
+  changedBy: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+export const UpdateThresholdsResponseSchema = z.object({
+  threshold: ThresholdSetDetailSchema,
+  versionId: z.number(), // threshold_versions row for the new version
+});
+
+export const GetThresholdHistoryRequestSchema = z.object({
+  trainingLevel: TrainingLevelSchema.optional(), // omit for all levels
+  limit: z.number().int().positive().max(200).optional(), // Default: 50
+});
+
+export const GetThresholdHistoryResponseSchema = z.object({
+  versions: z.array(ThresholdVersionDetailSchema), // newest first
+});
+
+export type TrainingLevel = z.infer<typeof TrainingLevelSchema>;
+export type ThresholdSetDetail = z.infer<typeof ThresholdSetDetailSchema>;
+export type ThresholdVersionDetail = z.infer<typeof ThresholdVersionDetailSchema>;
+export type ListThresholdsRequest = z.infer<typeof ListThresholdsRequestSchema>;
+export type ListThresholdsResponse = z.infer<typeof ListThresholdsResponseSchema>;
+export type UpdateThresholdsRequest = z.infer<typeof UpdateThresholdsRequestSchema>;
+export type UpdateThresholdsResponse = z.infer<typeof UpdateThresholdsResponseSchema>;
+export type GetThresholdHistoryRequest = z.infer<typeof GetThresholdHistoryRequestSchema>;
+export type GetThresholdHistoryResponse = z.infer<typeof GetThresholdHistoryResponseSchema>;
+
+// ========================================
+// Margin Band Methods
+// ========================================
+
+export const GetMarginBandsRequestSchema = z.object({});
+
+export const GetMarginBandsResponseSchema = z.object({
+  marginBands: MarginBandsSchema,
+});
+
+// Omitted metrics keep their current band
+export const UpdateMarginBandsRequestSchema = MarginBandsSchema.partial();
+
+export const UpdateMarginBandsResponseSchema = z.object({
+  marginBands: MarginBandsSchema,
+});
+
+export type GetMarginBandsRequest = z.infer<typeof GetMarginBandsRequestSchema>;
+export type GetMarginBandsResponse = z.infer<typeof GetMarginBandsResponseSchema>;
+export type UpdateMarginBandsRequest = z.infer<typeof UpdateMarginBandsRequestSchema>;
+export type UpdateMarginBandsResponse = z.infer<typeof UpdateMarginBandsResponseSchema>;
+
+// ========================================
+// Organization Methods
+// ========================================
+
+export const OrganizationDetailSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  createdAt: z.string(), // ISO 8601
+});
+
+export const ListOrganizationsRequestSchema = z.object({});
+
+export const ListOrganizationsResponseSchema = z.object({
+  organizations: z.array(OrganizationDetailSchema),
+});
+
+// Thresholds and margin bands are copied from the calling organization
+export const CreateOrganizationRequestSchema = z.object({
+  code: z.string().regex(/^[a-z0-9-]{2,32}$/, 'Code must be 2-32 lowercase letters, digits or hyphens'),
+  name: z.string().min(1),
+});
+
+export const CreateOrganizationResponseSchema = z.object({
+  organization: OrganizationDetailSchema,
+});
+
+export type OrganizationDetail = z.infer<typeof OrganizationDetailSchema>;
+export type ListOrganizationsRequest = z.infer<typeof ListOrganizationsRequestSchema>;
+export type ListOrganizationsResponse = z.infer<typeof ListOrganizationsResponseSchema>;
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestSchema>;
+export type CreateOrganizationResponse = z.infer<typeof CreateOrganizationResponseSchema>;
+
+// ========================================
+// Settings Methods
+// ========================================
+
+export const SettingKeySchema = z.enum([
+  'rescheduleHorizonHours',
+  'weatherHorizonDays',
+  'aiConfidenceThreshold',
+  'rescheduleRiskScore',
+  'advisoryRiskScore',
+  'escalationEvaluations',
+  'recoveryMargin',
+  'candidateSearchWindowDays',
+  'candidateMinimumSpacingHours',
+  'maxCandidates',
+]);
+
+export const SettingsSchema = z.object({
+  rescheduleHorizonHours: z.number(), // breaches closer to departure can auto-reschedule
+  weatherHorizonDays: z.number(), // flights polled and classified ahead of departure
+  aiConfidenceThreshold: z.number(), // 0-100, minimum AI confidence to auto-accept a reschedule
+  rescheduleRiskScore: z.number(), // 0-100, risk that triggers auto-reschedule within the horizon
+  advisoryRiskScore: z.number(), // 0-100, risk that triggers advisory; lower breaches are marginal
+  escalationEvaluations: z.number(), // consecutive evaluations before a status escalates
+  recoveryMargin: z.number(), // fraction limits tighten by before a status de-escalates
+  candidateSearchWindowDays: z.number(), // days either side of the original departure
+  candidateMinimumSpacingHours: z.number(), // minimum gap between a candidate and the original time
+  maxCandidates: z.number(), // candidate slots returned per flight
+});
+
+export const SettingDetailSchema = z.object({
+  key: SettingKeySchema,
+  value: z.number(),
+  defaultValue: z.number(),
+  min: z.number(),
+  max: z.number(),
+  integer: z.boolean(),
+  description: z.string(),
+  updatedBy: z.string().nullable(), // null while the default applies
+  updatedAt: z.string().nullable(), // ISO 8601
+});
+
+export const SettingChangeDetailSchema = z.object({
+  id: z.number(),
+  key: SettingKeySchema,
+  oldValue: z.number(),
+  newValue: z.number(),
+  changedBy: z.string(),
+  reason: z.string(),
+  correlationId: z.string(),
+  createdAt: z.string(), // ISO 8601
+});
+
+export const GetSettingsRequestSchema = z.object({});
+
+export const GetSettingsResponseSchema = z.object({
+  settings: z.array(SettingDetailSchema),
+});
+
+// Omitted settings keep their current value; ranges are validated by the settings service
+export const UpdateSettingsRequestSchema = z.object({
+  changes: SettingsSchema.partial(),
+  changedBy: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+export const UpdateSettingsResponseSchema = z.object({
+  settings: z.array(SettingDetailSchema),
+});
+
+export const GetSettingHistoryRequestSchema = z.object({
+  key: SettingKeySchema.optional(), // omit for all settings
+  limit: z.number().int().positive().max(200).optional(), // Default: 50
+});
+
+export const GetSettingHistoryResponseSchema = z.object({
+  changes: z.array(SettingChangeDetailSchema), // newest first
+});
+
+export type SettingKey = z.infer<typeof SettingKeySchema>;
+export type Settings = z.infer<typeof SettingsSchema>;
+export type SettingDetail = z.infer<typeof SettingDetailSchema>;
+export type SettingChangeDetail = z.infer<typeof SettingChangeDetailSchema>;
+export type GetSettingsRequest = z.infer<typeof GetSettingsRequestSchema>;
+export type GetSettingsResponse = z.infer<typeof GetSettingsResponseSchema>;
+export type UpdateSettingsRequest = z.infer<typeof UpdateSettingsRequestSchema>;
+export type UpdateSettingsResponse = z.infer<typeof UpdateSettingsResponseSchema>;
+export type GetSettingHistoryRequest = z.infer<typeof GetSettingHistoryRequestSchema>;
+export type GetSettingHistoryResponse = z.infer<typeof GetSettingHistoryResponseSchema>;
+
+// ========================================
+// Student Availability Methods
+// ========================================
+
+const TimeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Time must be HH:MM between 00:00 and 24:00');
+
+const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// Times are local to the flight's departure airport
+export const AvailabilityWindowSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6), // 0 = Sunday
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema, // after startTime
+});
+
+export const BlackoutDateSchema = z.object({
+  startDate: LocalDateSchema, // inclusive
+  endDate: LocalDateSchema, // inclusive
+  reason: z.string().nullable(),
+});
+
+// A student with no windows can fly at any time outside their blackout dates
+export const StudentAvailabilitySchema = z.object({
+  studentId: z.number(),
+  windows: z.array(AvailabilityWindowSchema),
+  blackouts: z.array(BlackoutDateSchema),
+});
+
+export const GetStudentAvailabilityRequestSchema = z.object({
+  studentId: z.number().int().positive(),
+});
+
+export const GetStudentAvailabilityResponseSchema = z.object({
+  availability: StudentAvailabilitySchema,
+});
+
+// Replaces the student's windows and blackout dates
+export const SetStudentAvailabilityRequestSchema = z.object({
+  studentId: z.number().int().positive(),
+  windows: z.array(AvailabilityWindowSchema).max(50),
+  blackouts: z.array(BlackoutDateSchema).max(100),
+});
+
+export const SetStudentAvailabilityResponseSchema = z.object({
+  availability: StudentAvailabilitySchema,
+});
+
+export type AvailabilityWindow = z.infer<typeof AvailabilityWindowSchema>;
+export type BlackoutDate = z.infer<typeof BlackoutDateSchema>;
+export type StudentAvailability = z.infer<typeof StudentAvailabilitySchema>;
+export type GetStudentAvailabilityRequest = z.infer<typeof GetStudentAvailabilityRequestSchema>;
+export type GetStudentAvailabilityResponse = z.infer<typeof GetStudentAvailabilityResponseSchema>;
+export type SetStudentAvailabilityRequest = z.infer<typeof SetStudentAvailabilityRequestSchema>;
+export type SetStudentAvailabilityResponse = z.infer<typeof SetStudentAvailabilityResponseSchema>;
+
+// ========================================
+// Instructor Schedule Methods
+// ========================================
+
+export const InstructorTimeOffSchema = z.object({
+  startTime: z.string(), // ISO 8601
+  endTime: z.string(), // ISO 8601, after startTime
+  reason: z.string().nullable(),
+});
+
+// No working hours means bookable at any time within operating hours
+export const InstructorScheduleSchema = z.object({
+  instructorId: z.number(),
+  maxFlightsPerDay: z.number().nullable(), // null = no daily limit
+  workingHours: z.array(AvailabilityWindowSchema),
+  timeOff: z.array(InstructorTimeOffSchema),
+});
+
+export const GetInstructorScheduleRequestSchema = z.object({
+  instructorId: z.number().int().positive(),
+});
+
+export const GetInstructorScheduleResponseSchema = z.object({
+  schedule: InstructorScheduleSchema,
+});
+
+// Replaces the instructor's working hours, time off and daily limit
+export const SetInstructorScheduleRequestSchema = z.object({
+  instructorId: z.number().int().positive(),
+  maxFlightsPerDay: z.number().int().min(1).max(24).nullable(),
+  workingHours: z.array(AvailabilityWindowSchema).max(50),
+  timeOff: z.array(InstructorTimeOffSchema).max(100),
+});
+
+export const SetInstructorScheduleResponseSchema = z.object({
+  schedule: InstructorScheduleSchema,
+});
+
+export type InstructorTimeOffEntry = z.infer<typeof InstructorTimeOffSchema>;
+export type InstructorSchedule = z.infer<typeof InstructorScheduleSchema>;
+export type GetInstructorScheduleRequest = z.infer<typeof GetInstructorScheduleRequestSchema>;
+export type GetInstructorScheduleResponse = z.infer<typeof GetInstructorScheduleResponseSchema>;
+export type SetInstructorScheduleRequest = z.infer<typeof SetInstructorScheduleRequestSchema>;
+export type SetInstructorScheduleResponse = z.infer<typeof SetInstructorScheduleResponseSchema>;
+
+// ========================================
+// Operating Hours Methods
+// ========================================
+
+// Local to the airport; isDefault when the organization has not configured the airport
+export const AirportOperatingHoursSchema = z.object({
+  airport: z.string(),
+  openTime: z.string(), // HH:MM
+  closeTime: z.string(), // HH:MM, after openTime
+  isDefault: z.boolean(),
+});
+
+export const GetOperatingHoursRequestSchema = z.object({
+  airport: z.string().min(3).max(4),
+});
+
+export const GetOperatingHoursResponseSchema = z.object({
+  operatingHours: AirportOperatingHoursSchema,
+});
+
+export const ListOperatingHoursRequestSchema = z.object({});
+
+// Configured airports only
+export const ListOperatingHoursResponseSchema = z.object({
+  operatingHours: z.array(AirportOperatingHoursSchema),
+});
+
+export const SetOperatingHoursRequestSchema = z.object({
+  airport: z.string().min(3).max(4),
+  openTime: TimeOfDaySchema,
+  closeTime: TimeOfDaySchema, // after openTime
+});
+
+export const SetOperatingHoursResponseSchema = z.object({
+  operatingHours: AirportOperatingHoursSchema,
+});
+
+export type AirportOperatingHours = z.infer<typeof AirportOperatingHoursSchema>;
+export type GetOperatingHoursRequest = z.infer<typeof GetOperatingHoursRequestSchema>;
+export type GetOperatingHoursResponse = z.infer<typeof GetOperatingHoursResponseSchema>;
+export type ListOperatingHoursRequest = z.infer<typeof ListOperatingHoursRequestSchema>;
+export type ListOperatingHoursResponse = z.infer<typeof ListOperatingHoursResponseSchema>;
+export type SetOperatingHoursRequest = z.infer<typeof SetOperatingHoursRequestSchema>;
+export type SetOperatingHoursResponse = z.infer<typeof SetOperatingHoursResponseSchema>;
+
+// ========================================
+// SimulateClassification Method
+// ========================================
+
+// Replaces snapshot values; wind components and density altitude are not recomputed
+export const CheckpointWeatherOverrideSchema = z.object({
+  windSpeed: z.number().nonnegative().optional(), // knots
+  gustSpeed: z.number().nonnegative().nullable().optional(), // knots
+  visibility: z.number().nonnegative().optional(), // statute miles
+  ceiling: z.number().nonnegative().nullable().optional(), // feet AGL, null = unlimited
+  crosswind: z.number().nonnegative().nullable().optional(), // knots on best runway
+  hazards: z.array(HazardTypeSchema).optional(),
+  temperature: z.number().nullable().optional(), // degrees Celsius
+  densityAltitude: z.number().nullable().optional(), // feet
+});
+
+export const HypotheticalFlightSchema = z.object({
+  studentId: z.number().int().positive(),
+  aircraftId: z.number().int().positive(),
+  departureTime: z.string(), // ISO 8601
+  arrivalTime: z.string(), // ISO 8601
+  departureAirport: z.string().min(3).max(4),
+  arrivalAirport: z.string().min(3).max(4),
+  lessonTypeId: z.number().int().positive().optional(),
+});
+
+// Applied after lesson type and personal minimums
+export const ThresholdOverridesSchema = z.object({
+  maxWindSpeed: z.number().nonnegative().optional(),
+  minVisibility: z.number().nonnegative().optional(),
+  minCeiling: z.number().nonnegative().optional(),
+  maxCrosswind: z.number().nonnegative().optional(),
+  maxGustFactor: z.number().nonnegative().optional(),
+  maxCeiling: z.number().nonnegative().nullable().optional(),
+  maxVisibility: z.number().nonnegative().nullable().optional(),
+  prohibitedHazards: z.array(HazardTypeSchema).optional(),
+  daylightRule: DaylightRuleSchema.optional(),
+});
+
+// Exactly one of flightId or flight is required
+export const SimulateClassificationRequestSchema = z.object({
+  flightId: z.number().int().positive().optional(),
+  flight: HypotheticalFlightSchema.optional(),
+  weather: z.object({
+    departure: CheckpointWeatherOverrideSchema.optional(),
+    arrival: CheckpointWeatherOverrideSchema.optional(),
+    corridor: CheckpointWeatherOverrideSchema.optional(),
+  }).optional(),
+  thresholds: ThresholdOverridesSchema.optional(),
+});
+
+export const SimulateClassificationResponseSchema = z.object({
+  result: ClassificationResultSchema, // flightId is 0 for a hypothetical flight
+  hypothetical: z.boolean(),
+});
+
+export type CheckpointWeatherOverride = z.infer<typeof CheckpointWeatherOverrideSchema>;
+export type HypotheticalFlight = z.infer<typeof HypotheticalFlightSchema>;
+export type ThresholdOverrides = z.infer<typeof ThresholdOverridesSchema>;
+export type SimulateClassificationRequest = z.infer<typeof SimulateClassificationRequestSchema>;
+export type SimulateClassificationResponse = z.infer<typeof SimulateClassificationResponseSchema>;
+
 // ========================================
 // RPC Method Map
 // ========================================
@@ -436,6 +1302,10 @@ export const RpcMethodMap = {
     request: FlightClassificationRequestSchema,
     response: FlightClassificationResponseSchema,
   },
+  getClassificationHistory: {
+    request: GetClassificationHistoryRequestSchema,
+    response: GetClassificationHistoryResponseSchema,
+  },
   getWeatherSnapshots: {
     request: GetWeatherSnapshotsRequestSchema,
     response: GetWeatherSnapshotsResponseSchema,
@@ -468,6 +1338,114 @@ export const RpcMethodMap = {
     request: UpdateNotificationStatusRequestSchema,
     response: UpdateNotificationStatusResponseSchema,
   },
+  getAirport: {
+    request: GetAirportRequestSchema,
+    response: GetAirportResponseSchema,
+  },
+  listAirports: {
+    request: ListAirportsRequestSchema,
+    response: ListAirportsResponseSchema,
+  },
+  loadAirports: {
+    request: LoadAirportsRequestSchema,
+    response: LoadAirportsResponseSchema,
+  },
+  createFlight: {
+    request: CreateFlightRequestSchema,
+    response: CreateFlightResponseSchema,
+  },
+  getAircraft: {
+    request: GetAircraftRequestSchema,
+    response: GetAircraftResponseSchema,
+  },
+  listAircraft: {
+    request: ListAircraftRequestSchema,
+    response: ListAircraftResponseSchema,
+  },
+  createAircraft: {
+    request: CreateAircraftRequestSchema,
+    response: CreateAircraftResponseSchema,
+  },
+  updateAircraftLimits: {
+    request: UpdateAircraftLimitsRequestSchema,
+    response: UpdateAircraftLimitsResponseSchema,
+  },
+  listLessonTypes: {
+    request: ListLessonTypesRequestSchema,
+    response: ListLessonTypesResponseSchema,
+  },
+  listThresholds: {
+    request: ListThresholdsRequestSchema,
+    response: ListThresholdsResponseSchema,
+  },
+  updateThresholds: {
+    request: UpdateThresholdsRequestSchema,
+    response: UpdateThresholdsResponseSchema,
+  },
+  getThresholdHistory: {
+    request: GetThresholdHistoryRequestSchema,
+    response: GetThresholdHistoryResponseSchema,
+  },
+  getMarginBands: {
+    request: GetMarginBandsRequestSchema,
+    response: GetMarginBandsResponseSchema,
+  },
+  updateMarginBands: {
+    request: UpdateMarginBandsRequestSchema,
+    response: UpdateMarginBandsResponseSchema,
+  },
+  listOrganizations: {
+    request: ListOrganizationsRequestSchema,
+    response: ListOrganizationsResponseSchema,
+  },
+  createOrganization: {
+    request: CreateOrganizationRequestSchema,
+    response: CreateOrganizationResponseSchema,
+  },
+  getSettings: {
+    request: GetSettingsRequestSchema,
+    response: GetSettingsResponseSchema,
+  },
+  updateSettings: {
+    request: UpdateSettingsRequestSchema,
+    response: UpdateSettingsResponseSchema,
+  },
+  getSettingHistory: {
+    request: GetSettingHistoryRequestSchema,
+    response: GetSettingHistoryResponseSchema,
+  },
+  getStudentAvailability: {
+    request: GetStudentAvailabilityRequestSchema,
+    response: GetStudentAvailabilityResponseSchema,
+  },
+  setStudentAvailability: {
+    request: SetStudentAvailabilityRequestSchema,
+    response: SetStudentAvailabilityResponseSchema,
+  },
+  getInstructorSchedule: {
+    request: GetInstructorScheduleRequestSchema,
+    response: GetInstructorScheduleResponseSchema,
+  },
+  setInstructorSchedule: {
+    request: SetInstructorScheduleRequestSchema,
+    response: SetInstructorScheduleResponseSchema,
+  },
+  getOperatingHours: {
+    request: GetOperatingHoursRequestSchema,
+    response: GetOperatingHoursResponseSchema,
+  },
+  listOperatingHours: {
+    request: ListOperatingHoursRequestSchema,
+    response: ListOperatingHoursResponseSchema,
+  },
+  setOperatingHours: {
+    request: SetOperatingHoursRequestSchema,
+    response: SetOperatingHoursResponseSchema,
+  },
+  simulateClassification: {
+    request: SimulateClassificationRequestSchema,
+    response: SimulateClassificationResponseSchema,
+  },
 } as const;
 
 export type RpcMethod = keyof typeof RpcMethodMap;
@@ -479,6 +1457,7 @@ export type RpcMethod = keyof typeof RpcMethodMap;
 export interface RpcRequest {
   method: string;
   params: any;
+  organizationId: number; // organization the call is scoped to
 }
 
 export interface RpcSuccessResponse<T = any> {
@@ -6,6 +6,7 @@
 
 import { ExecutionContext } from '../lib/logger';
 import { CandidateSlot, CandidateSlotsResult } from './candidate-slot-service';
+import { getSettings } from './settings-service';
 
 // ========================================
 // Type Definitions
@@ -57,9 +58,10 @@ const MAX_CANDIDATES_FOR_PROMPT = 15;
 /**
  * Builds flight context section for AI prompt
  * @param candidateSlots - Candidate slots result
+ * @param rescheduleHorizonHours - Hours before departure within which flights are auto-rescheduled
  * @returns Human-readable flight context
  */
-function buildFlightContextPrompt(candidateSlots: CandidateSlotsResult): string {
+function buildFlightContextPrompt(candidateSlots: CandidateSlotsResult, rescheduleHorizonHours: number): string {
   const departureDate = new Date(candidateSlots.originalDepartureTime);
   const firstCandidate = candidateSlots.candidateSlots[0];
   const duration = firstCandidate?.durationMinutes || 60;
@@ -73,7 +75,7 @@ Scheduled: ${departureDate.toLocaleString('en-US', {
   hour: '2-digit',
   minute: '2-digit'
 })} (${duration} minutes)
-Reason: Weather conflict detected <72 hours before departure
+Reason: Weather conflict detected <${rescheduleHorizonHours} hours before departure
 Search Window: ±7 days from original departure
 `;
 }
@@ -95,7 +97,9 @@ function buildCandidateSlotsPrompt(candidates: CandidateSlot[], maxCandidates: n
       minute: '2-digit'
     });
 
-    return `${idx + 1}. ${candidate.instructorName} / ${candidate.aircraftRegistration} @ ${timeStr} (confidence: ${candidate.confidence}%, ${candidate.durationMinutes} min)${candidate.notes ? ' - ' + candidate.notes : ''}`;
+    const { weatherStatus, riskScore } = candidate.forecastRisk;
+
+    return `${idx + 1}. ${candidate.instructorName} / ${candidate.aircraftRegistration} @ ${timeStr} (confidence: ${candidate.confidence}%, ${candidate.durationMinutes} min, forecast: ${weatherStatus}, risk ${riskScore}, aircraft: ${candidate.aircraftMatch})${candidate.notes ? ' - ' + candidate.notes : ''}`;
   }).join('\n');
 
   return `Candidate Slots (sorted by score):
@@ -110,9 +114,10 @@ function buildAIRankingInstructions(): string {
   return `Rank the TOP 3 candidates considering:
 1. Instructor continuity (same instructor preferred)
 2. Time alignment (same time of day > same day > nearby days)
-3. Aircraft compatibility (same type > compatible type > alternative)
+3. Aircraft match (same-aircraft > same-type > same-category > different-category; unknown means the booked aircraft is not known and does not count against a slot)
 4. Student preference signals (higher confidence scores preferred)
-5. Any concerns (note aircraft alternatives, significant time shifts)
+5. Forecast at the new time (clear > marginal > unknown; lower risk preferred)
+6. Any concerns (note aircraft alternatives, significant time shifts, marginal forecasts)
 
 Return ONLY valid JSON array (no markdown, no extra text):
 [
@@ -127,10 +132,11 @@ Rationale guidelines: Use 1-3 sentences, natural language, explain WHY this opti
 /**
  * Assembles full prompt for Workers AI
  * @param candidateSlots - Candidate slots result
+ * @param rescheduleHorizonHours - rescheduleHorizonHours setting
  * @returns Complete prompt string
  */
-function assembleFullPrompt(candidateSlots: CandidateSlotsResult): string {
-  const flightContext = buildFlightContextPrompt(candidateSlots);
+function assembleFullPrompt(candidateSlots: CandidateSlotsResult, rescheduleHorizonHours: number): string {
+  const flightContext = buildFlightContextPrompt(candidateSlots, rescheduleHorizonHours);
   const candidatesList = buildCandidateSlotsPrompt(candidateSlots.candidateSlots);
   const instructions = buildAIRankingInstructions();
 
@@ -317,14 +323,19 @@ function generateFallbackRanking(
       constraints.aircraftAvailable &&
       constraints.certificationValid &&
       constraints.withinTimeWindow &&
-      constraints.minimumSpacingMet
+      constraints.minimumSpacingMet &&
+      constraints.daylightRuleMet &&
+      constraints.studentAvailable &&
+      constraints.forecastMinimumsMet
     );
   });
 
   const rankingPool = preferredCandidates.length > 0 ? preferredCandidates : candidates;
 
-  // Sort by confidence descending
-  const sorted = [...rankingPool].sort((a, b) => b.confidence - a.confidence);
+  // Sort by confidence descending, then by lower forecast risk
+  const sorted = [...rankingPool].sort(
+    (a, b) => b.confidence - a.confidence || a.forecastRisk.riskScore - b.forecastRisk.riskScore
+  );
   const topThree = sorted.slice(0, 3);
 
   return topThree.map((candidate, idx) => ({
@@ -365,18 +376,37 @@ function getGenericRationale(candidate: CandidateSlot): string {
   if (!constraints.aircraftAvailable) {
     unmetConstraints.push('aircraft conflict');
   }
+  if (!constraints.daylightRuleMet) {
+    unmetConstraints.push('daylight rule');
+  }
+  if (!constraints.studentAvailable) {
+    unmetConstraints.push('student unavailable');
+  }
   if (!constraints.certificationValid) {
     unmetConstraints.push('certification mismatch');
   }
+  if (!constraints.forecastMinimumsMet) {
+    unmetConstraints.push('forecast unavailable');
+  }
 
   const constraintSummary =
     unmetConstraints.length === 0
       ? 'All scheduling checks passed.'
       : `Needs attention: ${unmetConstraints.join(', ')}.`;
 
+  const aircraftSummary =
+    candidate.aircraftMatch === 'same-category'
+      ? ' Different aircraft type.'
+      : candidate.aircraftMatch === 'different-category'
+        ? ' Different aircraft category.'
+        : '';
+  const forecastSummary =
+    candidate.forecastRisk.weatherStatus === 'marginal'
+      ? ` Marginal forecast (risk ${candidate.forecastRisk.riskScore}).`
+      : '';
   const noteSummary = notes ? ` ${notes}` : '';
 
-  return `${candidate.instructorName} available ${timeStr} on ${candidate.aircraftRegistration}. ${constraintSummary}${noteSummary}`;
+  return `${candidate.instructorName} available ${timeStr} on ${candidate.aircraftRegistration}. ${constraintSummary}${aircraftSummary}${forecastSummary}${noteSummary}`;
 }
 
 // ========================================
@@ -479,7 +509,8 @@ export async function generateRescheduleRecommendations(
 
     try {
       // Assemble prompt
-      const prompt = assembleFullPrompt(candidateSlots);
+      const { rescheduleHorizonHours } = await getSettings(executionContext);
+      const prompt = assembleFullPrompt(candidateSlots, rescheduleHorizonHours);
       logger.info('[ai-reschedule] Prompt assembled', {
         correlationId,
         promptSize: prompt.length
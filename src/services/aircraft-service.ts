@@ -0,0 +1,215 @@
+/**
+ * Aircraft Service
+ * Reads and creates aircraft and manages their type and operating limits
+ *
+ * Limits describe what the airframe itself can do (demonstrated crosswind, wind,
+ * IFR and night equipment, service ceiling). Classification checks them alongside
+ * the training-level thresholds and reports breaches separately.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareExec, prepareQuery, prepareQueryOne, Aircraft } from '../db/client';
+import { AircraftDetail, CreateAircraftRequest, UpdateAircraftLimitsRequest } from '../rpc/schema';
+
+// ========================================
+// Mapping
+// ========================================
+
+/**
+ * Maps an aircraft row to its RPC shape
+ */
+export function mapAircraftRow(row: Aircraft): AircraftDetail {
+  return {
+    id: row.id,
+    registration: row.registration,
+    category: row.category,
+    model: row.model,
+    complex: row.complex === 1,
+    multiEngine: row.multi_engine === 1,
+    status: row.status,
+    maxCrosswind: row.max_crosswind,
+    maxWindSpeed: row.max_wind_speed,
+    ifrCapable: row.ifr_capable === 1,
+    nightCapable: row.night_capable === 1,
+    serviceCeiling: row.service_ceiling,
+  };
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves a single aircraft of the context's organization
+ * @param ctx - Execution context
+ * @param aircraftId - Aircraft ID
+ * @returns Aircraft with its limits, or null if unknown or another organization's
+ */
+export async function getAircraft(
+  ctx: ExecutionContext,
+  aircraftId: number
+): Promise<AircraftDetail | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<Aircraft>(client, `SELECT * FROM aircraft WHERE id = ? AND organization_id = ?`, [
+    aircraftId,
+    ctx.organizationId,
+  ]);
+  return row ? mapAircraftRow(row) : null;
+}
+
+/**
+ * Lists the organization's aircraft ordered by registration
+ * @param ctx - Execution context
+ * @returns Aircraft with their limits
+ */
+export async function listAircraft(ctx: ExecutionContext): Promise<AircraftDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<Aircraft>(
+    client,
+    `SELECT * FROM aircraft WHERE organization_id = ? ORDER BY registration`,
+    [ctx.organizationId]
+  );
+  return rows.map(mapAircraftRow);
+}
+
+// ========================================
+// Aircraft Management
+// ========================================
+
+/**
+ * Adds an aircraft to the context's organization
+ * Limits omitted from the request are unset; the aircraft has no IFR or night equipment
+ * unless the request says so, and is complex or multi-engine if its category is
+ * @param ctx - Execution context
+ * @param request - Registration, category, model, status and limits
+ * @returns Created aircraft
+ * @throws Error if the registration is already in use
+ */
+export async function createAircraft(
+  ctx: ExecutionContext,
+  request: CreateAircraftRequest
+): Promise<AircraftDetail> {
+  ctx.logger.info('Create aircraft started', { registration: request.registration, model: request.model });
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  // Registrations are unique across organizations
+  const existing = await prepareQueryOne<Aircraft>(client, `SELECT * FROM aircraft WHERE registration = ?`, [
+    request.registration,
+  ]);
+  if (existing) {
+    throw new Error(`Aircraft registration already in use: ${request.registration}`);
+  }
+
+  try {
+    const result = await prepareExec(
+      client,
+      `INSERT INTO aircraft (
+        organization_id, registration, category, model, complex, multi_engine, status, max_crosswind,
+        max_wind_speed, ifr_capable, night_capable, service_ceiling, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        ctx.organizationId,
+        request.registration,
+        request.category,
+        request.model ?? null,
+        (request.complex ?? request.category === 'complex') ? 1 : 0,
+        (request.multiEngine ?? request.category === 'multi-engine') ? 1 : 0,
+        request.status ?? 'available',
+        request.maxCrosswind ?? null,
+        request.maxWindSpeed ?? null,
+        request.ifrCapable ? 1 : 0,
+        request.nightCapable ? 1 : 0,
+        request.serviceCeiling ?? null,
+        new Date().toISOString(),
+      ]
+    );
+
+    const aircraft = (await getAircraft(ctx, result.meta.last_row_id as number)) as AircraftDetail;
+    ctx.logger.info('Create aircraft completed', {
+      aircraftId: aircraft.id,
+      registration: aircraft.registration,
+    });
+    return aircraft;
+  } catch (error) {
+    ctx.logger.error('Create aircraft failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(`Failed to create aircraft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ========================================
+// Limit Management
+// ========================================
+
+/**
+ * Updates an aircraft's model, capabilities and operating limits
+ * Fields omitted from the request keep their current value
+ * @param ctx - Execution context
+ * @param request - Aircraft ID and the model, capabilities or limits to change
+ * @returns Updated aircraft
+ * @throws Error if the aircraft does not exist
+ */
+export async function updateAircraftLimits(
+  ctx: ExecutionContext,
+  request: UpdateAircraftLimitsRequest
+): Promise<AircraftDetail> {
+  ctx.logger.info('Update aircraft limits started', { aircraftId: request.aircraftId });
+
+  const current = await getAircraft(ctx, request.aircraftId);
+  if (!current) {
+    throw new Error(`Aircraft ${request.aircraftId} not found`);
+  }
+
+  const updated: AircraftDetail = {
+    ...current,
+    model: request.model !== undefined ? request.model : current.model,
+    complex: request.complex ?? current.complex,
+    multiEngine: request.multiEngine ?? current.multiEngine,
+    maxCrosswind: request.maxCrosswind !== undefined ? request.maxCrosswind : current.maxCrosswind,
+    maxWindSpeed: request.maxWindSpeed !== undefined ? request.maxWindSpeed : current.maxWindSpeed,
+    ifrCapable: request.ifrCapable ?? current.ifrCapable,
+    nightCapable: request.nightCapable ?? current.nightCapable,
+    serviceCeiling: request.serviceCeiling !== undefined ? request.serviceCeiling : current.serviceCeiling,
+  };
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  try {
+    await prepareExec(
+      client,
+      `UPDATE aircraft
+       SET model = ?, complex = ?, multi_engine = ?, max_crosswind = ?, max_wind_speed = ?,
+           ifr_capable = ?, night_capable = ?, service_ceiling = ?, updated_at = ?
+       WHERE id = ? AND organization_id = ?`,
+      [
+        updated.model,
+        updated.complex ? 1 : 0,
+        updated.multiEngine ? 1 : 0,
+        updated.maxCrosswind,
+        updated.maxWindSpeed,
+        updated.ifrCapable ? 1 : 0,
+        updated.nightCapable ? 1 : 0,
+        updated.serviceCeiling,
+        new Date().toISOString(),
+        updated.id,
+        ctx.organizationId,
+      ]
+    );
+
+    ctx.logger.info('Update aircraft limits completed', {
+      aircraftId: updated.id,
+      registration: updated.registration,
+    });
+    return updated;
+  } catch (error) {
+    ctx.logger.error('Update aircraft limits failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to update aircraft limits: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
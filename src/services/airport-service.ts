@@ -0,0 +1,292 @@
+/**
+ * Airport Service
+ * Loads and serves airport reference data (coordinates, elevation, time zone, runways)
+ *
+ * The bundled src/data/airports.csv is the source of truth. loadAirports upserts it
+ * into the airports table; everything else reads from D1.
+ *
+ * CSV columns: icao,name,latitude,longitude,elevation_ft,timezone,runways
+ * Runways are semicolon-separated runway ends, each "designator:heading:lengthFt"
+ * with heading in degrees true, e.g. "13:148:2443;31:328:2443". Fields may not contain commas.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, prepareQueryOne, transaction, Airport } from '../db/client';
+import { AirportDetail, LoadAirportsResponse } from '../rpc/schema';
+import { Coordinates, greatCircleDistanceNm } from '../lib/geo';
+import airportsCsv from '../data/airports.csv';
+
+// ========================================
+// Constants
+// ========================================
+
+const CSV_COLUMNS = ['icao', 'name', 'latitude', 'longitude', 'elevation_ft', 'timezone', 'runways'];
+
+// ========================================
+// CSV Parsing
+// ========================================
+
+/**
+ * Parses a numeric CSV field
+ * @throws Error if the value is not a finite number
+ */
+function parseNumber(value: string, field: string, line: number): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new Error(`airports.csv line ${line}: invalid ${field} "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses the bundled airports CSV
+ * @param csv - CSV text including the header row
+ * @returns Airports in file order
+ * @throws Error with the offending line number if the CSV is malformed
+ */
+export function parseAirportsCsv(csv: string): AirportDetail[] {
+  const lines = csv.split(/\r?\n/);
+  const header = lines[0]?.split(',').map((column) => column.trim());
+
+  if (!header || header.join(',') !== CSV_COLUMNS.join(',')) {
+    throw new Error(`airports.csv header must be: ${CSV_COLUMNS.join(',')}`);
+  }
+
+  const airports: AirportDetail[] = [];
+  const seen = new Set<string>();
+
+  lines.slice(1).forEach((raw, index) => {
+    const line = index + 2;
+    if (raw.trim() === '') {
+      return;
+    }
+
+    const fields = raw.split(',').map((field) => field.trim());
+    if (fields.length !== CSV_COLUMNS.length) {
+      throw new Error(
+        `airports.csv line ${line}: expected ${CSV_COLUMNS.length} fields, found ${fields.length}`
+      );
+    }
+
+    const [icao, name, latitude, longitude, elevation, timezone, runways] = fields as [
+      string, string, string, string, string, string, string,
+    ];
+
+    if (!/^[A-Z0-9]{3,4}$/.test(icao)) {
+      throw new Error(`airports.csv line ${line}: invalid ICAO code "${icao}"`);
+    }
+    if (seen.has(icao)) {
+      throw new Error(`airports.csv line ${line}: duplicate airport ${icao}`);
+    }
+    seen.add(icao);
+
+    airports.push({
+      icao,
+      name,
+      latitude: parseNumber(latitude, 'latitude', line),
+      longitude: parseNumber(longitude, 'longitude', line),
+      elevationFt: parseNumber(elevation, 'elevation_ft', line),
+      timezone,
+      runways: runways
+        .split(';')
+        .filter((end) => end.trim() !== '')
+        .map((end) => {
+          const [designator, heading, length] = end.split(':');
+          if (!designator || heading === undefined || length === undefined) {
+            throw new Error(`airports.csv line ${line}: invalid runway "${end}"`);
+          }
+          return {
+            designator,
+            heading: parseNumber(heading, 'runway heading', line),
+            lengthFt: parseNumber(length, 'runway length', line),
+          };
+        }),
+    });
+  });
+
+  return airports;
+}
+
+// ========================================
+// Row Mapping
+// ========================================
+
+/**
+ * Maps an airports row to AirportDetail format
+ */
+function mapAirportRow(row: Airport): AirportDetail {
+  return {
+    icao: row.icao,
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    elevationFt: row.elevation_ft,
+    timezone: row.timezone,
+    runways: JSON.parse(row.runways),
+  };
+}
+
+/**
+ * Converts an airport to geo coordinates
+ */
+export function toCoordinates(airport: AirportDetail): Coordinates {
+  return { lat: airport.latitude, lon: airport.longitude };
+}
+
+/**
+ * Normalizes a user-supplied airport code
+ */
+export function normalizeAirportCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// ========================================
+// Loading
+// ========================================
+
+/**
+ * Upserts the bundled airports CSV into the airports table
+ * Safe to run repeatedly; airports removed from the CSV are left in place
+ * @param ctx - Execution context
+ * @returns Number of airports loaded
+ */
+export async function loadAirports(ctx: ExecutionContext): Promise<LoadAirportsResponse> {
+  ctx.logger.info('Load airports started');
+
+  try {
+    const airports = parseAirportsCsv(airportsCsv);
+    const client = createClient(ctx.env.AIRESCHEDULER_DB);
+    const now = new Date().toISOString();
+
+    await transaction(
+      client,
+      airports.map((airport) =>
+        client.db
+          .prepare(
+            `INSERT INTO airports
+             (icao, name, latitude, longitude, elevation_ft, timezone, runways, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(icao) DO UPDATE SET
+               name = excluded.name,
+               latitude = excluded.latitude,
+               longitude = excluded.longitude,
+               elevation_ft = excluded.elevation_ft,
+               timezone = excluded.timezone,
+               runways = excluded.runways,
+               updated_at = excluded.updated_at`
+          )
+          .bind(
+            airport.icao,
+            airport.name,
+            airport.latitude,
+            airport.longitude,
+            airport.elevationFt,
+            airport.timezone,
+            JSON.stringify(airport.runways),
+            now,
+            now
+          )
+      )
+    );
+
+    ctx.logger.info('Load airports completed', { loaded: airports.length });
+    return { loaded: airports.length };
+  } catch (error) {
+    ctx.logger.error('Load airports failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(`Failed to load airports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves a single airport by ICAO code
+ * @param ctx - Execution context
+ * @param icao - ICAO code (case-insensitive)
+ * @returns Airport, or null if unknown
+ */
+export async function getAirport(
+  ctx: ExecutionContext,
+  icao: string
+): Promise<AirportDetail | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<Airport>(
+    client,
+    `SELECT * FROM airports WHERE icao = ?`,
+    [normalizeAirportCode(icao)]
+  );
+  return row ? mapAirportRow(row) : null;
+}
+
+/**
+ * Lists all airports ordered by ICAO code
+ * @param ctx - Execution context
+ * @returns Airports
+ */
+export async function listAirports(ctx: ExecutionContext): Promise<AirportDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<Airport>(client, `SELECT * FROM airports ORDER BY icao`, []);
+  return rows.map(mapAirportRow);
+}
+
+/**
+ * Loads all airports keyed by ICAO code
+ * @param ctx - Execution context
+ * @returns Map of ICAO code to airport
+ */
+export async function getAirportMap(ctx: ExecutionContext): Promise<Map<string, AirportDetail>> {
+  const airports = await listAirports(ctx);
+  return new Map(airports.map((airport) => [airport.icao, airport]));
+}
+
+/**
+ * Ensures every airport code exists in the airports table
+ * @param ctx - Execution context
+ * @param codes - ICAO codes to check
+ * @throws Error listing the unknown codes
+ */
+export async function assertKnownAirports(ctx: ExecutionContext, codes: string[]): Promise<void> {
+  const normalized = [...new Set(codes.map(normalizeAirportCode))];
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const placeholders = normalized.map(() => '?').join(',');
+  const rows = await prepareQuery<{ icao: string }>(
+    client,
+    `SELECT icao FROM airports WHERE icao IN (${placeholders})`,
+    normalized
+  );
+
+  const known = new Set(rows.map((row) => row.icao));
+  const unknown = normalized.filter((code) => !known.has(code));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown airport code(s): ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Finds the airport closest to a point
+ * @param airports - Candidate airports
+ * @param point - Coordinates
+ * @returns Nearest airport, or null if no airports are given
+ */
+export function findNearestAirport(
+  airports: Iterable<AirportDetail>,
+  point: Coordinates
+): AirportDetail | null {
+  let nearest: AirportDetail | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+
+  for (const airport of airports) {
+    const distance = greatCircleDistanceNm(point, toCoordinates(airport));
+    if (distance < nearestDistance) {
+      nearest = airport;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
@@ -2,6 +2,22 @@
  * Candidate Slot Generation Service
  * Generates alternate time slots for rescheduling conflicted flights
  * Respects instructor availability, aircraft availability, certifications, and constraints
+ * Slots that break the student's daylight rule (civil twilight at the airports) are rejected
+ * Slots that overlap another of the student's lessons or fall outside the student's
+ * availability (weekly windows and blackout dates) are rejected
+ * Slots outside an instructor's working hours, during their time off, past their daily
+ * flight limit or over 8 hours of instruction in 24 hours are rejected; candidates with
+ * another instructor note when the original instructor's schedule ruled the time out
+ * Slots are generated within the organization's operating hours at the departure
+ * airport, in its local time
+ * Flights with a lesson type use its expected duration and daylight rule
+ * Only aircraft with the lesson's category and equipment are offered, preferring the
+ * booked aircraft and then its type; each candidate records how its aircraft matches
+ * Search window, minimum spacing and candidate limit come from the settings service
+ * Only the flight's own organization's instructors and aircraft are considered
+ * Each slot is classified against the forecast for its own times with the student's
+ * thresholds; slots at or above the advisory risk score are rejected, the rest carry
+ * their forecast risk
  */
 
 import { ExecutionContext } from '../lib/logger';
@@ -12,7 +28,34 @@ import {
   Flight,
   Instructor,
   Aircraft,
+  TrainingThreshold,
+  WeatherSnapshot,
 } from '../db/client';
+import { Coordinates } from '../lib/geo';
+import { DaylightRule, evaluateDaylightRule } from '../lib/solar';
+import {
+  addDays,
+  daysBetween,
+  fromLocalTime,
+  isWithinWeeklyWindows,
+  parseTimeOfDay,
+  toLocalTime,
+} from '../lib/local-time';
+import { AirportOperatingHours, InstructorSchedule, StudentAvailability } from '../rpc/schema';
+import { getAirport, toCoordinates } from './airport-service';
+import { getLessonType } from './lesson-type-service';
+import { getOperatingHours } from './operating-hours-service';
+import { getSettings } from './settings-service';
+import { getStudentAvailability, isWithinAvailability } from './student-availability-service';
+import { findScheduleConflict, getInstructorSchedule } from './instructor-schedule-service';
+import {
+  ClassificationResult,
+  ForecastClassificationInputs,
+  classifyForecast,
+  loadForecastClassificationInputs,
+} from './classification-service';
+import { forecastFlightCheckpoints } from './weather-service';
+import { ForecastCache, createForecastCache } from './forecast-cache';
 
 // ========================================
 // Type Definitions
@@ -37,8 +80,28 @@ export interface CandidateSlot {
     certificationValid: boolean;
     withinTimeWindow: boolean;
     minimumSpacingMet: boolean;
+    daylightRuleMet: boolean; // within civil twilight for day-only students, at night for night-required
+    studentAvailable: boolean; // no overlapping lesson, inside the student's windows and outside blackouts
+    forecastMinimumsMet: boolean; // forecast classified clear or marginal at the slot's times
   };
-  notes?: string; // e.g., "alternative aircraft category", warnings
+  forecastRisk: CandidateForecastRisk;
+  aircraftMatch: AircraftMatch;
+  notes?: string; // e.g., why the original instructor is not offered at this time
+}
+
+/**
+ * How a candidate's aircraft compares with the one the flight was booked in
+ * ('unknown' when the booked aircraft is not known, so there is nothing to compare with)
+ */
+export type AircraftMatch = 'same-aircraft' | 'same-type' | 'same-category' | 'different-category' | 'unknown';
+
+/**
+ * Forecast classification of a candidate slot, scored like a scheduled flight
+ */
+export interface CandidateForecastRisk {
+  weatherStatus: ClassificationResult['evaluatedStatus'];
+  riskScore: number; // 0-100
+  reason: string;
 }
 
 /**
@@ -52,9 +115,15 @@ export interface CandidateSlotsResult {
   searchWindowDays: number; // 7
   generatedAt: string; // ISO 8601
   correlationId: string;
+  rejectedSlots?: RejectedSlotCounts;
   error?: string;
 }
 
+/**
+ * Number of free slots rejected, keyed by the constraint they failed
+ */
+export type RejectedSlotCounts = Partial<Record<keyof CandidateSlot['constraints'], number>>;
+
 /**
  * Time slot representation for calculation
  */
@@ -68,11 +137,41 @@ interface TimeSlot {
  * Lesson constraints extracted from original flight
  */
 interface LessonConstraints {
+  lessonType: string | null; // lesson type code, null if none assigned
   durationMinutes: number;
   departureAirport: string;
   arrivalAirport: string;
-  operatingStart: number; // hour (e.g., 6 for 06:00)
-  operatingEnd: number; // hour (e.g., 18 for 18:00)
+  operatingHours: AirportOperatingHours; // local to the departure airport
+  daylightRule: DaylightRule;
+  departureCoordinates: Coordinates | null; // null if the airport is unknown
+  arrivalCoordinates: Coordinates | null;
+  timeZone: string; // IANA time zone of the departure airport (UTC if unknown)
+  aircraftRequirements: AircraftRequirements;
+}
+
+/**
+ * What a candidate aircraft must have to fly the lesson
+ */
+interface AircraftRequirements {
+  category: Aircraft['category'] | null; // null if neither the lesson nor a booked aircraft sets one
+  complex: boolean;
+  multiEngine: boolean;
+  ifr: boolean;
+  night: boolean;
+}
+
+/**
+ * Candidate that passed every check but the forecast, ranked before any forecast is fetched
+ */
+interface RankedSlot {
+  slot: TimeSlot;
+  instructor: Instructor;
+  aircraft: Aircraft;
+  aircraftMatch: AircraftMatch;
+  confidence: number;
+  certificationValid: boolean;
+  withinTimeWindow: boolean;
+  notes?: string;
 }
 
 /**
@@ -86,12 +185,28 @@ interface FlightWithStudent extends Flight {
 // Constants
 // ========================================
 
-const SEARCH_WINDOW_DAYS = 7;
-const MINIMUM_SPACING_HOURS = 6;
-const OPERATING_START_HOUR = 6; // 06:00
-const OPERATING_END_HOUR = 18; // 18:00
 const DURATION_TOLERANCE_MINUTES = 5;
-const MAX_CANDIDATES = 15;
+
+/**
+ * Preference order of aircraft matches, and the confidence each one gives up
+ */
+const AIRCRAFT_MATCH_RANK: Record<AircraftMatch, number> = {
+  'same-aircraft': 0,
+  'same-type': 1,
+  'same-category': 2,
+  'different-category': 3,
+  unknown: 4, // every candidate matches this way when it occurs
+};
+
+const AIRCRAFT_MATCH_PENALTY: Record<AircraftMatch, number> = {
+  'same-aircraft': 0,
+  'same-type': 2,
+  'same-category': 5,
+  'different-category': 10,
+  unknown: 0,
+};
+const DUTY_LOOKAROUND_MS = 24 * 60 * 60 * 1000; // flights this far outside the window count toward duty limits
+const FORECAST_CANDIDATE_BUFFER = 10; // ranked slots forecast beyond maxCandidates to replace those the forecast rejects
 
 // ========================================
 // Helper Functions - Instructor Availability
@@ -101,6 +216,7 @@ const MAX_CANDIDATES = 15;
  * Queries instructor's existing flight schedule within date range
  * @param ctx - Execution context
  * @param instructorId - Instructor ID
+ * @param excludeFlightId - Flight being rescheduled, which no longer holds its slot
  * @param startDate - Start of search window (ISO 8601)
  * @param endDate - End of search window (ISO 8601)
  * @returns Array of flights
@@ -108,6 +224,7 @@ const MAX_CANDIDATES = 15;
 async function queryInstructorFlights(
   ctx: ExecutionContext,
   instructorId: number,
+  excludeFlightId: number,
   startDate: string,
   endDate: string
 ): Promise<Flight[]> {
@@ -117,11 +234,12 @@ async function queryInstructorFlights(
     client,
     `SELECT * FROM flights
      WHERE instructor_id = ?
+     AND id != ?
      AND status IN ('scheduled', 'rescheduled')
      AND departure_time >= ?
      AND departure_time <= ?
      ORDER BY departure_time ASC`,
-    [instructorId, startDate, endDate]
+    [instructorId, excludeFlightId, startDate, endDate]
   );
 
   return flights;
@@ -129,37 +247,40 @@ async function queryInstructorFlights(
 
 /**
  * Calculates free time slots for instructor
+ * Days run from opening to closing time local to the departure airport, so slots
+ * keep their local times across daylight saving changes
  * @param flights - Sorted array of instructor's flights
  * @param startDate - Search window start
  * @param endDate - Search window end
  * @param targetDuration - Desired lesson duration in minutes
+ * @param constraints - Lesson constraints (operating hours and time zone)
  * @returns Array of free time slots
  */
 function calculateInstructorFreeSlots(
   flights: Flight[],
   startDate: string,
   endDate: string,
-  targetDuration: number
+  targetDuration: number,
+  constraints: LessonConstraints
 ): TimeSlot[] {
   const freeSlots: TimeSlot[] = [];
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-
-  // Iterate day by day
-  let currentDay = new Date(start);
-  while (currentDay <= end) {
+  const { operatingHours, timeZone } = constraints;
+  const openMinutes = parseTimeOfDay(operatingHours.openTime);
+  const closeMinutes = parseTimeOfDay(operatingHours.closeTime);
+  const lastDay = toLocalTime(new Date(endDate), timeZone).date;
+
+  // Iterate local day by day
+  let currentDay = toLocalTime(new Date(startDate), timeZone).date;
+  while (currentDay <= lastDay) {
     // Start at operating hours
-    let slotStart = new Date(currentDay);
-    slotStart.setUTCHours(OPERATING_START_HOUR, 0, 0, 0);
-
-    const dayEnd = new Date(currentDay);
-    dayEnd.setUTCHours(OPERATING_END_HOUR, 0, 0, 0);
+    const dayStart = fromLocalTime(currentDay, openMinutes, timeZone);
+    const dayEnd = fromLocalTime(currentDay, closeMinutes, timeZone);
+    let slotStart = new Date(dayStart);
 
     // Get flights for this day
-    const dayFlights = flights.filter((f) => {
-      const flightDate = new Date(f.departure_time);
-      return flightDate.toDateString() === currentDay.toDateString();
-    });
+    const dayFlights = flights.filter(
+      (f) => toLocalTime(new Date(f.departure_time), timeZone).date === currentDay
+    );
 
     // If no flights, entire day is free
     if (dayFlights.length === 0) {
@@ -186,16 +307,14 @@ function calculateInstructorFreeSlots(
           // Before first flight
           const firstFlight = dayFlights[0];
           if (!firstFlight) continue;
-          gapStart = new Date(currentDay);
-          gapStart.setUTCHours(OPERATING_START_HOUR, 0, 0, 0);
+          gapStart = new Date(dayStart);
           gapEnd = new Date(firstFlight.departure_time);
         } else if (i === dayFlights.length) {
           // After last flight
           const lastFlight = dayFlights[i - 1];
           if (!lastFlight) continue;
           gapStart = new Date(lastFlight.arrival_time);
-          gapEnd = new Date(currentDay);
-          gapEnd.setUTCHours(OPERATING_END_HOUR, 0, 0, 0);
+          gapEnd = new Date(dayEnd);
         } else {
           // Between flights
           const prevFlight = dayFlights[i - 1];
@@ -223,7 +342,7 @@ function calculateInstructorFreeSlots(
     }
 
     // Move to next day
-    currentDay = new Date(currentDay.getTime() + 24 * 60 * 60 * 1000);
+    currentDay = addDays(currentDay, 1);
   }
 
   return freeSlots;
@@ -233,13 +352,13 @@ function calculateInstructorFreeSlots(
  * Filters out slots within minimum spacing window of original time
  * @param freeSlots - Array of free time slots
  * @param originalTime - Original flight departure time
- * @param minGapHours - Minimum gap in hours (default 6)
+ * @param minGapHours - Minimum gap in hours (candidateMinimumSpacingHours setting)
  * @returns Filtered array
  */
 function filterMinimumSpacing(
   freeSlots: TimeSlot[],
   originalTime: string,
-  minGapHours: number = MINIMUM_SPACING_HOURS
+  minGapHours: number
 ): TimeSlot[] {
   const originalDate = new Date(originalTime);
   const minGapMs = minGapHours * 60 * 60 * 1000;
@@ -251,6 +370,48 @@ function filterMinimumSpacing(
   });
 }
 
+/**
+ * Filters out slots that start before now
+ * The search window reaches back before the original departure, which may already
+ * have passed, and a slot in the past cannot be offered or forecast
+ * @param freeSlots - Array of free time slots
+ * @param now - Current time
+ * @returns Filtered array
+ */
+function filterUpcomingSlots(freeSlots: TimeSlot[], now: Date): TimeSlot[] {
+  return freeSlots.filter((slot) => new Date(slot.startTime) >= now);
+}
+
+/**
+ * Queries an instructor's flights and schedule for the search window
+ * Flights are fetched a day beyond each end of the window so duty limits see the
+ * instruction just outside it
+ * @param ctx - Execution context
+ * @param instructorId - Instructor ID
+ * @param excludeFlightId - Flight being rescheduled
+ * @param searchStart - Start of search window
+ * @param searchEnd - End of search window
+ * @returns Instructor's flights and schedule
+ */
+async function queryInstructorAvailability(
+  ctx: ExecutionContext,
+  instructorId: number,
+  excludeFlightId: number,
+  searchStart: Date,
+  searchEnd: Date
+): Promise<{ flights: Flight[]; schedule: InstructorSchedule }> {
+  const flights = await queryInstructorFlights(
+    ctx,
+    instructorId,
+    excludeFlightId,
+    new Date(searchStart.getTime() - DUTY_LOOKAROUND_MS).toISOString(),
+    new Date(searchEnd.getTime() + DUTY_LOOKAROUND_MS).toISOString()
+  );
+  const schedule = await getInstructorSchedule(ctx, instructorId);
+
+  return { flights, schedule };
+}
+
 // ========================================
 // Helper Functions - Aircraft Availability
 // ========================================
@@ -292,20 +453,130 @@ async function checkAircraftConflicts(
  * @returns True if no conflicts, false if overlap
  */
 function validateAircraftAvailable(candidateSlot: TimeSlot, conflicts: Flight[]): boolean {
+  return !overlapsAnyFlight(candidateSlot, conflicts);
+}
+
+/**
+ * Checks whether a slot overlaps any of a set of flights
+ * @param candidateSlot - Proposed time slot
+ * @param flights - Existing flights
+ * @returns True if any flight overlaps the slot
+ */
+function overlapsAnyFlight(candidateSlot: TimeSlot, flights: Flight[]): boolean {
   const candidateStart = new Date(candidateSlot.startTime);
   const candidateEnd = new Date(candidateSlot.endTime);
 
-  for (const conflict of conflicts) {
-    const flightStart = new Date(conflict.departure_time);
-    const flightEnd = new Date(conflict.arrival_time);
+  return flights.some((flight) => {
+    const flightStart = new Date(flight.departure_time);
+    const flightEnd = new Date(flight.arrival_time);
+    return candidateStart < flightEnd && candidateEnd > flightStart;
+  });
+}
 
-    // Check for overlap
-    if (candidateStart < flightEnd && candidateEnd > flightStart) {
-      return false; // Overlap detected
-    }
+// ========================================
+// Helper Functions - Aircraft Capability
+// ========================================
+
+/**
+ * Lists what an aircraft lacks for a lesson
+ * @param aircraft - Candidate aircraft
+ * @param requirements - Lesson's aircraft requirements
+ * @returns Missing capabilities (empty if the aircraft can fly the lesson)
+ */
+function findCapabilityGaps(aircraft: Aircraft, requirements: AircraftRequirements): string[] {
+  const gaps: string[] = [];
+
+  if (requirements.category && aircraft.category !== requirements.category) {
+    gaps.push(`${requirements.category} required`);
+  }
+  if (requirements.complex && aircraft.complex !== 1) {
+    gaps.push('complex aircraft required');
+  }
+  if (requirements.multiEngine && aircraft.multi_engine !== 1) {
+    gaps.push('multi-engine aircraft required');
+  }
+  if (requirements.ifr && aircraft.ifr_capable !== 1) {
+    gaps.push('IFR equipment required');
+  }
+  if (requirements.night && aircraft.night_capable !== 1) {
+    gaps.push('night equipment required');
   }
 
-  return true; // No conflicts
+  return gaps;
+}
+
+/**
+ * Compares a candidate aircraft with the booked one
+ * @param aircraft - Candidate aircraft
+ * @param bookedAircraft - Aircraft the flight was booked in, or null if unknown
+ * @returns Aircraft match level
+ */
+function classifyAircraftMatch(aircraft: Aircraft, bookedAircraft: Aircraft | null): AircraftMatch {
+  if (!bookedAircraft) {
+    return 'unknown';
+  }
+  if (aircraft.id === bookedAircraft.id) {
+    return 'same-aircraft';
+  }
+  if (aircraft.model !== null && aircraft.model === bookedAircraft.model) {
+    return 'same-type';
+  }
+  return aircraft.category === bookedAircraft.category ? 'same-category' : 'different-category';
+}
+
+// ========================================
+// Helper Functions - Student Availability
+// ========================================
+
+/**
+ * Queries the student's other lessons within date range
+ * @param ctx - Execution context
+ * @param studentId - Student ID
+ * @param excludeFlightId - Flight being rescheduled, which cannot conflict with itself
+ * @param startDate - Start of search window (ISO 8601)
+ * @param endDate - End of search window (ISO 8601)
+ * @returns Array of flights
+ */
+async function queryStudentFlights(
+  ctx: ExecutionContext,
+  studentId: number,
+  excludeFlightId: number,
+  startDate: string,
+  endDate: string
+): Promise<Flight[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  return prepareQuery<Flight>(
+    client,
+    `SELECT * FROM flights
+     WHERE student_id = ?
+     AND id != ?
+     AND status IN ('scheduled', 'rescheduled')
+     AND arrival_time >= ?
+     AND departure_time <= ?
+     ORDER BY departure_time ASC`,
+    [studentId, excludeFlightId, startDate, endDate]
+  );
+}
+
+/**
+ * Validates the student can fly in a candidate slot
+ * @param slot - Candidate time slot
+ * @param studentFlights - Student's other lessons in the search window
+ * @param availability - Student's weekly windows and blackout dates
+ * @param constraints - Lesson constraints (departure airport time zone)
+ * @returns True if no lesson overlaps and the slot fits the student's availability
+ */
+function validateStudentAvailable(
+  slot: TimeSlot,
+  studentFlights: Flight[],
+  availability: StudentAvailability,
+  constraints: LessonConstraints
+): boolean {
+  return (
+    !overlapsAnyFlight(slot, studentFlights) &&
+    isWithinAvailability(availability, slot.startTime, slot.endTime, constraints.timeZone)
+  );
 }
 
 // ========================================
@@ -371,20 +642,56 @@ function isCertificationValid(studentLevel: string, instructorCerts: string[]):
 
 /**
  * Extracts lesson constraints from original flight
- * @param flight - Original flight record
+ * The lesson type's expected duration, daylight rule and aircraft requirements take
+ * precedence when assigned. A lesson that sets neither a category nor a complex or
+ * multi-engine capability needs the booked aircraft's category
+ * @param ctx - Execution context
+ * @param flight - Original flight record with student training level
+ * @param bookedAircraft - Aircraft the flight was booked in, or null if unknown
  * @returns Lesson constraints
  */
-function extractLessonConstraints(flight: Flight): LessonConstraints {
+async function extractLessonConstraints(
+  ctx: ExecutionContext,
+  flight: FlightWithStudent,
+  bookedAircraft: Aircraft | null
+): Promise<LessonConstraints> {
   const departureTime = new Date(flight.departure_time);
   const arrivalTime = new Date(flight.arrival_time);
-  const durationMinutes = Math.round((arrivalTime.getTime() - departureTime.getTime()) / 60000);
+  const lessonType = await getLessonType(ctx, flight.lesson_type_id);
+  const durationMinutes =
+    lessonType?.duration_minutes ??
+    Math.round((arrivalTime.getTime() - departureTime.getTime()) / 60000);
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const threshold = await prepareQueryOne<TrainingThreshold>(
+    client,
+    `SELECT * FROM training_thresholds WHERE organization_id = ? AND training_level = ?`,
+    [flight.organization_id, flight.training_level]
+  );
+  const departureAirport = await getAirport(ctx, flight.departure_airport);
+  const arrivalAirport = await getAirport(ctx, flight.arrival_airport);
+  const daylightRule = lessonType?.daylight_rule ?? threshold?.daylight_rule ?? 'night-allowed';
+  const requiresComplex = lessonType?.requires_complex === 1;
+  const requiresMultiEngine = lessonType?.requires_multi_engine === 1;
+  const bookedCategory = requiresComplex || requiresMultiEngine ? null : bookedAircraft?.category ?? null;
 
   return {
+    lessonType: lessonType?.code ?? null,
     durationMinutes,
     departureAirport: flight.departure_airport,
     arrivalAirport: flight.arrival_airport,
-    operatingStart: OPERATING_START_HOUR,
-    operatingEnd: OPERATING_END_HOUR,
+    operatingHours: await getOperatingHours(ctx, flight.departure_airport),
+    daylightRule,
+    departureCoordinates: departureAirport ? toCoordinates(departureAirport) : null,
+    arrivalCoordinates: arrivalAirport ? toCoordinates(arrivalAirport) : null,
+    timeZone: departureAirport?.timezone ?? 'UTC',
+    aircraftRequirements: {
+      category: lessonType?.required_category ?? bookedCategory,
+      complex: requiresComplex,
+      multiEngine: requiresMultiEngine,
+      ifr: lessonType?.requires_ifr === 1,
+      night: daylightRule === 'night-required',
+    },
   };
 }
 
@@ -401,17 +708,38 @@ function validateSlotConstraints(slot: TimeSlot, constraints: LessonConstraints)
     return false;
   }
 
-  // Operating hours check
-  const slotStart = new Date(slot.startTime);
-  const slotEnd = new Date(slot.endTime);
-  const startHour = slotStart.getUTCHours();
-  const endHour = slotEnd.getUTCHours();
+  // Operating hours check, in the departure airport's local time
+  const { openTime, closeTime } = constraints.operatingHours;
+  const operatingDays = [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+    dayOfWeek,
+    startTime: openTime,
+    endTime: closeTime,
+  }));
 
-  if (startHour < constraints.operatingStart || endHour > constraints.operatingEnd) {
-    return false;
+  return isWithinWeeklyWindows(operatingDays, slot.startTime, slot.endTime, constraints.timeZone);
+}
+
+/**
+ * Validates candidate slot against the student's daylight rule
+ * Day-only slots must start after morning and end before evening civil twilight
+ * @param slot - Candidate time slot
+ * @param constraints - Lesson constraints
+ * @returns True if the rule is met or cannot be evaluated (unknown airport)
+ */
+function validateDaylightRule(slot: TimeSlot, constraints: LessonConstraints): boolean {
+  if (
+    constraints.daylightRule === 'night-allowed' ||
+    !constraints.departureCoordinates ||
+    !constraints.arrivalCoordinates
+  ) {
+    return true;
   }
 
-  return true;
+  return evaluateDaylightRule(
+    constraints.daylightRule,
+    { point: constraints.departureCoordinates, time: new Date(slot.startTime) },
+    { point: constraints.arrivalCoordinates, time: new Date(slot.endTime) }
+  ).satisfied;
 }
 
 /**
@@ -426,20 +754,18 @@ function calculateSlotConfidence(
   constraints: LessonConstraints,
   originalTime: string
 ): number {
-  const slotDate = new Date(slot.startTime);
-  const originalDate = new Date(originalTime);
+  // Compared in the departure airport's local time, so a daylight saving change
+  // between the two dates does not shift the time of day
+  const slotLocal = toLocalTime(new Date(slot.startTime), constraints.timeZone);
+  const originalLocal = toLocalTime(new Date(originalTime), constraints.timeZone);
 
   // Calculate time differences
-  const daysDiff = Math.abs(
-    Math.floor((slotDate.getTime() - originalDate.getTime()) / (24 * 60 * 60 * 1000))
-  );
-  const hoursDiff = Math.abs(
-    Math.floor((slotDate.getTime() - originalDate.getTime()) / (60 * 60 * 1000)) % 24
-  );
+  const daysDiff = Math.abs(daysBetween(originalLocal.date, slotLocal.date));
+  const hoursDiff = Math.floor(Math.abs(slotLocal.minutes - originalLocal.minutes) / 60);
   const durationDiff = Math.abs(slot.durationMinutes - constraints.durationMinutes);
 
   // Same day of week check
-  const sameDayOfWeek = slotDate.getUTCDay() === originalDate.getUTCDay();
+  const sameDayOfWeek = slotLocal.dayOfWeek === originalLocal.dayOfWeek;
 
   // Calculate base score
   let score = 100;
@@ -486,6 +812,58 @@ function calculateSlotConfidence(
   return Math.max(0, Math.min(100, score));
 }
 
+// ========================================
+// Helper Functions - Forecast Evaluation
+// ========================================
+
+/**
+ * Classifies a candidate slot against the forecast for its own times
+ * Forecasts are fetched once per slot and shared across the aircraft tried in it
+ * @param ctx - Execution context
+ * @param flight - Original flight
+ * @param slot - Candidate time slot
+ * @param aircraftId - Candidate aircraft
+ * @param instructorId - Candidate instructor
+ * @param forecasts - Forecasts already fetched, keyed by slot start time
+ * @param cache - Forecast cache shared across the slots of this run
+ * @param classificationInputs - Thresholds and supporting data loaded once for the run
+ * @returns Forecast risk for the slot
+ */
+async function evaluateSlotForecast(
+  ctx: ExecutionContext,
+  flight: Flight,
+  slot: TimeSlot,
+  aircraftId: number,
+  instructorId: number,
+  forecasts: Map<string, Promise<WeatherSnapshot[]>>,
+  cache: ForecastCache,
+  classificationInputs: ForecastClassificationInputs
+): Promise<CandidateForecastRisk> {
+  // Unsaved flight (ID 0): a checkpoint the provider cannot forecast has no data, leaving the slot unknown
+  const candidateFlight: Flight = {
+    ...flight,
+    id: 0,
+    instructor_id: instructorId,
+    aircraft_id: aircraftId,
+    departure_time: slot.startTime,
+    arrival_time: slot.endTime,
+  };
+
+  let snapshots = forecasts.get(slot.startTime);
+  if (!snapshots) {
+    snapshots = forecastFlightCheckpoints(ctx, candidateFlight, cache);
+    forecasts.set(slot.startTime, snapshots);
+  }
+
+  const result = classifyForecast(candidateFlight, await snapshots, classificationInputs);
+
+  return {
+    weatherStatus: result.evaluatedStatus,
+    riskScore: result.riskScore,
+    reason: result.reason,
+  };
+}
+
 // ========================================
 // Main Service Function
 // ========================================
@@ -503,10 +881,12 @@ export async function generateCandidateSlots(
   executionContext: ExecutionContext
 ): Promise<CandidateSlotsResult> {
   const ctx = executionContext;
+  const settings = await getSettings(ctx);
+  const searchWindowDays = settings.candidateSearchWindowDays;
 
   ctx.logger.info('[candidateSlots] Generating candidates for flight', {
     flightId,
-    searchWindowDays: SEARCH_WINDOW_DAYS,
+    searchWindowDays,
     correlationId: ctx.correlationId,
   });
 
@@ -518,7 +898,7 @@ export async function generateCandidateSlots(
         originalDepartureTime: '',
         candidateSlots: [],
         totalSlotsCandidates: 0,
-        searchWindowDays: SEARCH_WINDOW_DAYS,
+        searchWindowDays,
         generatedAt: new Date().toISOString(),
         correlationId: ctx.correlationId,
         error: 'Invalid flight ID',
@@ -532,8 +912,8 @@ export async function generateCandidateSlots(
       `SELECT f.*, s.training_level
        FROM flights f
        JOIN students s ON f.student_id = s.id
-       WHERE f.id = ?`,
-      [flightId]
+       WHERE f.id = ? AND f.organization_id = ?`,
+      [flightId, ctx.organizationId]
     );
 
     if (!flight) {
@@ -543,17 +923,18 @@ export async function generateCandidateSlots(
         originalDepartureTime: '',
         candidateSlots: [],
         totalSlotsCandidates: 0,
-        searchWindowDays: SEARCH_WINDOW_DAYS,
+        searchWindowDays,
         generatedAt: new Date().toISOString(),
         correlationId: ctx.correlationId,
         error: 'Flight not found',
       };
     }
 
-    // Calculate search window (±7 days)
+    // Calculate search window (± candidateSearchWindowDays)
+    const now = new Date();
     const originalDeparture = new Date(flight.departure_time);
-    const searchStart = new Date(originalDeparture.getTime() - SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
-    const searchEnd = new Date(originalDeparture.getTime() + SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const searchStart = new Date(originalDeparture.getTime() - searchWindowDays * 24 * 60 * 60 * 1000);
+    const searchEnd = new Date(originalDeparture.getTime() + searchWindowDays * 24 * 60 * 60 * 1000);
 
     ctx.logger.info('[candidateSlots] Search window calculated', {
       originalDeparture: flight.departure_time,
@@ -562,31 +943,85 @@ export async function generateCandidateSlots(
     });
 
     // Extract lesson constraints
-    const constraints = extractLessonConstraints(flight);
+    const bookedAircraft = await prepareQueryOne<Aircraft>(
+      client,
+      `SELECT * FROM aircraft WHERE id = ? AND organization_id = ?`,
+      [flight.aircraft_id, flight.organization_id]
+    );
+    const constraints = await extractLessonConstraints(ctx, flight, bookedAircraft);
+
+    // The student's other lessons and availability apply to every instructor and aircraft
+    const studentFlights = await queryStudentFlights(
+      ctx,
+      flight.student_id,
+      flight.id,
+      searchStart.toISOString(),
+      searchEnd.toISOString()
+    );
+    const studentAvailability = await getStudentAvailability(ctx, flight.student_id);
 
-    // Get all instructors (for MVP, consider all instructors)
+    ctx.logger.info('[candidateSlots] Student schedule retrieved', {
+      studentId: flight.student_id,
+      otherLessons: studentFlights.length,
+      availabilityWindows: studentAvailability.windows.length,
+      blackouts: studentAvailability.blackouts.length,
+    });
+
+    // Get the flight's organization's instructors; candidates never cross organizations
     const instructors = await prepareQuery<Instructor>(
       client,
-      `SELECT * FROM instructors`,
-      []
+      `SELECT * FROM instructors WHERE organization_id = ?`,
+      [flight.organization_id]
     );
 
     ctx.logger.info('[candidateSlots] Instructors retrieved', {
       count: instructors.length,
     });
 
-    // Get all available aircraft
-    const availableAircraft = await prepareQuery<Aircraft>(
+    // The original instructor's schedule explains why their time went to someone else
+    const originalInstructor = instructors.find((i) => i.id === flight.instructor_id);
+    const originalAvailability = originalInstructor
+      ? await queryInstructorAvailability(ctx, originalInstructor.id, flight.id, searchStart, searchEnd)
+      : null;
+
+    // Get the organization's available aircraft that can fly the lesson, best match first
+    const organizationAircraft = await prepareQuery<Aircraft>(
       client,
-      `SELECT * FROM aircraft WHERE status = 'available'`,
-      []
+      `SELECT * FROM aircraft WHERE organization_id = ? AND status = 'available'`,
+      [flight.organization_id]
     );
+    const assessedAircraft = organizationAircraft.map((aircraft) => ({
+      aircraft,
+      gaps: findCapabilityGaps(aircraft, constraints.aircraftRequirements),
+    }));
+    const incapableAircraft = assessedAircraft
+      .filter(({ gaps }) => gaps.length > 0)
+      .map(({ aircraft, gaps }) => ({ registration: aircraft.registration, gaps }));
+    const availableAircraft = assessedAircraft
+      .filter(({ gaps }) => gaps.length === 0)
+      .map(({ aircraft }) => ({ aircraft, match: classifyAircraftMatch(aircraft, bookedAircraft) }))
+      .sort((a, b) => AIRCRAFT_MATCH_RANK[a.match] - AIRCRAFT_MATCH_RANK[b.match]);
 
     ctx.logger.info('[candidateSlots] Available aircraft retrieved', {
       count: availableAircraft.length,
+      requirements: constraints.aircraftRequirements,
+      incapable: incapableAircraft,
     });
 
-    const candidates: CandidateSlot[] = [];
+    // Every slot is tried, so each aircraft's bookings are loaded once up front
+    const aircraftBookings = new Map<number, Flight[]>();
+    for (const { aircraft } of availableAircraft) {
+      aircraftBookings.set(
+        aircraft.id,
+        await checkAircraftConflicts(ctx, aircraft.id, searchStart.toISOString(), searchEnd.toISOString())
+      );
+    }
+
+    const rankedSlots: RankedSlot[] = [];
+    const rejectedSlots: RejectedSlotCounts = {};
+    const forecasts = new Map<string, Promise<WeatherSnapshot[]>>();
+    const forecastCache = createForecastCache();
+    const classificationInputs = await loadForecastClassificationInputs(ctx, flight);
 
     // Generate candidates for each instructor-aircraft combination
     for (const instructor of instructors) {
@@ -603,29 +1038,37 @@ export async function generateCandidateSlots(
         continue; // Skip this instructor
       }
 
-      // Get instructor's flight schedule
-      const instructorFlights = await queryInstructorFlights(
-        ctx,
-        instructor.id,
-        searchStart.toISOString(),
-        searchEnd.toISOString()
-      );
+      // Get instructor's flights, working hours, time off and daily limit
+      const { flights: instructorFlights, schedule } =
+        instructor.id === originalInstructor?.id && originalAvailability
+          ? originalAvailability
+          : await queryInstructorAvailability(ctx, instructor.id, flight.id, searchStart, searchEnd);
 
       // Calculate free slots
       const freeSlots = calculateInstructorFreeSlots(
         instructorFlights,
         searchStart.toISOString(),
         searchEnd.toISOString(),
-        constraints.durationMinutes
+        constraints.durationMinutes,
+        constraints
       );
 
-      // Filter out slots within minimum spacing
-      const spacedSlots = filterMinimumSpacing(freeSlots, flight.departure_time);
+      // Filter out past slots and slots within minimum spacing
+      const upcomingSlots = filterUpcomingSlots(freeSlots, now);
+      const spacedSlots = filterMinimumSpacing(
+        upcomingSlots,
+        flight.departure_time,
+        settings.candidateMinimumSpacingHours
+      );
 
       ctx.logger.info('[candidateSlots] Instructor free slots calculated', {
         instructorId: instructor.id,
         freeSlots: freeSlots.length,
+        upcoming: upcomingSlots.length,
         afterSpacing: spacedSlots.length,
+        workingHours: schedule.workingHours.length,
+        timeOff: schedule.timeOff.length,
+        maxFlightsPerDay: schedule.maxFlightsPerDay,
       });
 
       // For each free slot, check aircraft availability
@@ -635,99 +1078,168 @@ export async function generateCandidateSlots(
           continue; // Skip invalid slots
         }
 
-        for (const aircraft of availableAircraft) {
-          // Check aircraft conflicts
-          const aircraftConflicts = await checkAircraftConflicts(
-            ctx,
-            aircraft.id,
-            searchStart.toISOString(),
-            searchEnd.toISOString()
-          );
+        const scheduleConflict = findScheduleConflict(
+          schedule,
+          slot.startTime,
+          slot.endTime,
+          instructorFlights,
+          constraints.timeZone
+        );
+        if (scheduleConflict) {
+          rejectedSlots.instructorAvailable = (rejectedSlots.instructorAvailable ?? 0) + 1;
+          continue; // Instructor is off duty or at a duty limit
+        }
+
+        // Explains why the original instructor is not offered at this time
+        const originalConflict =
+          originalInstructor && originalAvailability && instructor.id !== originalInstructor.id
+            ? findScheduleConflict(
+                originalAvailability.schedule,
+                slot.startTime,
+                slot.endTime,
+                originalAvailability.flights,
+                constraints.timeZone
+              )
+            : null;
+
+        if (!validateDaylightRule(slot, constraints)) {
+          rejectedSlots.daylightRuleMet = (rejectedSlots.daylightRuleMet ?? 0) + 1;
+          continue; // Outside the student's daylight rule
+        }
+
+        if (!validateStudentAvailable(slot, studentFlights, studentAvailability, constraints)) {
+          rejectedSlots.studentAvailable = (rejectedSlots.studentAvailable ?? 0) + 1;
+          continue; // Student is booked or unavailable
+        }
 
+        for (const { aircraft, match: aircraftMatch } of availableAircraft) {
+          // Check aircraft conflicts
+          const aircraftConflicts = aircraftBookings.get(aircraft.id) as Flight[];
           const aircraftAvailable = validateAircraftAvailable(slot, aircraftConflicts);
 
           if (!aircraftAvailable) {
             continue; // Skip this aircraft
           }
 
-          // Calculate confidence score
-          const confidence = calculateSlotConfidence(slot, constraints, flight.departure_time);
+          // Calculate confidence score, less for an aircraft further from the booked one
+          const confidence = Math.max(
+            0,
+            calculateSlotConfidence(slot, constraints, flight.departure_time) -
+              AIRCRAFT_MATCH_PENALTY[aircraftMatch]
+          );
 
           // Check if within time window (±7 days)
           const slotDate = new Date(slot.startTime);
           const withinWindow =
             slotDate >= searchStart && slotDate <= searchEnd;
 
-          // Minimum spacing already checked above
-          const minimumSpacingMet = true;
-
-          // Add to candidates
-          const candidate: CandidateSlot = {
-            slotIndex: candidates.length,
-            instructorId: instructor.id,
-            instructorName: instructor.name,
-            aircraftId: aircraft.id,
-            aircraftRegistration: aircraft.registration,
-            departureTime: slot.startTime,
-            arrivalTime: slot.endTime,
-            durationMinutes: slot.durationMinutes,
+          rankedSlots.push({
+            slot,
+            instructor,
+            aircraft,
+            aircraftMatch,
             confidence,
-            constraints: {
-              instructorAvailable: true,
-              aircraftAvailable: true,
-              certificationValid: certValid,
-              withinTimeWindow: withinWindow,
-              minimumSpacingMet,
-            },
+            certificationValid: certValid,
+            withinTimeWindow: withinWindow,
             notes:
-              aircraft.category !== flight.departure_airport // Note: This is a simplified check
-                ? `Alternative aircraft category: ${aircraft.category}`
+              originalInstructor && originalConflict
+                ? `${originalInstructor.name} unavailable: ${originalConflict}`
                 : undefined,
-          };
-
-          candidates.push(candidate);
-
-          ctx.logger.info('[candidateSlots] Added candidate slot', {
-            slotIndex: candidate.slotIndex,
-            instructorId: instructor.id,
-            aircraftId: aircraft.id,
-            departureTime: slot.startTime,
-            confidence,
           });
-
-          // Limit to MAX_CANDIDATES
-          if (candidates.length >= MAX_CANDIDATES) {
-            break;
-          }
-        }
-
-        if (candidates.length >= MAX_CANDIDATES) {
-          break;
         }
       }
-
-      if (candidates.length >= MAX_CANDIDATES) {
-        break;
-      }
     }
 
-    // Sort by confidence (descending), then chronologically
-    candidates.sort((a, b) => {
+    // Rank every combination by confidence (descending), then aircraft match, then chronologically
+    rankedSlots.sort((a, b) => {
       if (b.confidence !== a.confidence) {
         return b.confidence - a.confidence;
       }
-      return new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime();
+      if (a.aircraftMatch !== b.aircraftMatch) {
+        return AIRCRAFT_MATCH_RANK[a.aircraftMatch] - AIRCRAFT_MATCH_RANK[b.aircraftMatch];
+      }
+      return new Date(a.slot.startTime).getTime() - new Date(b.slot.startTime).getTime();
     });
 
-    // Reassign slot indices after sorting
-    candidates.forEach((c, idx) => {
-      c.slotIndex = idx;
-    });
+    // Each forecast costs provider requests, so only the best ranked slots are forecast:
+    // the first maxCandidates, and a bounded buffer to replace those the forecast rejects
+    const forecastLimit = settings.maxCandidates + FORECAST_CANDIDATE_BUFFER;
+    const candidates: CandidateSlot[] = [];
+    let forecastedSlots = 0;
+
+    for (const ranked of rankedSlots) {
+      if (candidates.length >= settings.maxCandidates || forecastedSlots >= forecastLimit) {
+        break;
+      }
+      forecastedSlots++;
+
+      // Reject slots forecast to breach the student's minimums at or above advisory risk
+      const forecastRisk = await evaluateSlotForecast(
+        ctx,
+        flight,
+        ranked.slot,
+        ranked.aircraft.id,
+        ranked.instructor.id,
+        forecasts,
+        forecastCache,
+        classificationInputs
+      );
+      if (forecastRisk.riskScore >= settings.advisoryRiskScore) {
+        rejectedSlots.forecastMinimumsMet = (rejectedSlots.forecastMinimumsMet ?? 0) + 1;
+        continue; // Rescheduling here would run into the next weather conflict
+      }
+
+      // Add to candidates, in rank order
+      const candidate: CandidateSlot = {
+        slotIndex: candidates.length,
+        instructorId: ranked.instructor.id,
+        instructorName: ranked.instructor.name,
+        aircraftId: ranked.aircraft.id,
+        aircraftRegistration: ranked.aircraft.registration,
+        departureTime: ranked.slot.startTime,
+        arrivalTime: ranked.slot.endTime,
+        durationMinutes: ranked.slot.durationMinutes,
+        confidence: ranked.confidence,
+        constraints: {
+          instructorAvailable: true, // slots outside the schedule or duty limits were rejected above
+          aircraftAvailable: true,
+          certificationValid: ranked.certificationValid,
+          withinTimeWindow: ranked.withinTimeWindow,
+          minimumSpacingMet: true, // slots within minimum spacing were filtered out above
+          daylightRuleMet: true, // slots breaking the rule were rejected above
+          studentAvailable: true, // slots the student cannot fly were rejected above
+          // Unknown means no forecast or threshold, so the slot could not be checked
+          forecastMinimumsMet: forecastRisk.weatherStatus !== 'unknown',
+        },
+        forecastRisk,
+        aircraftMatch: ranked.aircraftMatch,
+        notes: ranked.notes,
+      };
+
+      candidates.push(candidate);
+
+      ctx.logger.debug('[candidateSlots] Added candidate slot', {
+        slotIndex: candidate.slotIndex,
+        instructorId: candidate.instructorId,
+        aircraftId: candidate.aircraftId,
+        departureTime: candidate.departureTime,
+        confidence: candidate.confidence,
+        aircraftMatch: candidate.aircraftMatch,
+        forecastStatus: forecastRisk.weatherStatus,
+        forecastRiskScore: forecastRisk.riskScore,
+      });
+    }
 
     ctx.logger.info('[candidateSlots] Candidate generation completed', {
       flightId,
-      totalCandidates: candidates.length,
+      rankedSlots: rankedSlots.length,
+      forecastedSlots,
+      keptCandidates: candidates.length,
       topConfidence: candidates.length > 0 ? candidates[0]?.confidence ?? 0 : 0,
+      lessonType: constraints.lessonType,
+      durationMinutes: constraints.durationMinutes,
+      daylightRule: constraints.daylightRule,
+      rejectedSlots,
     });
 
     return {
@@ -735,9 +1247,10 @@ export async function generateCandidateSlots(
       originalDepartureTime: flight.departure_time,
       candidateSlots: candidates,
       totalSlotsCandidates: candidates.length,
-      searchWindowDays: SEARCH_WINDOW_DAYS,
+      searchWindowDays,
       generatedAt: new Date().toISOString(),
       correlationId: ctx.correlationId,
+      rejectedSlots,
     };
   } catch (error) {
     ctx.logger.error('[candidateSlots] Error generating candidates', {
@@ -752,7 +1265,7 @@ export async function generateCandidateSlots(
       originalDepartureTime: '',
       candidateSlots: [],
       totalSlotsCandidates: 0,
-      searchWindowDays: SEARCH_WINDOW_DAYS,
+      searchWindowDays,
       generatedAt: new Date().toISOString(),
       correlationId: ctx.correlationId,
       error: error instanceof Error ? error.message : 'Unknown error',
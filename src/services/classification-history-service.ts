@@ -0,0 +1,153 @@
+/**
+ * Classification History Service
+ * Records persisted classifications and reads them back for a flight
+ *
+ * Each record keeps the weather snapshot IDs and effective thresholds the evaluation
+ * used alongside its breaches and resulting status, so a status change can be explained
+ * after later snapshots and threshold edits have moved on.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, DbClient, FlightClassification } from '../db/client';
+import { parseHazards } from '../lib/weather-hazards';
+import {
+  ClassificationRecord,
+  ClassificationResult,
+  ClassificationThresholds,
+  GetClassificationHistoryRequest,
+  MarginBands,
+} from '../rpc/schema';
+import { EffectiveThreshold } from './student-minimums-service';
+
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// ========================================
+// Mapping
+// ========================================
+
+/**
+ * Summarizes the effective threshold a classification evaluated against
+ * @param threshold - Effective threshold, or null if the training level had none
+ * @param marginBands - Margin bands in effect
+ * @returns Threshold summary, or null without a threshold
+ */
+export function summarizeThresholds(
+  threshold: EffectiveThreshold | null,
+  marginBands: MarginBands
+): ClassificationThresholds | null {
+  if (!threshold) {
+    return null;
+  }
+
+  return {
+    maxWind: threshold.max_wind_speed,
+    minVisibility: threshold.min_visibility,
+    minCeiling: threshold.min_ceiling,
+    maxCrosswind: threshold.max_crosswind,
+    maxGustFactor: threshold.max_gust_factor,
+    prohibitedHazards: parseHazards(threshold.prohibited_hazards),
+    daylightRule: threshold.daylight_rule,
+    maxCeiling: threshold.max_ceiling,
+    maxVisibility: threshold.max_visibility,
+    sources: threshold.sources,
+    marginBands,
+  };
+}
+
+/**
+ * Maps a classification row to its RPC shape
+ */
+function mapClassificationRow(row: FlightClassification): ClassificationRecord {
+  return {
+    id: row.id,
+    flightId: row.flight_id,
+    weatherStatus: row.weather_status,
+    evaluatedStatus: row.evaluated_status,
+    reason: row.reason,
+    riskScore: row.risk_score,
+    hoursUntilDeparture: row.hours_until_departure,
+    snapshotIds: JSON.parse(row.snapshot_ids),
+    thresholds: row.thresholds ? JSON.parse(row.thresholds) : null,
+    breachedCheckpoints: JSON.parse(row.breached_checkpoints),
+    thresholdVersionId: row.threshold_version_id,
+    correlationId: row.correlation_id,
+    createdAt: row.created_at,
+  };
+}
+
+// ========================================
+// Recording
+// ========================================
+
+/**
+ * Prepares the insert that records a classification
+ * Run it in the same batch as the flight status update
+ * @param client - DbClient instance
+ * @param result - Classification result after hysteresis
+ * @param snapshotIds - Weather snapshots evaluated
+ * @param thresholds - Effective thresholds evaluated against
+ * @param correlationId - Correlation ID of the classification run
+ * @returns Insert statement
+ */
+export function prepareClassificationRecord(
+  client: DbClient,
+  result: ClassificationResult,
+  snapshotIds: number[],
+  thresholds: ClassificationThresholds | null,
+  correlationId: string
+): D1PreparedStatement {
+  return client.db
+    .prepare(
+      `INSERT INTO flight_classifications (
+        flight_id, weather_status, evaluated_status, reason, risk_score, hours_until_departure,
+        snapshot_ids, thresholds, breached_checkpoints, threshold_version_id, correlation_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      result.flightId,
+      result.weatherStatus,
+      result.evaluatedStatus,
+      result.reason,
+      result.riskScore,
+      result.hoursUntilDeparture,
+      JSON.stringify(snapshotIds),
+      thresholds ? JSON.stringify(thresholds) : null,
+      JSON.stringify(result.breachedCheckpoints),
+      result.thresholdVersionId,
+      correlationId,
+      new Date().toISOString()
+    );
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves recorded classifications for a flight of the context's organization
+ * @param ctx - Execution context
+ * @param request - Flight ID and optional limit
+ * @returns Classifications, newest first (none for another organization's flight)
+ */
+export async function getClassificationHistory(
+  ctx: ExecutionContext,
+  request: GetClassificationHistoryRequest
+): Promise<ClassificationRecord[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  const rows = await prepareQuery<FlightClassification>(
+    client,
+    `SELECT fc.* FROM flight_classifications fc
+     JOIN flights f ON fc.flight_id = f.id
+     WHERE fc.flight_id = ? AND f.organization_id = ?
+     ORDER BY fc.created_at DESC, fc.id DESC
+     LIMIT ?`,
+    [request.flightId, ctx.organizationId, request.limit ?? DEFAULT_HISTORY_LIMIT]
+  );
+
+  return rows.map(mapClassificationRow);
+}
@@ -3,13 +3,37 @@
  * Handles flight classification based on weather thresholds and time horizons
  *
  * Classification Logic:
- * 1. Load training threshold based on student's training level
+ * 1. Load training threshold based on student's training level, adjusted by the flight's
+ *    lesson type (which may tighten, relax or invert limits) and then tightened by any
+ *    personal minimums for the student (the stricter value wins)
  * 2. Retrieve weather snapshots for all three checkpoints (departure, arrival, corridor)
- * 3. Evaluate each checkpoint against thresholds (wind, visibility, ceiling)
- * 4. Apply worst-case logic: ANY checkpoint breach fails the entire flight
- * 5. Calculate time horizon: <72h triggers auto-reschedule, ≥72h triggers advisory
- * 6. Update flight weather_status in database
- * 7. Return classification result with breach details
+ * 3. Evaluate each checkpoint against thresholds (wind, visibility, ceiling, crosswind, gust)
+ *    Marginal conditions whose forecast trend is deteriorating also count as a breach,
+ *    as do forecast hazards (convective, icing, precipitation) the training level prohibits
+ *    and departures/arrivals that violate the daylight rule or exceed the aircraft
+ *    category's density altitude ceiling. Lessons that need instrument conditions
+ *    breach when the ceiling or visibility is better than the lesson requires
+ *    The assigned aircraft's own limits (crosswind, wind, IFR, night, service ceiling)
+ *    are checked separately and reported as aircraft breaches
+ * 4. Grade each breach: wind, visibility, ceiling, crosswind and gust breaches within the
+ *    metric's margin band are marginal, the rest are hard. The checkpoint risk score is
+ *    the worst breach severity weighted by forecast confidence (from confidence_horizon)
+ * 5. Apply worst-case logic: the highest checkpoint risk is the flight's risk score.
+ *    A high risk within the reschedule horizon triggers auto-reschedule, otherwise a
+ *    moderate risk triggers advisory and a low risk (shallow marginal breaches on distant
+ *    forecasts) is marginal. The horizon and both risk scores are settings (see settings-service)
+ * 6. Apply hysteresis (see hysteresis-service): escalate only after consecutive evaluations
+ *    and de-escalate only beyond the recovery margin, so borderline forecasts cannot flap
+ * 7. Update flight weather_status, hysteresis state and the threshold version evaluated
+ *    against in database, recording any status transition and the classification itself
+ *    in flight_classifications (skipped when the caller passes persist: false, which still
+ *    reports the status hysteresis would hold)
+ * 8. Return classification result with breach details
+ *
+ * simulateClassification runs the same evaluation for an existing or hypothetical flight
+ * with weather and threshold overrides, without hysteresis, and never writes to the database.
+ * classifyForecast does the same for forecasts the caller supplies, such as a candidate
+ * reschedule slot's.
  */
 
 import { ExecutionContext } from '../lib/logger';
@@ -17,31 +41,102 @@ import {
   createClient,
   prepareQuery,
   prepareQueryOne,
-  prepareExec,
+  transaction,
   Flight,
   WeatherSnapshot,
   TrainingThreshold,
+  AircraftCategoryLimit,
 } from '../db/client';
+import {
+  AircraftDetail,
+  AirportDetail,
+  CheckpointTrend,
+  CheckpointWeatherOverride,
+  DaylightRule,
+  HazardType,
+  HypotheticalFlight,
+  MarginBands,
+  Settings,
+  SimulateClassificationRequest,
+  SimulateClassificationResponse,
+  ThresholdOverrides,
+  ThresholdSource,
+  TrendDirection,
+} from '../rpc/schema';
+import {
+  getCeilingSeverity,
+  getForecastConfidence,
+  getVisibilitySeverity,
+  getWindSpeedSeverity,
+} from '../lib/weather-utils';
+import { parseHazards } from '../lib/weather-hazards';
+import { getFlightCategory } from '../lib/taf-parser';
+import { DaylightAssessment, calculateSolarTimes, evaluateDaylightRule } from '../lib/solar';
+import { getCheckpointTrends } from './trend-service';
+import { assertKnownAirports, getAirport, normalizeAirportCode, toCoordinates } from './airport-service';
+import { getAircraft, listAircraft } from './aircraft-service';
+import { EffectiveThreshold, ThresholdField, resolveStudentThreshold } from './student-minimums-service';
+import { applyLessonType, getLessonType } from './lesson-type-service';
+import { getCurrentVersionId } from './thresholds';
+import { getMarginBands } from './margin-band-service';
+import { getSettings } from './settings-service';
+import {
+  HysteresisDecision,
+  applyHysteresis,
+  getClassificationState,
+  prepareHysteresisStatements,
+} from './hysteresis-service';
+import { prepareClassificationRecord, summarizeThresholds } from './classification-history-service';
 
 // ========================================
 // Constants
 // ========================================
 
 /**
- * Time horizon threshold for automatic rescheduling (in hours)
- * Flights within this window trigger auto-reschedule, beyond it trigger advisory
+ * Severity of a breach at the near edge of its margin band, rising to 1 (hard) at the far edge
+ * Hard breaches score at least 50 (lowest forecast confidence), so they reach advisory
+ * at the default advisoryRiskScore
+ * Trend breaches (marginal and deteriorating) carry the same severity
  */
-const RESCHEDULE_HORIZON = 72; // hours
+const MARGINAL_SEVERITY = 0.5;
+
+/**
+ * Breach category reported for each weather hazard
+ */
+const HAZARD_BREACH_CATEGORIES: Record<HazardType, HazardBreachCategory> = {
+  thunderstorm: 'convective',
+  icing: 'icing',
+  'freezing-precipitation': 'icing',
+  snow: 'precipitation',
+  'heavy-precipitation': 'precipitation',
+};
+
+/**
+ * Threshold field that sets the limit for each threshold-driven breach
+ */
+const BREACH_LIMIT_FIELDS: Partial<Record<keyof CheckpointBreach['breaches'], ThresholdField>> = {
+  wind: 'max_wind_speed',
+  visibility: 'min_visibility',
+  ceiling: 'min_ceiling',
+  crosswind: 'max_crosswind',
+  gust: 'max_gust_factor',
+  daylight: 'daylight_rule',
+  requiredCeiling: 'max_ceiling',
+  requiredVisibility: 'max_visibility',
+};
 
 // ========================================
 // Type Definitions
 // ========================================
 
+type HazardBreachCategory = 'convective' | 'icing' | 'precipitation';
+
 /**
  * Request to classify flights by weather conditions
  */
 export interface FlightClassificationRequest {
   flightIds?: number[]; // Optional: specific flight IDs, omit for all upcoming flights
+  persist?: boolean; // Default: true; false evaluates without updating flights
 }
 
 /**
@@ -54,17 +149,64 @@ export interface CheckpointBreach {
     wind?: boolean;
     visibility?: boolean;
     ceiling?: boolean;
+    crosswind?: boolean;
+    gust?: boolean;
+    trend?: boolean; // marginal and deteriorating
+    convective?: boolean; // prohibited thunderstorm
+    icing?: boolean; // prohibited icing or freezing precipitation
+    precipitation?: boolean; // prohibited snow or heavy precipitation
+    daylight?: boolean; // daylight rule violated at this airport
+    densityAltitude?: boolean; // above the aircraft category ceiling
+    requiredCeiling?: boolean; // ceiling too high for a lesson that needs IMC
+    requiredVisibility?: boolean; // visibility too good for a lesson that needs IMC
   };
   conditions: {
     windSpeed: number;
     visibility: number;
     ceiling: number | null;
+    gustSpeed: number | null;
+    crosswind: number | null; // knots on best runway (null for corridor)
+    runway: string | null;
+    trend: TrendDirection;
+    hazards: HazardType[];
+    temperature: number | null; // degrees Celsius
+    freezingLevel: number | null; // feet AGL
+    inDaylight: boolean | null; // at the checkpoint time (null for corridor)
+    civilDusk: string | null; // ISO 8601 end of evening civil twilight (null for corridor)
+    densityAltitude: number | null; // feet (null for corridor or without temperature)
   };
   thresholds: {
     maxWind: number;
     minVisibility: number;
     minCeiling: number;
+    maxCrosswind: number;
+    maxGustFactor: number;
+    prohibitedHazards: HazardType[];
+    daylightRule: DaylightRule;
+    maxDensityAltitude: number | null; // feet (null if the category has no limit)
+    maxCeiling: number | null; // feet, lesson requires a ceiling below this
+    maxVisibility: number | null; // statute miles, lesson requires visibility below this
+    marginBands: MarginBands;
   };
+  limitSources: Partial<Record<keyof CheckpointBreach['breaches'], ThresholdSource>>; // breached limits only
+  marginalBreaches: Partial<Record<keyof MarginBands, boolean>>; // breaches within the margin band
+  forecastConfidence: number; // 0-1, from the snapshot's confidence horizon
+  riskScore: number; // 0-100, breach severity weighted by forecast confidence
+  aircraftBreaches: {
+    crosswind?: boolean; // above the demonstrated crosswind
+    wind?: boolean; // steady wind or gusts above the aircraft maximum
+    ifr?: boolean; // IFR or LIFR conditions in an aircraft not IFR capable
+    night?: boolean; // dark at the checkpoint in an aircraft not night capable
+    serviceCeiling?: boolean; // density altitude above the service ceiling
+  };
+  aircraftLimits: {
+    registration: string;
+    maxCrosswind: number | null;
+    maxWindSpeed: number | null;
+    ifrCapable: boolean;
+    nightCapable: boolean;
+    serviceCeiling: number | null;
+  } | null; // null if the aircraft record is missing
 }
 
 /**
@@ -72,10 +214,13 @@ export interface CheckpointBreach {
  */
 export interface ClassificationResult {
   flightId: number;
-  weatherStatus: 'clear' | 'advisory' | 'auto-reschedule' | 'unknown';
+  weatherStatus: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule' | 'unknown'; // after hysteresis
+  evaluatedStatus: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule' | 'unknown'; // latest evaluation alone
   reason: string;
   breachedCheckpoints: CheckpointBreach[];
   hoursUntilDeparture: number;
+  riskScore: number; // 0-100, highest checkpoint risk (0 if clear or unknown)
+  thresholdVersionId: number | null; // threshold_versions row evaluated against
 }
 
 /**
@@ -86,10 +231,52 @@ export interface FlightClassificationResponse {
 }
 
 /**
- * Extended flight data with student information
+ * Extended flight data with student and aircraft information
  */
 interface FlightWithStudent extends Flight {
   training_level: string;
+  aircraft_category: AircraftCategoryLimit['category'];
+}
+
+/**
+ * Everything a flight is evaluated against
+ */
+interface ClassificationInputs {
+  threshold: EffectiveThreshold | null; // null if the training level has no threshold
+  thresholdVersionId: number | null;
+  snapshots: WeatherSnapshot[]; // latest per checkpoint
+  trends: CheckpointTrend[];
+  daylight: FlightDaylight | null;
+  categoryLimit: AircraftCategoryLimit | null;
+  aircraft: AircraftDetail | null;
+  marginBands: MarginBands;
+  settings: Settings; // reschedule horizon, risk scores and hysteresis policy
+}
+
+/**
+ * Everything forecasts for one flight's candidate slots are evaluated against
+ * Candidates keep the flight's student, lesson type and airports, so only the times,
+ * aircraft and snapshots differ between them
+ */
+export interface ForecastClassificationInputs {
+  trainingLevel: string;
+  threshold: EffectiveThreshold | null; // null if the training level has no threshold
+  thresholdVersionId: number | null;
+  departureAirport: AirportDetail | null;
+  arrivalAirport: AirportDetail | null;
+  aircraft: Map<number, AircraftDetail>; // the organization's aircraft by ID
+  categoryLimits: AircraftCategoryLimit[];
+  marginBands: MarginBands;
+  settings: Settings;
+}
+
+/**
+ * Daylight at the departure and arrival airports of a flight
+ */
+interface FlightDaylight {
+  assessment: DaylightAssessment;
+  departureCivilDusk: string | null;
+  arrivalCivilDusk: string | null;
 }
 
 // ========================================
@@ -112,16 +299,21 @@ async function getTrainingThreshold(
 
   const threshold = await prepareQueryOne<TrainingThreshold>(
     client,
-    `SELECT * FROM training_thresholds WHERE training_level = ?`,
-    [trainingLevel]
+    `SELECT * FROM training_thresholds WHERE organization_id = ? AND training_level = ?`,
+    [ctx.organizationId, trainingLevel]
   );
 
   if (threshold) {
     ctx.logger.info('Threshold loaded', {
       trainingLevel: threshold.training_level,
+      version: threshold.version,
       maxWind: threshold.max_wind_speed,
       minVis: threshold.min_visibility,
       minCeiling: threshold.min_ceiling,
+      maxCrosswind: threshold.max_crosswind,
+      maxGustFactor: threshold.max_gust_factor,
+      prohibitedHazards: threshold.prohibited_hazards,
+      daylightRule: threshold.daylight_rule,
     });
   } else {
     ctx.logger.warn('Threshold not found', { trainingLevel });
@@ -130,6 +322,41 @@ async function getTrainingThreshold(
   return threshold;
 }
 
+/**
+ * Retrieves the density altitude ceiling for an aircraft category
+ * @param ctx - Execution context
+ * @param category - Aircraft category
+ * @returns Category limit or null if none is configured
+ */
+async function getAircraftCategoryLimit(
+  ctx: ExecutionContext,
+  category: AircraftCategoryLimit['category']
+): Promise<AircraftCategoryLimit | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  const limit = await prepareQueryOne<AircraftCategoryLimit>(
+    client,
+    `SELECT * FROM aircraft_category_limits WHERE category = ?`,
+    [category]
+  );
+
+  if (!limit) {
+    ctx.logger.warn('Aircraft category limit not found', { category });
+  }
+
+  return limit;
+}
+
+/**
+ * Retrieves the density altitude ceilings of every aircraft category
+ * @param ctx - Execution context
+ * @returns Category limits
+ */
+async function listAircraftCategoryLimits(ctx: ExecutionContext): Promise<AircraftCategoryLimit[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  return prepareQuery<AircraftCategoryLimit>(client, `SELECT * FROM aircraft_category_limits`, []);
+}
+
 // ========================================
 // Weather Snapshot Retrieval
 // ========================================
@@ -166,30 +393,225 @@ async function getFlightWeatherSnapshots(
   return snapshots;
 }
 
+// ========================================
+// Daylight Evaluation
+// ========================================
+
+/**
+ * Evaluates the training level's daylight rule at the flight's airports
+ * @param ctx - Execution context
+ * @param flight - Flight record
+ * @param rule - Daylight rule for the training level
+ * @returns Daylight assessment, or null if an airport has no coordinates
+ */
+async function getFlightDaylight(
+  ctx: ExecutionContext,
+  flight: Flight,
+  rule: DaylightRule
+): Promise<FlightDaylight | null> {
+  const departureAirport = await getAirport(ctx, flight.departure_airport);
+  const arrivalAirport = await getAirport(ctx, flight.arrival_airport);
+  if (!departureAirport || !arrivalAirport) {
+    ctx.logger.warn('Daylight rule skipped, airport not found', {
+      flightId: flight.id,
+      departureAirport: flight.departure_airport,
+      arrivalAirport: flight.arrival_airport,
+    });
+    return null;
+  }
+
+  return assessFlightDaylight(flight, rule, departureAirport, arrivalAirport);
+}
+
+/**
+ * Evaluates the training level's daylight rule at airports already loaded
+ * @param flight - Flight record
+ * @param rule - Daylight rule for the training level
+ * @param departureAirport - Departure airport
+ * @param arrivalAirport - Arrival airport
+ * @returns Daylight assessment
+ */
+function assessFlightDaylight(
+  flight: Flight,
+  rule: DaylightRule,
+  departureAirport: AirportDetail,
+  arrivalAirport: AirportDetail
+): FlightDaylight {
+  const departure = { point: toCoordinates(departureAirport), time: new Date(flight.departure_time) };
+  const arrival = { point: toCoordinates(arrivalAirport), time: new Date(flight.arrival_time) };
+
+  return {
+    assessment: evaluateDaylightRule(rule, departure, arrival),
+    departureCivilDusk: calculateSolarTimes(departure.point, departure.time).civilDusk,
+    arrivalCivilDusk: calculateSolarTimes(arrival.point, arrival.time).civilDusk,
+  };
+}
+
+/**
+ * Resolves daylight details for a checkpoint
+ * @param checkpointType - Checkpoint type
+ * @param daylight - Flight daylight assessment
+ * @returns Daylight at the checkpoint airport (nulls for corridor or unknown airports)
+ */
+function getCheckpointDaylight(
+  checkpointType: CheckpointBreach['checkpointType'],
+  daylight: FlightDaylight | null
+): Pick<CheckpointBreach['conditions'], 'inDaylight' | 'civilDusk'> {
+  if (!daylight || checkpointType === 'corridor') {
+    return { inDaylight: null, civilDusk: null };
+  }
+  return checkpointType === 'departure'
+    ? { inDaylight: daylight.assessment.departureInDaylight, civilDusk: daylight.departureCivilDusk }
+    : { inDaylight: daylight.assessment.arrivalInDaylight, civilDusk: daylight.arrivalCivilDusk };
+}
+
+/**
+ * Checks whether a checkpoint violates the daylight rule
+ * Day-only flights breach at the airport that is dark; night-required flights
+ * flown entirely in daylight breach at both airports. Corridors never breach.
+ * @param checkpointType - Checkpoint type
+ * @param rule - Daylight rule for the training level
+ * @param daylight - Flight daylight assessment
+ * @returns True if the checkpoint breaches the daylight rule
+ */
+function isDaylightBreach(
+  checkpointType: CheckpointBreach['checkpointType'],
+  rule: DaylightRule,
+  daylight: FlightDaylight | null
+): boolean {
+  if (!daylight || daylight.assessment.satisfied || checkpointType === 'corridor') {
+    return false;
+  }
+  if (rule === 'night-required') {
+    return true;
+  }
+  return checkpointType === 'departure'
+    ? !daylight.assessment.departureInDaylight
+    : !daylight.assessment.arrivalInDaylight;
+}
+
 // ========================================
 // Threshold Evaluation
 // ========================================
 
+/**
+ * Checks whether a checkpoint is marginal on a metric that is deteriorating
+ * Marginal means within the caution band (20%) of the limit without breaching it
+ * @param snapshot - Weather snapshot
+ * @param threshold - Training threshold
+ * @param trend - Checkpoint trend, if enough history exists
+ * @returns True if a marginal metric is trending toward its limit
+ */
+function isMarginalAndDeteriorating(
+  snapshot: WeatherSnapshot,
+  threshold: EffectiveThreshold,
+  trend: CheckpointTrend | undefined
+): boolean {
+  if (!trend) {
+    return false;
+  }
+
+  return (
+    (trend.windSpeed.direction === 'deteriorating' &&
+      getWindSpeedSeverity(snapshot.wind_speed, threshold.max_wind_speed).level === 'caution') ||
+    (trend.visibility.direction === 'deteriorating' &&
+      getVisibilitySeverity(snapshot.visibility, threshold.min_visibility).level === 'caution') ||
+    (trend.ceiling.direction === 'deteriorating' &&
+      getCeilingSeverity(snapshot.ceiling, threshold.min_ceiling).level === 'caution')
+  );
+}
+
 /**
  * Evaluates weather conditions against training thresholds
  * @param snapshot - Weather snapshot to evaluate
- * @param threshold - Training threshold to compare against
+ * @param threshold - Effective threshold to compare against
+ * @param trend - Forecast trend for the checkpoint, if available
+ * @param daylightBreach - True if the checkpoint violates the daylight rule
+ * @param categoryLimit - Density altitude ceiling for the aircraft category, if configured
  * @returns Object with pass/fail result and breach details
  */
 function evaluateWeatherConditions(
   snapshot: WeatherSnapshot,
-  threshold: TrainingThreshold
+  threshold: EffectiveThreshold,
+  trend?: CheckpointTrend,
+  daylightBreach = false,
+  categoryLimit?: AircraftCategoryLimit | null
 ): {
   passed: boolean;
-  breaches: { wind: boolean; visibility: boolean; ceiling: boolean };
+  breaches: {
+    wind: boolean;
+    visibility: boolean;
+    ceiling: boolean;
+    crosswind: boolean;
+    gust: boolean;
+    trend: boolean;
+    convective: boolean;
+    icing: boolean;
+    precipitation: boolean;
+    daylight: boolean;
+    densityAltitude: boolean;
+    requiredCeiling: boolean;
+    requiredVisibility: boolean;
+  };
 } {
   const windBreach = snapshot.wind_speed > threshold.max_wind_speed;
   const visibilityBreach = snapshot.visibility < threshold.min_visibility;
   // NULL ceiling means unlimited (sky clear), which passes any ceiling threshold
   const ceilingBreach =
     snapshot.ceiling !== null && snapshot.ceiling < threshold.min_ceiling;
+  // NULL crosswind means no runway applies (corridor) or the snapshot predates runway data
+  const crosswindBreach =
+    snapshot.crosswind_component !== null &&
+    snapshot.crosswind_component > threshold.max_crosswind;
+  // Gust factor is the spread between gusts and the steady wind
+  const gustBreach =
+    snapshot.gust_speed !== null &&
+    snapshot.gust_speed - snapshot.wind_speed > threshold.max_gust_factor;
+
+  // Escalate conditions that still pass but are closing on a limit
+  const trendBreach =
+    !windBreach &&
+    !visibilityBreach &&
+    !ceilingBreach &&
+    isMarginalAndDeteriorating(snapshot, threshold, trend);
+
+  // Hazards breach only when the training level prohibits them
+  const prohibitedHazards = parseHazards(threshold.prohibited_hazards);
+  const hazardCategories = parseHazards(snapshot.hazards)
+    .filter((hazard) => prohibitedHazards.includes(hazard))
+    .map((hazard) => HAZARD_BREACH_CATEGORIES[hazard]);
+  const convectiveBreach = hazardCategories.includes('convective');
+  const icingBreach = hazardCategories.includes('icing');
+  const precipitationBreach = hazardCategories.includes('precipitation');
+
+  // NULL density altitude means corridor or no temperature, which cannot be evaluated
+  const densityAltitudeBreach =
+    !!categoryLimit &&
+    snapshot.density_altitude !== null &&
+    snapshot.density_altitude > categoryLimit.max_density_altitude;
+
+  // Lessons that need instrument conditions breach when the weather is too good;
+  // NULL ceiling (unlimited) is always above the lesson's maximum
+  const requiredCeilingBreach =
+    threshold.max_ceiling !== null &&
+    (snapshot.ceiling === null || snapshot.ceiling >= threshold.max_ceiling);
+  const requiredVisibilityBreach =
+    threshold.max_visibility !== null && snapshot.visibility >= threshold.max_visibility;
 
-  const passed = !windBreach && !visibilityBreach && !ceilingBreach;
+  const passed =
+    !windBreach &&
+    !visibilityBreach &&
+    !ceilingBreach &&
+    !crosswindBreach &&
+    !gustBreach &&
+    !trendBreach &&
+    !convectiveBreach &&
+    !icingBreach &&
+    !precipitationBreach &&
+    !daylightBreach &&
+    !densityAltitudeBreach &&
+    !requiredCeilingBreach &&
+    !requiredVisibilityBreach;
 
   return {
     passed,
@@ -197,6 +619,209 @@ function evaluateWeatherConditions(
       wind: windBreach,
       visibility: visibilityBreach,
       ceiling: ceilingBreach,
+      crosswind: crosswindBreach,
+      gust: gustBreach,
+      trend: trendBreach,
+      convective: convectiveBreach,
+      icing: icingBreach,
+      precipitation: precipitationBreach,
+      daylight: daylightBreach,
+      densityAltitude: densityAltitudeBreach,
+      requiredCeiling: requiredCeilingBreach,
+      requiredVisibility: requiredVisibilityBreach,
+    },
+  };
+}
+
+/**
+ * Reports whether the training level or personal minimums set each breached limit
+ * Trend and density altitude breaches come from other sources and are not listed
+ * @param snapshot - Weather snapshot
+ * @param threshold - Effective threshold
+ * @param breaches - Evaluated breaches
+ * @returns Source per breached limit
+ */
+function getLimitSources(
+  snapshot: WeatherSnapshot,
+  threshold: EffectiveThreshold,
+  breaches: CheckpointBreach['breaches']
+): CheckpointBreach['limitSources'] {
+  const sources: CheckpointBreach['limitSources'] = {};
+
+  for (const [breach, field] of Object.entries(BREACH_LIMIT_FIELDS) as [
+    keyof CheckpointBreach['breaches'],
+    ThresholdField,
+  ][]) {
+    if (breaches[breach]) {
+      sources[breach] = threshold.sources[field];
+    }
+  }
+
+  // A hazard category is set by the training level if any of its breaching hazards is
+  for (const hazard of parseHazards(snapshot.hazards)) {
+    const source = threshold.hazardSources[hazard];
+    const category = HAZARD_BREACH_CATEGORIES[hazard];
+    if (source && breaches[category] && sources[category] !== 'training-level') {
+      sources[category] = source;
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Tightens every limit by a fraction, for checking recovery before de-escalating
+ * @param threshold - Effective threshold
+ * @param margin - Fraction to tighten by
+ * @returns Threshold with lower maximums and higher minimums
+ */
+function tightenThreshold(threshold: EffectiveThreshold, margin: number): EffectiveThreshold {
+  return {
+    ...threshold,
+    max_wind_speed: threshold.max_wind_speed * (1 - margin),
+    min_visibility: threshold.min_visibility * (1 + margin),
+    min_ceiling: threshold.min_ceiling * (1 + margin),
+    max_crosswind: threshold.max_crosswind * (1 - margin),
+    max_gust_factor: threshold.max_gust_factor * (1 - margin),
+    max_ceiling: threshold.max_ceiling !== null ? threshold.max_ceiling * (1 - margin) : null,
+    max_visibility: threshold.max_visibility !== null ? threshold.max_visibility * (1 - margin) : null,
+  };
+}
+
+/**
+ * Grades a checkpoint's breaches against the margin bands
+ * Breaches other than wind, visibility, ceiling, crosswind and gust are always hard
+ * @param snapshot - Weather snapshot
+ * @param threshold - Effective threshold
+ * @param breaches - Evaluated threshold breaches
+ * @param aircraftPassed - False if any aircraft limit is breached
+ * @param marginBands - Margin band per metric
+ * @returns Marginal breaches and the worst breach severity (0-1)
+ */
+function gradeBreaches(
+  snapshot: WeatherSnapshot,
+  threshold: EffectiveThreshold,
+  breaches: CheckpointBreach['breaches'],
+  aircraftPassed: boolean,
+  marginBands: MarginBands
+): { marginalBreaches: CheckpointBreach['marginalBreaches']; severity: number } {
+  // Distance past each limit, only meaningful when the metric is breached
+  const exceedances: Record<keyof MarginBands, number> = {
+    wind: snapshot.wind_speed - threshold.max_wind_speed,
+    visibility: threshold.min_visibility - snapshot.visibility,
+    ceiling: snapshot.ceiling !== null ? threshold.min_ceiling - snapshot.ceiling : 0,
+    crosswind: (snapshot.crosswind_component ?? 0) - threshold.max_crosswind,
+    gust: (snapshot.gust_speed ?? 0) - snapshot.wind_speed - threshold.max_gust_factor,
+  };
+
+  const marginalBreaches: CheckpointBreach['marginalBreaches'] = {};
+  const severities: number[] = [];
+
+  for (const metric of Object.keys(exceedances) as (keyof MarginBands)[]) {
+    if (!breaches[metric]) {
+      continue;
+    }
+    const band = marginBands[metric];
+    if (band > 0 && exceedances[metric] <= band) {
+      marginalBreaches[metric] = true;
+      severities.push(MARGINAL_SEVERITY + (1 - MARGINAL_SEVERITY) * (exceedances[metric] / band));
+    } else {
+      severities.push(1);
+    }
+  }
+
+  if (breaches.trend) {
+    severities.push(MARGINAL_SEVERITY);
+  }
+
+  const hardBreach =
+    !aircraftPassed ||
+    (Object.keys(breaches) as (keyof CheckpointBreach['breaches'])[]).some(
+      (key) => breaches[key] && key !== 'trend' && !(key in exceedances)
+    );
+  if (hardBreach) {
+    severities.push(1);
+  }
+
+  return { marginalBreaches, severity: Math.max(0, ...severities) };
+}
+
+/**
+ * Summarizes breached checkpoints for a classification reason
+ * @param breachedCheckpoints - Checkpoints that failed evaluation
+ * @returns Summary such as "departure (marginal wind, aircraft crosswind); corridor (ceiling)"
+ */
+function formatBreachSummary(breachedCheckpoints: CheckpointBreach[]): string {
+  return breachedCheckpoints
+    .map((bc) => {
+      const issues = (Object.keys(bc.breaches) as (keyof CheckpointBreach['breaches'])[])
+        .filter((key) => bc.breaches[key])
+        .map((key) =>
+          bc.marginalBreaches[key as keyof MarginBands] ? `marginal ${key}` : key
+        );
+      const aircraftIssues = (
+        Object.keys(bc.aircraftBreaches) as (keyof CheckpointBreach['aircraftBreaches'])[]
+      ).filter((key) => bc.aircraftBreaches[key]);
+      return `${bc.checkpointType} (${[
+        ...issues,
+        ...aircraftIssues.map((key) => `aircraft ${key}`),
+      ].join(', ')})`;
+    })
+    .join('; ');
+}
+
+/**
+ * Evaluates weather conditions against the assigned aircraft's operating limits
+ * Limits the aircraft has no value for are not checked
+ * @param snapshot - Weather snapshot to evaluate
+ * @param aircraft - Assigned aircraft, or null if unknown
+ * @param inDaylight - Daylight at the checkpoint (null for corridor or unknown airports)
+ * @returns Object with pass/fail result and aircraft breach details
+ */
+function evaluateAircraftLimits(
+  snapshot: WeatherSnapshot,
+  aircraft: AircraftDetail | null,
+  inDaylight: boolean | null
+): {
+  passed: boolean;
+  breaches: {
+    crosswind: boolean;
+    wind: boolean;
+    ifr: boolean;
+    night: boolean;
+    serviceCeiling: boolean;
+  };
+} {
+  if (!aircraft) {
+    return {
+      passed: true,
+      breaches: { crosswind: false, wind: false, ifr: false, night: false, serviceCeiling: false },
+    };
+  }
+
+  const crosswindBreach =
+    aircraft.maxCrosswind !== null &&
+    snapshot.crosswind_component !== null &&
+    snapshot.crosswind_component > aircraft.maxCrosswind;
+  // Structural wind limits apply to the peak wind, so gusts count
+  const peakWind = Math.max(snapshot.wind_speed, snapshot.gust_speed ?? 0);
+  const windBreach = aircraft.maxWindSpeed !== null && peakWind > aircraft.maxWindSpeed;
+  const flightCategory = getFlightCategory(snapshot.visibility, snapshot.ceiling);
+  const ifrBreach = !aircraft.ifrCapable && (flightCategory === 'IFR' || flightCategory === 'LIFR');
+  const nightBreach = !aircraft.nightCapable && inDaylight === false;
+  const serviceCeilingBreach =
+    aircraft.serviceCeiling !== null &&
+    snapshot.density_altitude !== null &&
+    snapshot.density_altitude > aircraft.serviceCeiling;
+
+  return {
+    passed: !crosswindBreach && !windBreach && !ifrBreach && !nightBreach && !serviceCeilingBreach,
+    breaches: {
+      crosswind: crosswindBreach,
+      wind: windBreach,
+      ifr: ifrBreach,
+      night: nightBreach,
+      serviceCeiling: serviceCeilingBreach,
     },
   };
 }
@@ -208,9 +833,10 @@ function evaluateWeatherConditions(
 /**
  * Calculates hours until departure and determines if within reschedule window
  * @param departureTime - ISO 8601 departure time string
+ * @param rescheduleHorizonHours - Reschedule horizon in hours
  * @returns Object with hours until departure and reschedule window flag
  */
-function calculateTimeHorizon(departureTime: string): {
+function calculateTimeHorizon(departureTime: string, rescheduleHorizonHours: number): {
   hoursUntilDeparture: number;
   isWithinRescheduleWindow: boolean;
 } {
@@ -218,7 +844,7 @@ function calculateTimeHorizon(departureTime: string): {
   const departureDate = new Date(departureTime);
   const hoursUntilDeparture =
     (departureDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-  const isWithinRescheduleWindow = hoursUntilDeparture < RESCHEDULE_HORIZON;
+  const isWithinRescheduleWindow = hoursUntilDeparture < rescheduleHorizonHours;
 
   return { hoursUntilDeparture, isWithinRescheduleWindow };
 }
@@ -228,46 +854,85 @@ function calculateTimeHorizon(departureTime: string): {
 // ========================================
 
 /**
- * Classifies a single flight based on weather conditions and time horizon
+ * Loads everything needed to classify a flight
  * @param ctx - Execution context
- * @param flight - Flight with student training level
- * @returns Classification result
+ * @param flight - Flight with student training level and aircraft category
+ * @returns Classification inputs (threshold is null if the training level has none)
  */
-async function classifyFlight(
+async function loadClassificationInputs(
   ctx: ExecutionContext,
   flight: FlightWithStudent
-): Promise<ClassificationResult> {
-  ctx.logger.info('Classifying flight', {
-    flightId: flight.id,
-    trainingLevel: flight.training_level,
-    departureTime: flight.departure_time,
-  });
+): Promise<ClassificationInputs> {
+  const trainingLevel = flight.training_level as 'student' | 'private' | 'instrument';
+  const levelThreshold = await getTrainingThreshold(ctx, trainingLevel);
 
-  const { hoursUntilDeparture, isWithinRescheduleWindow } = calculateTimeHorizon(
-    flight.departure_time
+  if (!levelThreshold) {
+    return {
+      threshold: null,
+      thresholdVersionId: null,
+      snapshots: [],
+      trends: [],
+      daylight: null,
+      categoryLimit: null,
+      aircraft: null,
+      marginBands: { wind: 0, visibility: 0, ceiling: 0, crosswind: 0, gust: 0 }, // unused without a threshold
+      settings: await getSettings(ctx),
+    };
+  }
+
+  // Apply the lesson type's rules, then tighten with the student's personal minimums
+  const lessonType = await getLessonType(ctx, flight.lesson_type_id);
+  const threshold = await resolveStudentThreshold(
+    ctx,
+    applyLessonType(levelThreshold, lessonType),
+    flight.student_id
   );
 
-  // Get training threshold
-  const trainingLevel = flight.training_level as 'student' | 'private' | 'instrument';
-  const threshold = await getTrainingThreshold(ctx, trainingLevel);
+  return {
+    threshold,
+    thresholdVersionId: await getCurrentVersionId(ctx, levelThreshold),
+    snapshots: await getFlightWeatherSnapshots(ctx, flight.id),
+    trends: await getCheckpointTrends(ctx, flight.id),
+    daylight: await getFlightDaylight(ctx, flight, threshold.daylight_rule),
+    categoryLimit: await getAircraftCategoryLimit(ctx, flight.aircraft_category),
+    aircraft: await getAircraft(ctx, flight.aircraft_id),
+    marginBands: await getMarginBands(ctx),
+    settings: await getSettings(ctx),
+  };
+}
+
+/**
+ * Classifies a flight from its loaded inputs
+ * Has no side effects, so simulations can run it on overridden inputs
+ * @param flight - Flight with student training level
+ * @param inputs - Thresholds, weather snapshots and supporting data
+ * @returns Classification result
+ */
+function evaluateClassification(
+  flight: FlightWithStudent,
+  inputs: ClassificationInputs
+): ClassificationResult {
+  const { threshold, thresholdVersionId, snapshots, trends, daylight, categoryLimit, aircraft, marginBands, settings } =
+    inputs;
+  const { hoursUntilDeparture, isWithinRescheduleWindow } = calculateTimeHorizon(
+    flight.departure_time,
+    settings.rescheduleHorizonHours
+  );
+  const horizon = `${settings.rescheduleHorizonHours}h`;
 
   if (!threshold) {
-    ctx.logger.error('Training threshold not found', {
-      flightId: flight.id,
-      trainingLevel,
-    });
     return {
       flightId: flight.id,
       weatherStatus: 'unknown',
-      reason: `Training threshold not found for level: ${trainingLevel}`,
+      evaluatedStatus: 'unknown',
+      reason: `Training threshold not found for level: ${flight.training_level}`,
       breachedCheckpoints: [],
       hoursUntilDeparture,
+      riskScore: 0,
+      thresholdVersionId: null,
     };
   }
 
-  // Get weather snapshots
-  const snapshots = await getFlightWeatherSnapshots(ctx, flight.id);
-
   // Check if we have all three checkpoints
   const requiredCheckpoints = ['departure', 'arrival', 'corridor'];
   const availableCheckpoints = snapshots.map((s) => s.checkpoint_type);
@@ -276,114 +941,268 @@ async function classifyFlight(
   );
 
   if (missingCheckpoints.length > 0) {
-    ctx.logger.warn('Missing weather snapshots', {
-      flightId: flight.id,
-      missingCheckpoints,
-    });
     return {
       flightId: flight.id,
       weatherStatus: 'unknown',
+      evaluatedStatus: 'unknown',
       reason: `Missing weather data for checkpoints: ${missingCheckpoints.join(', ')}`,
       breachedCheckpoints: [],
       hoursUntilDeparture,
+      riskScore: 0,
+      thresholdVersionId,
     };
   }
 
   // Evaluate each checkpoint
   const breachedCheckpoints: CheckpointBreach[] = [];
-  let allCheckpointsPassed = true;
 
   for (const snapshot of snapshots) {
-    const evaluation = evaluateWeatherConditions(snapshot, threshold);
-
-    if (!evaluation.passed) {
-      allCheckpointsPassed = false;
-
-      ctx.logger.warn('Checkpoint threshold breached', {
-        flightId: flight.id,
-        checkpointType: snapshot.checkpoint_type,
-        breaches: evaluation.breaches,
-      });
-
-      breachedCheckpoints.push({
-        checkpointType: snapshot.checkpoint_type,
-        location: snapshot.location,
-        breaches: evaluation.breaches,
-        conditions: {
-          windSpeed: snapshot.wind_speed,
-          visibility: snapshot.visibility,
-          ceiling: snapshot.ceiling,
-        },
-        thresholds: {
-          maxWind: threshold.max_wind_speed,
-          minVisibility: threshold.min_visibility,
-          minCeiling: threshold.min_ceiling,
-        },
-      });
+    const trend = trends.find((t) => t.checkpointType === snapshot.checkpoint_type);
+    const evaluation = evaluateWeatherConditions(
+      snapshot,
+      threshold,
+      trend,
+      isDaylightBreach(snapshot.checkpoint_type, threshold.daylight_rule, daylight),
+      categoryLimit
+    );
+    const checkpointDaylight = getCheckpointDaylight(snapshot.checkpoint_type, daylight);
+    const aircraftEvaluation = evaluateAircraftLimits(snapshot, aircraft, checkpointDaylight.inDaylight);
+
+    if (evaluation.passed && aircraftEvaluation.passed) {
+      continue;
     }
+
+    const { marginalBreaches, severity } = gradeBreaches(
+      snapshot,
+      threshold,
+      evaluation.breaches,
+      aircraftEvaluation.passed,
+      marginBands
+    );
+    const forecastConfidence = getForecastConfidence(snapshot.confidence_horizon);
+
+    breachedCheckpoints.push({
+      checkpointType: snapshot.checkpoint_type,
+      location: snapshot.location,
+      breaches: evaluation.breaches,
+      marginalBreaches,
+      forecastConfidence,
+      riskScore: Math.round(severity * forecastConfidence * 100),
+      conditions: {
+        windSpeed: snapshot.wind_speed,
+        visibility: snapshot.visibility,
+        ceiling: snapshot.ceiling,
+        gustSpeed: snapshot.gust_speed,
+        crosswind: snapshot.crosswind_component,
+        runway: snapshot.runway,
+        trend: trend?.direction ?? 'stable',
+        hazards: parseHazards(snapshot.hazards),
+        temperature: snapshot.temperature,
+        freezingLevel: snapshot.freezing_level,
+        ...checkpointDaylight,
+        densityAltitude: snapshot.density_altitude,
+      },
+      thresholds: {
+        maxWind: threshold.max_wind_speed,
+        minVisibility: threshold.min_visibility,
+        minCeiling: threshold.min_ceiling,
+        maxCrosswind: threshold.max_crosswind,
+        maxGustFactor: threshold.max_gust_factor,
+        prohibitedHazards: parseHazards(threshold.prohibited_hazards),
+        daylightRule: threshold.daylight_rule,
+        maxDensityAltitude: categoryLimit?.max_density_altitude ?? null,
+        maxCeiling: threshold.max_ceiling,
+        maxVisibility: threshold.max_visibility,
+        marginBands,
+      },
+      limitSources: getLimitSources(snapshot, threshold, evaluation.breaches),
+      aircraftBreaches: aircraftEvaluation.breaches,
+      aircraftLimits: aircraft
+        ? {
+            registration: aircraft.registration,
+            maxCrosswind: aircraft.maxCrosswind,
+            maxWindSpeed: aircraft.maxWindSpeed,
+            ifrCapable: aircraft.ifrCapable,
+            nightCapable: aircraft.nightCapable,
+            serviceCeiling: aircraft.serviceCeiling,
+          }
+        : null,
+    });
   }
 
-  // Determine weather status based on worst-case logic and time horizon
-  let weatherStatus: 'clear' | 'advisory' | 'auto-reschedule';
+  // Determine weather status from the worst checkpoint risk and time horizon
+  const riskScore = Math.max(0, ...breachedCheckpoints.map((bc) => bc.riskScore));
+  let weatherStatus: 'clear' | 'marginal' | 'advisory' | 'auto-reschedule';
   let reason: string;
 
-  if (allCheckpointsPassed) {
+  if (breachedCheckpoints.length === 0) {
     weatherStatus = 'clear';
     reason = 'All checkpoints pass weather thresholds';
-  } else if (isWithinRescheduleWindow) {
+  } else if (riskScore >= settings.rescheduleRiskScore && isWithinRescheduleWindow) {
     weatherStatus = 'auto-reschedule';
-    const breachSummary = breachedCheckpoints
-      .map((bc) => {
-        const issues = [];
-        if (bc.breaches.wind) issues.push('wind');
-        if (bc.breaches.visibility) issues.push('visibility');
-        if (bc.breaches.ceiling) issues.push('ceiling');
-        return `${bc.checkpointType} (${issues.join(', ')})`;
-      })
-      .join('; ');
-    reason = `Weather thresholds breached within 72h window: ${breachSummary}`;
-  } else {
+    reason = `Weather thresholds breached within ${horizon} window (risk ${riskScore}): ${formatBreachSummary(breachedCheckpoints)}`;
+  } else if (riskScore >= settings.advisoryRiskScore) {
     weatherStatus = 'advisory';
-    const breachSummary = breachedCheckpoints
-      .map((bc) => {
-        const issues = [];
-        if (bc.breaches.wind) issues.push('wind');
-        if (bc.breaches.visibility) issues.push('visibility');
-        if (bc.breaches.ceiling) issues.push('ceiling');
-        return `${bc.checkpointType} (${issues.join(', ')})`;
-      })
-      .join('; ');
-    reason = `Weather thresholds breached beyond 72h window: ${breachSummary}`;
-  }
-
-  // Update database
-  const client = createClient(ctx.env.AIRESCHEDULER_DB);
-  await prepareExec(
-    client,
-    `UPDATE flights
-     SET weather_status = ?, updated_at = ?
-     WHERE id = ?`,
-    [weatherStatus, new Date().toISOString(), flight.id]
-  );
-
-  if (weatherStatus !== 'clear') {
-    ctx.logger.info('Flight classified', {
-      flightId: flight.id,
-      weatherStatus,
-      hoursUntilDeparture: Math.round(hoursUntilDeparture),
-      breachedCheckpoints: breachedCheckpoints.length,
-    });
+    reason = isWithinRescheduleWindow
+      ? `Weather thresholds breached below reschedule risk (risk ${riskScore}): ${formatBreachSummary(breachedCheckpoints)}`
+      : `Weather thresholds breached beyond ${horizon} window (risk ${riskScore}): ${formatBreachSummary(breachedCheckpoints)}`;
+  } else {
+    weatherStatus = 'marginal';
+    reason = `Marginal weather below advisory risk (risk ${riskScore}): ${formatBreachSummary(breachedCheckpoints)}`;
   }
 
   return {
     flightId: flight.id,
     weatherStatus,
+    evaluatedStatus: weatherStatus,
     reason,
     breachedCheckpoints,
     hoursUntilDeparture,
+    riskScore,
+    thresholdVersionId,
   };
 }
 
+/**
+ * Records a classification and writes its status and hysteresis state back to the flight
+ * @param ctx - Execution context
+ * @param result - Classification result after hysteresis
+ * @param inputs - Inputs the classification evaluated
+ * @param decision - Hysteresis decision, or null for unknown results (recorded only)
+ */
+async function persistClassification(
+  ctx: ExecutionContext,
+  result: ClassificationResult,
+  inputs: ClassificationInputs,
+  decision: HysteresisDecision | null
+): Promise<void> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const record = prepareClassificationRecord(
+    client,
+    result,
+    inputs.snapshots.map((s) => s.id),
+    summarizeThresholds(inputs.threshold, inputs.marginBands),
+    ctx.correlationId
+  );
+
+  if (!decision) {
+    await transaction(client, [record]);
+    return;
+  }
+
+  await transaction(client, [
+    record,
+    client.db
+      .prepare(
+        `UPDATE flights
+         SET weather_status = ?, threshold_version_id = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(result.weatherStatus, result.thresholdVersionId, new Date().toISOString(), result.flightId),
+    ...prepareHysteresisStatements(
+      client,
+      result.flightId,
+      decision,
+      result.reason,
+      result.riskScore,
+      ctx.correlationId
+    ),
+  ]);
+}
+
+/**
+ * Classifies a single flight based on weather conditions and time horizon
+ * @param ctx - Execution context
+ * @param flight - Flight with student training level
+ * @param persist - Write the resulting weather status back to the flight
+ * @returns Classification result
+ */
+async function classifyFlight(
+  ctx: ExecutionContext,
+  flight: FlightWithStudent,
+  persist: boolean
+): Promise<ClassificationResult> {
+  ctx.logger.info('Classifying flight', {
+    flightId: flight.id,
+    trainingLevel: flight.training_level,
+    lessonTypeId: flight.lesson_type_id,
+    departureTime: flight.departure_time,
+  });
+
+  const inputs = await loadClassificationInputs(ctx, flight);
+  const evaluation = evaluateClassification(flight, inputs);
+
+  if (evaluation.weatherStatus === 'unknown') {
+    ctx.logger.warn('Flight not classified', {
+      flightId: flight.id,
+      reason: evaluation.reason,
+    });
+    if (persist) {
+      await persistClassification(ctx, evaluation, inputs, null);
+    }
+    return evaluation;
+  }
+
+  // Re-evaluate against tightened limits to see how far the flight may de-escalate
+  const recovery = evaluateClassification(flight, {
+    ...inputs,
+    threshold: inputs.threshold && tightenThreshold(inputs.threshold, inputs.settings.recoveryMargin),
+  });
+  const decision = applyHysteresis(
+    flight.weather_status,
+    await getClassificationState(ctx, flight.id),
+    evaluation.weatherStatus,
+    recovery.weatherStatus === 'unknown' ? evaluation.weatherStatus : recovery.weatherStatus,
+    Math.max(...inputs.snapshots.map((s) => s.id)),
+    new Date().toISOString(),
+    inputs.settings
+  );
+  const result: ClassificationResult = {
+    ...evaluation,
+    weatherStatus: decision.status,
+    reason: decision.note ? `${decision.note}; ${evaluation.reason}` : evaluation.reason,
+  };
+
+  for (const checkpoint of result.breachedCheckpoints) {
+    ctx.logger.warn('Checkpoint threshold breached', {
+      flightId: flight.id,
+      checkpointType: checkpoint.checkpointType,
+      breaches: checkpoint.breaches,
+      marginalBreaches: checkpoint.marginalBreaches,
+      aircraftBreaches: checkpoint.aircraftBreaches,
+      riskScore: checkpoint.riskScore,
+    });
+  }
+
+  if (decision.note) {
+    ctx.logger.info('Classification hysteresis applied', {
+      flightId: flight.id,
+      fromStatus: decision.fromStatus,
+      evaluatedStatus: result.evaluatedStatus,
+      weatherStatus: result.weatherStatus,
+      pendingStatus: decision.state.pending_status,
+      pendingCount: decision.state.pending_count,
+    });
+  }
+
+  if (persist) {
+    await persistClassification(ctx, result, inputs, decision);
+  }
+
+  if (result.weatherStatus !== 'clear') {
+    ctx.logger.info('Flight classified', {
+      flightId: flight.id,
+      weatherStatus: result.weatherStatus,
+      riskScore: result.riskScore,
+      hoursUntilDeparture: Math.round(result.hoursUntilDeparture),
+      breachedCheckpoints: result.breachedCheckpoints.length,
+      persisted: persist,
+    });
+  }
+
+  return result;
+}
+
 // ========================================
 // Batch Classification Service
 // ========================================
@@ -398,42 +1217,44 @@ export async function classifyFlights(
   ctx: ExecutionContext,
   request: FlightClassificationRequest
 ): Promise<FlightClassificationResponse> {
+  const persist = request.persist !== false;
+
   ctx.logger.info('Flight classification started', {
     flightCount: request.flightIds?.length || 'all',
+    persist,
   });
 
   try {
     const client = createClient(ctx.env.AIRESCHEDULER_DB);
+    const settings = await getSettings(ctx);
 
-    // Query flights with student training level
+    // Query flights with student training level and aircraft category
     let flights: FlightWithStudent[];
     if (request.flightIds && request.flightIds.length > 0) {
       // Query specific flights
       const placeholders = request.flightIds.map(() => '?').join(',');
       flights = await prepareQuery<FlightWithStudent>(
         client,
-        `SELECT f.*, s.training_level
-         FROM flights f
-         INNER JOIN students s ON f.student_id = s.id
+        `${CLASSIFICATION_FLIGHT_SELECT}
          WHERE f.id IN (${placeholders})
+         AND f.organization_id = ?
          AND f.status = 'scheduled'
          ORDER BY f.departure_time`,
-        request.flightIds
+        [...request.flightIds, ctx.organizationId]
       );
     } else {
-      // Query all scheduled flights within 7-day horizon
+      // Query all scheduled flights within the weather horizon
       const now = new Date();
-      const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      const horizonEnd = new Date(now.getTime() + settings.weatherHorizonDays * 24 * 60 * 60 * 1000);
 
       flights = await prepareQuery<FlightWithStudent>(
         client,
-        `SELECT f.*, s.training_level
-         FROM flights f
-         INNER JOIN students s ON f.student_id = s.id
-         WHERE f.departure_time >= ? AND f.departure_time <= ?
+        `${CLASSIFICATION_FLIGHT_SELECT}
+         WHERE f.organization_id = ?
+         AND f.departure_time >= ? AND f.departure_time <= ?
          AND f.status = 'scheduled'
          ORDER BY f.departure_time`,
-        [now.toISOString(), sevenDaysFromNow.toISOString()]
+        [ctx.organizationId, now.toISOString(), horizonEnd.toISOString()]
       );
     }
 
@@ -445,7 +1266,7 @@ export async function classifyFlights(
     const results: ClassificationResult[] = [];
     for (const flight of flights) {
       try {
-        const result = await classifyFlight(ctx, flight);
+        const result = await classifyFlight(ctx, flight, persist);
         results.push(result);
       } catch (error) {
         ctx.logger.error('Failed to classify flight', {
@@ -455,13 +1276,19 @@ export async function classifyFlights(
         });
 
         // Add error result
-        const { hoursUntilDeparture } = calculateTimeHorizon(flight.departure_time);
+        const { hoursUntilDeparture } = calculateTimeHorizon(
+          flight.departure_time,
+          settings.rescheduleHorizonHours
+        );
         results.push({
           flightId: flight.id,
           weatherStatus: 'unknown',
+          evaluatedStatus: 'unknown',
           reason: `Classification error: ${error instanceof Error ? error.message : 'Unknown error'}`,
           breachedCheckpoints: [],
           hoursUntilDeparture,
+          riskScore: 0,
+          thresholdVersionId: null,
         });
       }
     }
@@ -470,6 +1297,7 @@ export async function classifyFlights(
     const summary = {
       total: results.length,
       clear: results.filter((r) => r.weatherStatus === 'clear').length,
+      marginal: results.filter((r) => r.weatherStatus === 'marginal').length,
       advisory: results.filter((r) => r.weatherStatus === 'advisory').length,
       autoReschedule: results.filter((r) => r.weatherStatus === 'auto-reschedule')
         .length,
@@ -487,3 +1315,367 @@ export async function classifyFlights(
     throw error;
   }
 }
+
+// ========================================
+// Forecast Classification
+// ========================================
+
+/**
+ * Loads what classifying forecasts for a flight's candidate slots needs, once for all of them
+ * @param ctx - Execution context
+ * @param flight - Flight being rescheduled
+ * @returns Forecast classification inputs (threshold is null if the training level has none)
+ * @throws Error if the student is unknown in the organization
+ */
+export async function loadForecastClassificationInputs(
+  ctx: ExecutionContext,
+  flight: Flight
+): Promise<ForecastClassificationInputs> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const student = await prepareQueryOne<Pick<FlightWithStudent, 'training_level'>>(
+    client,
+    `SELECT training_level FROM students WHERE id = ? AND organization_id = ?`,
+    [flight.student_id, ctx.organizationId]
+  );
+  if (!student) {
+    throw new Error(`Student ${flight.student_id} not found`);
+  }
+
+  // Apply the lesson type's rules, then tighten with the student's personal minimums
+  const levelThreshold = await getTrainingThreshold(
+    ctx,
+    student.training_level as 'student' | 'private' | 'instrument'
+  );
+  const threshold = levelThreshold
+    ? await resolveStudentThreshold(
+        ctx,
+        applyLessonType(levelThreshold, await getLessonType(ctx, flight.lesson_type_id)),
+        flight.student_id
+      )
+    : null;
+
+  const aircraft = await listAircraft(ctx);
+
+  return {
+    trainingLevel: student.training_level,
+    threshold,
+    thresholdVersionId: levelThreshold ? await getCurrentVersionId(ctx, levelThreshold) : null,
+    departureAirport: await getAirport(ctx, flight.departure_airport),
+    arrivalAirport: await getAirport(ctx, flight.arrival_airport),
+    aircraft: new Map(aircraft.map((detail) => [detail.id, detail])),
+    categoryLimits: await listAircraftCategoryLimits(ctx),
+    marginBands: await getMarginBands(ctx),
+    settings: await getSettings(ctx),
+  };
+}
+
+/**
+ * Classifies a flight against forecasts supplied by the caller instead of its stored snapshots
+ * Used for candidate reschedule slots, which have no snapshot history, so no trends apply
+ * and there is no hysteresis. Has no side effects and reads nothing from the database.
+ * @param flight - Flight to evaluate, possibly unsaved (ID 0)
+ * @param snapshots - Unsaved forecast per checkpoint
+ * @param inputs - Inputs loaded by loadForecastClassificationInputs for the original flight
+ * @returns Classification result (weatherStatus equals evaluatedStatus)
+ * @throws Error if the aircraft is unknown in the organization
+ */
+export function classifyForecast(
+  flight: Flight,
+  snapshots: WeatherSnapshot[],
+  inputs: ForecastClassificationInputs
+): ClassificationResult {
+  const aircraft = inputs.aircraft.get(flight.aircraft_id);
+  if (!aircraft) {
+    throw new Error(`Aircraft ${flight.aircraft_id} not found`);
+  }
+
+  const { threshold, departureAirport, arrivalAirport } = inputs;
+  const classified: FlightWithStudent = {
+    ...flight,
+    training_level: inputs.trainingLevel,
+    aircraft_category: aircraft.category,
+  };
+
+  return evaluateClassification(classified, {
+    threshold,
+    thresholdVersionId: inputs.thresholdVersionId,
+    snapshots,
+    trends: [],
+    daylight:
+      threshold && departureAirport && arrivalAirport
+        ? assessFlightDaylight(flight, threshold.daylight_rule, departureAirport, arrivalAirport)
+        : null,
+    categoryLimit: inputs.categoryLimits.find((limit) => limit.category === aircraft.category) ?? null,
+    aircraft,
+    marginBands: inputs.marginBands,
+    settings: inputs.settings,
+  });
+}
+
+// ========================================
+// Classification Simulation
+// ========================================
+
+/**
+ * Threshold field set by each simulation override
+ */
+const THRESHOLD_OVERRIDE_FIELDS: Record<Exclude<keyof ThresholdOverrides, 'prohibitedHazards'>, ThresholdField> = {
+  maxWindSpeed: 'max_wind_speed',
+  minVisibility: 'min_visibility',
+  minCeiling: 'min_ceiling',
+  maxCrosswind: 'max_crosswind',
+  maxGustFactor: 'max_gust_factor',
+  maxCeiling: 'max_ceiling',
+  maxVisibility: 'max_visibility',
+  daylightRule: 'daylight_rule',
+};
+
+/**
+ * Flight query used for classification, joined with training level and aircraft category
+ * Callers scope it with f.organization_id
+ */
+const CLASSIFICATION_FLIGHT_SELECT = `SELECT f.*, s.training_level, a.category AS aircraft_category
+  FROM flights f
+  INNER JOIN students s ON f.student_id = s.id
+  INNER JOIN aircraft a ON f.aircraft_id = a.id`;
+
+/**
+ * Builds an unsaved flight for simulation
+ * @param ctx - Execution context
+ * @param hypothetical - Hypothetical flight parameters
+ * @returns Flight with ID 0
+ * @throws Error if times are invalid or the student, aircraft or an airport is unknown
+ */
+async function buildHypotheticalFlight(
+  ctx: ExecutionContext,
+  hypothetical: HypotheticalFlight
+): Promise<FlightWithStudent> {
+  const departure = new Date(hypothetical.departureTime);
+  const arrival = new Date(hypothetical.arrivalTime);
+  if (Number.isNaN(departure.getTime()) || Number.isNaN(arrival.getTime())) {
+    throw new Error('Departure and arrival times must be ISO 8601 datetimes');
+  }
+  if (arrival <= departure) {
+    throw new Error('Arrival time must be after departure time');
+  }
+
+  const departureAirport = normalizeAirportCode(hypothetical.departureAirport);
+  const arrivalAirport = normalizeAirportCode(hypothetical.arrivalAirport);
+  await assertKnownAirports(ctx, [departureAirport, arrivalAirport]);
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const student = await prepareQueryOne<{ training_level: string }>(
+    client,
+    `SELECT training_level FROM students WHERE id = ? AND organization_id = ?`,
+    [hypothetical.studentId, ctx.organizationId]
+  );
+  if (!student) {
+    throw new Error(`Student ${hypothetical.studentId} not found`);
+  }
+  const aircraft = await prepareQueryOne<{ category: AircraftCategoryLimit['category'] }>(
+    client,
+    `SELECT category FROM aircraft WHERE id = ? AND organization_id = ?`,
+    [hypothetical.aircraftId, ctx.organizationId]
+  );
+  if (!aircraft) {
+    throw new Error(`Aircraft ${hypothetical.aircraftId} not found`);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: 0,
+    organization_id: ctx.organizationId,
+    student_id: hypothetical.studentId,
+    instructor_id: 0,
+    aircraft_id: hypothetical.aircraftId,
+    departure_time: departure.toISOString(),
+    arrival_time: arrival.toISOString(),
+    departure_airport: departureAirport,
+    arrival_airport: arrivalAirport,
+    status: 'scheduled',
+    weather_status: 'unknown',
+    lesson_type_id: hypothetical.lessonTypeId ?? null,
+    threshold_version_id: null,
+    created_at: now,
+    updated_at: now,
+    training_level: student.training_level,
+    aircraft_category: aircraft.category,
+  };
+}
+
+/**
+ * Applies simulation overrides on top of the effective threshold
+ * @param threshold - Effective threshold
+ * @param overrides - Limits to replace
+ * @returns Threshold with overridden limits sourced as 'override'
+ */
+function applyThresholdOverrides(
+  threshold: EffectiveThreshold,
+  overrides: ThresholdOverrides
+): EffectiveThreshold {
+  const sources = { ...threshold.sources };
+  for (const [key, field] of Object.entries(THRESHOLD_OVERRIDE_FIELDS) as [
+    keyof typeof THRESHOLD_OVERRIDE_FIELDS,
+    ThresholdField,
+  ][]) {
+    if (overrides[key] !== undefined) {
+      sources[field] = 'override';
+    }
+  }
+
+  return {
+    ...threshold,
+    max_wind_speed: overrides.maxWindSpeed ?? threshold.max_wind_speed,
+    min_visibility: overrides.minVisibility ?? threshold.min_visibility,
+    min_ceiling: overrides.minCeiling ?? threshold.min_ceiling,
+    max_crosswind: overrides.maxCrosswind ?? threshold.max_crosswind,
+    max_gust_factor: overrides.maxGustFactor ?? threshold.max_gust_factor,
+    max_ceiling: overrides.maxCeiling !== undefined ? overrides.maxCeiling : threshold.max_ceiling,
+    max_visibility: overrides.maxVisibility !== undefined ? overrides.maxVisibility : threshold.max_visibility,
+    daylight_rule: overrides.daylightRule ?? threshold.daylight_rule,
+    prohibited_hazards: overrides.prohibitedHazards
+      ? JSON.stringify(overrides.prohibitedHazards)
+      : threshold.prohibited_hazards,
+    sources,
+    hazardSources: overrides.prohibitedHazards
+      ? Object.fromEntries(overrides.prohibitedHazards.map((hazard) => [hazard, 'override' as const]))
+      : threshold.hazardSources,
+  };
+}
+
+/**
+ * Applies weather overrides to a flight's latest snapshots
+ * A checkpoint with no snapshot starts from calm, clear conditions
+ * @param flight - Flight being simulated
+ * @param snapshots - Latest snapshot per checkpoint
+ * @param overrides - Override values per checkpoint
+ * @returns Snapshots with overrides applied (never persisted)
+ */
+function applyWeatherOverrides(
+  flight: FlightWithStudent,
+  snapshots: WeatherSnapshot[],
+  overrides: Partial<Record<WeatherSnapshot['checkpoint_type'], CheckpointWeatherOverride>>
+): WeatherSnapshot[] {
+  const checkpointTypes: WeatherSnapshot['checkpoint_type'][] = ['departure', 'arrival', 'corridor'];
+
+  return checkpointTypes.flatMap((checkpointType) => {
+    const existing = snapshots.find((s) => s.checkpoint_type === checkpointType);
+    const override = overrides[checkpointType];
+    if (!override) {
+      return existing ? [existing] : [];
+    }
+
+    const base: WeatherSnapshot = existing ?? {
+      id: 0,
+      flight_id: flight.id,
+      checkpoint_type: checkpointType,
+      location:
+        checkpointType === 'departure'
+          ? flight.departure_airport
+          : checkpointType === 'arrival'
+            ? flight.arrival_airport
+            : `${flight.departure_airport}-${flight.arrival_airport}`,
+      forecast_time: checkpointType === 'arrival' ? flight.arrival_time : flight.departure_time,
+      wind_speed: 0,
+      wind_direction: null,
+      gust_speed: null,
+      visibility: 10,
+      ceiling: null,
+      conditions: 'Simulated',
+      confidence_horizon: 0,
+      runway: null,
+      crosswind_component: null,
+      headwind_component: null,
+      temperature: null,
+      freezing_level: null,
+      hazards: null,
+      altimeter: null,
+      density_altitude: null,
+      correlation_id: '',
+      etag: null,
+      provider: null,
+      created_at: new Date().toISOString(),
+    };
+
+    return [
+      {
+        ...base,
+        wind_speed: override.windSpeed ?? base.wind_speed,
+        gust_speed: override.gustSpeed !== undefined ? override.gustSpeed : base.gust_speed,
+        visibility: override.visibility ?? base.visibility,
+        ceiling: override.ceiling !== undefined ? override.ceiling : base.ceiling,
+        crosswind_component:
+          override.crosswind !== undefined ? override.crosswind : base.crosswind_component,
+        hazards: override.hazards ? JSON.stringify(override.hazards) : base.hazards,
+        temperature: override.temperature !== undefined ? override.temperature : base.temperature,
+        density_altitude:
+          override.densityAltitude !== undefined ? override.densityAltitude : base.density_altitude,
+      },
+    ];
+  });
+}
+
+/**
+ * Simulates classification of a real or hypothetical flight without writing anything
+ * Weather overrides replace values on the latest snapshots; threshold overrides apply
+ * after lesson type and personal minimums.
+ * @param ctx - Execution context
+ * @param request - Flight ID or hypothetical flight, plus optional overrides
+ * @returns Full classification result
+ * @throws Error if neither or both of flightId and flight are given, or the flight is unknown
+ */
+export async function simulateClassification(
+  ctx: ExecutionContext,
+  request: SimulateClassificationRequest
+): Promise<SimulateClassificationResponse> {
+  if ((request.flightId === undefined) === (request.flight === undefined)) {
+    throw new Error('Provide exactly one of flightId or flight');
+  }
+
+  const hypothetical = request.flight !== undefined;
+
+  ctx.logger.info('Classification simulation started', {
+    flightId: request.flightId,
+    hypothetical,
+    weatherOverrides: Object.keys(request.weather ?? {}),
+    thresholdOverrides: Object.keys(request.thresholds ?? {}),
+  });
+
+  let flight: FlightWithStudent | null;
+  if (request.flight) {
+    flight = await buildHypotheticalFlight(ctx, request.flight);
+  } else {
+    const client = createClient(ctx.env.AIRESCHEDULER_DB);
+    flight = await prepareQueryOne<FlightWithStudent>(
+      client,
+      `${CLASSIFICATION_FLIGHT_SELECT} WHERE f.id = ? AND f.organization_id = ?`,
+      [request.flightId, ctx.organizationId]
+    );
+  }
+
+  if (!flight) {
+    throw new Error(`Flight ${request.flightId} not found`);
+  }
+
+  const inputs = await loadClassificationInputs(ctx, flight);
+
+  if (inputs.threshold && request.thresholds) {
+    inputs.threshold = applyThresholdOverrides(inputs.threshold, request.thresholds);
+    if (request.thresholds.daylightRule) {
+      inputs.daylight = await getFlightDaylight(ctx, flight, inputs.threshold.daylight_rule);
+    }
+  }
+  inputs.snapshots = applyWeatherOverrides(flight, inputs.snapshots, request.weather ?? {});
+
+  const result = evaluateClassification(flight, inputs);
+
+  ctx.logger.info('Classification simulation completed', {
+    flightId: flight.id,
+    hypothetical,
+    weatherStatus: result.weatherStatus,
+    riskScore: result.riskScore,
+    breachedCheckpoints: result.breachedCheckpoints.length,
+  });
+
+  return { result, hypothetical };
+}
@@ -18,6 +18,8 @@ export interface CronRunMetrics {
   duration_ms: number;
   status: 'success' | 'partial' | 'error';
   weather_snapshots_created: number;
+  forecast_cache_hits: number;
+  forecast_cache_misses: number;
   flights_analyzed: number;
   weather_conflicts_found: number;
   flights_rescheduled: number;
@@ -50,6 +52,8 @@ export interface CronRun {
   durationMs: number;
   errorCount: number;
   weatherSnapshotsCreated: number;
+  forecastCacheHits: number;
+  forecastCacheMisses: number;
   flightsAnalyzed: number;
   weatherConflictsFound: number;
   flightsRescheduled: number;
@@ -137,9 +141,9 @@ async function createCronNotification(
 
     await prepareExec(
       client,
-      `INSERT INTO notifications (flight_id, type, message, status, created_at)
-       VALUES (?, ?, ?, 'unread', datetime('now'))`,
-      [null, notificationType, message]
+      `INSERT INTO notifications (organization_id, flight_id, type, message, status, created_at)
+       VALUES (?, ?, ?, ?, 'unread', datetime('now'))`,
+      [ctx.organizationId, null, notificationType, message]
     );
 
     ctx.logger.info('[cron-monitoring] Notification created for cron failure', {
@@ -183,6 +187,7 @@ export async function recordCronRun(
     const result = await prepareExec(
       client,
       `INSERT INTO cron_runs (
+        organization_id,
         correlation_id,
         status,
         started_at,
@@ -190,6 +195,8 @@ export async function recordCronRun(
         duration_ms,
         error_count,
         weather_snapshots_created,
+        forecast_cache_hits,
+        forecast_cache_misses,
         flights_analyzed,
         weather_conflicts_found,
         flights_rescheduled,
@@ -197,8 +204,9 @@ export async function recordCronRun(
         flights_skipped,
         error_details,
         created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`,
       [
+        ctx.organizationId,
         request.correlationId,
         request.status,
         request.startedAt,
@@ -206,6 +214,8 @@ export async function recordCronRun(
         request.metrics.duration_ms,
         request.metrics.errors,
         request.metrics.weather_snapshots_created,
+        request.metrics.forecast_cache_hits,
+        request.metrics.forecast_cache_misses,
         request.metrics.flights_analyzed,
         request.metrics.weather_conflicts_found,
         request.metrics.flights_rescheduled,
@@ -252,7 +262,7 @@ export async function recordCronRun(
 }
 
 /**
- * Retrieves recent cron runs from the database
+ * Retrieves the organization's recent cron runs from the database
  * AC4: RPC Method to Query Recent Cron Runs
  *
  * @param ctx - Execution context with correlation ID and logger
@@ -290,6 +300,8 @@ export async function getRecentCronRuns(
           duration_ms,
           error_count,
           weather_snapshots_created,
+          forecast_cache_hits,
+          forecast_cache_misses,
           flights_analyzed,
           weather_conflicts_found,
           flights_rescheduled,
@@ -297,11 +309,11 @@ export async function getRecentCronRuns(
           flights_skipped,
           error_details
         FROM cron_runs
-        WHERE status = ?
+        WHERE organization_id = ? AND status = ?
         ORDER BY created_at DESC
         LIMIT ?
       `;
-      params = [status, effectiveLimit];
+      params = [ctx.organizationId, status, effectiveLimit];
     } else {
       query = `
         SELECT
@@ -313,6 +325,8 @@ export async function getRecentCronRuns(
           duration_ms,
           error_count,
           weather_snapshots_created,
+          forecast_cache_hits,
+          forecast_cache_misses,
           flights_analyzed,
           weather_conflicts_found,
           flights_rescheduled,
@@ -320,10 +334,11 @@ export async function getRecentCronRuns(
           flights_skipped,
           error_details
         FROM cron_runs
+        WHERE organization_id = ?
         ORDER BY created_at DESC
         LIMIT ?
       `;
-      params = [effectiveLimit];
+      params = [ctx.organizationId, effectiveLimit];
     }
 
     const rows = await prepareQuery(client, query, params);
@@ -354,6 +369,8 @@ export async function getRecentCronRuns(
         durationMs: row.duration_ms,
         errorCount: row.error_count,
         weatherSnapshotsCreated: row.weather_snapshots_created || 0,
+        forecastCacheHits: row.forecast_cache_hits || 0,
+        forecastCacheMisses: row.forecast_cache_misses || 0,
         flightsAnalyzed: row.flights_analyzed || 0,
         weatherConflictsFound: row.weather_conflicts_found || 0,
         flightsRescheduled: row.flights_rescheduled || 0,
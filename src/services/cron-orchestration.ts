@@ -21,6 +21,8 @@ export async function runWeatherPolling(
   startTime: number
 ): Promise<{
   snapshotsCreated: number;
+  forecastCacheHits: number;
+  forecastCacheMisses: number;
   error?: string;
 }> {
   try {
@@ -29,19 +31,28 @@ export async function runWeatherPolling(
     const weatherDuration = Date.now() - weatherStartTime;
 
     const snapshotsCreated = weatherResult?.snapshotsCreated || 0;
+    const forecastCacheHits = weatherResult?.forecastCache?.hits || 0;
+    const forecastCacheMisses = weatherResult?.forecastCache?.misses || 0;
     execCtx.logger.info('[cron-pipeline] Weather polling completed', {
       snapshots_created: snapshotsCreated,
+      forecast_cache_hits: forecastCacheHits,
+      forecast_cache_misses: forecastCacheMisses,
       weather_service_duration_ms: weatherDuration,
     });
 
-    return { snapshotsCreated };
+    return { snapshotsCreated, forecastCacheHits, forecastCacheMisses };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     execCtx.logger.warn('[cron-pipeline] Weather polling failed', {
       error: errorMsg,
       duration_ms: Date.now() - startTime,
     });
-    return { snapshotsCreated: 0, error: `Weather service failed: ${errorMsg}` };
+    return {
+      snapshotsCreated: 0,
+      forecastCacheHits: 0,
+      forecastCacheMisses: 0,
+      error: `Weather service failed: ${errorMsg}`,
+    };
   }
 }
 
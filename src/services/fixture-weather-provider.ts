@@ -0,0 +1,103 @@
+/**
+ * Fixture Weather Provider
+ * Serves forecasts from static JSON fixtures for local development and tests
+ *
+ * Fixtures live in src/data/weather-fixtures.json, keyed by airport. Each airport
+ * lists periods by UTC hour of day; the same daily pattern applies to every date.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { calculateConfidenceHorizon, getForecastWindowHours } from '../lib/weather-utils';
+import { estimateFreezingLevel, extractHazards } from '../lib/weather-hazards';
+import { ForecastData, ForecastRequest, WeatherProvider } from './weather-provider';
+import weatherFixtures from '../data/weather-fixtures.json';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * Fixture period covering [fromHour, toHour) UTC
+ */
+interface WeatherFixturePeriod {
+  fromHour: number;
+  toHour: number;
+  windSpeed: number; // knots
+  windDirection: number | null; // degrees true
+  gustSpeed: number | null; // knots
+  visibility: number; // statute miles
+  ceiling: number | null; // feet AGL
+  conditions: string;
+  temperature?: number | null; // degrees Celsius
+  altimeter?: number | null; // inches of mercury
+}
+
+const FIXTURES: Record<string, WeatherFixturePeriod[]> = weatherFixtures;
+
+// ========================================
+// Provider Implementation
+// ========================================
+
+/**
+ * Returns fixture forecasts for each hour of the requested window
+ * @param ctx - Execution context
+ * @param request - Forecast request
+ * @returns Forecast data ordered by forecast time
+ * @throws Error if the airport has no fixture or a time is not covered
+ */
+async function fetchForecast(
+  ctx: ExecutionContext,
+  request: ForecastRequest
+): Promise<ForecastData[]> {
+  const periods = FIXTURES[request.location];
+  if (!periods) {
+    throw new Error(`No weather fixture for ${request.location}`);
+  }
+
+  const forecasts = getForecastWindowHours(request.windowStart, request.windowEnd).map(
+    (forecastTime) => {
+      const hour = new Date(forecastTime).getUTCHours();
+      const period = periods.find((p) => hour >= p.fromHour && hour < p.toHour);
+      if (!period) {
+        throw new Error(`Weather fixture for ${request.location} does not cover hour ${hour}`);
+      }
+
+      const temperature = period.temperature ?? null;
+      const freezingLevel = estimateFreezingLevel(temperature);
+
+      return {
+        location: request.location,
+        forecastTime,
+        windSpeed: period.windSpeed,
+        windDirection: period.windDirection,
+        gustSpeed: period.gustSpeed,
+        visibility: period.visibility,
+        ceiling: period.ceiling,
+        conditions: period.conditions,
+        temperature,
+        altimeter: period.altimeter ?? null,
+        freezingLevel,
+        hazards: extractHazards({
+          conditions: period.conditions,
+          freezingLevel,
+          ceiling: period.ceiling,
+        }),
+        confidenceHorizon: calculateConfidenceHorizon(forecastTime),
+        provider: 'fixture' as const,
+      };
+    }
+  );
+
+  ctx.logger.info('Weather fixture forecast resolved', {
+    location: request.location,
+    count: forecasts.length,
+  });
+
+  return forecasts;
+}
+
+export const fixtureWeatherProvider: WeatherProvider = {
+  name: 'fixture',
+  isRealForecast: false,
+  fetchForecast,
+};
@@ -8,7 +8,7 @@ import { ListFlightsRequest, ListFlightsResponse, FlightDetail } from '../rpc/sc
 import { createClient, prepareQuery } from '../db/client';
 
 /**
- * Lists flights with detailed information including student, instructor, and aircraft names
+ * Lists the organization's flights with detailed information including student, instructor, and aircraft names
  * @param ctx - Execution context with correlation ID and logger
  * @param request - Flight list request parameters
  * @returns Flight list response with enriched flight details
@@ -39,15 +39,17 @@ export async function listFlights(
         f.weather_status,
         s.name as student_name,
         i.name as instructor_name,
-        a.registration as aircraft_registration
+        a.registration as aircraft_registration,
+        lt.name as lesson_type_name
       FROM flights f
       JOIN students s ON f.student_id = s.id
       JOIN instructors i ON f.instructor_id = i.id
       JOIN aircraft a ON f.aircraft_id = a.id
-      WHERE 1=1
+      LEFT JOIN lesson_types lt ON f.lesson_type_id = lt.id
+      WHERE f.organization_id = ?
     `;
 
-    const params: any[] = [];
+    const params: any[] = [ctx.organizationId];
 
     if (request.startDate) {
       sql += ' AND f.departure_time >= ?';
@@ -86,6 +88,7 @@ export async function listFlights(
       arrivalAirport: row.arrival_airport,
       status: row.status,
       weatherStatus: row.weather_status,
+      lessonType: row.lesson_type_name ?? null,
     }));
 
     const result = {
@@ -0,0 +1,91 @@
+/**
+ * Flight Service
+ * Creates flights after validating times, airport codes and organization membership
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { CreateFlightRequest, CreateFlightResponse } from '../rpc/schema';
+import { createClient, prepareExec } from '../db/client';
+import { assertKnownAirports, normalizeAirportCode } from './airport-service';
+import { getLessonType } from './lesson-type-service';
+import { assertOrganizationMembers } from './organization-service';
+
+/**
+ * Creates a scheduled flight in the context's organization
+ * Airport codes must exist in the airports table (see loadAirports); the student,
+ * instructor and aircraft must belong to the organization
+ * @param ctx - Execution context with correlation ID and logger
+ * @param request - Flight creation parameters
+ * @returns Created flight ID
+ * @throws Error if times are invalid or an airport code, lesson type or participant is unknown
+ */
+export async function createFlight(
+  ctx: ExecutionContext,
+  request: CreateFlightRequest
+): Promise<CreateFlightResponse> {
+  const departureAirport = normalizeAirportCode(request.departureAirport);
+  const arrivalAirport = normalizeAirportCode(request.arrivalAirport);
+
+  ctx.logger.info('Create flight started', {
+    studentId: request.studentId,
+    departureAirport,
+    arrivalAirport,
+    departureTime: request.departureTime,
+  });
+
+  const departure = new Date(request.departureTime);
+  const arrival = new Date(request.arrivalTime);
+  if (Number.isNaN(departure.getTime()) || Number.isNaN(arrival.getTime())) {
+    throw new Error('Departure and arrival times must be ISO 8601 datetimes');
+  }
+  if (arrival <= departure) {
+    throw new Error('Arrival time must be after departure time');
+  }
+
+  await assertKnownAirports(ctx, [departureAirport, arrivalAirport]);
+  await assertOrganizationMembers(ctx, request);
+
+  const lessonTypeId = request.lessonTypeId ?? null;
+  if (lessonTypeId !== null && !(await getLessonType(ctx, lessonTypeId))) {
+    throw new Error(`Unknown lesson type: ${lessonTypeId}`);
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  try {
+    const now = new Date().toISOString();
+    const result = await prepareExec(
+      client,
+      `INSERT INTO flights (
+        organization_id, student_id, instructor_id, aircraft_id,
+        departure_time, arrival_time,
+        departure_airport, arrival_airport,
+        status, weather_status, lesson_type_id,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', 'unknown', ?, ?, ?)`,
+      [
+        ctx.organizationId,
+        request.studentId,
+        request.instructorId,
+        request.aircraftId,
+        departure.toISOString(),
+        arrival.toISOString(),
+        departureAirport,
+        arrivalAirport,
+        lessonTypeId,
+        now,
+        now,
+      ]
+    );
+
+    const flightId = result.meta.last_row_id as number;
+    ctx.logger.info('Create flight completed', { flightId });
+    return { flightId };
+  } catch (error) {
+    ctx.logger.error('Create flight failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(`Failed to create flight: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
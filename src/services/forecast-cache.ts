@@ -0,0 +1,167 @@
+/**
+ * Forecast Cache
+ * Shares point forecasts across flights within a single weather poll
+ *
+ * Entries are keyed by provider, location and forecast hour (the hour containing
+ * the forecast time, as providers report it). A miss requests the whole UTC day and
+ * every forecast returned is cached, so a provider that answers with a full day of
+ * hourly data (WeatherAPI.com) is called once per location and day no matter how
+ * many flights use that location. A cache lives for one poll run;
+ * it is never persisted.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { Coordinates, formatCoordinates } from '../lib/geo';
+import {
+  ForecastData,
+  ForecastRequest,
+  WeatherProvider,
+} from './weather-provider';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * Cache hit/miss counters for a poll run
+ */
+export interface ForecastCacheStats {
+  hits: number;
+  misses: number; // provider calls made
+}
+
+/**
+ * Per-run forecast cache
+ */
+export interface ForecastCache {
+  /**
+   * Fetches the forecast for the hour containing a point in time, reusing cached provider results
+   * The returned forecastTime is the requested datetime
+   * @throws Error if the provider returns no forecast for that hour
+   */
+  fetchPointForecast(
+    ctx: ExecutionContext,
+    provider: WeatherProvider,
+    location: string,
+    datetime: string,
+    hints?: ForecastRequest['hints'],
+    coordinates?: Coordinates
+  ): Promise<ForecastData>;
+  getStats(): ForecastCacheStats;
+}
+
+// ========================================
+// Cache Keys
+// ========================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Truncates a datetime to the start of its hour, like providers select hourly data
+ * @param datetime - ISO 8601 datetime
+ * @returns ISO 8601 hour
+ */
+function toForecastHour(datetime: string): string {
+  return new Date(Math.floor(new Date(datetime).getTime() / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+/**
+ * Gets the first and last hour of the UTC day containing a datetime
+ * @param datetime - ISO 8601 datetime
+ * @returns ISO 8601 window covering the day's hours
+ */
+function toForecastDay(datetime: string): { windowStart: string; windowEnd: string } {
+  const dayStart = Math.floor(new Date(datetime).getTime() / DAY_MS) * DAY_MS;
+  return {
+    windowStart: new Date(dayStart).toISOString(),
+    windowEnd: new Date(dayStart + DAY_MS - HOUR_MS).toISOString(),
+  };
+}
+
+/**
+ * Builds the cache scope for a provider request
+ * Demo providers may shape data by route hints (synthetic profiles), so their
+ * entries are scoped per route and checkpoint; real forecasts depend on location only
+ */
+function getScope(
+  provider: WeatherProvider,
+  location: string,
+  hints?: ForecastRequest['hints'],
+  coordinates?: Coordinates
+): string {
+  const place = coordinates ? formatCoordinates(coordinates) : location;
+  if (provider.isRealForecast) {
+    return `${provider.name}|${place}`;
+  }
+  return `${provider.name}|${place}|${hints?.route ?? ''}|${hints?.checkpointType ?? ''}`;
+}
+
+// ========================================
+// Cache Factory
+// ========================================
+
+/**
+ * Creates an empty forecast cache for one poll run
+ * @returns Forecast cache
+ */
+export function createForecastCache(): ForecastCache {
+  const entries = new Map<string, ForecastData>();
+  const days = new Map<string, Promise<void>>(); // provider requests, keyed by scope and day
+  const stats: ForecastCacheStats = { hits: 0, misses: 0 };
+
+  return {
+    async fetchPointForecast(ctx, provider, location, datetime, hints, coordinates) {
+      const scope = getScope(provider, location, hints, coordinates);
+      const key = `${scope}|${toForecastHour(datetime)}`;
+
+      const cached = entries.get(key);
+      if (cached) {
+        stats.hits++;
+        return { ...cached, forecastTime: datetime };
+      }
+
+      // Request the whole day once, so its other hours are cached with it; a day the
+      // provider could not answer is not requested again in the same run
+      const day = toForecastDay(datetime);
+      const dayKey = `${scope}|${day.windowStart}`;
+      let dayFetch = days.get(dayKey);
+      if (!dayFetch) {
+        stats.misses++;
+        dayFetch = provider
+          .fetchForecast(ctx, { location, ...day, coordinates, hints })
+          .then((forecasts) => {
+            for (const forecast of forecasts) {
+              const hourKey = `${scope}|${toForecastHour(forecast.forecastTime)}`;
+              if (!entries.has(hourKey)) {
+                entries.set(hourKey, forecast);
+              }
+            }
+
+            ctx.logger.info('Forecast cache miss', {
+              provider: provider.name,
+              location,
+              forecastHour: toForecastHour(datetime),
+              cachedHours: forecasts.length,
+            });
+          });
+        days.set(dayKey, dayFetch);
+      }
+      await dayFetch;
+
+      // A neighbouring hour is not substituted: a provider leaves out hours it cannot
+      // forecast (beyond a TAF's validity), and those fall back to other sources
+      const forecast = entries.get(key);
+      if (!forecast) {
+        throw new Error(`${provider.name} provider returned no forecast for ${location} at ${datetime}`);
+      }
+
+      // Answer from the hour entry so every flight sharing this hour sees the same forecast
+      return { ...forecast, forecastTime: datetime };
+    },
+
+    getStats() {
+      return { ...stats };
+    },
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Hysteresis Service
+ * Holds flight weather statuses steady against borderline forecasts
+ *
+ * A flight escalates only after consecutive evaluations at a more severe status, and then
+ * to the least severe status seen across them. Re-evaluating the same forecast (the cron
+ * classifies after polling and again on its own) does not count as another evaluation. It de-escalates only as far as its
+ * evaluation against limits tightened by the recovery margin allows. The evaluation count
+ * and recovery margin are the escalationEvaluations and recoveryMargin settings. The first
+ * classification of a flight applies immediately. Every status change is recorded in
+ * weather_status_transitions with its reason.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQueryOne, DbClient, Flight, FlightClassificationState } from '../db/client';
+import { Settings } from '../rpc/schema';
+
+// ========================================
+// Constants
+// ========================================
+
+/**
+ * Severity order of evaluated statuses
+ */
+const STATUS_RANK: Record<EvaluatedStatus, number> = {
+  clear: 0,
+  marginal: 1,
+  advisory: 2,
+  'auto-reschedule': 3,
+};
+
+// ========================================
+// Type Definitions
+// ========================================
+
+export type EvaluatedStatus = FlightClassificationState['last_evaluated_status'];
+
+export type HysteresisPolicy = Pick<Settings, 'escalationEvaluations' | 'recoveryMargin'>;
+
+/**
+ * Outcome of applying hysteresis to an evaluation
+ */
+export interface HysteresisDecision {
+  fromStatus: Flight['weather_status'];
+  status: EvaluatedStatus; // status to apply to the flight
+  note: string | null; // why the status differs from the evaluation or changed, null if neither
+  state: Omit<FlightClassificationState, 'flight_id'>;
+  transition: boolean; // true if the flight's status changes
+}
+
+// ========================================
+// State Lookup
+// ========================================
+
+/**
+ * Retrieves the hysteresis state of a flight
+ * @param ctx - Execution context
+ * @param flightId - Flight ID
+ * @returns State or null if the flight has not been classified with hysteresis
+ */
+export async function getClassificationState(
+  ctx: ExecutionContext,
+  flightId: number
+): Promise<FlightClassificationState | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  return prepareQueryOne<FlightClassificationState>(
+    client,
+    `SELECT * FROM flight_classification_states WHERE flight_id = ?`,
+    [flightId]
+  );
+}
+
+// ========================================
+// Hysteresis Rules
+// ========================================
+
+/**
+ * Decides the status to apply from an evaluation
+ * @param currentStatus - Flight's current weather status
+ * @param state - Flight's hysteresis state, if any
+ * @param evaluated - Status from the latest evaluation
+ * @param recovery - Status from the same evaluation against limits tightened by the recovery margin
+ * @param snapshotId - Newest weather snapshot evaluated
+ * @param evaluatedAt - ISO 8601 evaluation time
+ * @param policy - Evaluations required to escalate and the recovery margin
+ * @returns Status to apply, the note explaining it and the next state
+ */
+export function applyHysteresis(
+  currentStatus: Flight['weather_status'],
+  state: FlightClassificationState | null,
+  evaluated: EvaluatedStatus,
+  recovery: EvaluatedStatus,
+  snapshotId: number,
+  evaluatedAt: string,
+  policy: HysteresisPolicy
+): HysteresisDecision {
+  const settled: HysteresisDecision['state'] = {
+    pending_status: null,
+    pending_count: 0,
+    last_evaluated_status: evaluated,
+    last_evaluated_at: evaluatedAt,
+    last_snapshot_id: snapshotId,
+  };
+
+  // Nothing to hold on the first classification
+  if (currentStatus === 'unknown') {
+    return { fromStatus: currentStatus, status: evaluated, note: null, state: settled, transition: true };
+  }
+
+  const currentRank = STATUS_RANK[currentStatus];
+
+  if (STATUS_RANK[evaluated] > currentRank) {
+    // Escalate to the least severe status held across the consecutive evaluations
+    const pending =
+      state?.pending_status && STATUS_RANK[state.pending_status] > currentRank ? state.pending_status : null;
+    // Ranks above the current status, so never clear
+    const pendingStatus = (
+      pending && STATUS_RANK[pending] < STATUS_RANK[evaluated] ? pending : evaluated
+    ) as NonNullable<FlightClassificationState['pending_status']>;
+    const previousCount = pending && state ? state.pending_count : 0;
+    const pendingCount =
+      state?.last_snapshot_id === snapshotId && previousCount > 0 ? previousCount : previousCount + 1;
+
+    if (pendingCount >= policy.escalationEvaluations) {
+      return {
+        fromStatus: currentStatus,
+        status: pendingStatus,
+        note: `Escalated from ${currentStatus} after ${pendingCount} consecutive evaluations`,
+        state: settled,
+        transition: true,
+      };
+    }
+
+    return {
+      fromStatus: currentStatus,
+      status: currentStatus,
+      note: `Holding ${currentStatus}: escalation to ${pendingStatus} pending (${pendingCount} of ${policy.escalationEvaluations} evaluations)`,
+      state: { ...settled, pending_status: pendingStatus, pending_count: pendingCount },
+      transition: false,
+    };
+  }
+
+  if (STATUS_RANK[evaluated] < currentRank) {
+    // Tightened limits never evaluate better than the real ones, so recovery is the floor
+    const target = STATUS_RANK[recovery] > STATUS_RANK[evaluated] ? recovery : evaluated;
+    const margin = `${Math.round(policy.recoveryMargin * 100)}% recovery margin`;
+
+    if (STATUS_RANK[target] >= currentRank) {
+      return {
+        fromStatus: currentStatus,
+        status: currentStatus,
+        note: `Holding ${currentStatus}: conditions evaluate ${evaluated} but not beyond the ${margin}`,
+        state: settled,
+        transition: false,
+      };
+    }
+
+    return {
+      fromStatus: currentStatus,
+      status: target,
+      note:
+        target === evaluated
+          ? `De-escalated from ${currentStatus} beyond the ${margin}`
+          : `De-escalated from ${currentStatus} to ${target}, limited by the ${margin}`,
+      state: settled,
+      transition: true,
+    };
+  }
+
+  return { fromStatus: currentStatus, status: evaluated, note: null, state: settled, transition: false };
+}
+
+// ========================================
+// Persistence
+// ========================================
+
+/**
+ * Prepares the statements that save a hysteresis decision
+ * Run them in the same batch as the flight status update
+ * @param client - DbClient instance
+ * @param flightId - Flight ID
+ * @param decision - Hysteresis decision
+ * @param reason - Full classification reason recorded with a transition
+ * @param riskScore - Risk score of the evaluation
+ * @param correlationId - Correlation ID of the classification run
+ * @returns State upsert, plus a transition insert if the status changes
+ */
+export function prepareHysteresisStatements(
+  client: DbClient,
+  flightId: number,
+  decision: HysteresisDecision,
+  reason: string,
+  riskScore: number,
+  correlationId: string
+): D1PreparedStatement[] {
+  const { state } = decision;
+  const statements = [
+    client.db
+      .prepare(
+        `INSERT INTO flight_classification_states
+           (flight_id, pending_status, pending_count, last_evaluated_status, last_evaluated_at, last_snapshot_id)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(flight_id) DO UPDATE SET
+           pending_status = excluded.pending_status,
+           pending_count = excluded.pending_count,
+           last_evaluated_status = excluded.last_evaluated_status,
+           last_evaluated_at = excluded.last_evaluated_at,
+           last_snapshot_id = excluded.last_snapshot_id`
+      )
+      .bind(
+        flightId,
+        state.pending_status,
+        state.pending_count,
+        state.last_evaluated_status,
+        state.last_evaluated_at,
+        state.last_snapshot_id
+      ),
+  ];
+
+  if (decision.transition) {
+    statements.push(
+      client.db
+        .prepare(
+          `INSERT INTO weather_status_transitions
+             (flight_id, from_status, to_status, reason, risk_score, correlation_id, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(flightId, decision.fromStatus, decision.status, reason, riskScore, correlationId, state.last_evaluated_at)
+    );
+  }
+
+  return statements;
+}
@@ -0,0 +1,279 @@
+/**
+ * Instructor Schedule Service
+ * Manages when instructors can teach and checks time slots against it
+ *
+ * A schedule is a set of recurring weekly working hours (local to the flight's
+ * departure airport), time off spans and an optional limit on flights per day. Slots
+ * are also held to the regulatory limit of 8 hours of flight instruction in any
+ * 24 consecutive hours (14 CFR 61.195(a)). An instructor with no working hours can
+ * be booked at any time their flights and time off allow.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import {
+  createClient,
+  prepareQuery,
+  prepareQueryOne,
+  transaction,
+  Flight,
+  Instructor,
+  InstructorTimeOff,
+  InstructorWorkingHours,
+} from '../db/client';
+import { isWithinWeeklyWindows, toLocalTime } from '../lib/local-time';
+import { InstructorSchedule, SetInstructorScheduleRequest } from '../rpc/schema';
+
+// ========================================
+// Constants
+// ========================================
+
+const MAX_INSTRUCTION_MINUTES = 8 * 60; // per 24 consecutive hours
+const DUTY_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves an instructor of the context's organization
+ * @param ctx - Execution context
+ * @param instructorId - Instructor ID
+ * @returns Instructor record
+ * @throws Error if the instructor is unknown in the organization
+ */
+async function requireInstructor(ctx: ExecutionContext, instructorId: number): Promise<Instructor> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const instructor = await prepareQueryOne<Instructor>(
+    client,
+    `SELECT * FROM instructors WHERE id = ? AND organization_id = ?`,
+    [instructorId, ctx.organizationId]
+  );
+  if (!instructor) {
+    throw new Error(`Unknown instructor: ${instructorId}`);
+  }
+  return instructor;
+}
+
+/**
+ * Retrieves an instructor's working hours, time off and daily flight limit
+ * @param ctx - Execution context
+ * @param instructorId - Instructor ID
+ * @returns Schedule (working hours ordered by day and start time, time off by start)
+ * @throws Error if the instructor is unknown in the organization
+ */
+export async function getInstructorSchedule(
+  ctx: ExecutionContext,
+  instructorId: number
+): Promise<InstructorSchedule> {
+  const instructor = await requireInstructor(ctx, instructorId);
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const workingHours = await prepareQuery<InstructorWorkingHours>(
+    client,
+    `SELECT * FROM instructor_working_hours WHERE instructor_id = ? ORDER BY day_of_week, start_time`,
+    [instructorId]
+  );
+  const timeOff = await prepareQuery<InstructorTimeOff>(
+    client,
+    `SELECT * FROM instructor_time_off WHERE instructor_id = ? ORDER BY start_time, end_time`,
+    [instructorId]
+  );
+
+  return {
+    instructorId,
+    maxFlightsPerDay: instructor.max_flights_per_day,
+    workingHours: workingHours.map((row) => ({
+      dayOfWeek: row.day_of_week,
+      startTime: row.start_time,
+      endTime: row.end_time,
+    })),
+    timeOff: timeOff.map((row) => ({
+      startTime: row.start_time,
+      endTime: row.end_time,
+      reason: row.reason,
+    })),
+  };
+}
+
+// ========================================
+// Schedule Management
+// ========================================
+
+/**
+ * Replaces an instructor's working hours, time off and daily flight limit
+ * @param ctx - Execution context
+ * @param request - Instructor ID, daily limit, working hours and time off
+ * @returns Schedule after the update
+ * @throws Error if the instructor is unknown or working hours or time off are invalid
+ */
+export async function setInstructorSchedule(
+  ctx: ExecutionContext,
+  request: SetInstructorScheduleRequest
+): Promise<InstructorSchedule> {
+  ctx.logger.info('Set instructor schedule started', {
+    instructorId: request.instructorId,
+    maxFlightsPerDay: request.maxFlightsPerDay,
+    workingHours: request.workingHours.length,
+    timeOff: request.timeOff.length,
+  });
+
+  await requireInstructor(ctx, request.instructorId);
+
+  const errors = [
+    ...request.workingHours
+      .filter((window) => window.endTime <= window.startTime)
+      .map((window) => `working hours ${window.startTime}-${window.endTime} must end after they start`),
+    ...request.timeOff
+      .filter((entry) => {
+        const start = new Date(entry.startTime).getTime();
+        const end = new Date(entry.endTime).getTime();
+        return Number.isNaN(start) || Number.isNaN(end) || end <= start;
+      })
+      .map((entry) => `time off ${entry.startTime} to ${entry.endTime} must be ISO 8601 datetimes ending after they start`),
+  ];
+  if (errors.length > 0) {
+    throw new Error(`Invalid schedule: ${errors.join('; ')}`);
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const now = new Date().toISOString();
+
+  try {
+    await transaction(client, [
+      client.db
+        .prepare(`UPDATE instructors SET max_flights_per_day = ? WHERE id = ?`)
+        .bind(request.maxFlightsPerDay, request.instructorId),
+      client.db.prepare(`DELETE FROM instructor_working_hours WHERE instructor_id = ?`).bind(request.instructorId),
+      client.db.prepare(`DELETE FROM instructor_time_off WHERE instructor_id = ?`).bind(request.instructorId),
+      ...request.workingHours.map((window) =>
+        client.db
+          .prepare(
+            `INSERT INTO instructor_working_hours (instructor_id, day_of_week, start_time, end_time, created_at)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .bind(request.instructorId, window.dayOfWeek, window.startTime, window.endTime, now)
+      ),
+      // Normalized to UTC so entries order by start_time
+      ...request.timeOff.map((entry) =>
+        client.db
+          .prepare(
+            `INSERT INTO instructor_time_off (instructor_id, start_time, end_time, reason, created_at)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .bind(
+            request.instructorId,
+            new Date(entry.startTime).toISOString(),
+            new Date(entry.endTime).toISOString(),
+            entry.reason,
+            now
+          )
+      ),
+    ]);
+
+    const schedule = await getInstructorSchedule(ctx, request.instructorId);
+    ctx.logger.info('Set instructor schedule completed', { instructorId: request.instructorId });
+    return schedule;
+  } catch (error) {
+    ctx.logger.error('Set instructor schedule failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to set instructor schedule: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+// ========================================
+// Slot Evaluation
+// ========================================
+
+/**
+ * Finds the most flight instruction in any 24 consecutive hours that include a slot
+ * The busiest period starts at a flight's start or ends at a flight's end, so only
+ * those boundaries within reach of the slot are tried
+ * @param startTime - Slot start (ISO 8601)
+ * @param endTime - Slot end (ISO 8601)
+ * @param flights - Instructor's other flights
+ * @returns Minutes of instruction, including the slot
+ */
+function peakInstructionMinutes(startTime: string, endTime: string, flights: Flight[]): number {
+  const slotStart = new Date(startTime).getTime();
+  const slotEnd = new Date(endTime).getTime();
+  const periods = [
+    { start: slotStart, end: slotEnd },
+    ...flights.map((flight) => ({
+      start: new Date(flight.departure_time).getTime(),
+      end: new Date(flight.arrival_time).getTime(),
+    })),
+  ];
+
+  // Duty periods containing the whole slot start between these bounds
+  const earliest = slotEnd - DUTY_PERIOD_MS;
+  const latest = slotStart;
+  const periodStarts = periods
+    .flatMap((period) => [period.start, period.end - DUTY_PERIOD_MS])
+    .filter((start) => start >= earliest && start <= latest);
+
+  let peak = 0;
+  for (const dutyStart of [earliest, ...periodStarts]) {
+    const dutyEnd = dutyStart + DUTY_PERIOD_MS;
+    const minutes = periods.reduce(
+      (total, period) =>
+        total + Math.max(0, Math.min(period.end, dutyEnd) - Math.max(period.start, dutyStart)) / 60000,
+      0
+    );
+    peak = Math.max(peak, minutes);
+  }
+  return peak;
+}
+
+/**
+ * Checks a time slot against an instructor's schedule and duty limits
+ * @param schedule - Instructor schedule
+ * @param startTime - Slot start (ISO 8601)
+ * @param endTime - Slot end (ISO 8601)
+ * @param flights - Instructor's other flights within a day either side of the slot
+ * @param timeZone - IANA time zone of the departure airport
+ * @returns Why the instructor cannot take the slot, or null if they can
+ */
+export function findScheduleConflict(
+  schedule: InstructorSchedule,
+  startTime: string,
+  endTime: string,
+  flights: Flight[],
+  timeZone: string
+): string | null {
+  if (
+    schedule.workingHours.length > 0 &&
+    !isWithinWeeklyWindows(schedule.workingHours, startTime, endTime, timeZone)
+  ) {
+    return 'outside working hours';
+  }
+
+  const slotStart = new Date(startTime).getTime();
+  const slotEnd = new Date(endTime).getTime();
+  const timeOff = schedule.timeOff.find(
+    (entry) => new Date(entry.startTime).getTime() < slotEnd && new Date(entry.endTime).getTime() > slotStart
+  );
+  if (timeOff) {
+    return timeOff.reason ? `on time off (${timeOff.reason})` : 'on time off';
+  }
+
+  if (schedule.maxFlightsPerDay !== null) {
+    const slotDate = toLocalTime(new Date(startTime), timeZone).date;
+    const flightsThatDay = flights.filter(
+      (flight) => toLocalTime(new Date(flight.departure_time), timeZone).date === slotDate
+    ).length;
+    if (flightsThatDay >= schedule.maxFlightsPerDay) {
+      return `already has ${flightsThatDay} flights on ${slotDate} (limit ${schedule.maxFlightsPerDay})`;
+    }
+  }
+
+  const instructionMinutes = peakInstructionMinutes(startTime, endTime, flights);
+  if (instructionMinutes > MAX_INSTRUCTION_MINUTES) {
+    return `would exceed 8 hours of instruction in 24 hours (${(instructionMinutes / 60).toFixed(1)} h)`;
+  }
+
+  return null;
+}
@@ -0,0 +1,146 @@
+/**
+ * Lesson Type Service
+ * Reads lesson types and applies their weather rules to training-level thresholds
+ *
+ * A lesson type replaces any training-level limit it sets, so it can tighten a limit
+ * (solo pattern work in light winds) or relax one (pattern work under a lower ceiling).
+ * It can also invert the usual rule with a maximum ceiling or visibility for lessons
+ * that need instrument conditions. Personal minimums are applied afterwards and can
+ * only tighten the result (see student-minimums-service).
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, prepareQueryOne, LessonType, TrainingThreshold } from '../db/client';
+import { parseHazards } from '../lib/weather-hazards';
+import { HazardType, LessonTypeDetail, ThresholdSource } from '../rpc/schema';
+import { EffectiveThreshold } from './student-minimums-service';
+
+// ========================================
+// Mapping
+// ========================================
+
+/**
+ * Maps a lesson type row to its RPC shape
+ */
+function mapLessonTypeRow(row: LessonType): LessonTypeDetail {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    durationMinutes: row.duration_minutes,
+    solo: row.is_solo === 1,
+    maxWindSpeed: row.max_wind_speed,
+    minVisibility: row.min_visibility,
+    minCeiling: row.min_ceiling,
+    maxCrosswind: row.max_crosswind,
+    maxGustFactor: row.max_gust_factor,
+    maxCeiling: row.max_ceiling,
+    maxVisibility: row.max_visibility,
+    daylightRule: row.daylight_rule,
+    requiredCategory: row.required_category,
+    requiresIfr: row.requires_ifr === 1,
+    requiresComplex: row.requires_complex === 1,
+    requiresMultiEngine: row.requires_multi_engine === 1,
+    description: row.description,
+  };
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves a lesson type
+ * @param ctx - Execution context
+ * @param lessonTypeId - Lesson type ID, or null for flights without one
+ * @returns Lesson type or null if none is assigned or it does not exist
+ */
+export async function getLessonType(
+  ctx: ExecutionContext,
+  lessonTypeId: number | null
+): Promise<LessonType | null> {
+  if (lessonTypeId === null) {
+    return null;
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const lessonType = await prepareQueryOne<LessonType>(
+    client,
+    `SELECT * FROM lesson_types WHERE id = ?`,
+    [lessonTypeId]
+  );
+
+  if (!lessonType) {
+    ctx.logger.warn('Lesson type not found', { lessonTypeId });
+  }
+
+  return lessonType;
+}
+
+/**
+ * Lists all lesson types ordered by name
+ * @param ctx - Execution context
+ * @returns Lesson types
+ */
+export async function listLessonTypes(ctx: ExecutionContext): Promise<LessonTypeDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<LessonType>(client, `SELECT * FROM lesson_types ORDER BY name`, []);
+  return rows.map(mapLessonTypeRow);
+}
+
+// ========================================
+// Threshold Resolution
+// ========================================
+
+/**
+ * Applies a lesson type's weather rules to a training-level threshold
+ * @param threshold - Training-level threshold
+ * @param lessonType - Lesson type, or null to use the training level unchanged
+ * @returns Threshold with the source of each limit
+ */
+export function applyLessonType(
+  threshold: TrainingThreshold,
+  lessonType: LessonType | null
+): EffectiveThreshold {
+  const pick = <T>(level: T, lesson: T | null | undefined): { value: T; source: ThresholdSource } =>
+    lesson === null || lesson === undefined
+      ? { value: level, source: 'training-level' }
+      : { value: lesson, source: 'lesson-type' };
+
+  const wind = pick(threshold.max_wind_speed, lessonType?.max_wind_speed);
+  const visibility = pick(threshold.min_visibility, lessonType?.min_visibility);
+  const ceiling = pick(threshold.min_ceiling, lessonType?.min_ceiling);
+  const crosswind = pick(threshold.max_crosswind, lessonType?.max_crosswind);
+  const gust = pick(threshold.max_gust_factor, lessonType?.max_gust_factor);
+  const maxCeiling = pick<number | null>(null, lessonType?.max_ceiling);
+  const maxVisibility = pick<number | null>(null, lessonType?.max_visibility);
+  const daylight = pick(threshold.daylight_rule, lessonType?.daylight_rule);
+
+  const hazardSources: Partial<Record<HazardType, ThresholdSource>> = {};
+  for (const hazard of parseHazards(threshold.prohibited_hazards)) {
+    hazardSources[hazard] = 'training-level';
+  }
+
+  return {
+    ...threshold,
+    max_wind_speed: wind.value,
+    min_visibility: visibility.value,
+    min_ceiling: ceiling.value,
+    max_crosswind: crosswind.value,
+    max_gust_factor: gust.value,
+    max_ceiling: maxCeiling.value,
+    max_visibility: maxVisibility.value,
+    daylight_rule: daylight.value,
+    sources: {
+      max_wind_speed: wind.source,
+      min_visibility: visibility.source,
+      min_ceiling: ceiling.source,
+      max_crosswind: crosswind.source,
+      max_gust_factor: gust.source,
+      max_ceiling: maxCeiling.source,
+      max_visibility: maxVisibility.source,
+      daylight_rule: daylight.source,
+    },
+    hazardSources,
+  };
+}
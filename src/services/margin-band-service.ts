@@ -0,0 +1,94 @@
+/**
+ * Margin Band Service
+ * Reads and manages the margin band for each threshold metric
+ *
+ * A breach that stays within the band past its limit is marginal (10.5 kt against a
+ * 10 kt limit with a 2 kt band); anything further is a hard breach. Classification
+ * weights marginal breaches by how deep into the band they reach.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, transaction, MarginBand } from '../db/client';
+import { MarginBands, UpdateMarginBandsRequest } from '../rpc/schema';
+
+// ========================================
+// Constants
+// ========================================
+
+const MARGIN_METRICS: MarginBand['metric'][] = ['wind', 'visibility', 'ceiling', 'crosswind', 'gust'];
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves the organization's margin band for every metric
+ * @param ctx - Execution context
+ * @returns Margin bands (0 for any metric without a row, so every breach is hard)
+ */
+export async function getMarginBands(ctx: ExecutionContext): Promise<MarginBands> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<MarginBand>(client, `SELECT * FROM margin_bands WHERE organization_id = ?`, [
+    ctx.organizationId,
+  ]);
+
+  const bands: MarginBands = { wind: 0, visibility: 0, ceiling: 0, crosswind: 0, gust: 0 };
+  for (const row of rows) {
+    bands[row.metric] = row.band;
+  }
+  return bands;
+}
+
+// ========================================
+// Band Management
+// ========================================
+
+/**
+ * Updates margin bands
+ * Metrics omitted from the request keep their current band
+ * @param ctx - Execution context
+ * @param request - Bands to change
+ * @returns All margin bands after the update
+ * @throws Error if no bands are provided
+ */
+export async function updateMarginBands(
+  ctx: ExecutionContext,
+  request: UpdateMarginBandsRequest
+): Promise<MarginBands> {
+  const changes = MARGIN_METRICS.filter((metric) => request[metric] !== undefined);
+
+  ctx.logger.info('Update margin bands started', { metrics: changes });
+
+  if (changes.length === 0) {
+    throw new Error('No margin band changes provided');
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const now = new Date().toISOString();
+
+  try {
+    await transaction(
+      client,
+      changes.map((metric) =>
+        client.db
+          .prepare(
+            `INSERT INTO margin_bands (organization_id, metric, band, updated_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(organization_id, metric) DO UPDATE SET band = excluded.band, updated_at = excluded.updated_at`
+          )
+          .bind(ctx.organizationId, metric, request[metric], now)
+      )
+    );
+
+    const marginBands = await getMarginBands(ctx);
+    ctx.logger.info('Update margin bands completed', { marginBands });
+    return marginBands;
+  } catch (error) {
+    ctx.logger.error('Update margin bands failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to update margin bands: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -33,7 +33,7 @@ export interface GetRecentNotificationsResult {
 }
 
 /**
- * Creates a new notification in the database
+ * Creates a new notification for the context's organization
  * @param ctx - Execution context with correlation ID and logger
  * @param request - Notification creation parameters
  * @returns Notification creation response
@@ -52,9 +52,9 @@ export async function createNotification(
   try {
     const result = await prepareExec(
       client,
-      `INSERT INTO notifications (flight_id, type, message, status, created_at)
-       VALUES (?, ?, ?, 'unread', datetime('now'))`,
-      [request.flightId, request.type, request.message]
+      `INSERT INTO notifications (organization_id, flight_id, type, message, status, created_at)
+       VALUES (?, ?, ?, ?, 'unread', datetime('now'))`,
+      [ctx.organizationId, request.flightId, request.type, request.message]
     );
 
     const response = {
@@ -95,7 +95,7 @@ function getSeverityFromType(type: string): 'low' | 'medium' | 'high' {
 }
 
 /**
- * Retrieves recent notifications from the database
+ * Retrieves the organization's recent notifications
  * @param ctx - Execution context
  * @param limit - Maximum number of notifications to return (default 10, max 50)
  * @param type - Optional type filter
@@ -115,12 +115,13 @@ export async function getRecentNotifications(
     const safeLimit = Math.min(limit, 50);
 
     // Build query with optional type filter and severity-based ordering
-    const params: any[] = [];
+    const params: any[] = [ctx.organizationId];
     let query = `SELECT id, flight_id, type, message, status, created_at
-                 FROM notifications`;
+                 FROM notifications
+                 WHERE organization_id = ?`;
 
     if (type) {
-      query += ' WHERE type = ?';
+      query += ' AND type = ?';
       params.push(type);
     }
 
@@ -165,8 +166,8 @@ export async function getRecentNotifications(
     // Query unread count
     const unreadResult = await prepareQuery<{ count: number }>(
       client,
-      `SELECT COUNT(*) as count FROM notifications WHERE status = 'unread'`,
-      []
+      `SELECT COUNT(*) as count FROM notifications WHERE organization_id = ? AND status = 'unread'`,
+      [ctx.organizationId]
     );
     const totalCount = unreadResult[0]?.count || 0;
 
@@ -197,7 +198,7 @@ export async function getRecentNotifications(
  * @param ctx - Execution context
  * @param notificationId - ID of notification to update
  * @param status - New status
- * @returns Success boolean
+ * @returns Success boolean (false if the notification is not the organization's)
  */
 export async function updateNotificationStatus(
   ctx: ExecutionContext,
@@ -212,14 +213,14 @@ export async function updateNotificationStatus(
   const client = createClient(ctx.env.AIRESCHEDULER_DB);
 
   try {
-    await prepareExec(
+    const result = await prepareExec(
       client,
-      `UPDATE notifications SET status = ? WHERE id = ?`,
-      [status, notificationId]
+      `UPDATE notifications SET status = ? WHERE id = ? AND organization_id = ?`,
+      [status, notificationId, ctx.organizationId]
     );
 
     ctx.logger.info('Update notification status completed', { notificationId, status });
-    return true;
+    return result.meta.changes > 0;
   } catch (error) {
     ctx.logger.error('Update notification status failed', {
       notificationId,
@@ -0,0 +1,127 @@
+/**
+ * Operating Hours Service
+ * Reads and manages the daily hours each organization flies from an airport
+ *
+ * Hours are wall-clock times local to the airport, so a base keeps the same hours
+ * across daylight saving changes. An airport the organization has not configured
+ * uses DEFAULT_OPERATING_HOURS.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareExec, prepareQuery, prepareQueryOne, OperatingHours } from '../db/client';
+import { AirportOperatingHours, SetOperatingHoursRequest } from '../rpc/schema';
+import { assertKnownAirports, normalizeAirportCode } from './airport-service';
+
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_OPERATING_HOURS = { openTime: '06:00', closeTime: '18:00' };
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Maps an operating_hours row to its RPC shape
+ */
+function mapOperatingHoursRow(row: OperatingHours): AirportOperatingHours {
+  return {
+    airport: row.airport,
+    openTime: row.open_time,
+    closeTime: row.close_time,
+    isDefault: false,
+  };
+}
+
+/**
+ * Retrieves the organization's operating hours at an airport
+ * @param ctx - Execution context
+ * @param airport - ICAO code (case-insensitive)
+ * @returns Operating hours (the default if the airport is not configured)
+ */
+export async function getOperatingHours(
+  ctx: ExecutionContext,
+  airport: string
+): Promise<AirportOperatingHours> {
+  const icao = normalizeAirportCode(airport);
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<OperatingHours>(
+    client,
+    `SELECT * FROM operating_hours WHERE organization_id = ? AND airport = ?`,
+    [ctx.organizationId, icao]
+  );
+
+  return row ? mapOperatingHoursRow(row) : { airport: icao, ...DEFAULT_OPERATING_HOURS, isDefault: true };
+}
+
+/**
+ * Lists the airports the organization has configured hours for
+ * @param ctx - Execution context
+ * @returns Operating hours ordered by airport
+ */
+export async function listOperatingHours(ctx: ExecutionContext): Promise<AirportOperatingHours[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<OperatingHours>(
+    client,
+    `SELECT * FROM operating_hours WHERE organization_id = ? ORDER BY airport`,
+    [ctx.organizationId]
+  );
+  return rows.map(mapOperatingHoursRow);
+}
+
+// ========================================
+// Hours Management
+// ========================================
+
+/**
+ * Sets the organization's operating hours at an airport
+ * @param ctx - Execution context
+ * @param request - Airport and local open and close times
+ * @returns Operating hours after the update
+ * @throws Error if the airport is unknown or the hours close before they open
+ */
+export async function setOperatingHours(
+  ctx: ExecutionContext,
+  request: SetOperatingHoursRequest
+): Promise<AirportOperatingHours> {
+  const icao = normalizeAirportCode(request.airport);
+
+  ctx.logger.info('Set operating hours started', {
+    airport: icao,
+    openTime: request.openTime,
+    closeTime: request.closeTime,
+  });
+
+  if (request.closeTime <= request.openTime) {
+    throw new Error(`Invalid operating hours: ${request.openTime}-${request.closeTime} must close after they open`);
+  }
+  await assertKnownAirports(ctx, [icao]);
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  try {
+    await prepareExec(
+      client,
+      `INSERT INTO operating_hours (organization_id, airport, open_time, close_time, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(organization_id, airport) DO UPDATE SET
+         open_time = excluded.open_time,
+         close_time = excluded.close_time,
+         updated_at = excluded.updated_at`,
+      [ctx.organizationId, icao, request.openTime, request.closeTime, new Date().toISOString()]
+    );
+
+    const operatingHours = await getOperatingHours(ctx, icao);
+    ctx.logger.info('Set operating hours completed', { operatingHours });
+    return operatingHours;
+  } catch (error) {
+    ctx.logger.error('Set operating hours failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to set operating hours: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Organization Service
+ * Reads and creates organizations and checks that records belong to one
+ *
+ * Each flight school base is an organization. Every RPC call and cron run executes in
+ * the context of one organization, and services scope their queries to
+ * ctx.organizationId. A new organization starts with a copy of the creating
+ * organization's training thresholds and margin bands, and default settings.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, prepareQueryOne, transaction, Organization } from '../db/client';
+import { CreateOrganizationRequest, OrganizationDetail } from '../rpc/schema';
+
+// ========================================
+// Mapping
+// ========================================
+
+/**
+ * Maps an organization row to its RPC shape
+ */
+function mapOrganizationRow(row: Organization): OrganizationDetail {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    createdAt: row.created_at,
+  };
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves a single organization
+ * @param ctx - Execution context
+ * @param organizationId - Organization ID
+ * @returns Organization or null if unknown
+ */
+export async function getOrganization(
+  ctx: ExecutionContext,
+  organizationId: number
+): Promise<OrganizationDetail | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<Organization>(client, `SELECT * FROM organizations WHERE id = ?`, [
+    organizationId,
+  ]);
+  return row ? mapOrganizationRow(row) : null;
+}
+
+/**
+ * Lists all organizations
+ * Used by the cron to run the pipeline once per organization
+ * @param ctx - Execution context
+ * @returns Organizations ordered by ID
+ */
+export async function listOrganizations(ctx: ExecutionContext): Promise<OrganizationDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<Organization>(client, `SELECT * FROM organizations ORDER BY id`, []);
+  return rows.map(mapOrganizationRow);
+}
+
+/**
+ * Verifies that a flight's student, instructor and aircraft belong to the context's organization
+ * @param ctx - Execution context
+ * @param participants - Student, instructor and aircraft IDs
+ * @throws Error naming the first participant that is unknown in the organization
+ */
+export async function assertOrganizationMembers(
+  ctx: ExecutionContext,
+  participants: { studentId: number; instructorId: number; aircraftId: number }
+): Promise<void> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<{ student: number; instructor: number; aircraft: number }>(
+    client,
+    `SELECT
+       EXISTS(SELECT 1 FROM students WHERE id = ? AND organization_id = ?) AS student,
+       EXISTS(SELECT 1 FROM instructors WHERE id = ? AND organization_id = ?) AS instructor,
+       EXISTS(SELECT 1 FROM aircraft WHERE id = ? AND organization_id = ?) AS aircraft`,
+    [
+      participants.studentId,
+      ctx.organizationId,
+      participants.instructorId,
+      ctx.organizationId,
+      participants.aircraftId,
+      ctx.organizationId,
+    ]
+  );
+
+  if (!row?.student) {
+    throw new Error(`Unknown student: ${participants.studentId}`);
+  }
+  if (!row.instructor) {
+    throw new Error(`Unknown instructor: ${participants.instructorId}`);
+  }
+  if (!row.aircraft) {
+    throw new Error(`Unknown aircraft: ${participants.aircraftId}`);
+  }
+}
+
+// ========================================
+// Organization Management
+// ========================================
+
+/**
+ * Creates an organization
+ * Its thresholds and margin bands are copied from the context's organization in the
+ * same batch, with the copied thresholds recorded as version 1
+ * @param ctx - Execution context
+ * @param request - Organization code and name
+ * @returns Created organization
+ * @throws Error if the code is already in use
+ */
+export async function createOrganization(
+  ctx: ExecutionContext,
+  request: CreateOrganizationRequest
+): Promise<OrganizationDetail> {
+  ctx.logger.info('Create organization started', { code: request.code, copiedFrom: ctx.organizationId });
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const existing = await prepareQueryOne<Organization>(client, `SELECT * FROM organizations WHERE code = ?`, [
+    request.code,
+  ]);
+  if (existing) {
+    throw new Error(`Organization code already in use: ${request.code}`);
+  }
+
+  const now = new Date().toISOString();
+  // The new ID is not known until the insert runs, so the copies look it up by code
+  const newId = `(SELECT id FROM organizations WHERE code = ?)`;
+
+  try {
+    await transaction(client, [
+      client.db
+        .prepare(`INSERT INTO organizations (code, name, created_at) VALUES (?, ?, ?)`)
+        .bind(request.code, request.name, now),
+      client.db
+        .prepare(
+          `INSERT INTO training_thresholds (
+            organization_id, training_level, max_wind_speed, min_visibility, min_ceiling, description,
+            max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, version, created_at
+          )
+          SELECT ${newId}, training_level, max_wind_speed, min_visibility, min_ceiling, description,
+            max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, 1, ?
+          FROM training_thresholds WHERE organization_id = ?`
+        )
+        .bind(request.code, now, ctx.organizationId),
+      client.db
+        .prepare(
+          `INSERT INTO threshold_versions (
+            organization_id, training_level, version, max_wind_speed, min_visibility, min_ceiling,
+            max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, description,
+            changed_by, change_reason, created_at
+          )
+          SELECT ${newId}, training_level, 1, max_wind_speed, min_visibility, min_ceiling,
+            max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, description,
+            'organization-setup', ?, ?
+          FROM training_thresholds WHERE organization_id = ?`
+        )
+        .bind(request.code, `Copied from organization ${ctx.organizationId}`, now, ctx.organizationId),
+      client.db
+        .prepare(
+          `INSERT INTO margin_bands (organization_id, metric, band, updated_at)
+           SELECT ${newId}, metric, band, ? FROM margin_bands WHERE organization_id = ?`
+        )
+        .bind(request.code, now, ctx.organizationId),
+    ]);
+
+    const organization = await prepareQueryOne<Organization>(
+      client,
+      `SELECT * FROM organizations WHERE code = ?`,
+      [request.code]
+    );
+    if (!organization) {
+      throw new Error('Organization not found after insert');
+    }
+
+    ctx.logger.info('Create organization completed', { organizationId: organization.id, code: organization.code });
+    return mapOrganizationRow(organization);
+  } catch (error) {
+    ctx.logger.error('Create organization failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to create organization: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -18,6 +18,8 @@ import {
   WeatherSnapshot,
 } from '../db/client';
 import { RescheduleRecommendation } from './ai-reschedule-service';
+import { assertOrganizationMembers } from './organization-service';
+import { getSettings } from './settings-service';
 
 // ========================================
 // Type Definitions
@@ -103,7 +105,7 @@ interface SlotData {
  * @param client - Database client
  * @param flightId - Flight ID to retrieve
  * @param ctx - Execution context
- * @returns Flight with details or null if not found
+ * @returns Flight with details or null if not found in the context's organization
  */
 async function getOriginalFlightData(
   client: DbClient,
@@ -122,8 +124,8 @@ async function getOriginalFlightData(
      JOIN students s ON f.student_id = s.id
      JOIN instructors i ON f.instructor_id = i.id
      JOIN aircraft a ON f.aircraft_id = a.id
-     WHERE f.id = ?`,
-    [flightId]
+     WHERE f.id = ? AND f.organization_id = ?`,
+    [flightId, ctx.organizationId]
   );
 
   if (!flight) {
@@ -204,16 +206,24 @@ async function createNewFlight(
     aircraft: slotData.aircraftRegistration,
   });
 
+  // The slot comes from the caller, so its instructor and aircraft must be the organization's
+  await assertOrganizationMembers(ctx, {
+    studentId: originalFlight.student_id,
+    instructorId: slotData.instructorId,
+    aircraftId: slotData.aircraftId,
+  });
+
   const result = await prepareExec(
     client,
     `INSERT INTO flights (
-      student_id, instructor_id, aircraft_id,
+      organization_id, student_id, instructor_id, aircraft_id,
       departure_time, arrival_time,
       departure_airport, arrival_airport,
-      status, weather_status,
+      status, weather_status, lesson_type_id,
       created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, 'scheduled', 'unknown', ?, ?)`,
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', 'unknown', ?, ?, ?)`,
     [
+      originalFlight.organization_id,
       originalFlight.student_id,
       slotData.instructorId,
       slotData.aircraftId,
@@ -221,6 +231,7 @@ async function createNewFlight(
       slotData.arrivalTime,
       originalFlight.departure_airport,
       originalFlight.arrival_airport,
+      originalFlight.lesson_type_id,
       new Date().toISOString(),
       new Date().toISOString(),
     ]
@@ -445,9 +456,10 @@ async function createAutoRescheduleNotification(
   await prepareExec(
     client,
     `INSERT INTO notifications (
-      flight_id, type, message, status, created_at
-    ) VALUES (?, 'auto-rescheduled', ?, 'unread', ?)`,
+      organization_id, flight_id, type, message, status, created_at
+    ) VALUES (?, ?, 'auto-rescheduled', ?, 'unread', ?)`,
     [
+      ctx.organizationId,
       flightId,
       `Flight automatically rescheduled. Review and confirm (Action ID: ${actionId})`,
       new Date().toISOString(),
@@ -683,9 +695,9 @@ export async function getFlightRescheduleHistory(
        JOIN flights f_orig ON ra.original_flight_id = f_orig.id
        LEFT JOIN flights f_new ON ra.new_flight_id = f_new.id
        LEFT JOIN weather_snapshots ws ON ra.weather_snapshot_id = ws.id
-       WHERE ra.original_flight_id = ?
+       WHERE ra.original_flight_id = ? AND f_orig.organization_id = ?
        ORDER BY ra.decided_at DESC`,
-      [flightId]
+      [flightId, executionContext.organizationId]
     );
 
     logger.info('[reschedule-action] Reschedule history retrieved', {
@@ -764,7 +776,7 @@ export async function getFlightRescheduleHistory(
 
 /**
  * Records an auto-reschedule decision from the classification engine
- * Used when confidence ≥80% and flight is <72h out
+ * Used when confidence meets the aiConfidenceThreshold setting and the flight is within the reschedule horizon
  *
  * @param env - Cloudflare environment
  * @param flightId - Original flight ID
@@ -789,9 +801,10 @@ export async function recordAutoRescheduleDecision(
 
   try {
     // Validate confidence threshold
-    if (topRecommendation.aiConfidence < 80) {
+    const { aiConfidenceThreshold, rescheduleHorizonHours } = await getSettings(executionContext);
+    if (topRecommendation.aiConfidence < aiConfidenceThreshold) {
       throw new Error(
-        `Confidence ${topRecommendation.aiConfidence}% below threshold (80%) for auto-reschedule`
+        `Confidence ${topRecommendation.aiConfidence}% below threshold (${aiConfidenceThreshold}%) for auto-reschedule`
       );
     }
 
@@ -822,6 +835,7 @@ export async function recordAutoRescheduleDecision(
     const weatherSnapshot = await getWeatherSnapshotContext(client, flightId, executionContext);
 
     // Build AI rationale
+    const decisionNotes = `Auto-rescheduled due to weather conflict <${rescheduleHorizonHours} hours. Confidence: ${topRecommendation.aiConfidence}%. Manager review pending.`;
     const aiRationale = JSON.stringify({
       topRecommendations: [
         {
@@ -836,7 +850,7 @@ export async function recordAutoRescheduleDecision(
       ],
       selectedIndex: 0,
       decision: 'auto-accept',
-      notes: `Auto-rescheduled due to weather conflict <72 hours. Confidence: ${topRecommendation.aiConfidence}%. Manager review pending.`,
+      notes: decisionNotes,
     });
 
     // Record reschedule action with 'pending' status
@@ -852,7 +866,7 @@ export async function recordAutoRescheduleDecision(
         weatherSnapshotId: weatherSnapshot?.id || null,
         decidedAt: new Date().toISOString(),
         decidedBy: 'auto-reschedule',
-        notes: `Auto-rescheduled due to weather conflict <72 hours. Confidence: ${topRecommendation.aiConfidence}%. Manager review pending.`,
+        notes: decisionNotes,
         status: 'pending',
       },
       executionContext
@@ -1,11 +1,18 @@
 /**
  * Seed Data Service
  * Provides demo data seeding functionality for testing and demonstration
+ *
+ * Demo data is seeded into, and cleared from, the context's organization only.
  */
 
 import { ExecutionContext } from '../lib/logger';
 import { SeedDemoDataRequest, SeedDemoDataResponse } from '../rpc/schema';
 import { createClient, prepareQuery, prepareQueryOne } from '../db/client';
+import { assertKnownAirports, loadAirports } from './airport-service';
+import { getOrganization } from './organization-service';
+
+// Organization that seeds the untagged demo emails and registrations
+const DEFAULT_ORGANIZATION_ID = 1;
 
 /**
  * Seeds the database with demo data for testing
@@ -29,21 +36,36 @@ export async function seedDemoData(
     // Optionally clear existing data
     // Must delete in reverse dependency order due to foreign keys
     if (request.clearExisting) {
-      ctx.logger.info('Clearing existing data');
+      ctx.logger.info('Clearing existing data', { organizationId: ctx.organizationId });
+
+      const organizationFlights = 'SELECT id FROM flights WHERE organization_id = ?';
 
       // First delete dependent tables (those with foreign keys)
       await client.db.batch([
-        client.db.prepare('DELETE FROM reschedule_actions'),
-        client.db.prepare('DELETE FROM weather_snapshots'),
-        client.db.prepare('DELETE FROM notifications'),
-        client.db.prepare('DELETE FROM flights'),
+        client.db
+          .prepare(`DELETE FROM reschedule_actions WHERE original_flight_id IN (${organizationFlights})`)
+          .bind(ctx.organizationId),
+        client.db
+          .prepare(`DELETE FROM weather_snapshots WHERE flight_id IN (${organizationFlights})`)
+          .bind(ctx.organizationId),
+        client.db.prepare('DELETE FROM notifications WHERE organization_id = ?').bind(ctx.organizationId),
+        client.db
+          .prepare(`DELETE FROM flight_classifications WHERE flight_id IN (${organizationFlights})`)
+          .bind(ctx.organizationId),
+        client.db
+          .prepare(`DELETE FROM flight_classification_states WHERE flight_id IN (${organizationFlights})`)
+          .bind(ctx.organizationId),
+        client.db
+          .prepare(`DELETE FROM weather_status_transitions WHERE flight_id IN (${organizationFlights})`)
+          .bind(ctx.organizationId),
+        client.db.prepare('DELETE FROM flights WHERE organization_id = ?').bind(ctx.organizationId),
       ]);
 
       // Then delete base tables (no dependencies)
       await client.db.batch([
-        client.db.prepare('DELETE FROM aircraft'),
-        client.db.prepare('DELETE FROM instructors'),
-        client.db.prepare('DELETE FROM students'),
+        client.db.prepare('DELETE FROM aircraft WHERE organization_id = ?').bind(ctx.organizationId),
+        client.db.prepare('DELETE FROM instructors WHERE organization_id = ?').bind(ctx.organizationId),
+        client.db.prepare('DELETE FROM students WHERE organization_id = ?').bind(ctx.organizationId),
       ]);
 
       ctx.logger.info('Existing data cleared successfully');
@@ -51,6 +73,17 @@ export async function seedDemoData(
 
     const now = new Date();
 
+    // Airport reference data must exist before flights can reference it
+    await loadAirports(ctx);
+
+    // Emails and registrations are unique across organizations, so other organizations
+    // get copies tagged with their code (john.doe+north@example.com, N12345-NORTH)
+    const organization = await getOrganization(ctx, ctx.organizationId);
+    const tag = ctx.organizationId === DEFAULT_ORGANIZATION_ID ? null : organization?.code ?? null;
+    const tagEmail = (email: string) => (tag ? email.replace('@', `+${tag}@`) : email);
+    const tagRegistration = (registration: string) =>
+      tag ? `${registration}-${tag.toUpperCase()}` : registration;
+
     // Expanded base datasets
     const studentSeeds = [
       { name: 'John Doe', trainingLevel: 'student' as const, email: 'john.doe@example.com' },
@@ -69,10 +102,43 @@ export async function seedDemoData(
     ];
 
     const aircraftSeeds = [
-      { registration: 'N12345', category: 'single-engine', status: 'available' },
-      { registration: 'N67890', category: 'complex', status: 'available' },
-      { registration: 'N24680', category: 'multi-engine', status: 'available' },
-      { registration: 'N13579', category: 'single-engine', status: 'available' },
+      {
+        registration: 'N12345',
+        category: 'single-engine',
+        model: 'C172',
+        complex: false,
+        multiEngine: false,
+        status: 'available',
+        limits: { maxCrosswind: 15, maxWindSpeed: 30, ifrCapable: true, nightCapable: true, serviceCeiling: 13500 },
+      },
+      {
+        registration: 'N67890',
+        category: 'complex',
+        model: 'C182RG',
+        complex: true,
+        multiEngine: false,
+        status: 'available',
+        limits: { maxCrosswind: 17, maxWindSpeed: 35, ifrCapable: true, nightCapable: true, serviceCeiling: 16000 },
+      },
+      {
+        registration: 'N24680',
+        category: 'multi-engine',
+        model: 'PA-44',
+        complex: true,
+        multiEngine: true,
+        status: 'available',
+        limits: { maxCrosswind: 17, maxWindSpeed: 35, ifrCapable: true, nightCapable: true, serviceCeiling: 19000 },
+      },
+      {
+        // C152: 12 kt demonstrated crosswind, VFR only
+        registration: 'N13579',
+        category: 'single-engine',
+        model: 'C152',
+        complex: false,
+        multiEngine: false,
+        status: 'available',
+        limits: { maxCrosswind: 12, maxWindSpeed: 25, ifrCapable: false, nightCapable: true, serviceCeiling: 14700 },
+      },
     ];
 
     // Seed base entities idempotently
@@ -80,29 +146,47 @@ export async function seedDemoData(
       ...studentSeeds.map((student) =>
         client.db
           .prepare(
-            `INSERT OR IGNORE INTO students (name, training_level, email, created_at) VALUES (?, ?, ?, datetime('now'))`
+            `INSERT OR IGNORE INTO students (organization_id, name, training_level, email, created_at)
+             VALUES (?, ?, ?, ?, datetime('now'))`
           )
-          .bind(student.name, student.trainingLevel, student.email)
+          .bind(ctx.organizationId, student.name, student.trainingLevel, tagEmail(student.email))
       ),
       ...instructorSeeds.map((instructor) =>
         client.db
           .prepare(
-            `INSERT OR IGNORE INTO instructors (name, certifications, email, created_at) VALUES (?, ?, ?, datetime('now'))`
+            `INSERT OR IGNORE INTO instructors (organization_id, name, certifications, email, created_at)
+             VALUES (?, ?, ?, ?, datetime('now'))`
           )
-          .bind(instructor.name, JSON.stringify(instructor.certifications), instructor.email)
+          .bind(ctx.organizationId, instructor.name, JSON.stringify(instructor.certifications), tagEmail(instructor.email))
       ),
       ...aircraftSeeds.map((aircraft) =>
         client.db
           .prepare(
-            `INSERT OR IGNORE INTO aircraft (registration, category, status, created_at) VALUES (?, ?, ?, datetime('now'))`
+            `INSERT OR IGNORE INTO aircraft
+             (organization_id, registration, category, model, complex, multi_engine, status, max_crosswind,
+              max_wind_speed, ifr_capable, night_capable, service_ceiling, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+          )
+          .bind(
+            ctx.organizationId,
+            tagRegistration(aircraft.registration),
+            aircraft.category,
+            aircraft.model,
+            aircraft.complex ? 1 : 0,
+            aircraft.multiEngine ? 1 : 0,
+            aircraft.status,
+            aircraft.limits.maxCrosswind,
+            aircraft.limits.maxWindSpeed,
+            aircraft.limits.ifrCapable ? 1 : 0,
+            aircraft.limits.nightCapable ? 1 : 0,
+            aircraft.limits.serviceCeiling
           )
-          .bind(aircraft.registration, aircraft.category, aircraft.status)
       ),
     ];
 
     await client.db.batch(baseStatements);
 
-    // Helper to fetch entity IDs by unique keys
+    // Helper to fetch entity IDs by unique keys, keyed by the untagged seed key
     const getIdMap = async (
       table: 'students' | 'instructors',
       keys: string[]
@@ -111,10 +195,15 @@ export async function seedDemoData(
       const placeholders = keys.map(() => '?').join(', ');
       const rows = await prepareQuery<{ id: number; email: string }>(
         client,
-        `SELECT id, email FROM ${table} WHERE email IN (${placeholders})`,
+        `SELECT id, email FROM ${table} WHERE organization_id = ? AND email IN (${placeholders})`,
+        [ctx.organizationId, ...keys.map(tagEmail)]
+      );
+      const idByEmail = new Map(rows.map((row) => [row.email, row.id]));
+      return new Map(
         keys
+          .filter((key) => idByEmail.has(tagEmail(key)))
+          .map((key) => [key, idByEmail.get(tagEmail(key)) as number])
       );
-      return new Map(rows.map((row) => [row.email, row.id]));
     };
 
     const getAircraftMap = async (registrations: string[]): Promise<Map<string, number>> => {
@@ -122,10 +211,15 @@ export async function seedDemoData(
       const placeholders = registrations.map(() => '?').join(', ');
       const rows = await prepareQuery<{ id: number; registration: string }>(
         client,
-        `SELECT id, registration FROM aircraft WHERE registration IN (${placeholders})`,
+        `SELECT id, registration FROM aircraft WHERE organization_id = ? AND registration IN (${placeholders})`,
+        [ctx.organizationId, ...registrations.map(tagRegistration)]
+      );
+      const idByRegistration = new Map(rows.map((row) => [row.registration, row.id]));
+      return new Map(
         registrations
+          .filter((registration) => idByRegistration.has(tagRegistration(registration)))
+          .map((registration) => [registration, idByRegistration.get(tagRegistration(registration)) as number])
       );
-      return new Map(rows.map((row) => [row.registration, row.id]));
     };
 
     const studentIdByEmail = await getIdMap('students', studentSeeds.map((s) => s.email));
@@ -164,6 +258,7 @@ export async function seedDemoData(
         offsetHours?: number;
       };
       durationMinutes: number;
+      lessonType?: string; // lesson_types.code
     };
 
     const flightSeeds: FlightSeed[] = [
@@ -176,6 +271,7 @@ export async function seedDemoData(
         arrivalAirport: 'KSQL',
         departure: { days: 1, hour: 9, minute: 30 },
         durationMinutes: 90,
+        lessonType: 'dual-cross-country',
       },
       {
         scenario: 'bay-afternoon-crosswind',
@@ -236,6 +332,7 @@ export async function seedDemoData(
         arrivalAirport: 'KBTV',
         departure: { days: 5, hour: 7, minute: 40 },
         durationMinutes: 100,
+        lessonType: 'dual-cross-country',
       },
       {
         scenario: 'desert-heat-turbulence',
@@ -256,6 +353,7 @@ export async function seedDemoData(
         arrivalAirport: 'PAJN',
         departure: { days: 6, hour: 11, minute: 45 },
         durationMinutes: 170,
+        lessonType: 'actual-imc',
       },
       {
         scenario: 'great-lakes-lake-effect',
@@ -269,6 +367,18 @@ export async function seedDemoData(
       },
     ] as const;
 
+    await assertKnownAirports(
+      ctx,
+      flightSeeds.flatMap((flight) => [flight.departureAirport, flight.arrivalAirport])
+    );
+
+    const lessonTypeRows = await prepareQuery<{ id: number; code: string }>(
+      client,
+      `SELECT id, code FROM lesson_types`,
+      []
+    );
+    const lessonTypeIdByCode = new Map(lessonTypeRows.map((row) => [row.code, row.id]));
+
     let flightsInserted = 0;
     let flightsSkipped = 0;
 
@@ -316,17 +426,19 @@ export async function seedDemoData(
 
       const insertResult = await client.db
         .prepare(
-          `INSERT INTO flights (student_id, instructor_id, aircraft_id, departure_time, arrival_time, departure_airport, arrival_airport, status, weather_status, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, 'scheduled', 'unknown', datetime('now'), datetime('now'))`
+          `INSERT INTO flights (organization_id, student_id, instructor_id, aircraft_id, departure_time, arrival_time, departure_airport, arrival_airport, status, weather_status, lesson_type_id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', 'unknown', ?, datetime('now'), datetime('now'))`
         )
         .bind(
+          ctx.organizationId,
           studentId,
           instructorId,
           aircraftId,
           departureTime.toISOString(),
           arrivalTime.toISOString(),
           flight.departureAirport,
-          flight.arrivalAirport
+          flight.arrivalAirport,
+          flight.lessonType ? lessonTypeIdByCode.get(flight.lessonType) ?? null : null
         )
         .run();
 
@@ -0,0 +1,361 @@
+/**
+ * Settings Service
+ * Reads and manages the policy settings used by the cron, classification and candidate services
+ *
+ * Defaults live in SETTING_DEFINITIONS; the settings table stores each organization's
+ * overrides, so a key without a row uses its default. Settings are read once per
+ * execution context and cached for the rest of the request or cron run. Every change is
+ * validated against the definition's range and recorded in setting_changes with who
+ * made it and why.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, transaction, Setting, SettingChange } from '../db/client';
+import {
+  GetSettingHistoryRequest,
+  SettingChangeDetail,
+  SettingDetail,
+  SettingKey,
+  Settings,
+  UpdateSettingsRequest,
+} from '../rpc/schema';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+interface SettingDefinition {
+  defaultValue: number;
+  min: number;
+  max: number;
+  integer: boolean;
+  description: string;
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Default and allowed range of every setting
+ */
+export const SETTING_DEFINITIONS: Record<SettingKey, SettingDefinition> = {
+  rescheduleHorizonHours: {
+    defaultValue: 72,
+    min: 1,
+    max: 240,
+    integer: true,
+    description: 'Hours before departure within which a high-risk flight is auto-rescheduled',
+  },
+  weatherHorizonDays: {
+    defaultValue: 7,
+    min: 1,
+    max: 14,
+    integer: true,
+    description: 'Days ahead that flights are polled for weather and classified',
+  },
+  aiConfidenceThreshold: {
+    defaultValue: 80,
+    min: 0,
+    max: 100,
+    integer: true,
+    description: 'Minimum AI confidence for the cron to auto-accept a reschedule',
+  },
+  rescheduleRiskScore: {
+    defaultValue: 75,
+    min: 0,
+    max: 100,
+    integer: true,
+    description: 'Risk score at which a flight within the horizon is auto-rescheduled',
+  },
+  advisoryRiskScore: {
+    defaultValue: 40,
+    min: 0,
+    max: 100,
+    integer: true,
+    description: 'Risk score at which a flight becomes advisory; lower breaches are marginal',
+  },
+  escalationEvaluations: {
+    defaultValue: 2,
+    min: 1,
+    max: 10,
+    integer: true,
+    description: 'Consecutive evaluations at a more severe status before a flight escalates',
+  },
+  recoveryMargin: {
+    defaultValue: 0.1,
+    min: 0,
+    max: 0.5,
+    integer: false,
+    description: 'Fraction every limit is tightened by before a flight de-escalates',
+  },
+  candidateSearchWindowDays: {
+    defaultValue: 7,
+    min: 1,
+    max: 14,
+    integer: true,
+    description: 'Days either side of the original departure searched for candidate slots',
+  },
+  candidateMinimumSpacingHours: {
+    defaultValue: 6,
+    min: 0,
+    max: 48,
+    integer: false,
+    description: 'Minimum hours between a candidate slot and the original departure',
+  },
+  maxCandidates: {
+    defaultValue: 15,
+    min: 1,
+    max: 50,
+    integer: true,
+    description: 'Maximum candidate slots returned per flight',
+  },
+};
+
+const SETTING_KEYS = Object.keys(SETTING_DEFINITIONS) as SettingKey[];
+
+/**
+ * Settings loaded per execution context, so each request or cron run reads them once
+ */
+const settingsCache = new WeakMap<ExecutionContext, Promise<Settings>>();
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Applies overrides to the defaults
+ */
+function resolveSettings(rows: Setting[]): Settings {
+  const settings = Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, SETTING_DEFINITIONS[key].defaultValue])
+  ) as Settings;
+
+  for (const row of rows) {
+    // Rows for keys no longer defined are ignored
+    if (row.key in SETTING_DEFINITIONS) {
+      settings[row.key as SettingKey] = row.value;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Retrieves the effective value of every setting
+ * Cached for the lifetime of the execution context
+ * @param ctx - Execution context
+ * @returns Settings (defaults for any key without an override)
+ */
+export function getSettings(ctx: ExecutionContext): Promise<Settings> {
+  let settings = settingsCache.get(ctx);
+
+  if (!settings) {
+    const client = createClient(ctx.env.AIRESCHEDULER_DB);
+    settings = prepareQuery<Setting>(client, `SELECT * FROM settings WHERE organization_id = ?`, [
+      ctx.organizationId,
+    ]).then(resolveSettings);
+    // Drop a failed load so the next call retries
+    settings.catch(() => settingsCache.delete(ctx));
+    settingsCache.set(ctx, settings);
+  }
+
+  return settings;
+}
+
+/**
+ * Retrieves every setting with its definition and who last changed it
+ * Reads the table directly rather than the per-context cache
+ * @param ctx - Execution context
+ * @returns Setting details in definition order
+ */
+export async function getSettingDetails(ctx: ExecutionContext): Promise<SettingDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<Setting>(client, `SELECT * FROM settings WHERE organization_id = ?`, [
+    ctx.organizationId,
+  ]);
+  const overrides = new Map(rows.map((row) => [row.key, row]));
+
+  return SETTING_KEYS.map((key) => {
+    const definition = SETTING_DEFINITIONS[key];
+    const override = overrides.get(key);
+
+    return {
+      key,
+      value: override?.value ?? definition.defaultValue,
+      defaultValue: definition.defaultValue,
+      min: definition.min,
+      max: definition.max,
+      integer: definition.integer,
+      description: definition.description,
+      updatedBy: override?.updated_by ?? null,
+      updatedAt: override?.updated_at ?? null,
+    };
+  });
+}
+
+/**
+ * Retrieves recorded setting changes
+ * @param ctx - Execution context
+ * @param request - Optional key filter and limit
+ * @returns Changes, newest first
+ */
+export async function getSettingHistory(
+  ctx: ExecutionContext,
+  request: GetSettingHistoryRequest
+): Promise<SettingChangeDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const limit = request.limit ?? DEFAULT_HISTORY_LIMIT;
+
+  const rows = request.key
+    ? await prepareQuery<SettingChange>(
+        client,
+        `SELECT * FROM setting_changes
+         WHERE organization_id = ? AND key = ?
+         ORDER BY created_at DESC, id DESC LIMIT ?`,
+        [ctx.organizationId, request.key, limit]
+      )
+    : await prepareQuery<SettingChange>(
+        client,
+        `SELECT * FROM setting_changes WHERE organization_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`,
+        [ctx.organizationId, limit]
+      );
+
+  return rows.map((row) => ({
+    id: row.id,
+    key: row.key as SettingKey,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    changedBy: row.changed_by,
+    reason: row.change_reason,
+    correlationId: row.correlation_id,
+    createdAt: row.created_at,
+  }));
+}
+
+// ========================================
+// Validation
+// ========================================
+
+/**
+ * Validates settings after a change is applied
+ * @param settings - Settings with the change applied
+ * @param changedKeys - Keys being changed
+ * @returns Validation errors (empty if valid)
+ */
+export function validateSettings(settings: Settings, changedKeys: SettingKey[]): string[] {
+  const errors: string[] = [];
+
+  for (const key of changedKeys) {
+    const { min, max, integer } = SETTING_DEFINITIONS[key];
+    const value = settings[key];
+
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${key} must be between ${min} and ${max}`);
+    } else if (integer && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    }
+  }
+
+  if (settings.advisoryRiskScore > settings.rescheduleRiskScore) {
+    errors.push('advisoryRiskScore must not exceed rescheduleRiskScore');
+  }
+
+  return errors;
+}
+
+// ========================================
+// Settings Management
+// ========================================
+
+/**
+ * Updates settings and records each change
+ * Keys omitted from the request, or set to their current value, are left alone
+ * @param ctx - Execution context
+ * @param request - Changes, who made them and why
+ * @returns Setting details after the update
+ * @throws Error if there are no changes or a value is invalid
+ */
+export async function updateSettings(
+  ctx: ExecutionContext,
+  request: UpdateSettingsRequest
+): Promise<SettingDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await prepareQuery<Setting>(client, `SELECT * FROM settings WHERE organization_id = ?`, [
+    ctx.organizationId,
+  ]);
+  const current = resolveSettings(rows);
+
+  const changedKeys = SETTING_KEYS.filter(
+    (key) => request.changes[key] !== undefined && request.changes[key] !== current[key]
+  );
+
+  ctx.logger.info('Update settings started', { keys: changedKeys, changedBy: request.changedBy });
+
+  if (changedKeys.length === 0) {
+    throw new Error('No setting changes provided');
+  }
+
+  const updated: Settings = { ...current };
+  for (const key of changedKeys) {
+    updated[key] = request.changes[key] as number;
+  }
+
+  const errors = validateSettings(updated, changedKeys);
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings: ${errors.join('; ')}`);
+  }
+
+  const now = new Date().toISOString();
+
+  try {
+    await transaction(
+      client,
+      changedKeys.flatMap((key) => [
+        client.db
+          .prepare(
+            `INSERT INTO settings (organization_id, key, value, updated_by, updated_at) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(organization_id, key) DO UPDATE SET
+               value = excluded.value,
+               updated_by = excluded.updated_by,
+               updated_at = excluded.updated_at`
+          )
+          .bind(ctx.organizationId, key, updated[key], request.changedBy, now),
+        client.db
+          .prepare(
+            `INSERT INTO setting_changes
+               (organization_id, key, old_value, new_value, changed_by, change_reason, correlation_id, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .bind(
+            ctx.organizationId,
+            key,
+            current[key],
+            updated[key],
+            request.changedBy,
+            request.reason,
+            ctx.correlationId,
+            now
+          ),
+      ])
+    );
+
+    // Later reads in this context see the new values
+    settingsCache.delete(ctx);
+
+    const settings = await getSettingDetails(ctx);
+    ctx.logger.info('Update settings completed', {
+      changes: changedKeys.map((key) => ({ key, from: current[key], to: updated[key] })),
+    });
+    return settings;
+  } catch (error) {
+    ctx.logger.error('Update settings failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to update settings: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
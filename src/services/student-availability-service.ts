@@ -0,0 +1,192 @@
+/**
+ * Student Availability Service
+ * Manages when students can fly and checks time slots against it
+ *
+ * Availability is a set of recurring weekly windows plus blackout date ranges, both in
+ * the local time of the flight's departure airport. A slot must fall entirely inside
+ * one window on its local day and touch no blackout date. A student with no windows
+ * can fly at any time outside their blackouts.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import {
+  createClient,
+  prepareQuery,
+  prepareQueryOne,
+  transaction,
+  StudentAvailabilityWindow,
+  StudentBlackoutDate,
+} from '../db/client';
+import { isWithinWeeklyWindows, toLocalTime } from '../lib/local-time';
+import { SetStudentAvailabilityRequest, StudentAvailability } from '../rpc/schema';
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Verifies that a student belongs to the context's organization
+ * @param ctx - Execution context
+ * @param studentId - Student ID
+ * @throws Error if the student is unknown in the organization
+ */
+async function assertStudent(ctx: ExecutionContext, studentId: number): Promise<void> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const student = await prepareQueryOne<{ id: number }>(
+    client,
+    `SELECT id FROM students WHERE id = ? AND organization_id = ?`,
+    [studentId, ctx.organizationId]
+  );
+  if (!student) {
+    throw new Error(`Unknown student: ${studentId}`);
+  }
+}
+
+/**
+ * Retrieves a student's weekly windows and blackout dates
+ * @param ctx - Execution context
+ * @param studentId - Student ID
+ * @returns Availability (windows ordered by day and start time, blackouts by start date)
+ * @throws Error if the student is unknown in the organization
+ */
+export async function getStudentAvailability(
+  ctx: ExecutionContext,
+  studentId: number
+): Promise<StudentAvailability> {
+  await assertStudent(ctx, studentId);
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const windows = await prepareQuery<StudentAvailabilityWindow>(
+    client,
+    `SELECT * FROM student_availability WHERE student_id = ? ORDER BY day_of_week, start_time`,
+    [studentId]
+  );
+  const blackouts = await prepareQuery<StudentBlackoutDate>(
+    client,
+    `SELECT * FROM student_blackout_dates WHERE student_id = ? ORDER BY start_date, end_date`,
+    [studentId]
+  );
+
+  return {
+    studentId,
+    windows: windows.map((row) => ({
+      dayOfWeek: row.day_of_week,
+      startTime: row.start_time,
+      endTime: row.end_time,
+    })),
+    blackouts: blackouts.map((row) => ({
+      startDate: row.start_date,
+      endDate: row.end_date,
+      reason: row.reason,
+    })),
+  };
+}
+
+// ========================================
+// Availability Management
+// ========================================
+
+/**
+ * Replaces a student's weekly windows and blackout dates
+ * @param ctx - Execution context
+ * @param request - Student ID, windows and blackouts
+ * @returns Availability after the update
+ * @throws Error if the student is unknown or a window or blackout ends before it starts
+ */
+export async function setStudentAvailability(
+  ctx: ExecutionContext,
+  request: SetStudentAvailabilityRequest
+): Promise<StudentAvailability> {
+  ctx.logger.info('Set student availability started', {
+    studentId: request.studentId,
+    windows: request.windows.length,
+    blackouts: request.blackouts.length,
+  });
+
+  await assertStudent(ctx, request.studentId);
+
+  const errors = [
+    ...request.windows
+      .filter((window) => window.endTime <= window.startTime)
+      .map((window) => `window ${window.startTime}-${window.endTime} must end after it starts`),
+    ...request.blackouts
+      .filter((blackout) => blackout.endDate < blackout.startDate)
+      .map((blackout) => `blackout ${blackout.startDate} to ${blackout.endDate} must not end before it starts`),
+  ];
+  if (errors.length > 0) {
+    throw new Error(`Invalid availability: ${errors.join('; ')}`);
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const now = new Date().toISOString();
+
+  try {
+    await transaction(client, [
+      client.db.prepare(`DELETE FROM student_availability WHERE student_id = ?`).bind(request.studentId),
+      client.db.prepare(`DELETE FROM student_blackout_dates WHERE student_id = ?`).bind(request.studentId),
+      ...request.windows.map((window) =>
+        client.db
+          .prepare(
+            `INSERT INTO student_availability (student_id, day_of_week, start_time, end_time, created_at)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .bind(request.studentId, window.dayOfWeek, window.startTime, window.endTime, now)
+      ),
+      ...request.blackouts.map((blackout) =>
+        client.db
+          .prepare(
+            `INSERT INTO student_blackout_dates (student_id, start_date, end_date, reason, created_at)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .bind(request.studentId, blackout.startDate, blackout.endDate, blackout.reason, now)
+      ),
+    ]);
+
+    const availability = await getStudentAvailability(ctx, request.studentId);
+    ctx.logger.info('Set student availability completed', { studentId: request.studentId });
+    return availability;
+  } catch (error) {
+    ctx.logger.error('Set student availability failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(
+      `Failed to set student availability: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+// ========================================
+// Slot Evaluation
+// ========================================
+
+/**
+ * Checks whether a time slot fits the student's availability
+ * @param availability - Student availability
+ * @param startTime - Slot start (ISO 8601)
+ * @param endTime - Slot end (ISO 8601)
+ * @param timeZone - IANA time zone of the departure airport
+ * @returns True if the slot is inside a window (or there are none) and outside every blackout
+ */
+export function isWithinAvailability(
+  availability: StudentAvailability,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): boolean {
+  const startDate = toLocalTime(new Date(startTime), timeZone).date;
+  const endDate = toLocalTime(new Date(endTime), timeZone).date;
+
+  // Date strings compare in calendar order
+  const blackedOut = availability.blackouts.some(
+    (blackout) => blackout.startDate <= endDate && blackout.endDate >= startDate
+  );
+  if (blackedOut) {
+    return false;
+  }
+
+  return (
+    availability.windows.length === 0 ||
+    isWithinWeeklyWindows(availability.windows, startTime, endTime, timeZone)
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Student Minimums Service
+ * Layers per-student personal minimums over training-level thresholds
+ *
+ * Personal minimums can only tighten a limit: for every field the stricter of the
+ * training-level and personal values applies (lower maximums, higher minimums, the
+ * union of prohibited hazards). Minimums apply after any lesson type adjustments (see
+ * lesson-type-service), so a lesson cannot relax a student's personal limit. The
+ * effective threshold records which source set each limit so classification can report it.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQueryOne, StudentMinimums, TrainingThreshold } from '../db/client';
+import { parseHazards } from '../lib/weather-hazards';
+import { DaylightRule, HazardType, ThresholdSource } from '../rpc/schema';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * Threshold fields a lesson type or student can override
+ * max_ceiling and max_visibility are set by lesson types only
+ */
+export type ThresholdField =
+  | 'max_wind_speed'
+  | 'min_visibility'
+  | 'min_ceiling'
+  | 'max_crosswind'
+  | 'max_gust_factor'
+  | 'max_ceiling'
+  | 'max_visibility'
+  | 'daylight_rule';
+
+/**
+ * Numeric threshold fields personal minimums can tighten
+ */
+type PersonalLimitField = 'max_wind_speed' | 'min_visibility' | 'min_ceiling' | 'max_crosswind' | 'max_gust_factor';
+
+/**
+ * Training threshold after applying lesson type adjustments and personal minimums
+ */
+export interface EffectiveThreshold extends TrainingThreshold {
+  max_ceiling: number | null; // feet AGL, lesson requires a ceiling below this
+  max_visibility: number | null; // statute miles, lesson requires visibility below this
+  sources: Record<ThresholdField, ThresholdSource>;
+  hazardSources: Partial<Record<HazardType, ThresholdSource>>; // prohibited hazards only
+}
+
+// ========================================
+// Constants
+// ========================================
+
+/**
+ * Daylight rule strictness; day-only wins any conflict because it is the safety restriction
+ */
+const DAYLIGHT_RULE_STRICTNESS: Record<DaylightRule, number> = {
+  'night-allowed': 0,
+  'night-required': 1,
+  'day-only': 2,
+};
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Retrieves personal minimums for a student
+ * @param ctx - Execution context
+ * @param studentId - Student ID
+ * @returns Personal minimums or null if the student has none
+ */
+export async function getStudentMinimums(
+  ctx: ExecutionContext,
+  studentId: number
+): Promise<StudentMinimums | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  return prepareQueryOne<StudentMinimums>(
+    client,
+    `SELECT * FROM student_minimums WHERE student_id = ?`,
+    [studentId]
+  );
+}
+
+// ========================================
+// Threshold Resolution
+// ========================================
+
+/**
+ * Picks the stricter of the current and personal limit
+ * @param threshold - Threshold before personal minimums
+ * @param field - Limit to compare
+ * @param personal - Personal value (null if not overridden)
+ * @param higherIsStricter - True for minimums, false for maximums
+ * @returns Effective value and its source; ties keep the current source
+ */
+function stricter(
+  threshold: EffectiveThreshold,
+  field: PersonalLimitField,
+  personal: number | null,
+  higherIsStricter: boolean
+): { value: number; source: ThresholdSource } {
+  const current = threshold[field];
+  if (personal === null || (higherIsStricter ? personal <= current : personal >= current)) {
+    return { value: current, source: threshold.sources[field] };
+  }
+  return { value: personal, source: 'personal' };
+}
+
+/**
+ * Applies personal minimums to a threshold
+ * @param threshold - Training-level threshold with any lesson type adjustments applied
+ * @param minimums - Student's personal minimums, if any
+ * @returns Effective threshold with the source of each limit
+ */
+export function applyStudentMinimums(
+  threshold: EffectiveThreshold,
+  minimums: StudentMinimums | null
+): EffectiveThreshold {
+  const wind = stricter(threshold, 'max_wind_speed', minimums?.max_wind_speed ?? null, false);
+  const visibility = stricter(threshold, 'min_visibility', minimums?.min_visibility ?? null, true);
+  const ceiling = stricter(threshold, 'min_ceiling', minimums?.min_ceiling ?? null, true);
+  const crosswind = stricter(threshold, 'max_crosswind', minimums?.max_crosswind ?? null, false);
+  const gust = stricter(threshold, 'max_gust_factor', minimums?.max_gust_factor ?? null, false);
+
+  const personalRule = minimums?.daylight_rule ?? null;
+  const daylightSource: ThresholdSource =
+    personalRule !== null &&
+    DAYLIGHT_RULE_STRICTNESS[personalRule] > DAYLIGHT_RULE_STRICTNESS[threshold.daylight_rule]
+      ? 'personal'
+      : threshold.sources.daylight_rule;
+
+  const hazardSources: Partial<Record<HazardType, ThresholdSource>> = {};
+  for (const hazard of parseHazards(minimums?.prohibited_hazards ?? null)) {
+    hazardSources[hazard] = 'personal';
+  }
+  Object.assign(hazardSources, threshold.hazardSources);
+
+  return {
+    ...threshold,
+    max_wind_speed: wind.value,
+    min_visibility: visibility.value,
+    min_ceiling: ceiling.value,
+    max_crosswind: crosswind.value,
+    max_gust_factor: gust.value,
+    prohibited_hazards: JSON.stringify(Object.keys(hazardSources)),
+    daylight_rule: daylightSource === 'personal' && personalRule ? personalRule : threshold.daylight_rule,
+    sources: {
+      ...threshold.sources,
+      max_wind_speed: wind.source,
+      min_visibility: visibility.source,
+      min_ceiling: ceiling.source,
+      max_crosswind: crosswind.source,
+      max_gust_factor: gust.source,
+      daylight_rule: daylightSource,
+    },
+    hazardSources,
+  };
+}
+
+/**
+ * Resolves the effective threshold for a student
+ * @param ctx - Execution context
+ * @param threshold - Training-level threshold with any lesson type adjustments applied
+ * @param studentId - Student ID
+ * @returns Effective threshold
+ */
+export async function resolveStudentThreshold(
+  ctx: ExecutionContext,
+  threshold: EffectiveThreshold,
+  studentId: number
+): Promise<EffectiveThreshold> {
+  const minimums = await getStudentMinimums(ctx, studentId);
+  const effective = applyStudentMinimums(threshold, minimums);
+
+  if (minimums) {
+    ctx.logger.info('Personal minimums applied', {
+      studentId,
+      personalLimits: (Object.keys(effective.sources) as ThresholdField[]).filter(
+        (field) => effective.sources[field] === 'personal'
+      ),
+    });
+  }
+
+  return effective;
+}
@@ -0,0 +1,364 @@
+/**
+ * Synthetic Weather Provider
+ * Generates deterministic per-route demo forecasts when no real forecast is available
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { calculateConfidenceHorizon, getForecastWindowHours } from '../lib/weather-utils';
+import { estimateFreezingLevel, extractHazards } from '../lib/weather-hazards';
+import { CheckpointType, ForecastData, ForecastRequest, WeatherProvider } from './weather-provider';
+
+// ========================================
+// Synthetic Profiles
+// ========================================
+
+interface SyntheticCondition {
+  windSpeed: number;
+  windDirection: number;
+  gustSpeed?: number;
+  visibility: number;
+  ceiling: number | null;
+  temperature?: number; // degrees Celsius
+  altimeter?: number; // inches of mercury
+  conditions: string;
+  confidenceHorizon?: number;
+}
+
+const DEFAULT_SYNTHETIC_CONDITION: SyntheticCondition = {
+  windSpeed: 12,
+  windDirection: 300,
+  visibility: 6,
+  ceiling: 5500,
+  conditions: 'VFR - Mostly clear skies',
+  confidenceHorizon: 36,
+};
+
+const SYNTHETIC_WEATHER_PROFILES: Record<
+  string,
+  Partial<Record<CheckpointType, SyntheticCondition>>
+> = {
+  'KPAO-KSQL': {
+    departure: {
+      windSpeed: 9,
+      windDirection: 310,
+      visibility: 7,
+      ceiling: 6500,
+      conditions: 'Light winds with thin clouds',
+    },
+    arrival: {
+      windSpeed: 8,
+      windDirection: 310,
+      visibility: 7,
+      ceiling: 6000,
+      conditions: 'Calm with scattered clouds',
+    },
+    corridor: {
+      windSpeed: 11,
+      windDirection: 310,
+      visibility: 6,
+      ceiling: 5800,
+      conditions: 'Bay breeze developing',
+    },
+  },
+  'KPAO-KHAF': {
+    departure: {
+      windSpeed: 18,
+      windDirection: 280,
+      gustSpeed: 26,
+      visibility: 5.5,
+      ceiling: 4200,
+      conditions: 'Gusty crosswinds over the peninsula',
+    },
+    arrival: {
+      windSpeed: 20,
+      windDirection: 280,
+      gustSpeed: 28,
+      visibility: 5,
+      ceiling: 3500,
+      conditions: 'Marine layer with gusts along the coast',
+    },
+    corridor: {
+      windSpeed: 21,
+      windDirection: 280,
+      gustSpeed: 29,
+      visibility: 5,
+      ceiling: 3600,
+      conditions: 'Coastal turbulence and low marine layer',
+    },
+  },
+  'KMSY-KHOU': {
+    departure: {
+      windSpeed: 14,
+      windDirection: 160,
+      visibility: 2.5,
+      ceiling: 2200,
+      conditions: 'Humid morning haze with low visibilities',
+    },
+    arrival: {
+      windSpeed: 12,
+      windDirection: 160,
+      visibility: 3,
+      ceiling: 2600,
+      conditions: 'Patchy coastal fog lifting slowly',
+    },
+    corridor: {
+      windSpeed: 13,
+      windDirection: 160,
+      visibility: 2.8,
+      ceiling: 2400,
+      conditions: 'Low-level moisture along the gulf',
+    },
+  },
+  'KDEN-KASE': {
+    departure: {
+      windSpeed: 28,
+      windDirection: 270,
+      gustSpeed: 38,
+      visibility: 3,
+      ceiling: 2200,
+      temperature: -6,
+      altimeter: 29.78,
+      conditions: 'Mountain wave turbulence with blowing snow',
+    },
+    arrival: {
+      windSpeed: 26,
+      windDirection: 270,
+      gustSpeed: 36,
+      visibility: 2.5,
+      ceiling: 2000,
+      temperature: -9,
+      altimeter: 29.78,
+      conditions: 'Snow showers in valleys',
+    },
+    corridor: {
+      windSpeed: 30,
+      windDirection: 270,
+      gustSpeed: 40,
+      visibility: 2.8,
+      ceiling: 2100,
+      temperature: -12,
+      altimeter: 29.78,
+      conditions: 'Mountain pass turbulence',
+    },
+  },
+  'KSEA-KPDX': {
+    departure: {
+      windSpeed: 12,
+      windDirection: 190,
+      visibility: 4,
+      ceiling: 1200,
+      conditions: 'Low stratus deck with drizzle',
+    },
+    arrival: {
+      windSpeed: 13,
+      windDirection: 190,
+      visibility: 3.5,
+      ceiling: 1000,
+      conditions: 'IFR conditions with light rain',
+    },
+    corridor: {
+      windSpeed: 15,
+      windDirection: 190,
+      visibility: 3.8,
+      ceiling: 1100,
+      conditions: 'Columbia Gorge fog',
+    },
+  },
+  'KORD-KGRB': {
+    departure: {
+      windSpeed: 24,
+      windDirection: 310,
+      gustSpeed: 34,
+      visibility: 4.5,
+      ceiling: 2800,
+      conditions: 'Strong gusty winds off the lake',
+    },
+    arrival: {
+      windSpeed: 20,
+      windDirection: 310,
+      gustSpeed: 30,
+      visibility: 4,
+      ceiling: 2600,
+      conditions: 'Lake-effect clouds with gusty winds',
+    },
+    corridor: {
+      windSpeed: 22,
+      windDirection: 310,
+      gustSpeed: 32,
+      visibility: 4.2,
+      ceiling: 2700,
+      conditions: 'Wind shear along the corridor',
+    },
+  },
+  'KBOS-KBTV': {
+    departure: {
+      windSpeed: 16,
+      windDirection: 40,
+      visibility: 2.8,
+      ceiling: 1500,
+      temperature: -1,
+      conditions: 'Low IFR with light snow',
+    },
+    arrival: {
+      windSpeed: 14,
+      windDirection: 40,
+      visibility: 2.5,
+      ceiling: 1400,
+      temperature: -3,
+      conditions: 'Wintry mix and low clouds',
+    },
+    corridor: {
+      windSpeed: 17,
+      windDirection: 40,
+      visibility: 2.6,
+      ceiling: 1450,
+      temperature: -4,
+      conditions: 'Snow bands through interior New England',
+    },
+  },
+  'KPHX-KABQ': {
+    departure: {
+      windSpeed: 18,
+      windDirection: 250,
+      visibility: 6,
+      ceiling: null,
+      temperature: 42,
+      altimeter: 29.82,
+      conditions: 'Hot, dry thermals with light turbulence',
+    },
+    arrival: {
+      windSpeed: 16,
+      windDirection: 250,
+      visibility: 6,
+      ceiling: null,
+      temperature: 33,
+      altimeter: 29.86,
+      conditions: 'Dry heat with light mountain turbulence',
+    },
+    corridor: {
+      windSpeed: 19,
+      windDirection: 250,
+      visibility: 6,
+      ceiling: null,
+      temperature: 36,
+      altimeter: 29.84,
+      conditions: 'Thermal activity along desert corridor',
+    },
+  },
+  'PANC-PAJN': {
+    departure: {
+      windSpeed: 22,
+      windDirection: 30,
+      visibility: 2.2,
+      ceiling: 1800,
+      temperature: -8,
+      conditions: 'Freezing fog with light snow',
+    },
+    arrival: {
+      windSpeed: 18,
+      windDirection: 30,
+      visibility: 2,
+      ceiling: 1700,
+      temperature: -2,
+      conditions: 'Coastal icing conditions',
+    },
+    corridor: {
+      windSpeed: 21,
+      windDirection: 30,
+      visibility: 2.1,
+      ceiling: 1750,
+      temperature: -5,
+      conditions: 'Icing risk along the fjords',
+    },
+  },
+  'KDTW-KCLE': {
+    departure: {
+      windSpeed: 15,
+      windDirection: 280,
+      visibility: 2.2,
+      ceiling: 1900,
+      temperature: -3,
+      conditions: 'Lake-effect snow reducing visibility',
+    },
+    arrival: {
+      windSpeed: 14,
+      windDirection: 280,
+      visibility: 2.5,
+      ceiling: 1700,
+      temperature: -2,
+      conditions: 'Snow showers with low ceilings',
+    },
+    corridor: {
+      windSpeed: 16,
+      windDirection: 280,
+      visibility: 2.3,
+      ceiling: 1800,
+      temperature: -3,
+      conditions: 'Snow squalls across Lake Erie',
+    },
+  },
+};
+
+// ========================================
+// Provider Implementation
+// ========================================
+
+/**
+ * Generates synthetic forecasts for each hour of the requested window
+ * Profiles are keyed by route ("DEP-ARR") and checkpoint type; routes without a
+ * profile fall back to a benign VFR default
+ * @param ctx - Execution context
+ * @param request - Forecast request (route and checkpoint type hints select the profile)
+ * @returns Synthetic forecast data
+ */
+async function fetchForecast(
+  ctx: ExecutionContext,
+  request: ForecastRequest
+): Promise<ForecastData[]> {
+  const profileKey = request.hints?.route ?? '';
+  const checkpointType: CheckpointType = request.hints?.checkpointType ?? 'departure';
+  const profile = SYNTHETIC_WEATHER_PROFILES[profileKey];
+  const baseCondition =
+    profile?.[checkpointType] ??
+    (checkpointType !== 'departure' ? profile?.departure : undefined) ??
+    DEFAULT_SYNTHETIC_CONDITION;
+
+  ctx.logger.info('Using synthetic weather data', {
+    checkpointType,
+    profileKey,
+    location: request.location,
+  });
+
+  const temperature = baseCondition.temperature ?? null;
+  const freezingLevel = estimateFreezingLevel(temperature);
+  const hazards = extractHazards({
+    conditions: baseCondition.conditions,
+    freezingLevel,
+    ceiling: baseCondition.ceiling,
+  });
+
+  return getForecastWindowHours(request.windowStart, request.windowEnd).map((forecastTime) => ({
+    location: request.location,
+    forecastTime,
+    windSpeed: baseCondition.windSpeed,
+    windDirection: baseCondition.windDirection,
+    gustSpeed: baseCondition.gustSpeed ?? null,
+    visibility: baseCondition.visibility,
+    ceiling: baseCondition.ceiling,
+    conditions: baseCondition.conditions,
+    temperature,
+    altimeter: baseCondition.altimeter ?? null,
+    freezingLevel,
+    hazards,
+    confidenceHorizon:
+      baseCondition.confidenceHorizon ??
+      calculateConfidenceHorizon(forecastTime),
+    provider: 'synthetic',
+  }));
+}
+
+export const syntheticWeatherProvider: WeatherProvider = {
+  name: 'synthetic',
+  isRealForecast: false,
+  fetchForecast,
+};
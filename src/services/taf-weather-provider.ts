@@ -0,0 +1,292 @@
+/**
+ * TAF Weather Provider
+ * Builds forecast data from raw METAR/TAF reports instead of WeatherAPI.com
+ *
+ * Reports are read from aviationweather.gov (TAF_SOURCE=aviationweather, default)
+ * or from bundled fixtures (TAF_SOURCE=fixtures) for local development and tests.
+ * Ceilings come from decoded BKN/OVC/VV layers rather than cloud-cover estimates.
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { calculateConfidenceHorizon, getForecastWindowHours } from '../lib/weather-utils';
+import {
+  DecodedConditions,
+  DecodedMetar,
+  DecodedTaf,
+  UNRESTRICTED_VISIBILITY_SM,
+  describeConditions,
+  getCeiling,
+  isWithinTafValidity,
+  parseMetar,
+  parseTaf,
+  resolveTafConditions,
+  shiftTaf,
+} from '../lib/taf-parser';
+import { estimateFreezingLevel, extractHazards } from '../lib/weather-hazards';
+import { FIXTURE_REFERENCE_DAY, TAF_FIXTURES } from '../data/taf-fixtures';
+import { ForecastData, ForecastRequest, WeatherProvider } from './weather-provider';
+
+// ========================================
+// Constants
+// ========================================
+
+const AVIATION_WEATHER_ENDPOINT = 'https://aviationweather.gov/api/data';
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+/** Requests within this many hours of now use the latest METAR instead of the TAF */
+const METAR_WINDOW_HOURS = 1;
+
+/** Reference date used to decode fixture reports before re-anchoring */
+const FIXTURE_REFERENCE_DATE = new Date(Date.UTC(2000, 0, FIXTURE_REFERENCE_DAY));
+
+export type TafSource = 'aviationweather' | 'fixtures';
+
+// ========================================
+// Report Retrieval
+// ========================================
+
+/**
+ * Determines the configured report source
+ * @param ctx - Execution context
+ * @returns Report source
+ */
+export function getTafSource(ctx: ExecutionContext): TafSource {
+  return ctx.env.TAF_SOURCE === 'fixtures' ? 'fixtures' : 'aviationweather';
+}
+
+/**
+ * Fetches a raw report from aviationweather.gov
+ * @param ctx - Execution context
+ * @param product - Report type
+ * @param location - Station ICAO code
+ * @returns Raw report text, or null if the station has no report
+ */
+async function fetchRawReport(
+  ctx: ExecutionContext,
+  product: 'taf' | 'metar',
+  location: string
+): Promise<string | null> {
+  const url = new URL(`${AVIATION_WEATHER_ENDPOINT}/${product}`);
+  url.searchParams.set('ids', location);
+  url.searchParams.set('format', 'raw');
+
+  ctx.logger.info('Aviation weather request started', { location, product });
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  // 204 No Content is returned for stations without a current report
+  if (response.status === 204) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Aviation weather API returned ${response.status}: ${response.statusText}`);
+  }
+
+  const text = (await response.text()).trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Retrieves and decodes the TAF covering a forecast time
+ * Fixture TAFs are shifted so their validity starts at 00Z on the requested day
+ * @param ctx - Execution context
+ * @param location - Station ICAO code
+ * @param forecastTime - Requested forecast time
+ * @returns Decoded TAF
+ * @throws Error if no TAF is available for the station
+ */
+async function getTaf(
+  ctx: ExecutionContext,
+  location: string,
+  forecastTime: Date
+): Promise<DecodedTaf> {
+  if (getTafSource(ctx) === 'fixtures') {
+    const fixture = TAF_FIXTURES[location];
+    if (!fixture) {
+      throw new Error(`No TAF fixture for ${location}`);
+    }
+
+    const taf = parseTaf(fixture.taf, FIXTURE_REFERENCE_DATE);
+    const dayStart = Date.UTC(
+      forecastTime.getUTCFullYear(),
+      forecastTime.getUTCMonth(),
+      forecastTime.getUTCDate()
+    );
+    return shiftTaf(taf, dayStart - taf.validFrom.getTime());
+  }
+
+  const raw = await fetchRawReport(ctx, 'taf', location);
+  if (!raw) {
+    throw new Error(`No TAF available for ${location}`);
+  }
+  return parseTaf(raw);
+}
+
+/**
+ * Retrieves and decodes the latest METAR for a station
+ * Fixture METARs are re-anchored to the current time
+ * @param ctx - Execution context
+ * @param location - Station ICAO code
+ * @returns Decoded METAR, or null if none is available
+ */
+async function getMetar(ctx: ExecutionContext, location: string): Promise<DecodedMetar | null> {
+  if (getTafSource(ctx) === 'fixtures') {
+    const raw = TAF_FIXTURES[location]?.metar;
+    if (!raw) {
+      return null;
+    }
+    return { ...parseMetar(raw, FIXTURE_REFERENCE_DATE), observationTime: new Date() };
+  }
+
+  const raw = await fetchRawReport(ctx, 'metar', location);
+  // The endpoint may return several observations; the first line is the latest
+  const latest = raw?.split('\n')[0];
+  return latest ? parseMetar(latest) : null;
+}
+
+// ========================================
+// Forecast Mapping
+// ========================================
+
+/**
+ * Maps decoded conditions to our ForecastData schema
+ * @param location - Station ICAO code
+ * @param forecastTime - ISO 8601 forecast time
+ * @param conditions - Decoded conditions
+ * @param source - Short description of the report used
+ * @param metar - Observation supplying temperature and altimeter (TAFs carry neither)
+ * @returns Forecast data
+ */
+function mapDecodedConditions(
+  location: string,
+  forecastTime: string,
+  conditions: DecodedConditions,
+  source: string,
+  metar: DecodedMetar | null
+): ForecastData {
+  const temperature = metar?.temperature ?? null;
+  const description = describeConditions(conditions);
+  const ceiling = getCeiling(conditions.clouds);
+  const freezingLevel = estimateFreezingLevel(temperature);
+
+  return {
+    location,
+    forecastTime,
+    windSpeed: conditions.wind?.speed ?? 0,
+    windDirection: conditions.wind?.direction ?? null,
+    gustSpeed: conditions.wind?.gust ?? null,
+    visibility: conditions.visibility ?? UNRESTRICTED_VISIBILITY_SM,
+    ceiling,
+    conditions: `${description} (${source})`,
+    temperature,
+    altimeter: metar?.altimeter ?? null,
+    freezingLevel,
+    hazards: extractHazards({
+      conditions: description,
+      weatherGroups: conditions.weather,
+      freezingLevel,
+      ceiling,
+    }),
+    confidenceHorizon: calculateConfidenceHorizon(forecastTime),
+    etag: null,
+    provider: 'taf',
+  };
+}
+
+// ========================================
+// Provider Implementation
+// ========================================
+
+/**
+ * Fetches forecasts for each hour of a window from METAR/TAF reports
+ * Hours near the present use the latest METAR; other hours resolve the TAF,
+ * folding active TEMPO/PROB groups into a worst-case picture. Hours outside the
+ * TAF validity period (typically 24-30 hours from issue) are left out, so callers
+ * fall back to other sources for them.
+ * @param ctx - Execution context
+ * @param request - Forecast request
+ * @returns Forecast data ordered by forecast time
+ * @throws Error if no report covers any hour of the requested window
+ */
+async function fetchForecast(
+  ctx: ExecutionContext,
+  request: ForecastRequest
+): Promise<ForecastData[]> {
+  const { location } = request;
+
+  try {
+    const forecasts: ForecastData[] = [];
+    let metar: DecodedMetar | null | undefined;
+    let taf: DecodedTaf | undefined;
+    let hoursOutsideTaf = 0;
+
+    for (const forecastTime of getForecastWindowHours(request.windowStart, request.windowEnd)) {
+      const time = new Date(forecastTime);
+      const hoursFromNow = Math.abs(time.getTime() - Date.now()) / (1000 * 60 * 60);
+
+      if (hoursFromNow <= METAR_WINDOW_HOURS) {
+        if (metar === undefined) {
+          metar = await getMetar(ctx, location);
+        }
+        if (metar) {
+          forecasts.push(mapDecodedConditions(location, forecastTime, metar.conditions, 'METAR', metar));
+          continue;
+        }
+      }
+
+      // Fixture TAFs are anchored to the requested day, so re-read them when the day changes;
+      // the live TAF is the latest issued, so re-reading it cannot extend its validity
+      if (!taf || (getTafSource(ctx) === 'fixtures' && !isWithinTafValidity(taf, time))) {
+        taf = await getTaf(ctx, location, time);
+      }
+
+      if (!isWithinTafValidity(taf, time)) {
+        hoursOutsideTaf++;
+        continue;
+      }
+
+      const resolved = resolveTafConditions(taf, time);
+      const temporary = resolved.temporaryGroups.map((group) =>
+        group.type === 'PROB' ? `PROB${group.probability}` : group.type
+      );
+      const source = temporary.length > 0 ? `TAF incl. ${temporary.join('/')}` : 'TAF';
+      forecasts.push(mapDecodedConditions(location, forecastTime, resolved.worstCase, source, null));
+    }
+
+    if (forecasts.length === 0) {
+      throw new Error(
+        `No TAF for ${location} covers ${request.windowStart} - ${request.windowEnd}` +
+          (taf ? ` (valid ${taf.validFrom.toISOString()} - ${taf.validTo.toISOString()})` : '')
+      );
+    }
+
+    ctx.logger.info('TAF forecast resolved', {
+      location,
+      source: getTafSource(ctx),
+      count: forecasts.length,
+      hoursOutsideTaf,
+      usedMetar: !!metar,
+    });
+
+    return forecasts;
+  } catch (error) {
+    ctx.logger.error('TAF forecast retrieval failed', {
+      location,
+      windowStart: request.windowStart,
+      windowEnd: request.windowEnd,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw error;
+  }
+}
+
+export const tafWeatherProvider: WeatherProvider = {
+  name: 'taf',
+  isRealForecast: true,
+  fetchForecast,
+};
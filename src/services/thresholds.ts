@@ -1,10 +1,41 @@
 /**
  * Thresholds Service
  * Loads and manages training-level weather thresholds
+ *
+ * training_thresholds holds each organization's current set for each level. Every
+ * update writes the complete new set to threshold_versions with who changed it and why,
+ * so any past classification can be traced back to the exact limits it used.
  */
 
 import { ExecutionContext } from '../lib/logger';
-import { createClient, getAllTrainingThresholds, getThresholdByLevel, TrainingThreshold } from '../db/client';
+import {
+  createClient,
+  getAllTrainingThresholds,
+  getThresholdByLevel,
+  prepareQuery,
+  prepareQueryOne,
+  transaction,
+  TrainingThreshold,
+  ThresholdVersion,
+} from '../db/client';
+import { parseHazards } from '../lib/weather-hazards';
+import {
+  GetThresholdHistoryRequest,
+  ThresholdSetDetail,
+  ThresholdVersionDetail,
+  UpdateThresholdsRequest,
+  UpdateThresholdsResponse,
+} from '../rpc/schema';
+
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// ========================================
+// Type Definitions
+// ========================================
 
 export interface LoadThresholdsRequest {
   trainingLevel?: 'student' | 'private' | 'instrument';
@@ -14,6 +45,10 @@ export interface LoadThresholdsResponse {
   thresholds: TrainingThreshold[];
 }
 
+// ========================================
+// Threshold Loading
+// ========================================
+
 /**
  * Loads weather thresholds from the database
  * @param ctx - Execution context with correlation ID and logger
@@ -32,12 +67,12 @@ export async function loadThresholds(
     let result: LoadThresholdsResponse;
 
     if (request.trainingLevel) {
-      const threshold = await getThresholdByLevel(client, request.trainingLevel);
+      const threshold = await getThresholdByLevel(client, ctx.organizationId, request.trainingLevel);
       result = {
         thresholds: threshold ? [threshold] : [],
       };
     } else {
-      const thresholds = await getAllTrainingThresholds(client);
+      const thresholds = await getAllTrainingThresholds(client, ctx.organizationId);
       result = {
         thresholds,
       };
@@ -53,3 +88,240 @@ export async function loadThresholds(
     throw new Error(`Failed to load thresholds: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+// ========================================
+// Mapping
+// ========================================
+
+/**
+ * Maps a training threshold row to its RPC shape
+ */
+function mapThresholdRow(row: TrainingThreshold): ThresholdSetDetail {
+  return {
+    trainingLevel: row.training_level,
+    version: row.version,
+    maxWindSpeed: row.max_wind_speed,
+    minVisibility: row.min_visibility,
+    minCeiling: row.min_ceiling,
+    maxCrosswind: row.max_crosswind,
+    maxGustFactor: row.max_gust_factor,
+    prohibitedHazards: parseHazards(row.prohibited_hazards),
+    daylightRule: row.daylight_rule,
+    description: row.description,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps a threshold version row to its RPC shape
+ */
+function mapVersionRow(row: ThresholdVersion): ThresholdVersionDetail {
+  return {
+    id: row.id,
+    trainingLevel: row.training_level,
+    version: row.version,
+    maxWindSpeed: row.max_wind_speed,
+    minVisibility: row.min_visibility,
+    minCeiling: row.min_ceiling,
+    maxCrosswind: row.max_crosswind,
+    maxGustFactor: row.max_gust_factor,
+    prohibitedHazards: parseHazards(row.prohibited_hazards),
+    daylightRule: row.daylight_rule,
+    description: row.description,
+    changedBy: row.changed_by,
+    changeReason: row.change_reason,
+    createdAt: row.created_at,
+  };
+}
+
+// ========================================
+// Threshold Management
+// ========================================
+
+/**
+ * Lists the current threshold set for every training level
+ * @param ctx - Execution context
+ * @returns Current threshold sets
+ */
+export async function listThresholdSets(ctx: ExecutionContext): Promise<ThresholdSetDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const rows = await getAllTrainingThresholds(client, ctx.organizationId);
+  return rows.map(mapThresholdRow);
+}
+
+/**
+ * Updates a training level's thresholds as a new version
+ * The version row and the current set are written in one batch; the unique
+ * (organization_id, training_level, version) constraint rejects a concurrent update of the same version.
+ * @param ctx - Execution context
+ * @param request - Training level, changed limits, author and reason
+ * @returns New current threshold set and its version row ID
+ * @throws Error if the level does not exist or no limit changes
+ */
+export async function updateThresholds(
+  ctx: ExecutionContext,
+  request: UpdateThresholdsRequest
+): Promise<UpdateThresholdsResponse> {
+  ctx.logger.info('Update thresholds started', {
+    trainingLevel: request.trainingLevel,
+    changedBy: request.changedBy,
+  });
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const current = await getThresholdByLevel(client, ctx.organizationId, request.trainingLevel);
+  if (!current) {
+    throw new Error(`Training threshold not found for level: ${request.trainingLevel}`);
+  }
+
+  const now = new Date().toISOString();
+  const updated: TrainingThreshold = {
+    ...current,
+    max_wind_speed: request.maxWindSpeed ?? current.max_wind_speed,
+    min_visibility: request.minVisibility ?? current.min_visibility,
+    min_ceiling: request.minCeiling ?? current.min_ceiling,
+    max_crosswind: request.maxCrosswind ?? current.max_crosswind,
+    max_gust_factor: request.maxGustFactor ?? current.max_gust_factor,
+    prohibited_hazards: request.prohibitedHazards
+      ? JSON.stringify(request.prohibitedHazards)
+      : current.prohibited_hazards,
+    daylight_rule: request.daylightRule ?? current.daylight_rule,
+    description: request.description !== undefined ? request.description : current.description,
+    version: current.version + 1,
+    updated_at: now,
+  };
+
+  const changedFields = (
+    [
+      'max_wind_speed',
+      'min_visibility',
+      'min_ceiling',
+      'max_crosswind',
+      'max_gust_factor',
+      'prohibited_hazards',
+      'daylight_rule',
+      'description',
+    ] as const
+  ).filter((field) => updated[field] !== current[field]);
+
+  if (changedFields.length === 0) {
+    throw new Error('No threshold changes provided');
+  }
+
+  try {
+    const results = await transaction(client, [
+      client.db
+        .prepare(
+          `INSERT INTO threshold_versions (
+            organization_id, training_level, version, max_wind_speed, min_visibility, min_ceiling,
+            max_crosswind, max_gust_factor, prohibited_hazards, daylight_rule, description,
+            changed_by, change_reason, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          updated.organization_id,
+          updated.training_level,
+          updated.version,
+          updated.max_wind_speed,
+          updated.min_visibility,
+          updated.min_ceiling,
+          updated.max_crosswind,
+          updated.max_gust_factor,
+          updated.prohibited_hazards,
+          updated.daylight_rule,
+          updated.description,
+          request.changedBy,
+          request.reason,
+          now
+        ),
+      client.db
+        .prepare(
+          `UPDATE training_thresholds
+           SET max_wind_speed = ?, min_visibility = ?, min_ceiling = ?, max_crosswind = ?,
+               max_gust_factor = ?, prohibited_hazards = ?, daylight_rule = ?, description = ?,
+               version = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .bind(
+          updated.max_wind_speed,
+          updated.min_visibility,
+          updated.min_ceiling,
+          updated.max_crosswind,
+          updated.max_gust_factor,
+          updated.prohibited_hazards,
+          updated.daylight_rule,
+          updated.description,
+          updated.version,
+          now,
+          updated.id
+        ),
+    ]);
+
+    const versionId = results[0]?.meta.last_row_id as number;
+
+    ctx.logger.info('Update thresholds completed', {
+      trainingLevel: updated.training_level,
+      version: updated.version,
+      versionId,
+      changedFields,
+      changedBy: request.changedBy,
+      reason: request.reason,
+    });
+
+    return { threshold: mapThresholdRow(updated), versionId };
+  } catch (error) {
+    ctx.logger.error('Update thresholds failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw new Error(`Failed to update thresholds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Retrieves threshold version history
+ * @param ctx - Execution context
+ * @param request - Optional training level and result limit
+ * @returns Versions, newest first
+ */
+export async function getThresholdHistory(
+  ctx: ExecutionContext,
+  request: GetThresholdHistoryRequest
+): Promise<ThresholdVersionDetail[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const limit = request.limit ?? DEFAULT_HISTORY_LIMIT;
+
+  const rows = request.trainingLevel
+    ? await prepareQuery<ThresholdVersion>(
+        client,
+        `SELECT * FROM threshold_versions
+         WHERE organization_id = ? AND training_level = ?
+         ORDER BY version DESC LIMIT ?`,
+        [ctx.organizationId, request.trainingLevel, limit]
+      )
+    : await prepareQuery<ThresholdVersion>(
+        client,
+        `SELECT * FROM threshold_versions WHERE organization_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`,
+        [ctx.organizationId, limit]
+      );
+
+  return rows.map(mapVersionRow);
+}
+
+/**
+ * Retrieves the version row for a training level's current thresholds
+ * @param ctx - Execution context
+ * @param threshold - Current training threshold
+ * @returns Version row ID, or null if the version was never recorded
+ */
+export async function getCurrentVersionId(
+  ctx: ExecutionContext,
+  threshold: TrainingThreshold
+): Promise<number | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const row = await prepareQueryOne<{ id: number }>(
+    client,
+    `SELECT id FROM threshold_versions WHERE organization_id = ? AND training_level = ? AND version = ?`,
+    [threshold.organization_id, threshold.training_level, threshold.version]
+  );
+  return row?.id ?? null;
+}
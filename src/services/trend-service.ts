@@ -0,0 +1,177 @@
+/**
+ * Trend Service
+ * Labels how the forecast for each flight checkpoint is evolving across polls
+ *
+ * Every poll appends a snapshot per checkpoint. The trend is the least-squares
+ * rate of change of each metric over the most recent snapshots, measured per hour
+ * of poll time (created_at). A metric whose rate stays within its stable band is
+ * stable; otherwise it is improving or deteriorating depending on which way it moves
+ * relative to flight safety (rising wind, falling visibility or ceiling deteriorate).
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { createClient, prepareQuery, WeatherSnapshot } from '../db/client';
+import { CheckpointTrend, MetricTrend, TrendDirection } from '../rpc/schema';
+
+// ========================================
+// Constants
+// ========================================
+
+/**
+ * Number of most recent snapshots per checkpoint used for the trend
+ */
+const TREND_WINDOW = 6;
+
+/**
+ * Unlimited (NULL) ceilings are treated as this height so rates stay finite
+ */
+const UNLIMITED_CEILING_FT = 12000;
+
+/**
+ * Rates (per hour) at or below which a metric is considered stable
+ */
+const STABLE_RATE = {
+  windSpeed: 1, // knots per hour
+  visibility: 0.5, // statute miles per hour
+  ceiling: 200, // feet per hour
+};
+
+// ========================================
+// Trend Analysis
+// ========================================
+
+/**
+ * Calculates the least-squares slope of a series
+ * @param points - [x, y] pairs
+ * @returns Slope, or 0 if x does not vary
+ */
+function calculateSlope(points: [number, number][]): number {
+  const n = points.length;
+  if (n < 2) {
+    return 0;
+  }
+
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  for (const [x, y] of points) {
+    numerator += (x - meanX) * (y - meanY);
+    denominator += (x - meanX) ** 2;
+  }
+
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Builds the trend for one metric
+ * @param rate - Rate of change per hour
+ * @param stableRate - Largest rate still considered stable
+ * @param higherIsWorse - True for wind, false for visibility and ceiling
+ */
+function toMetricTrend(rate: number, stableRate: number, higherIsWorse: boolean): MetricTrend {
+  const ratePerHour = Math.round(rate * 100) / 100;
+  let direction: TrendDirection = 'stable';
+  if (Math.abs(rate) > stableRate) {
+    direction = rate > 0 === higherIsWorse ? 'deteriorating' : 'improving';
+  }
+  return { ratePerHour, direction };
+}
+
+/**
+ * Analyzes the forecast trend for a single checkpoint
+ * @param checkpointType - Checkpoint the snapshots belong to
+ * @param snapshots - Snapshots for the checkpoint, in any order
+ * @returns Checkpoint trend; fewer than two snapshots are reported as stable
+ */
+export function analyzeTrend(
+  checkpointType: CheckpointTrend['checkpointType'],
+  snapshots: WeatherSnapshot[]
+): CheckpointTrend {
+  const series = [...snapshots]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .slice(-TREND_WINDOW);
+
+  const origin = series.length > 0 ? new Date(series[0]!.created_at).getTime() : 0;
+  const hours = series.map(
+    (snapshot) => (new Date(snapshot.created_at).getTime() - origin) / (1000 * 60 * 60)
+  );
+  const slopeOf = (value: (snapshot: WeatherSnapshot) => number) =>
+    calculateSlope(series.map((snapshot, i) => [hours[i] ?? 0, value(snapshot)]));
+
+  const windSpeed = toMetricTrend(
+    slopeOf((s) => Math.max(s.wind_speed, s.gust_speed ?? 0)),
+    STABLE_RATE.windSpeed,
+    true
+  );
+  const visibility = toMetricTrend(
+    slopeOf((s) => s.visibility),
+    STABLE_RATE.visibility,
+    false
+  );
+  const ceiling = toMetricTrend(
+    slopeOf((s) => s.ceiling ?? UNLIMITED_CEILING_FT),
+    STABLE_RATE.ceiling,
+    false
+  );
+
+  const directions = [windSpeed.direction, visibility.direction, ceiling.direction];
+  const direction: TrendDirection = directions.includes('deteriorating')
+    ? 'deteriorating'
+    : directions.includes('improving')
+      ? 'improving'
+      : 'stable';
+
+  return {
+    checkpointType,
+    direction,
+    sampleCount: series.length,
+    windSpeed,
+    visibility,
+    ceiling,
+  };
+}
+
+// ========================================
+// Trend Retrieval
+// ========================================
+
+/**
+ * Retrieves forecast trends for every checkpoint of a flight
+ * @param ctx - Execution context
+ * @param flightId - Flight ID
+ * @returns Trends for checkpoints that have at least one snapshot
+ */
+export async function getCheckpointTrends(
+  ctx: ExecutionContext,
+  flightId: number
+): Promise<CheckpointTrend[]> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  // Latest TREND_WINDOW snapshots per checkpoint
+  const snapshots = await prepareQuery<WeatherSnapshot>(
+    client,
+    `SELECT * FROM (
+       SELECT ws.*,
+         ROW_NUMBER() OVER (PARTITION BY checkpoint_type ORDER BY created_at DESC) AS recency
+       FROM weather_snapshots ws
+       WHERE ws.flight_id = ?
+     )
+     WHERE recency <= ?`,
+    [flightId, TREND_WINDOW]
+  );
+
+  const trends = (['departure', 'arrival', 'corridor'] as const)
+    .map((checkpointType) => {
+      const series = snapshots.filter((s) => s.checkpoint_type === checkpointType);
+      return series.length > 0 ? analyzeTrend(checkpointType, series) : null;
+    })
+    .filter((trend): trend is CheckpointTrend => trend !== null);
+
+  ctx.logger.info('Checkpoint trends analyzed', {
+    flightId,
+    trends: trends.map((t) => `${t.checkpointType}:${t.direction}`),
+  });
+
+  return trends;
+}
@@ -0,0 +1,119 @@
+/**
+ * Weather Provider
+ * Common interface for forecast sources and configuration-based provider selection
+ *
+ * Providers:
+ * - weatherapi: WeatherAPI.com hourly forecasts (requires WEATHER_API_KEY)
+ * - taf: decoded METAR/TAF reports (aviationweather.gov or bundled fixtures)
+ * - fixture: static JSON fixtures in src/data/weather-fixtures.json
+ * - synthetic: per-route demo profiles, used when no real forecast is available
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { Coordinates } from '../lib/geo';
+import { HazardType } from '../lib/weather-hazards';
+import { weatherApiProvider } from './weatherapi-provider';
+import { tafWeatherProvider } from './taf-weather-provider';
+import { fixtureWeatherProvider } from './fixture-weather-provider';
+import { syntheticWeatherProvider } from './synthetic-weather-provider';
+
+// ========================================
+// Type Definitions
+// ========================================
+
+export type WeatherProviderName = 'weatherapi' | 'taf' | 'fixture' | 'synthetic';
+
+export type CheckpointType = 'departure' | 'arrival' | 'corridor';
+
+/**
+ * Parsed forecast data mapped to our schema
+ */
+export interface ForecastData {
+  location: string;
+  forecastTime: string; // ISO 8601
+  windSpeed: number; // knots
+  windDirection?: number | null; // degrees true, null if variable or not reported
+  gustSpeed?: number | null; // knots, when reported by the provider
+  visibility: number; // statute miles
+  ceiling: number | null; // feet AGL
+  conditions: string;
+  temperature?: number | null; // degrees Celsius at the surface, when reported
+  altimeter?: number | null; // inches of mercury, when reported
+  freezingLevel?: number | null; // feet AGL, estimated from temperature when not reported
+  hazards?: HazardType[]; // convective, icing and precipitation hazards
+  confidenceHorizon: number; // hours
+  etag?: string | null; // ETag from API response for caching
+  provider: WeatherProviderName; // provenance of the forecast
+}
+
+/**
+ * Forecast request for a location over a time window
+ * A point-in-time request uses the same value for windowStart and windowEnd
+ */
+export interface ForecastRequest {
+  location: string; // Airport ICAO code
+  windowStart: string; // ISO 8601
+  windowEnd: string; // ISO 8601
+  coordinates?: Coordinates; // exact point for en-route samples; location is then the nearest station
+  hints?: {
+    route?: string; // "DEP-ARR", used by the synthetic provider to pick a profile
+    checkpointType?: CheckpointType;
+  };
+}
+
+/**
+ * Forecast source
+ */
+export interface WeatherProvider {
+  name: WeatherProviderName;
+  /** True if the provider produces real forecasts rather than demo data */
+  isRealForecast: boolean;
+  /**
+   * Fetches forecasts covering the requested window, ordered by forecast time
+   * @throws Error if the provider cannot produce a forecast for the request
+   */
+  fetchForecast(ctx: ExecutionContext, request: ForecastRequest): Promise<ForecastData[]>;
+}
+
+// ========================================
+// Provider Selection
+// ========================================
+
+const PROVIDERS: Record<WeatherProviderName, WeatherProvider> = {
+  weatherapi: weatherApiProvider,
+  taf: tafWeatherProvider,
+  fixture: fixtureWeatherProvider,
+  synthetic: syntheticWeatherProvider,
+};
+
+/**
+ * Resolves the configured forecast provider
+ * WEATHER_PROVIDER selects the provider explicitly; otherwise WeatherAPI.com is used
+ * when WEATHER_API_KEY is set and synthetic data when it is not
+ * @param ctx - Execution context
+ * @returns Weather provider
+ */
+export function getWeatherProvider(ctx: ExecutionContext): WeatherProvider {
+  const configured = ctx.env.WEATHER_PROVIDER as WeatherProviderName | undefined;
+
+  if (configured && configured in PROVIDERS) {
+    if (configured === 'weatherapi' && !ctx.env.WEATHER_API_KEY) {
+      ctx.logger.warn('WEATHER_PROVIDER is weatherapi but WEATHER_API_KEY is not set, using synthetic data');
+      return syntheticWeatherProvider;
+    }
+    return PROVIDERS[configured];
+  }
+
+  if (configured) {
+    ctx.logger.warn('Unknown WEATHER_PROVIDER, using default provider', { configured });
+  }
+
+  return ctx.env.WEATHER_API_KEY ? weatherApiProvider : syntheticWeatherProvider;
+}
+
+/**
+ * Returns the synthetic provider used as the last-resort fallback
+ */
+export function getFallbackProvider(): WeatherProvider {
+  return syntheticWeatherProvider;
+}
@@ -4,92 +4,81 @@
  */
 
 import { ExecutionContext } from '../lib/logger';
-import { WeatherPollRequest, WeatherPollResponse } from '../rpc/schema';
-import { createClient, prepareExec, prepareQuery, prepareQueryOne, Flight, WeatherSnapshot } from '../db/client';
+import {
+  AirportDetail,
+  CheckpointTrend,
+  WeatherPollRequest,
+  WeatherPollResponse,
+} from '../rpc/schema';
+import {
+  createClient,
+  prepareExec,
+  prepareQuery,
+  prepareQueryOne,
+  Flight,
+  WeatherSnapshot,
+  CorridorWaypoint,
+} from '../db/client';
 import * as classificationService from './classification-service';
+import {
+  CheckpointType,
+  ForecastData,
+  WeatherProvider,
+  getFallbackProvider,
+  getWeatherProvider,
+} from './weather-provider';
+import { formatCoordinates, sampleRouteWaypoints } from '../lib/geo';
+import { getFlightCategory } from '../lib/taf-parser';
+import { selectBestRunway } from '../lib/crosswind';
+import { parseHazards } from '../lib/weather-hazards';
+import { calculateDensityAltitude } from '../lib/density-altitude';
+import { findNearestAirport, getAirportMap, toCoordinates } from './airport-service';
+import { ForecastCache, createForecastCache } from './forecast-cache';
+import { getCheckpointTrends } from './trend-service';
+import { getSettings } from './settings-service';
 
 // ========================================
 // Constants
 // ========================================
 
-const WEATHER_API_ENDPOINT = 'https://api.weatherapi.com/v1/forecast.json';
-const REQUEST_TIMEOUT = 10000; // 10 seconds
-
-const RETRY_CONFIG = {
-  maxRetries: 3,
-  baseDelay: 2000, // 2 seconds
-  maxDelay: 8000, // 8 seconds
-};
+/**
+ * Number of interior waypoints sampled along the departure-arrival great circle
+ */
+const CORRIDOR_WAYPOINT_COUNT = 3;
 
 // ========================================
 // Type Definitions
 // ========================================
 
 /**
- * WeatherAPI.com request parameters
+ * Forecast for a single waypoint along the route corridor
  */
-export interface WeatherApiRequest {
-  location: string; // Airport ICAO code or lat,lon
-  datetime: string; // ISO 8601 datetime
-  fields?: string[]; // Optional fields filter
+export interface CorridorWaypointWeather extends ForecastData {
+  sequence: number; // 1-based, ordered from departure
+  latitude: number;
+  longitude: number;
+  distanceNm: number; // distance from departure airport
+  nearestAirport: string | null;
+  isWorst: boolean;
 }
 
 /**
- * WeatherAPI.com JSON response structure
+ * Forecast for a checkpoint; corridor checkpoints carry their sampled waypoints
  */
-export interface WeatherApiResponse {
-  location: {
-    name: string;
-    region: string;
-    country: string;
-    lat: number;
-    lon: number;
-  };
-  forecast: {
-    forecastday: Array<{
-      date: string; // YYYY-MM-DD
-      hour: Array<{
-        time_epoch: number;
-        time: string; // ISO 8601
-        temp_f: number;
-        condition: {
-          text: string;
-          code: number;
-        };
-        wind_mph: number;
-        wind_kph: number;
-        wind_degree: number;
-        wind_dir: string;
-        precip_in: number;
-        humidity: number;
-        cloud: number;
-        vis_miles: number;
-        gust_mph: number;
-      }>;
-    }>;
-  };
-}
-
-/**
- * Parsed forecast data mapped to our schema
- */
-export interface ForecastData {
-  location: string;
-  forecastTime: string; // ISO 8601
-  windSpeed: number; // knots
-  visibility: number; // statute miles
-  ceiling: number | null; // feet AGL
-  conditions: string;
-  confidenceHorizon: number; // hours
-  etag?: string | null; // ETag from API response for caching
+export interface CheckpointForecast extends ForecastData {
+  waypoints?: CorridorWaypointWeather[];
 }
 
 /**
  * Weather data for a specific flight checkpoint
  */
-export interface CheckpointWeather extends ForecastData {
+export interface CheckpointWeather extends CheckpointForecast {
   checkpointType: 'departure' | 'arrival' | 'corridor';
   flightId: number;
+  runway: string | null; // best runway designator (null for corridor/unknown)
+  crosswindComponent: number | null; // knots on best runway (null for corridor)
+  headwindComponent: number | null; // knots on best runway (null for corridor)
+  densityAltitude: number | null; // feet at the airport (null for corridor or without temperature)
 }
 
 /**
@@ -101,509 +90,149 @@ export interface CachedWeatherData {
   staleHours: number;
 }
 
-type CheckpointType = 'departure' | 'arrival' | 'corridor';
-
-interface SyntheticCondition {
-  windSpeed: number;
-  visibility: number;
-  ceiling: number | null;
-  conditions: string;
-  confidenceHorizon?: number;
-}
-
-const DEFAULT_SYNTHETIC_CONDITION: SyntheticCondition = {
-  windSpeed: 12,
-  visibility: 6,
-  ceiling: 5500,
-  conditions: 'VFR - Mostly clear skies',
-  confidenceHorizon: 36,
-};
-
-const SYNTHETIC_WEATHER_PROFILES: Record<
-  string,
-  Partial<Record<CheckpointType, SyntheticCondition>>
-> = {
-  'KPAO-KSQL': {
-    departure: {
-      windSpeed: 9,
-      visibility: 7,
-      ceiling: 6500,
-      conditions: 'Light winds with thin clouds',
-    },
-    arrival: {
-      windSpeed: 8,
-      visibility: 7,
-      ceiling: 6000,
-      conditions: 'Calm with scattered clouds',
-    },
-    corridor: {
-      windSpeed: 11,
-      visibility: 6,
-      ceiling: 5800,
-      conditions: 'Bay breeze developing',
-    },
-  },
-  'KPAO-KHAF': {
-    departure: {
-      windSpeed: 18,
-      visibility: 5.5,
-      ceiling: 4200,
-      conditions: 'Gusty crosswinds over the peninsula',
-    },
-    arrival: {
-      windSpeed: 20,
-      visibility: 5,
-      ceiling: 3500,
-      conditions: 'Marine layer with gusts along the coast',
-    },
-    corridor: {
-      windSpeed: 21,
-      visibility: 5,
-      ceiling: 3600,
-      conditions: 'Coastal turbulence and low marine layer',
-    },
-  },
-  'KMSY-KHOU': {
-    departure: {
-      windSpeed: 14,
-      visibility: 2.5,
-      ceiling: 2200,
-      conditions: 'Humid morning haze with low visibilities',
-    },
-    arrival: {
-      windSpeed: 12,
-      visibility: 3,
-      ceiling: 2600,
-      conditions: 'Patchy coastal fog lifting slowly',
-    },
-    corridor: {
-      windSpeed: 13,
-      visibility: 2.8,
-      ceiling: 2400,
-      conditions: 'Low-level moisture along the gulf',
-    },
-  },
-  'KDEN-KASE': {
-    departure: {
-      windSpeed: 28,
-      visibility: 3,
-      ceiling: 2200,
-      conditions: 'Mountain wave turbulence with blowing snow',
-    },
-    arrival: {
-      windSpeed: 26,
-      visibility: 2.5,
-      ceiling: 2000,
-      conditions: 'Snow showers in valleys',
-    },
-    corridor: {
-      windSpeed: 30,
-      visibility: 2.8,
-      ceiling: 2100,
-      conditions: 'Mountain pass turbulence',
-    },
-  },
-  'KSEA-KPDX': {
-    departure: {
-      windSpeed: 12,
-      visibility: 4,
-      ceiling: 1200,
-      conditions: 'Low stratus deck with drizzle',
-    },
-    arrival: {
-      windSpeed: 13,
-      visibility: 3.5,
-      ceiling: 1000,
-      conditions: 'IFR conditions with light rain',
-    },
-    corridor: {
-      windSpeed: 15,
-      visibility: 3.8,
-      ceiling: 1100,
-      conditions: 'Columbia Gorge fog',
-    },
-  },
-  'KORD-KGRB': {
-    departure: {
-      windSpeed: 24,
-      visibility: 4.5,
-      ceiling: 2800,
-      conditions: 'Strong gusty winds off the lake',
-    },
-    arrival: {
-      windSpeed: 20,
-      visibility: 4,
-      ceiling: 2600,
-      conditions: 'Lake-effect clouds with gusty winds',
-    },
-    corridor: {
-      windSpeed: 22,
-      visibility: 4.2,
-      ceiling: 2700,
-      conditions: 'Wind shear along the corridor',
-    },
-  },
-  'KBOS-KBTV': {
-    departure: {
-      windSpeed: 16,
-      visibility: 2.8,
-      ceiling: 1500,
-      conditions: 'Low IFR with light snow',
-    },
-    arrival: {
-      windSpeed: 14,
-      visibility: 2.5,
-      ceiling: 1400,
-      conditions: 'Wintry mix and low clouds',
-    },
-    corridor: {
-      windSpeed: 17,
-      visibility: 2.6,
-      ceiling: 1450,
-      conditions: 'Snow bands through interior New England',
-    },
-  },
-  'KPHX-KABQ': {
-    departure: {
-      windSpeed: 18,
-      visibility: 6,
-      ceiling: null,
-      conditions: 'Hot, dry thermals with light turbulence',
-    },
-    arrival: {
-      windSpeed: 16,
-      visibility: 6,
-      ceiling: null,
-      conditions: 'Dry heat with light mountain turbulence',
-    },
-    corridor: {
-      windSpeed: 19,
-      visibility: 6,
-      ceiling: null,
-      conditions: 'Thermal activity along desert corridor',
-    },
-  },
-  'PANC-PAJN': {
-    departure: {
-      windSpeed: 22,
-      visibility: 2.2,
-      ceiling: 1800,
-      conditions: 'Freezing fog with light snow',
-    },
-    arrival: {
-      windSpeed: 18,
-      visibility: 2,
-      ceiling: 1700,
-      conditions: 'Coastal icing conditions',
-    },
-    corridor: {
-      windSpeed: 21,
-      visibility: 2.1,
-      ceiling: 1750,
-      conditions: 'Icing risk along the fjords',
-    },
-  },
-  'KDTW-KCLE': {
-    departure: {
-      windSpeed: 15,
-      visibility: 2.2,
-      ceiling: 1900,
-      conditions: 'Lake-effect snow reducing visibility',
-    },
-    arrival: {
-      windSpeed: 14,
-      visibility: 2.5,
-      ceiling: 1700,
-      conditions: 'Snow showers with low ceilings',
-    },
-    corridor: {
-      windSpeed: 16,
-      visibility: 2.3,
-      ceiling: 1800,
-      conditions: 'Snow squalls across Lake Erie',
-    },
-  },
-};
-
 // ========================================
-// Retry Logic
+// Corridor Sampling
 // ========================================
 
 /**
- * Calculates exponential backoff delay for retry attempts
- * @param attempt - Current retry attempt (0-indexed)
- * @returns Delay in milliseconds
+ * Ranks forecast severity for choosing the worst corridor waypoint
+ * Flight category dominates, then peak wind, then visibility and ceiling
+ * @param forecast - Forecast to rank
+ * @returns Sort key tuple (higher is worse)
  */
-function getRetryDelay(attempt: number): number {
-  return Math.min(
-    RETRY_CONFIG.baseDelay * Math.pow(2, attempt),
-    RETRY_CONFIG.maxDelay
-  );
+function getSeverityKey(forecast: ForecastData): number[] {
+  const categoryRank = { VFR: 0, MVFR: 1, IFR: 2, LIFR: 3 }[
+    getFlightCategory(forecast.visibility, forecast.ceiling)
+  ];
+  return [
+    categoryRank,
+    Math.max(forecast.windSpeed, forecast.gustSpeed ?? 0),
+    -forecast.visibility,
+    -(forecast.ceiling ?? Number.MAX_SAFE_INTEGER),
+  ];
 }
 
 /**
- * Determines if an error should be retried
- * @param statusCode - HTTP status code
- * @returns True if error is retryable
+ * Selects the most severe waypoint
+ * @param waypoints - Sampled waypoints (non-empty)
+ * @returns Worst waypoint; ties resolve to the waypoint nearest departure
  */
-function isRetryableError(statusCode: number): boolean {
-  // Retry on 5xx errors and 429 Too Many Requests
-  return statusCode >= 500 || statusCode === 429;
-}
-
-/**
- * Sleeps for specified milliseconds
- * @param ms - Milliseconds to sleep
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function selectWorstWaypoint(waypoints: CorridorWaypointWeather[]): CorridorWaypointWeather {
+  return waypoints.reduce((worst, candidate) => {
+    const a = getSeverityKey(candidate);
+    const b = getSeverityKey(worst);
+    for (let i = 0; i < a.length; i++) {
+      const diff = (a[i] ?? 0) - (b[i] ?? 0);
+      if (diff !== 0) {
+        return diff > 0 ? candidate : worst;
+      }
+    }
+    return worst;
+  });
 }
 
-// ========================================
-// WeatherAPI.com Client
-// ========================================
-
 /**
- * Retrieves cached ETag for a location and forecast time
+ * Samples corridor weather at waypoints along the great-circle route
+ * Each waypoint is forecast at its own estimated time over the point, assuming
+ * constant ground speed between departure and arrival. The worst waypoint becomes
+ * the corridor checkpoint. Routes with unknown airport coordinates fall back to
+ * the departure airport at departure time.
  * @param ctx - Execution context
- * @param location - Location identifier
- * @param forecastTime - Forecast datetime
- * @returns ETag string or null
+ * @param provider - Weather provider
+ * @param flight - Flight record
+ * @param airports - Airport reference data keyed by ICAO code
+ * @param cache - Forecast cache shared across the poll run
+ * @returns Corridor forecast with all sampled waypoints
  */
-async function getCachedETag(
+async function getCorridorWeather(
   ctx: ExecutionContext,
-  location: string,
-  forecastTime: string
-): Promise<string | null> {
-  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  provider: WeatherProvider,
+  flight: Flight,
+  airports: Map<string, AirportDetail>,
+  cache: ForecastCache
+): Promise<CheckpointForecast> {
+  const hints = {
+    route: `${flight.departure_airport}-${flight.arrival_airport}`,
+    checkpointType: 'corridor' as const,
+  };
 
-  const snapshot = await prepareQueryOne<WeatherSnapshot>(
-    client,
-    `SELECT etag FROM weather_snapshots
-     WHERE location = ? AND forecast_time = ?
-     ORDER BY created_at DESC LIMIT 1`,
-    [location, forecastTime]
-  );
+  const departure = airports.get(flight.departure_airport);
+  const arrival = airports.get(flight.arrival_airport);
 
-  return snapshot?.etag || null;
-}
-
-/**
- * Fetches weather forecast data from WeatherAPI.com with retry logic and ETag support
- * @param ctx - Execution context
- * @param location - Airport ICAO code or coordinates
- * @param datetime - Forecast datetime (ISO 8601)
- * @returns Parsed forecast data
- */
-async function fetchWeatherData(
-  ctx: ExecutionContext,
-  location: string,
-  datetime: string
-): Promise<ForecastData> {
-  const forecastDate = new Date(datetime);
-  const dateStr = forecastDate.toISOString().split('T')[0] || forecastDate.toISOString(); // YYYY-MM-DD
-  const hour = forecastDate.getUTCHours();
-
-  let lastError: Error | null = null;
-
-  // Validate API key is present
-  if (!ctx.env.WEATHER_API_KEY) {
-    throw new Error('WEATHER_API_KEY environment variable is not configured');
+  if (!departure || !arrival) {
+    ctx.logger.warn('Airport coordinates unavailable, sampling corridor at departure airport', {
+      flightId: flight.id,
+      departureAirport: flight.departure_airport,
+      arrivalAirport: flight.arrival_airport,
+    });
+    return cache.fetchPointForecast(ctx, provider, flight.departure_airport, flight.departure_time, hints);
   }
 
-  const apiKey: string = ctx.env.WEATHER_API_KEY;
-
-  // Get cached ETag if available
-  const cachedETag = await getCachedETag(ctx, location, datetime);
-
-  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
-    try {
-      ctx.logger.info('Weather API request started', {
-        location,
-        forecastTime: datetime,
-        endpoint: WEATHER_API_ENDPOINT,
-        attempt: attempt + 1,
-        hasETag: !!cachedETag,
-      });
-
-      const url = new URL(WEATHER_API_ENDPOINT);
-      url.searchParams.set('key', apiKey);
-      url.searchParams.set('q', location);
-      url.searchParams.set('dt', dateStr);
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      // Add If-None-Match header if we have a cached ETag
-      if (cachedETag) {
-        headers['If-None-Match'] = cachedETag;
-      }
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers,
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
-      });
-
-      // Handle 304 Not Modified - return cached data
-      if (response.status === 304) {
-        ctx.logger.info('Weather API returned 304 Not Modified, using cached data', {
-          location,
-          forecastTime: datetime,
-        });
-
-        // Fetch and return cached data
-        const client = createClient(ctx.env.AIRESCHEDULER_DB);
-        const cached = await prepareQueryOne<WeatherSnapshot>(
-          client,
-          `SELECT * FROM weather_snapshots
-           WHERE location = ? AND forecast_time = ?
-           ORDER BY created_at DESC LIMIT 1`,
-          [location, datetime]
-        );
-
-        if (!cached) {
-          throw new Error('304 response received but no cached data found');
-        }
-
-        return {
-          location: cached.location,
-          forecastTime: cached.forecast_time,
-          windSpeed: cached.wind_speed,
-          visibility: cached.visibility,
-          ceiling: cached.ceiling,
-          conditions: cached.conditions,
-          confidenceHorizon: cached.confidence_horizon,
-        };
-      }
-
-      if (!response.ok) {
-        if (attempt < RETRY_CONFIG.maxRetries && isRetryableError(response.status)) {
-          const delay = getRetryDelay(attempt);
-          ctx.logger.warn('Weather API request failed, retrying', {
-            location,
-            attempt: attempt + 1,
-            statusCode: response.status,
-            nextRetryDelay: delay,
-          });
-          await sleep(delay);
-          continue;
-        }
-
-        throw new Error(`Weather API returned ${response.status}: ${response.statusText}`);
-      }
-
-      const data: WeatherApiResponse = await response.json();
-
-      // Extract and store ETag from response headers
-      const etag = response.headers.get('ETag');
-
-      ctx.logger.info('Weather API request succeeded', {
-        location,
-        statusCode: response.status,
-        hasETag: !!etag,
-      });
-
-      // Find the specific hour in the forecast
-      const forecastDay = data.forecast.forecastday[0];
-      if (!forecastDay) {
-        throw new Error('No forecast data available for date');
-      }
-
-      const hourData = forecastDay.hour.find((h) => new Date(h.time).getUTCHours() === hour);
-      if (!hourData) {
-        throw new Error(`No forecast data for hour ${hour}`);
-      }
+  const departureMs = new Date(flight.departure_time).getTime();
+  const arrivalMs = new Date(flight.arrival_time).getTime();
+  const points = sampleRouteWaypoints(
+    toCoordinates(departure),
+    toCoordinates(arrival),
+    CORRIDOR_WAYPOINT_COUNT
+  );
 
-      // Map API response to our schema and include ETag
-      const forecastData = mapWeatherResponse(location, hourData);
-      forecastData.etag = etag;
-      return forecastData;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (attempt < RETRY_CONFIG.maxRetries && (error instanceof TypeError || (error as any).name === 'AbortError')) {
-        const delay = getRetryDelay(attempt);
-        ctx.logger.warn('Weather API request failed, retrying', {
-          location,
-          attempt: attempt + 1,
-          nextRetryDelay: delay,
-          error: lastError.message,
-        });
-        await sleep(delay);
-        continue;
-      }
+  const waypoints: CorridorWaypointWeather[] = [];
+  for (const [index, point] of points.entries()) {
+    const eta = new Date(departureMs + point.fraction * (arrivalMs - departureMs)).toISOString();
+    const nearest = findNearestAirport(airports.values(), point);
+
+    const forecast = await cache.fetchPointForecast(
+      ctx,
+      provider,
+      nearest?.icao ?? flight.departure_airport,
+      eta,
+      hints,
+      point
+    );
 
-      break;
-    }
+    waypoints.push({
+      ...forecast,
+      location: formatCoordinates(point),
+      sequence: index + 1,
+      latitude: point.lat,
+      longitude: point.lon,
+      distanceNm: Math.round(point.distanceNm * 10) / 10,
+      nearestAirport: nearest?.icao ?? null,
+      isWorst: false,
+    });
   }
 
-  ctx.logger.error('Weather API request failed after retries', {
-    location,
-    attempts: RETRY_CONFIG.maxRetries + 1,
-    error: lastError?.message,
-    stack: lastError?.stack,
-  });
-
-  throw lastError || new Error('Weather API request failed');
-}
-
-/**
- * Maps WeatherAPI.com hour data to our ForecastData schema
- * @param location - Location identifier
- * @param hourData - Hour data from API response
- * @returns Parsed forecast data
- */
-function mapWeatherResponse(
-  location: string,
-  hourData: WeatherApiResponse['forecast']['forecastday'][0]['hour'][0]
-): ForecastData {
-  // Convert wind speed from kph to knots
-  const windSpeed = Math.round(hourData.wind_kph * 0.539957);
+  const worst = selectWorstWaypoint(waypoints);
+  worst.isWorst = true;
 
-  // Estimate ceiling from cloud coverage
-  // If cloud < 10%, assume unlimited ceiling (NULL)
-  // Otherwise estimate: 10000 - (cloud * 100) feet AGL
-  const ceiling = hourData.cloud < 10 ? null : Math.round(10000 - hourData.cloud * 100);
-
-  // Calculate confidence horizon
-  const confidenceHorizon = calculateConfidenceHorizon(hourData.time);
+  ctx.logger.info('Corridor waypoints sampled', {
+    flightId: flight.id,
+    waypointCount: waypoints.length,
+    worstSequence: worst.sequence,
+    worstLocation: worst.location,
+  });
 
   return {
-    location,
-    forecastTime: hourData.time,
-    windSpeed,
-    visibility: hourData.vis_miles,
-    ceiling,
-    conditions: hourData.condition.text,
-    confidenceHorizon,
+    location: worst.location,
+    forecastTime: worst.forecastTime,
+    windSpeed: worst.windSpeed,
+    windDirection: worst.windDirection,
+    gustSpeed: worst.gustSpeed,
+    visibility: worst.visibility,
+    ceiling: worst.ceiling,
+    conditions: worst.conditions,
+    temperature: worst.temperature,
+    altimeter: worst.altimeter,
+    freezingLevel: worst.freezingLevel,
+    // A hazard anywhere along the route applies to the whole corridor
+    hazards: Array.from(new Set(waypoints.flatMap((waypoint) => waypoint.hazards ?? []))),
+    confidenceHorizon: worst.confidenceHorizon,
+    etag: worst.etag,
+    provider: worst.provider,
+    waypoints,
   };
 }
 
-// ========================================
-// Confidence Horizon Calculation
-// ========================================
-
-/**
- * Calculates confidence horizon based on forecast time
- * @param forecastTime - ISO 8601 forecast datetime
- * @returns Confidence horizon in hours
- */
-function calculateConfidenceHorizon(forecastTime: string): number {
-  const forecastDate = new Date(forecastTime);
-  const now = new Date();
-  const hoursUntilForecast = (forecastDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-  // Forecast confidence degrades over time
-  // <24h: high confidence (24 hours)
-  // 24-72h: medium confidence (48 hours)
-  // >72h: low confidence (72 hours)
-  if (hoursUntilForecast < 24) return 24;
-  if (hoursUntilForecast < 72) return 48;
-  return 72;
-}
-
 // ========================================
 // Checkpoint Weather Retrieval
 // ========================================
@@ -612,30 +241,44 @@ function calculateConfidenceHorizon(forecastTime: string): number {
  * Retrieves weather for all checkpoints of a flight
  * @param ctx - Execution context
  * @param flight - Flight record
+ * @param airports - Airport reference data keyed by ICAO code
+ * @param cache - Forecast cache shared across the poll run
+ * @param useFallbacks - Whether a failed remote fetch falls back to cached snapshots and synthetic data
  * @returns Array of checkpoint weather data
  */
 async function getCheckpointWeather(
   ctx: ExecutionContext,
-  flight: Flight
+  flight: Flight,
+  airports: Map<string, AirportDetail>,
+  cache: ForecastCache,
+  useFallbacks: boolean
 ): Promise<CheckpointWeather[]> {
   const checkpoints: CheckpointWeather[] = [];
-
-  const departure = await resolveCheckpointWeather(ctx, flight, 'departure', () =>
-    fetchWeatherData(ctx, flight.departure_airport, flight.departure_time)
+  const provider = getWeatherProvider(ctx);
+  const route = `${flight.departure_airport}-${flight.arrival_airport}`;
+
+  const departure = await resolveCheckpointWeather(ctx, provider, flight, airports, 'departure', useFallbacks, (p) =>
+    cache.fetchPointForecast(ctx, p, flight.departure_airport, flight.departure_time, {
+      route,
+      checkpointType: 'departure',
+    })
   );
   if (departure) {
     checkpoints.push(departure);
   }
 
-  const arrival = await resolveCheckpointWeather(ctx, flight, 'arrival', () =>
-    fetchWeatherData(ctx, flight.arrival_airport, flight.arrival_time)
+  const arrival = await resolveCheckpointWeather(ctx, provider, flight, airports, 'arrival', useFallbacks, (p) =>
+    cache.fetchPointForecast(ctx, p, flight.arrival_airport, flight.arrival_time, {
+      route,
+      checkpointType: 'arrival',
+    })
   );
   if (arrival) {
     checkpoints.push(arrival);
   }
 
-  const corridor = await resolveCheckpointWeather(ctx, flight, 'corridor', () =>
-    fetchWeatherData(ctx, flight.departure_airport, flight.departure_time)
+  const corridor = await resolveCheckpointWeather(ctx, provider, flight, airports, 'corridor', useFallbacks, (p) =>
+    getCorridorWeather(ctx, p, flight, airports, cache)
   );
   if (corridor) {
     checkpoints.push(corridor);
@@ -644,101 +287,176 @@ async function getCheckpointWeather(
   return checkpoints;
 }
 
+/**
+ * Attaches checkpoint identity, best-runway wind components and density altitude to a forecast
+ * Components use the gust speed when reported; corridor checkpoints have no runway
+ * and no field elevation, so they carry neither
+ * @param forecast - Checkpoint forecast
+ * @param flightId - Flight ID
+ * @param checkpointType - Checkpoint type
+ * @param airports - Airport reference data keyed by ICAO code
+ * @returns Checkpoint weather
+ */
+function toCheckpointWeather(
+  forecast: CheckpointForecast,
+  flightId: number,
+  checkpointType: CheckpointType,
+  airports: Map<string, AirportDetail>
+): CheckpointWeather {
+  if (checkpointType === 'corridor') {
+    return {
+      ...forecast,
+      checkpointType,
+      flightId,
+      runway: null,
+      crosswindComponent: null,
+      headwindComponent: null,
+      densityAltitude: null,
+    };
+  }
+
+  const airport = airports.get(forecast.location);
+  const assessment = selectBestRunway(
+    airport?.runways ?? [],
+    forecast.windDirection ?? null,
+    Math.max(forecast.windSpeed, forecast.gustSpeed ?? 0)
+  );
+
+  return {
+    ...forecast,
+    checkpointType,
+    flightId,
+    runway: assessment.runway,
+    crosswindComponent: assessment.crosswind,
+    headwindComponent: assessment.headwind,
+    densityAltitude: airport
+      ? calculateDensityAltitude(airport.elevationFt, forecast.temperature, forecast.altimeter)
+      : null,
+  };
+}
+
+/**
+ * Maps a corridor waypoint row to CorridorWaypointWeather format
+ */
+function mapWaypointRow(
+  row: CorridorWaypoint,
+  snapshot: WeatherSnapshot
+): CorridorWaypointWeather {
+  return {
+    location: formatCoordinates({ lat: row.latitude, lon: row.longitude }),
+    forecastTime: row.eta,
+    windSpeed: row.wind_speed,
+    visibility: row.visibility,
+    ceiling: row.ceiling,
+    conditions: row.conditions,
+    confidenceHorizon: snapshot.confidence_horizon,
+    provider: snapshot.provider ?? 'weatherapi',
+    sequence: row.sequence,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    distanceNm: row.distance_nm,
+    nearestAirport: row.nearest_airport,
+    isWorst: row.is_worst === 1,
+  };
+}
+
 /**
  * Maps cached snapshot to CheckpointWeather format
+ * Corridor snapshots bring their stored waypoints along
  */
-function mapCachedToCheckpoint(
+async function mapCachedToCheckpoint(
+  ctx: ExecutionContext,
   cached: CachedWeatherData,
   flightId: number,
   checkpointType: 'departure' | 'arrival' | 'corridor'
-): CheckpointWeather {
+): Promise<CheckpointWeather> {
+  let waypoints: CorridorWaypointWeather[] | undefined;
+  if (checkpointType === 'corridor') {
+    const rows = await getCorridorWaypoints(ctx, [cached.data.id]);
+    waypoints = rows.length > 0 ? rows.map((row) => mapWaypointRow(row, cached.data)) : undefined;
+  }
+
   return {
     location: cached.data.location,
     forecastTime: cached.data.forecast_time,
     windSpeed: cached.data.wind_speed,
+    windDirection: cached.data.wind_direction,
+    gustSpeed: cached.data.gust_speed,
     visibility: cached.data.visibility,
     ceiling: cached.data.ceiling,
     conditions: cached.data.conditions,
+    temperature: cached.data.temperature,
+    altimeter: cached.data.altimeter,
+    freezingLevel: cached.data.freezing_level,
+    hazards: parseHazards(cached.data.hazards),
     confidenceHorizon: cached.data.confidence_horizon,
+    // Snapshots persisted before provenance tracking are assumed to be WeatherAPI.com
+    provider: cached.data.provider ?? 'weatherapi',
+    waypoints,
     checkpointType,
     flightId,
+    runway: cached.data.runway,
+    crosswindComponent: cached.data.crosswind_component,
+    headwindComponent: cached.data.headwind_component,
+    densityAltitude: cached.data.density_altitude,
   };
 }
 
-function generateSyntheticForecast(
-  ctx: ExecutionContext,
-  flight: Flight,
-  checkpointType: CheckpointType
-): ForecastData | null {
-  const profileKey = `${flight.departure_airport}-${flight.arrival_airport}`;
-  const profile = SYNTHETIC_WEATHER_PROFILES[profileKey];
-  const baseCondition =
-    profile?.[checkpointType] ??
-    (checkpointType !== 'departure' ? profile?.departure : undefined) ??
-    DEFAULT_SYNTHETIC_CONDITION;
-
-  if (!baseCondition) {
-    return null;
-  }
-
-  const location =
-    checkpointType === 'arrival' ? flight.arrival_airport : flight.departure_airport;
-  const forecastTime =
-    checkpointType === 'arrival' ? flight.arrival_time : flight.departure_time;
-
-  ctx.logger.info('Using synthetic weather data', {
-    flightId: flight.id,
-    checkpointType,
-    profileKey,
-    location,
-  });
-
-  return {
-    location,
-    forecastTime,
-    windSpeed: baseCondition.windSpeed,
-    visibility: baseCondition.visibility,
-    ceiling: baseCondition.ceiling,
-    conditions: baseCondition.conditions,
-    confidenceHorizon:
-      baseCondition.confidenceHorizon ??
-      calculateConfidenceHorizon(forecastTime),
-  };
-}
-
+/**
+ * Resolves weather for a checkpoint
+ * Tries the configured provider, then the latest cached snapshot, then synthetic data.
+ * Without fallbacks a failed remote fetch produces no data.
+ * @param ctx - Execution context
+ * @param provider - Configured weather provider
+ * @param flight - Flight record
+ * @param airports - Airport reference data keyed by ICAO code
+ * @param checkpointType - Checkpoint type
+ * @param useFallbacks - Whether to fall back to cached and synthetic data after a remote failure
+ * @param fetchCheckpoint - Fetches the checkpoint forecast from a given provider
+ * @returns Checkpoint weather, or null if no source produced data
+ */
 async function resolveCheckpointWeather(
   ctx: ExecutionContext,
+  provider: WeatherProvider,
   flight: Flight,
+  airports: Map<string, AirportDetail>,
   checkpointType: CheckpointType,
-  fetchRemote?: () => Promise<ForecastData>
+  useFallbacks: boolean,
+  fetchCheckpoint: (provider: WeatherProvider) => Promise<CheckpointForecast>
 ): Promise<CheckpointWeather | null> {
-  const syntheticMode = !ctx.env.WEATHER_API_KEY;
+  const fallback = getFallbackProvider();
   let remoteError: Error | null = null;
 
-  if (!syntheticMode && fetchRemote) {
+  if (provider !== fallback) {
     try {
-      const weather = await fetchRemote();
-      return {
-        ...weather,
-        checkpointType,
-        flightId: flight.id,
-      };
+      const weather = await fetchCheckpoint(provider);
+      return toCheckpointWeather(weather, flight.id, checkpointType, airports);
     } catch (error) {
       remoteError = error instanceof Error ? error : new Error(String(error));
+      if (!useFallbacks) {
+        ctx.logger.warn('Failed to fetch weather data, no fallbacks', {
+          flightId: flight.id,
+          checkpointType,
+          provider: provider.name,
+          error: remoteError.message,
+        });
+        return null;
+      }
       ctx.logger.warn('Failed to fetch weather data, attempting fallbacks', {
         flightId: flight.id,
         checkpointType,
+        provider: provider.name,
         error: remoteError.message,
       });
     }
-  } else if (syntheticMode) {
+  } else {
     ctx.logger.info('Skipping remote weather fetch (synthetic mode)', {
       flightId: flight.id,
       checkpointType,
     });
   }
 
-  const cached = await getCachedWeatherSnapshot(ctx, flight.id, checkpointType);
+  const cached = useFallbacks ? await getCachedWeatherSnapshot(ctx, flight.id, checkpointType) : null;
   if (cached) {
     if (remoteError) {
       ctx.logger.info('Using cached weather snapshot after remote failure', {
@@ -747,23 +465,18 @@ async function resolveCheckpointWeather(
         cachedAgeHours: cached.staleHours,
       });
     }
-    return mapCachedToCheckpoint(cached, flight.id, checkpointType);
+    return mapCachedToCheckpoint(ctx, cached, flight.id, checkpointType);
   }
 
-  const synthetic = generateSyntheticForecast(ctx, flight, checkpointType);
-  if (synthetic) {
-    return {
-      ...synthetic,
-      checkpointType,
-      flightId: flight.id,
-    };
-  }
-
-  if (remoteError) {
+  // Reached without fallbacks only in synthetic mode, where synthetic data is the configured source
+  try {
+    const synthetic = await fetchCheckpoint(fallback);
+    return toCheckpointWeather(synthetic, flight.id, checkpointType, airports);
+  } catch (error) {
     ctx.logger.error('No weather data available after remote failure', {
       flightId: flight.id,
       checkpointType,
-      error: remoteError.message,
+      error: remoteError?.message ?? (error instanceof Error ? error.message : 'Unknown error'),
     });
   }
 
@@ -776,6 +489,7 @@ async function resolveCheckpointWeather(
 
 /**
  * Persists weather snapshot to D1 database
+ * Corridor checkpoints also persist their sampled waypoints
  * @param ctx - Execution context
  * @param checkpoint - Checkpoint weather data
  */
@@ -784,37 +498,165 @@ async function persistWeatherSnapshot(
   checkpoint: CheckpointWeather
 ): Promise<void> {
   const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const createdAt = new Date().toISOString();
 
-  await prepareExec(
+  const result = await prepareExec(
     client,
     `INSERT INTO weather_snapshots
-     (flight_id, checkpoint_type, location, forecast_time, wind_speed,
-      visibility, ceiling, conditions, confidence_horizon, correlation_id, etag, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+     (flight_id, checkpoint_type, location, forecast_time, wind_speed, wind_direction, gust_speed,
+      visibility, ceiling, conditions, confidence_horizon, runway, crosswind_component,
+      headwind_component, temperature, freezing_level, hazards, altimeter, density_altitude,
+      correlation_id, etag, provider, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       checkpoint.flightId,
       checkpoint.checkpointType,
       checkpoint.location,
       checkpoint.forecastTime,
       checkpoint.windSpeed,
+      checkpoint.windDirection ?? null,
+      checkpoint.gustSpeed ?? null,
       checkpoint.visibility,
       checkpoint.ceiling,
       checkpoint.conditions,
       checkpoint.confidenceHorizon,
+      checkpoint.runway,
+      checkpoint.crosswindComponent,
+      checkpoint.headwindComponent,
+      checkpoint.temperature ?? null,
+      checkpoint.freezingLevel ?? null,
+      JSON.stringify(checkpoint.hazards ?? []),
+      checkpoint.altimeter ?? null,
+      checkpoint.densityAltitude,
       ctx.correlationId,
       checkpoint.etag || null,
-      new Date().toISOString(),
+      checkpoint.provider,
+      createdAt,
     ]
   );
 
+  const snapshotId = result.meta.last_row_id as number;
+
+  for (const waypoint of checkpoint.waypoints ?? []) {
+    await prepareExec(
+      client,
+      `INSERT INTO corridor_waypoints
+       (snapshot_id, sequence, latitude, longitude, distance_nm, nearest_airport, eta,
+        wind_speed, visibility, ceiling, conditions, is_worst, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        snapshotId,
+        waypoint.sequence,
+        waypoint.latitude,
+        waypoint.longitude,
+        waypoint.distanceNm,
+        waypoint.nearestAirport,
+        waypoint.forecastTime,
+        waypoint.windSpeed,
+        waypoint.visibility,
+        waypoint.ceiling,
+        waypoint.conditions,
+        waypoint.isWorst ? 1 : 0,
+        createdAt,
+      ]
+    );
+  }
+
   ctx.logger.info('Weather snapshot persisted', {
     flightId: checkpoint.flightId,
     checkpointType: checkpoint.checkpointType,
     location: checkpoint.location,
+    provider: checkpoint.provider,
+    waypointCount: checkpoint.waypoints?.length ?? 0,
     hasETag: !!checkpoint.etag,
   });
 }
 
+/**
+ * Retrieves stored corridor waypoints for a set of snapshots
+ * @param ctx - Execution context
+ * @param snapshotIds - Corridor snapshot IDs
+ * @returns Waypoint rows ordered by snapshot and sequence
+ */
+async function getCorridorWaypoints(
+  ctx: ExecutionContext,
+  snapshotIds: number[]
+): Promise<CorridorWaypoint[]> {
+  if (snapshotIds.length === 0) {
+    return [];
+  }
+
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+  const placeholders = snapshotIds.map(() => '?').join(',');
+
+  return prepareQuery<CorridorWaypoint>(
+    client,
+    `SELECT * FROM corridor_waypoints
+     WHERE snapshot_id IN (${placeholders})
+     ORDER BY snapshot_id, sequence`,
+    snapshotIds
+  );
+}
+
+// ========================================
+// Unsaved Forecasts
+// ========================================
+
+/**
+ * Maps checkpoint weather to the snapshot shape classification evaluates, without persisting it
+ * @param ctx - Execution context
+ * @param checkpoint - Checkpoint weather data
+ * @returns Snapshot with ID 0
+ */
+function toUnsavedSnapshot(ctx: ExecutionContext, checkpoint: CheckpointWeather): WeatherSnapshot {
+  return {
+    id: 0,
+    flight_id: checkpoint.flightId,
+    checkpoint_type: checkpoint.checkpointType,
+    location: checkpoint.location,
+    forecast_time: checkpoint.forecastTime,
+    wind_speed: checkpoint.windSpeed,
+    wind_direction: checkpoint.windDirection ?? null,
+    gust_speed: checkpoint.gustSpeed ?? null,
+    visibility: checkpoint.visibility,
+    ceiling: checkpoint.ceiling,
+    conditions: checkpoint.conditions,
+    confidence_horizon: checkpoint.confidenceHorizon,
+    runway: checkpoint.runway,
+    crosswind_component: checkpoint.crosswindComponent,
+    headwind_component: checkpoint.headwindComponent,
+    temperature: checkpoint.temperature ?? null,
+    freezing_level: checkpoint.freezingLevel ?? null,
+    hazards: JSON.stringify(checkpoint.hazards ?? []),
+    altimeter: checkpoint.altimeter ?? null,
+    density_altitude: checkpoint.densityAltitude,
+    correlation_id: ctx.correlationId,
+    etag: checkpoint.etag || null,
+    provider: checkpoint.provider,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Forecasts every checkpoint of a flight at its own departure and arrival times
+ * Nothing is persisted. Used for candidate slots, which pass an unsaved flight (ID 0):
+ * a checkpoint whose remote fetch fails has no data rather than cached or synthetic
+ * weather, so the slot classifies as unknown instead of passing on made-up conditions.
+ * @param ctx - Execution context
+ * @param flight - Flight, possibly unsaved
+ * @param cache - Forecast cache shared across the flights being forecast
+ * @returns Unsaved snapshots, one per checkpoint that produced data
+ */
+export async function forecastFlightCheckpoints(
+  ctx: ExecutionContext,
+  flight: Flight,
+  cache: ForecastCache
+): Promise<WeatherSnapshot[]> {
+  const airports = await getAirportMap(ctx);
+  const checkpoints = await getCheckpointWeather(ctx, flight, airports, cache, false);
+  return checkpoints.map((checkpoint) => toUnsavedSnapshot(ctx, checkpoint));
+}
+
 // ========================================
 // Cache Fallback Logic
 // ========================================
@@ -934,6 +776,7 @@ export function calculateStaleness(createdAt: string): StalenessMetadata {
  */
 export interface WeatherSnapshotWithStaleness extends WeatherSnapshot {
   staleness?: StalenessMetadata;
+  waypoints?: CorridorWaypoint[]; // corridor snapshots only
 }
 
 /**
@@ -953,6 +796,7 @@ export interface GetWeatherSnapshotsRequest {
 export interface GetWeatherSnapshotsResponse {
   snapshots: WeatherSnapshotWithStaleness[];
   totalCount: number;
+  trends?: CheckpointTrend[]; // forecast trend per checkpoint
   flightContext?: {
     flightId: number;
     departureTime: string;
@@ -983,9 +827,11 @@ export async function getWeatherSnapshotsForFlight(
   try {
     const client = createClient(ctx.env.AIRESCHEDULER_DB);
 
-    // Build query with optional filters
-    let query = `SELECT ws.* FROM weather_snapshots ws WHERE ws.flight_id = ?`;
-    const params: any[] = [request.flightId];
+    // Build query with optional filters, scoped to the organization's flights
+    let query = `SELECT ws.* FROM weather_snapshots ws
+      JOIN flights f ON ws.flight_id = f.id
+      WHERE ws.flight_id = ? AND f.organization_id = ?`;
+    const params: any[] = [request.flightId, ctx.organizationId];
 
     if (request.checkpointType) {
       query += ` AND ws.checkpoint_type = ?`;
@@ -1007,20 +853,32 @@ export async function getWeatherSnapshotsForFlight(
 
     const snapshots = await prepareQuery<WeatherSnapshot>(client, query, params);
 
+    // Load sampled waypoints for corridor snapshots
+    const waypointRows = await getCorridorWaypoints(
+      ctx,
+      snapshots.filter((s) => s.checkpoint_type === 'corridor').map((s) => s.id)
+    );
+
     // Compute staleness for each snapshot
-    const snapshotsWithStaleness: WeatherSnapshotWithStaleness[] = snapshots.map((snapshot) => ({
-      ...snapshot,
-      staleness: calculateStaleness(snapshot.created_at),
-    }));
+    const snapshotsWithStaleness: WeatherSnapshotWithStaleness[] = snapshots.map((snapshot) => {
+      const waypoints = waypointRows.filter((row) => row.snapshot_id === snapshot.id);
+      return {
+        ...snapshot,
+        staleness: calculateStaleness(snapshot.created_at),
+        waypoints: waypoints.length > 0 ? waypoints : undefined,
+      };
+    });
 
     // Get flight context
     const flight = await prepareQueryOne<Flight>(
       client,
       `SELECT id, departure_time, arrival_time, departure_airport, arrival_airport
-       FROM flights WHERE id = ?`,
-      [request.flightId]
+       FROM flights WHERE id = ? AND organization_id = ?`,
+      [request.flightId, ctx.organizationId]
     );
 
+    const trends = flight ? await getCheckpointTrends(ctx, request.flightId) : [];
+
     const staleCount = snapshotsWithStaleness.filter((s) => s.staleness?.warning).length;
 
     ctx.logger.info('Weather snapshots retrieved', {
@@ -1048,6 +906,7 @@ export async function getWeatherSnapshotsForFlight(
     return {
       snapshots: snapshotsWithStaleness,
       totalCount: snapshots.length,
+      trends,
       flightContext: flight
         ? {
             flightId: flight.id,
@@ -1098,10 +957,12 @@ export async function getHistoricalSnapshots(
       client,
       `SELECT ws.*
        FROM weather_snapshots ws
-       WHERE ws.created_at BETWEEN ? AND ?
+       JOIN flights f ON ws.flight_id = f.id
+       WHERE f.organization_id = ?
+       AND ws.created_at BETWEEN ? AND ?
        ORDER BY ws.created_at DESC
        LIMIT ?`,
-      [startDate, endDate, safeLimit]
+      [ctx.organizationId, startDate, endDate, safeLimit]
     );
 
     // Compute staleness for each snapshot
@@ -1147,9 +1008,10 @@ export async function pollWeather(
   try {
     const client = createClient(ctx.env.AIRESCHEDULER_DB);
 
-    // Query flights within 7-day horizon
+    // Query flights within the weather horizon
+    const { weatherHorizonDays } = await getSettings(ctx);
     const now = new Date();
-    const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const horizonEnd = new Date(now.getTime() + weatherHorizonDays * 24 * 60 * 60 * 1000);
 
     let flights: Flight[];
     if (request.flightIds && request.flightIds.length > 0) {
@@ -1159,19 +1021,21 @@ export async function pollWeather(
         client,
         `SELECT * FROM flights
          WHERE id IN (${placeholders})
+         AND organization_id = ?
          AND status = 'scheduled'
          ORDER BY departure_time`,
-        request.flightIds
+        [...request.flightIds, ctx.organizationId]
       );
     } else {
-      // Query all flights in 7-day horizon
+      // Query all flights in the weather horizon
       flights = await prepareQuery<Flight>(
         client,
         `SELECT * FROM flights
-         WHERE departure_time >= ? AND departure_time <= ?
+         WHERE organization_id = ?
+         AND departure_time >= ? AND departure_time <= ?
          AND status = 'scheduled'
          ORDER BY departure_time`,
-        [now.toISOString(), sevenDaysFromNow.toISOString()]
+        [ctx.organizationId, now.toISOString(), horizonEnd.toISOString()]
       );
     }
 
@@ -1180,6 +1044,9 @@ export async function pollWeather(
     });
 
     let snapshotsCreated = 0;
+    const airports = await getAirportMap(ctx);
+    // Flights sharing a location and forecast hour reuse one provider result
+    const forecastCache = createForecastCache();
 
     // Process each flight
     for (const flight of flights) {
@@ -1192,7 +1059,7 @@ export async function pollWeather(
         });
 
         // Get weather for all checkpoints
-        const checkpoints = await getCheckpointWeather(ctx, flight);
+        const checkpoints = await getCheckpointWeather(ctx, flight, airports, forecastCache, true);
 
         // Persist weather snapshots
         for (const checkpoint of checkpoints) {
@@ -1242,6 +1109,7 @@ export async function pollWeather(
         flightId: r.flightId,
         weatherStatus: r.weatherStatus,
       })),
+      forecastCache: forecastCache.getStats(),
     };
 
     ctx.logger.info('Weather poll completed', result);
@@ -0,0 +1,404 @@
+/**
+ * WeatherAPI.com Provider
+ * Fetches hourly forecasts from WeatherAPI.com with retry logic and ETag support
+ */
+
+import { ExecutionContext } from '../lib/logger';
+import { calculateConfidenceHorizon } from '../lib/weather-utils';
+import { formatCoordinates } from '../lib/geo';
+import { estimateFreezingLevel, extractHazards, parseHazards } from '../lib/weather-hazards';
+import { createClient, prepareQueryOne, WeatherSnapshot } from '../db/client';
+import { ForecastData, ForecastRequest, WeatherProvider } from './weather-provider';
+
+// ========================================
+// Constants
+// ========================================
+
+const WEATHER_API_ENDPOINT = 'https://api.weatherapi.com/v1/forecast.json';
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  baseDelay: 2000, // 2 seconds
+  maxDelay: 8000, // 8 seconds
+};
+
+// ========================================
+// Type Definitions
+// ========================================
+
+/**
+ * WeatherAPI.com request parameters
+ */
+export interface WeatherApiRequest {
+  location: string; // Airport ICAO code or lat,lon
+  datetime: string; // ISO 8601 datetime
+  fields?: string[]; // Optional fields filter
+}
+
+type WeatherApiHour = WeatherApiResponse['forecast']['forecastday'][0]['hour'][0];
+
+/**
+ * WeatherAPI.com JSON response structure
+ */
+export interface WeatherApiResponse {
+  location: {
+    name: string;
+    region: string;
+    country: string;
+    lat: number;
+    lon: number;
+  };
+  forecast: {
+    forecastday: Array<{
+      date: string; // YYYY-MM-DD
+      hour: Array<{
+        time_epoch: number;
+        time: string; // ISO 8601
+        temp_c: number;
+        temp_f: number;
+        condition: {
+          text: string;
+          code: number;
+        };
+        wind_mph: number;
+        wind_kph: number;
+        wind_degree: number;
+        wind_dir: string;
+        precip_in: number;
+        pressure_in: number;
+        humidity: number;
+        cloud: number;
+        vis_miles: number;
+        gust_mph: number;
+      }>;
+    }>;
+  };
+}
+
+// ========================================
+// Retry Logic
+// ========================================
+
+/**
+ * Calculates exponential backoff delay for retry attempts
+ * @param attempt - Current retry attempt (0-indexed)
+ * @returns Delay in milliseconds
+ */
+function getRetryDelay(attempt: number): number {
+  return Math.min(
+    RETRY_CONFIG.baseDelay * Math.pow(2, attempt),
+    RETRY_CONFIG.maxDelay
+  );
+}
+
+/**
+ * Determines if an error should be retried
+ * @param statusCode - HTTP status code
+ * @returns True if error is retryable
+ */
+function isRetryableError(statusCode: number): boolean {
+  // Retry on 5xx errors and 429 Too Many Requests
+  return statusCode >= 500 || statusCode === 429;
+}
+
+/**
+ * Sleeps for specified milliseconds
+ * @param ms - Milliseconds to sleep
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ========================================
+// WeatherAPI.com Client
+// ========================================
+
+/**
+ * Retrieves cached ETag for a location and forecast time
+ * @param ctx - Execution context
+ * @param location - Location identifier
+ * @param forecastTime - Forecast datetime
+ * @returns ETag string or null
+ */
+async function getCachedETag(
+  ctx: ExecutionContext,
+  location: string,
+  forecastTime: string
+): Promise<string | null> {
+  const client = createClient(ctx.env.AIRESCHEDULER_DB);
+
+  const snapshot = await prepareQueryOne<WeatherSnapshot>(
+    client,
+    `SELECT etag FROM weather_snapshots
+     WHERE location = ? AND forecast_time = ?
+     ORDER BY created_at DESC LIMIT 1`,
+    [location, forecastTime]
+  );
+
+  return snapshot?.etag || null;
+}
+
+/**
+ * Fetches one forecast day from WeatherAPI.com with retry logic and ETag support
+ * @param ctx - Execution context
+ * @param location - Airport ICAO code or coordinates
+ * @param datetime - Forecast datetime used as the ETag cache key (ISO 8601)
+ * @param dateStr - Forecast date (YYYY-MM-DD)
+ * @returns Hourly forecast entries, or the cached snapshot on 304 Not Modified
+ */
+async function fetchWeatherDay(
+  ctx: ExecutionContext,
+  location: string,
+  datetime: string,
+  dateStr: string
+): Promise<{ hours: WeatherApiHour[]; etag: string | null } | { cached: WeatherSnapshot }> {
+  let lastError: Error | null = null;
+
+  // Validate API key is present
+  if (!ctx.env.WEATHER_API_KEY) {
+    throw new Error('WEATHER_API_KEY environment variable is not configured');
+  }
+
+  const apiKey: string = ctx.env.WEATHER_API_KEY;
+
+  // Get cached ETag if available
+  const cachedETag = await getCachedETag(ctx, location, datetime);
+
+  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    try {
+      ctx.logger.info('Weather API request started', {
+        location,
+        forecastTime: datetime,
+        endpoint: WEATHER_API_ENDPOINT,
+        attempt: attempt + 1,
+        hasETag: !!cachedETag,
+      });
+
+      const url = new URL(WEATHER_API_ENDPOINT);
+      url.searchParams.set('key', apiKey);
+      url.searchParams.set('q', location);
+      url.searchParams.set('dt', dateStr);
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+
+      // Add If-None-Match header if we have a cached ETag
+      if (cachedETag) {
+        headers['If-None-Match'] = cachedETag;
+      }
+
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+
+      // Handle 304 Not Modified - return cached data
+      if (response.status === 304) {
+        ctx.logger.info('Weather API returned 304 Not Modified, using cached data', {
+          location,
+          forecastTime: datetime,
+        });
+
+        // Fetch and return cached data
+        const client = createClient(ctx.env.AIRESCHEDULER_DB);
+        const cached = await prepareQueryOne<WeatherSnapshot>(
+          client,
+          `SELECT * FROM weather_snapshots
+           WHERE location = ? AND forecast_time = ?
+           ORDER BY created_at DESC LIMIT 1`,
+          [location, datetime]
+        );
+
+        if (!cached) {
+          throw new Error('304 response received but no cached data found');
+        }
+
+        return { cached };
+      }
+
+      if (!response.ok) {
+        if (attempt < RETRY_CONFIG.maxRetries && isRetryableError(response.status)) {
+          const delay = getRetryDelay(attempt);
+          ctx.logger.warn('Weather API request failed, retrying', {
+            location,
+            attempt: attempt + 1,
+            statusCode: response.status,
+            nextRetryDelay: delay,
+          });
+          await sleep(delay);
+          continue;
+        }
+
+        throw new Error(`Weather API returned ${response.status}: ${response.statusText}`);
+      }
+
+      const data: WeatherApiResponse = await response.json();
+
+      // Extract and store ETag from response headers
+      const etag = response.headers.get('ETag');
+
+      ctx.logger.info('Weather API request succeeded', {
+        location,
+        statusCode: response.status,
+        hasETag: !!etag,
+      });
+
+      const forecastDay = data.forecast.forecastday[0];
+      if (!forecastDay) {
+        throw new Error('No forecast data available for date');
+      }
+
+      return { hours: forecastDay.hour, etag };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      if (attempt < RETRY_CONFIG.maxRetries && (error instanceof TypeError || (error as any).name === 'AbortError')) {
+        const delay = getRetryDelay(attempt);
+        ctx.logger.warn('Weather API request failed, retrying', {
+          location,
+          attempt: attempt + 1,
+          nextRetryDelay: delay,
+          error: lastError.message,
+        });
+        await sleep(delay);
+        continue;
+      }
+
+      break;
+    }
+  }
+
+  ctx.logger.error('Weather API request failed after retries', {
+    location,
+    attempts: RETRY_CONFIG.maxRetries + 1,
+    error: lastError?.message,
+    stack: lastError?.stack,
+  });
+
+  throw lastError || new Error('Weather API request failed');
+}
+
+/**
+ * Maps WeatherAPI.com hour data to our ForecastData schema
+ * @param location - Location identifier
+ * @param hourData - Hour data from API response
+ * @returns Parsed forecast data
+ */
+function mapWeatherResponse(location: string, hourData: WeatherApiHour): ForecastData {
+  // Convert wind speed from kph to knots
+  const windSpeed = Math.round(hourData.wind_kph * 0.539957);
+
+  // Estimate ceiling from cloud coverage
+  // If cloud < 10%, assume unlimited ceiling (NULL)
+  // Otherwise estimate: 10000 - (cloud * 100) feet AGL
+  const ceiling = hourData.cloud < 10 ? null : Math.round(10000 - hourData.cloud * 100);
+
+  const forecastTime = new Date(hourData.time_epoch * 1000).toISOString();
+  const freezingLevel = estimateFreezingLevel(hourData.temp_c);
+
+  return {
+    location,
+    forecastTime,
+    windSpeed,
+    windDirection: hourData.wind_degree,
+    gustSpeed: Math.round(hourData.gust_mph * 0.868976),
+    visibility: hourData.vis_miles,
+    ceiling,
+    conditions: hourData.condition.text,
+    temperature: hourData.temp_c,
+    altimeter: hourData.pressure_in,
+    freezingLevel,
+    hazards: extractHazards({
+      conditions: hourData.condition.text,
+      conditionCode: hourData.condition.code,
+      freezingLevel,
+      ceiling,
+    }),
+    confidenceHorizon: calculateConfidenceHorizon(forecastTime),
+    provider: 'weatherapi',
+  };
+}
+
+/**
+ * Maps a cached snapshot (304 Not Modified) to our ForecastData schema
+ */
+function mapCachedSnapshot(cached: WeatherSnapshot): ForecastData {
+  return {
+    location: cached.location,
+    forecastTime: cached.forecast_time,
+    windSpeed: cached.wind_speed,
+    visibility: cached.visibility,
+    ceiling: cached.ceiling,
+    conditions: cached.conditions,
+    temperature: cached.temperature,
+    altimeter: cached.altimeter,
+    freezingLevel: cached.freezing_level,
+    hazards: parseHazards(cached.hazards),
+    confidenceHorizon: cached.confidence_horizon,
+    provider: 'weatherapi',
+  };
+}
+
+// ========================================
+// Provider Implementation
+// ========================================
+
+/**
+ * Fetches hourly forecasts covering a window, one API request per forecast day
+ * @param ctx - Execution context
+ * @param request - Forecast request
+ * @returns Forecast data ordered by forecast time
+ */
+async function fetchForecast(
+  ctx: ExecutionContext,
+  request: ForecastRequest
+): Promise<ForecastData[]> {
+  const windowStart = new Date(request.windowStart);
+  const windowEnd = new Date(Math.max(new Date(request.windowEnd).getTime(), windowStart.getTime()));
+
+  // Include the hour containing windowStart
+  const firstHour = new Date(windowStart);
+  firstHour.setUTCMinutes(0, 0, 0);
+
+  // WeatherAPI.com accepts "lat,lon" queries, so en-route samples use their exact position
+  const query = request.coordinates ? formatCoordinates(request.coordinates) : request.location;
+
+  const forecasts: ForecastData[] = [];
+  const day = new Date(firstHour);
+  day.setUTCHours(0);
+
+  while (day <= windowEnd) {
+    const dateStr = day.toISOString().split('T')[0] || day.toISOString(); // YYYY-MM-DD
+    const result = await fetchWeatherDay(ctx, query, request.windowStart, dateStr);
+
+    if ('cached' in result) {
+      return [mapCachedSnapshot(result.cached)];
+    }
+
+    for (const hourData of result.hours) {
+      const time = hourData.time_epoch * 1000;
+      if (time >= firstHour.getTime() && time <= windowEnd.getTime()) {
+        const forecast = mapWeatherResponse(query, hourData);
+        forecast.etag = result.etag;
+        forecasts.push(forecast);
+      }
+    }
+
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  if (forecasts.length === 0) {
+    throw new Error(`No forecast data for ${request.location} between ${request.windowStart} and ${request.windowEnd}`);
+  }
+
+  return forecasts;
+}
+
+export const weatherApiProvider: WeatherProvider = {
+  name: 'weatherapi',
+  isRealForecast: true,
+  fetchForecast,
+};
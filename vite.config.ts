@@ -3,7 +3,18 @@ import react from '@vitejs/plugin-react';
 import path from 'path';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Mirror wrangler's Text rule for *.csv so modules shared with the worker bundle here too
+    {
+      name: 'csv-text',
+      transform(code, id) {
+        if (id.endsWith('.csv')) {
+          return { code: `export default ${JSON.stringify(code)};`, map: null };
+        }
+      },
+    },
+  ],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),